@@ -1,2 +1,9 @@
 export { verifyAccessJWT } from './jwt';
-export { createAccessMiddleware, isDevMode, extractJWT } from './middleware';
+export {
+  createAccessMiddleware,
+  isDevMode,
+  extractJWT,
+  globalAdmin,
+  resolveAccessCaller,
+  resolveAccessUser,
+} from './middleware';
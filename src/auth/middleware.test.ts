@@ -1,9 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { isDevMode, isE2ETestMode, extractJWT } from './middleware';
-import type { MoltbotEnv } from '../types';
+import { isDevMode, isE2ETestMode, extractJWT, globalAdmin } from './middleware';
+import type { AccessUser, MoltbotEnv } from '../types';
 import type { Context } from 'hono';
 import type { AppEnv } from '../types';
-import { createMockEnv } from '../test-utils';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+const { verifyAccessJWT } = vi.hoisted(() => ({ verifyAccessJWT: vi.fn() }));
+vi.mock('./jwt', () => ({ verifyAccessJWT }));
 
 describe('isDevMode', () => {
   it('returns true when DEV_MODE is "true"', () => {
@@ -263,4 +266,73 @@ describe('createAccessMiddleware', () => {
     expect(next).not.toHaveBeenCalled();
     expect(redirectMock).toHaveBeenCalledWith('https://team.cloudflareaccess.com', 302);
   });
+
+  describe('with a service token', () => {
+    const access = { CF_ACCESS_TEAM_DOMAIN: 'team.cloudflareaccess.com', CF_ACCESS_AUD: 'aud123' };
+
+    beforeEach(() => {
+      suppressConsole();
+      verifyAccessJWT.mockResolvedValue({ common_name: 'ci.access', type: 'app' });
+    });
+
+    it('accepts it in single-tenant mode', async () => {
+      const { c } = createFullMockContext({ env: access, jwtHeader: 'jwt' });
+      const next = vi.fn();
+
+      await createAccessMiddleware({ type: 'json' })(c, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('refuses it in multi-tenant mode unless TENANT_MAP maps its client ID', async () => {
+      const { c, jsonMock } = createFullMockContext({
+        env: { ...access, MULTI_TENANT: 'true' },
+        jwtHeader: 'jwt',
+      });
+      const next = vi.fn();
+
+      await createAccessMiddleware({ type: 'json' })(c, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Forbidden', hint: expect.stringContaining('ci.access') }),
+        403,
+      );
+
+      const mapped = createFullMockContext({
+        env: { ...access, MULTI_TENANT: 'true', TENANT_MAP: '{"ci.access":"ci"}' },
+        jwtHeader: 'jwt',
+      });
+      await createAccessMiddleware({ type: 'json' })(mapped.c, next);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
+
+describe('globalAdmin', () => {
+  function contextFor(env: Partial<MoltbotEnv>, user?: AccessUser): Context<AppEnv> {
+    return {
+      env: createMockEnv(env),
+      get: (key: string) => (key === 'accessUser' ? user : undefined),
+    } as unknown as Context<AppEnv>;
+  }
+
+  const alice = { email: 'Alice@example.com' };
+  const serviceToken = { email: undefined as unknown as string, clientId: 'ci.access' };
+
+  it('only accepts the users in ADMIN_EMAILS when it is set', () => {
+    const env = { ADMIN_EMAILS: 'bob@example.com, alice@example.com', MULTI_TENANT: 'true' };
+
+    expect(globalAdmin(contextFor(env, alice))).toBe('Alice@example.com');
+    expect(globalAdmin(contextFor(env, { email: 'eve@example.com' }))).toBeNull();
+    expect(globalAdmin(contextFor(env, serviceToken))).toBeNull();
+    expect(globalAdmin(contextFor({ ADMIN_EMAILS: 'bob@example.com' }, serviceToken))).toBeNull();
+  });
+
+  it('accepts any Access caller without ADMIN_EMAILS only when there is a single tenant', () => {
+    expect(globalAdmin(contextFor({}, alice))).toBe('Alice@example.com');
+    expect(globalAdmin(contextFor({}, serviceToken))).toBe('ci.access');
+    expect(globalAdmin(contextFor({ MULTI_TENANT: 'true' }, alice))).toBeNull();
+    expect(globalAdmin(contextFor({ MULTI_TENANT: 'true' }, serviceToken))).toBeNull();
+  });
 });
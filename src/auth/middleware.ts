@@ -1,5 +1,6 @@
 import type { Context, Next } from 'hono';
-import type { AppEnv, MoltbotEnv } from '../types';
+import type { AccessUser, AppEnv, MoltbotEnv } from '../types';
+import { isMultiTenant, resolveServiceTokenTenantId } from '../gateway/tenant';
 import { verifyAccessJWT } from './jwt';
 
 /**
@@ -40,6 +41,80 @@ export function extractJWT(c: Context<AppEnv>): string | null {
   return jwtHeader || jwtCookie || null;
 }
 
+/**
+ * Resolve the Cloudflare Access identity for a request without enforcing authentication.
+ * Used where the user is needed before the auth middleware runs (e.g. choosing a tenant
+ * sandbox for public routes). Returns null when there is no valid JWT.
+ */
+export async function resolveAccessUser(c: Context<AppEnv>): Promise<AccessUser | null> {
+  if (isDevMode(c.env) || isE2ETestMode(c.env)) {
+    return { email: 'dev@localhost', name: 'Dev User' };
+  }
+
+  const teamDomain = c.env.CF_ACCESS_TEAM_DOMAIN;
+  const expectedAud = c.env.CF_ACCESS_AUD;
+  const jwt = extractJWT(c);
+  if (!teamDomain || !expectedAud || !jwt) {
+    return null;
+  }
+
+  try {
+    const payload = await verifyAccessJWT(jwt, teamDomain, expectedAud);
+    // Service tokens have no email, so no tenant of their own
+    return payload.email ? { email: payload.email, name: payload.name } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve who is calling an API route without enforcing authentication: a Cloudflare Access user
+ * (their email) or an Access service token (its client ID). Returns null when there is no valid
+ * JWT.
+ */
+export async function resolveAccessCaller(c: Context<AppEnv>): Promise<string | null> {
+  if (isDevMode(c.env) || isE2ETestMode(c.env)) {
+    return 'dev@localhost';
+  }
+
+  const teamDomain = c.env.CF_ACCESS_TEAM_DOMAIN;
+  const expectedAud = c.env.CF_ACCESS_AUD;
+  const jwt = extractJWT(c);
+  if (!teamDomain || !expectedAud || !jwt) {
+    return null;
+  }
+
+  try {
+    const payload = await verifyAccessJWT(jwt, teamDomain, expectedAud);
+    return payload.email || payload.common_name || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Who may change what every tenant shares (the runtime settings and the gateway token): the
+ * Access users listed in ADMIN_EMAILS. Without ADMIN_EMAILS that is any caller the Access middleware let in
+ * when there is a single tenant, and nobody in multi-tenant mode.
+ *
+ * @returns The admin's email (or service token client ID) for the audit log, or null if the
+ *   caller is not an admin
+ */
+export function globalAdmin(c: Context<AppEnv>): string | null {
+  const user = c.get('accessUser');
+  const admins = (c.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (admins.length > 0) {
+    return user?.email && admins.includes(user.email.toLowerCase()) ? user.email : null;
+  }
+  if (isMultiTenant(c.env) || !user) {
+    return null;
+  }
+  return user.email || user.clientId || 'unknown';
+}
+
 /**
  * Create a Cloudflare Access authentication middleware
  *
@@ -119,7 +194,31 @@ export function createAccessMiddleware(options: AccessMiddlewareOptions) {
     // Verify JWT
     try {
       const payload = await verifyAccessJWT(jwt, teamDomain, expectedAud);
-      c.set('accessUser', { email: payload.email, name: payload.name });
+      // In multi-tenant mode a service token (no email) only has the tenant TENANT_MAP gives its
+      // client ID; without one it would be served by the default tenant
+      if (!payload.email && !resolveServiceTokenTenantId(c.env, payload.common_name ?? '')) {
+        const message = 'This service token is not mapped to a tenant.';
+        const hint = `Add its client ID (${payload.common_name ?? 'unknown'}) to TENANT_MAP.`;
+        if (type === 'json') {
+          return c.json({ error: 'Forbidden', details: message, hint }, 403);
+        }
+        return c.html(
+          `
+          <html>
+            <body>
+              <h1>Forbidden</h1>
+              <p>${message} ${hint}</p>
+            </body>
+          </html>
+        `,
+          403,
+        );
+      }
+      c.set('accessUser', {
+        email: payload.email,
+        name: payload.name,
+        ...(payload.common_name && { clientId: payload.common_name }),
+      });
       await next();
     } catch (err) {
       console.error('Access JWT verification failed:', err);
@@ -1,16 +1,60 @@
+import { useState, useEffect } from 'react';
 import AdminPage from './pages/AdminPage';
+import ConfigPage from './pages/ConfigPage';
+import SettingsPage from './pages/SettingsPage';
 import './App.css';
 
+type Page = 'admin' | 'config' | 'settings';
+
+function pageFromHash(): Page {
+  switch (window.location.hash) {
+    case '#config':
+      return 'config';
+    case '#settings':
+      return 'settings';
+    default:
+      return 'admin';
+  }
+}
+
+function renderPage(page: Page) {
+  switch (page) {
+    case 'config':
+      return <ConfigPage />;
+    case 'settings':
+      return <SettingsPage />;
+    default:
+      return <AdminPage />;
+  }
+}
+
 export default function App() {
+  const [page, setPage] = useState<Page>(pageFromHash);
+
+  useEffect(() => {
+    const onHashChange = () => setPage(pageFromHash());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
   return (
     <div className="app">
       <header className="app-header">
         <img src="/logo-small.png" alt="Moltworker" className="header-logo" />
         <h1>Moltbot Admin</h1>
+        <nav className="app-nav">
+          <a href="#" className={page === 'admin' ? 'active' : undefined}>
+            Overview
+          </a>
+          <a href="#config" className={page === 'config' ? 'active' : undefined}>
+            Config
+          </a>
+          <a href="#settings" className={page === 'settings' ? 'active' : undefined}>
+            Settings
+          </a>
+        </nav>
       </header>
-      <main className="app-main">
-        <AdminPage />
-      </main>
+      <main className="app-main">{renderPage(page)}</main>
     </div>
   );
 }
@@ -113,10 +113,61 @@ export async function restartGateway(): Promise<RestartGatewayResponse> {
   });
 }
 
+export interface ProviderCheck {
+  checkedAt: string;
+  ok: boolean;
+  latencyMs: number;
+  status?: number;
+  error?: string;
+}
+
+export interface ModelChainStatus {
+  ref: string;
+  provider: string;
+  /** False when the Worker can't check the provider */
+  checked: boolean;
+  /** Share of recent checks that failed, or null before the first check */
+  errorRate: number | null;
+  lastCheck?: ProviderCheck;
+  /** The model currently serving requests */
+  serving: boolean;
+}
+
+export interface ModelChainResponse {
+  /** AI_MODEL_CHAIN in order; empty when it isn't set */
+  chain: ModelChainStatus[];
+  error?: string;
+}
+
+export async function getModelChain(): Promise<ModelChainResponse> {
+  return apiRequest<ModelChainResponse>('/models');
+}
+
+export async function checkModelChain(): Promise<ModelChainResponse> {
+  return apiRequest<ModelChainResponse>('/models/check', {
+    method: 'POST',
+  });
+}
+
+export interface BackupVerification {
+  verifiedAt: string;
+  lastSync: string;
+  method: 'mount' | 'binding';
+  ok: boolean;
+  files: number;
+  bytes: number;
+  mismatches?: string[];
+  error?: string;
+}
+
 export interface StorageStatusResponse {
   configured: boolean;
   missing?: string[];
   lastSync: string | null;
+  /** Backups are encrypted with BACKUP_ENCRYPTION_KEY */
+  encrypted?: boolean;
+  /** Last check of the R2 copy against the backup manifest */
+  verification?: BackupVerification | null;
   message: string;
 }
 
@@ -130,6 +181,13 @@ export interface SyncResponse {
   lastSync?: string;
   error?: string;
   details?: string;
+  files?: number;
+  bytes?: number;
+  uploadedFiles?: number;
+  uploadedBytes?: number;
+  /** Nothing changed since the last sync */
+  skipped?: boolean;
+  verification?: BackupVerification;
 }
 
 export async function triggerSync(): Promise<SyncResponse> {
@@ -137,3 +195,308 @@ export async function triggerSync(): Promise<SyncResponse> {
     method: 'POST',
   });
 }
+
+export interface SyncHistoryEntry {
+  startedAt: string;
+  trigger: 'cron' | 'manual' | 'restore' | 'pre-stop';
+  reason?: 'restart' | 'kill' | 'sleep' | 'restore';
+  success: boolean;
+  durationMs: number;
+  files?: number;
+  bytes?: number;
+  uploadedFiles?: number;
+  uploadedBytes?: number;
+  skipped?: boolean;
+  verified?: boolean;
+  timedOut?: boolean;
+  error?: string;
+}
+
+export interface SyncHistoryResponse {
+  /** Newest first */
+  history: SyncHistoryEntry[];
+  consecutiveFailures: number;
+  /** Failure streak at which the alert webhook fires */
+  alertThreshold: number;
+  alertConfigured: boolean;
+  error?: string;
+}
+
+export async function getSyncHistory(): Promise<SyncHistoryResponse> {
+  return apiRequest<SyncHistoryResponse>('/storage/history');
+}
+
+export interface BackupEntry {
+  id: string;
+  createdAt: string;
+  size: number;
+}
+
+export interface BackupListResponse {
+  backups: BackupEntry[];
+  error?: string;
+}
+
+export async function listBackups(): Promise<BackupListResponse> {
+  return apiRequest<BackupListResponse>('/backups');
+}
+
+export function getBackupDownloadUrl(id: string): string {
+  return `${API_BASE}/backups/${encodeURIComponent(id)}/download`;
+}
+
+export interface RestoreBackupResponse {
+  success: boolean;
+  message?: string;
+  restored?: string;
+  lastSync?: string;
+  error?: string;
+  details?: string;
+}
+
+export async function restoreBackup(id: string): Promise<RestoreBackupResponse> {
+  return apiRequest<RestoreBackupResponse>(`/backups/${encodeURIComponent(id)}/restore`, {
+    method: 'POST',
+  });
+}
+
+export interface SnapshotFile {
+  /** Path relative to /root, e.g. clawd/MEMORY.md */
+  path: string;
+  size: number;
+  mode: number;
+}
+
+export interface BackupFilesResponse {
+  files: SnapshotFile[];
+  error?: string;
+}
+
+export async function listBackupFiles(id: string): Promise<BackupFilesResponse> {
+  return apiRequest<BackupFilesResponse>(`/backups/${encodeURIComponent(id)}/files`);
+}
+
+export interface RestoreBackupFilesResponse extends RestoreBackupResponse {
+  restoredFiles?: string[];
+}
+
+export async function restoreBackupFiles(
+  id: string,
+  paths: string[],
+): Promise<RestoreBackupFilesResponse> {
+  return apiRequest<RestoreBackupFilesResponse>(
+    `/backups/${encodeURIComponent(id)}/restore-files`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ paths }),
+    },
+  );
+}
+
+/** Replaces secret values in the config editor; sending it back keeps the secret */
+export const REDACTED = '__REDACTED__';
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export interface ConfigChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ConfigResponse {
+  config: Record<string, unknown>;
+  version: string;
+  hasPrevious: boolean;
+  error?: string;
+}
+
+export interface ConfigValidationResponse {
+  valid: boolean;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+  changes: ConfigChange[];
+  version: string;
+  error?: string;
+}
+
+export interface ApplyConfigResponse {
+  success: boolean;
+  message?: string;
+  changes?: ConfigChange[];
+  warnings?: ConfigIssue[];
+  error?: string;
+}
+
+export async function getConfig(): Promise<ConfigResponse> {
+  return apiRequest<ConfigResponse>('/config');
+}
+
+export async function validateConfig(
+  config: Record<string, unknown>,
+): Promise<ConfigValidationResponse> {
+  return apiRequest<ConfigValidationResponse>('/config/validate', {
+    method: 'POST',
+    body: JSON.stringify({ config }),
+  });
+}
+
+export async function applyConfig(
+  config: Record<string, unknown>,
+  version: string,
+): Promise<ApplyConfigResponse> {
+  return apiRequest<ApplyConfigResponse>('/config', {
+    method: 'PUT',
+    body: JSON.stringify({ config, version }),
+  });
+}
+
+export async function rollbackConfig(): Promise<ApplyConfigResponse> {
+  return apiRequest<ApplyConfigResponse>('/config/rollback', {
+    method: 'POST',
+  });
+}
+
+export type ConfigLayer = 'runtime' | 'env' | 'overlay';
+
+export interface EffectiveConfigValue {
+  path: string;
+  value: unknown;
+  source: ConfigLayer;
+  /** Not yet in the running gateway's config; applied on the next restart */
+  pending?: boolean;
+}
+
+export interface EffectiveConfigResponse {
+  /** Lowest to highest */
+  precedence: ConfigLayer[];
+  runtimeFound: boolean;
+  values: EffectiveConfigValue[];
+  error?: string;
+}
+
+export interface ConfigOverlayResponse {
+  overlay: Record<string, unknown>;
+  updatedAt: string | null;
+  message?: string;
+  error?: string;
+}
+
+export async function getEffectiveConfig(): Promise<EffectiveConfigResponse> {
+  return apiRequest<EffectiveConfigResponse>('/config/effective');
+}
+
+export async function getConfigOverlay(): Promise<ConfigOverlayResponse> {
+  return apiRequest<ConfigOverlayResponse>('/config/overlay');
+}
+
+export async function saveConfigOverlay(
+  overlay: Record<string, unknown>,
+): Promise<ConfigOverlayResponse> {
+  return apiRequest<ConfigOverlayResponse>('/config/overlay', {
+    method: 'PUT',
+    body: JSON.stringify({ overlay }),
+  });
+}
+
+export type SettingSource = 'default' | 'env' | 'runtime';
+
+export interface RuntimeSetting {
+  name: string;
+  group: string;
+  description: string;
+  options?: string[];
+  appliedAtStart: boolean;
+  envValue: string | null;
+  runtimeValue: string | null;
+  source: SettingSource;
+}
+
+export interface RuntimeSettingsResponse {
+  precedence: SettingSource[];
+  updatedAt: string | null;
+  settings: RuntimeSetting[];
+  success?: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface RuntimeSettingsAuditEntry {
+  at: string;
+  by: string;
+  setting: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface RuntimeSettingsAuditResponse {
+  entries: RuntimeSettingsAuditEntry[];
+}
+
+export async function getRuntimeSettings(): Promise<RuntimeSettingsResponse> {
+  return apiRequest<RuntimeSettingsResponse>('/settings');
+}
+
+export async function saveRuntimeSettings(
+  changes: Record<string, string | null>,
+): Promise<RuntimeSettingsResponse> {
+  return apiRequest<RuntimeSettingsResponse>('/settings', {
+    method: 'PUT',
+    body: JSON.stringify({ changes }),
+  });
+}
+
+export async function getRuntimeSettingsAudit(): Promise<RuntimeSettingsAuditResponse> {
+  return apiRequest<RuntimeSettingsAuditResponse>('/settings/audit');
+}
+
+export interface PreviousTokenClient {
+  tenantId: string;
+  user?: string;
+  userAgent?: string;
+  lastSeen: string;
+}
+
+export interface GatewayTokenStatusResponse {
+  /** MOLTBOT_GATEWAY_TOKEN is set */
+  configured: boolean;
+  rotation: {
+    rotatedAt: string;
+    rotatedBy: string;
+    graceUntil: string;
+    graceActive: boolean;
+  } | null;
+  /** Which token this tenant's running gateway has; null when there is no rotation or gateway */
+  gatewayToken: 'current' | 'previous' | 'unknown' | null;
+  previousTokenClients: PreviousTokenClient[];
+  error?: string;
+}
+
+export interface RotateGatewayTokenResponse {
+  success: boolean;
+  /** The new token, shown once */
+  token: string;
+  graceUntil: string;
+  message?: string;
+  error?: string;
+}
+
+export async function getGatewayTokenStatus(): Promise<GatewayTokenStatusResponse> {
+  return apiRequest<GatewayTokenStatusResponse>('/gateway-token');
+}
+
+export async function rotateGatewayToken(graceHours: number): Promise<RotateGatewayTokenResponse> {
+  return apiRequest<RotateGatewayTokenResponse>('/gateway-token/rotate', {
+    method: 'POST',
+    body: JSON.stringify({ graceHours }),
+  });
+}
+
+export async function endGatewayTokenGrace(): Promise<{ success: boolean; graceUntil: string }> {
+  return apiRequest<{ success: boolean; graceUntil: string }>('/gateway-token/end-grace', {
+    method: 'POST',
+  });
+}
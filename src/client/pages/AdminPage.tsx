@@ -4,13 +4,27 @@ import {
   approveDevice,
   approveAllDevices,
   restartGateway,
+  getModelChain,
+  checkModelChain,
   getStorageStatus,
   triggerSync,
+  getSyncHistory,
+  listBackups,
+  restoreBackup,
+  getBackupDownloadUrl,
+  listBackupFiles,
+  restoreBackupFiles,
   AuthError,
   type PendingDevice,
   type PairedDevice,
   type DeviceListResponse,
   type StorageStatusResponse,
+  type BackupEntry,
+  type BackupVerification,
+  type SnapshotFile,
+  type SyncHistoryEntry,
+  type SyncHistoryResponse,
+  type ModelChainStatus,
 } from '../api';
 import './AdminPage.css';
 
@@ -29,11 +43,28 @@ function formatSyncTime(isoString: string | null) {
   }
 }
 
+function formatVerification(verification: BackupVerification) {
+  const when = formatSyncTime(verification.verifiedAt);
+  if (verification.ok) {
+    return `Verified: ${when} (${verification.files} files)`;
+  }
+  const problem = verification.mismatches?.length
+    ? `${verification.mismatches.length} file(s) missing or changed in R2: ${verification.mismatches.join(', ')}`
+    : verification.error;
+  return `Verification failed: ${when}. ${problem}`;
+}
+
 function formatTimestamp(ts: number) {
   const date = new Date(ts);
   return date.toLocaleString();
 }
 
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function formatTimeAgo(ts: number) {
   const seconds = Math.floor((Date.now() - ts) / 1000);
   if (seconds < 60) return `${seconds}s ago`;
@@ -45,6 +76,147 @@ function formatTimeAgo(ts: number) {
   return `${days}d ago`;
 }
 
+function describeSync(entry: SyncHistoryEntry) {
+  const trigger = entry.reason ? `${entry.trigger} (${entry.reason})` : entry.trigger;
+  const outcome = entry.success
+    ? entry.skipped
+      ? 'no changes'
+      : `${entry.uploadedFiles ?? '?'} file(s), ${formatBytes(entry.uploadedBytes ?? 0)} uploaded`
+    : `failed: ${entry.error ?? 'unknown error'}`;
+  return `${formatSyncTime(entry.startedAt)} · ${trigger} · ${(entry.durationMs / 1000).toFixed(1)}s · ${outcome}`;
+}
+
+// Bar per sync, oldest on the left; height is the sync's duration
+function SyncHistoryChart({ history }: { history: SyncHistoryEntry[] }) {
+  const longest = Math.max(...history.map((entry) => entry.durationMs), 1);
+  const height = 60;
+  return (
+    <svg
+      className="sync-chart"
+      viewBox={`0 0 ${history.length * 4} ${height}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Duration and outcome of recent syncs"
+    >
+      {history.map((entry, i) => {
+        const barHeight = Math.max((entry.durationMs / longest) * height, 2);
+        const status = !entry.success ? 'failed' : entry.skipped ? 'skipped' : 'ok';
+        return (
+          <rect
+            key={`${entry.startedAt}-${i}`}
+            className={`sync-bar ${status}`}
+            x={(history.length - 1 - i) * 4}
+            y={height - barHeight}
+            width={3}
+            height={barHeight}
+          >
+            <title>{describeSync(entry)}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface FileTreeNode {
+  name: string;
+  /** Path relative to /root */
+  path: string;
+  /** File size, or the total of the files below a directory */
+  size: number;
+  /** Entries of a directory; null for files */
+  children: FileTreeNode[] | null;
+}
+
+function buildFileTree(files: SnapshotFile[]): FileTreeNode[] {
+  const root: FileTreeNode[] = [];
+  for (const file of files) {
+    const segments = file.path.split('/');
+    let level = root;
+    segments.forEach((name, i) => {
+      const path = segments.slice(0, i + 1).join('/');
+      const isFile = i === segments.length - 1;
+      let node = level.find((n) => n.name === name && (n.children === null) === isFile);
+      if (!node) {
+        node = { name, path, size: 0, children: isFile ? null : [] };
+        level.push(node);
+      }
+      node.size += file.size;
+      level = node.children ?? [];
+    });
+  }
+  return root;
+}
+
+// Snapshot contents with a checkbox per file and directory; selecting a directory selects
+// everything below it
+function modelStatusLabel(model: ModelChainStatus) {
+  if (model.serving) return 'serving';
+  if (!model.checked) return 'not checked';
+  if (!model.lastCheck) return 'waiting for check';
+  return model.lastCheck.ok ? 'standby' : 'failing';
+}
+
+// Why OpenClaw moved past the models before the serving one
+function describeFailover(chain: ModelChainStatus[]) {
+  const servingIdx = chain.findIndex((model) => model.serving);
+  const failed = chain.slice(0, servingIdx === -1 ? chain.length : servingIdx);
+  if (failed.length === 0) return null;
+  const reasons = failed
+    .map((model) => `${model.ref} (${model.lastCheck?.error ?? 'failing'})`)
+    .join(', ');
+  return servingIdx === -1 ? `Every model is failing: ${reasons}.` : `Failed over from ${reasons}.`;
+}
+
+function FileTree({
+  nodes,
+  selected,
+  inherited = false,
+  onToggle,
+}: {
+  nodes: FileTreeNode[];
+  selected: Set<string>;
+  inherited?: boolean;
+  onToggle: (path: string) => void;
+}) {
+  return (
+    <ul className="file-tree">
+      {nodes.map((node) => {
+        const checked = inherited || selected.has(node.path);
+        const label = (
+          <label className="file-tree-label">
+            <input
+              type="checkbox"
+              checked={checked}
+              disabled={inherited}
+              onChange={() => onToggle(node.path)}
+            />
+            {node.children ? `${node.name}/` : node.name}
+            <span className="file-tree-size">{formatBytes(node.size)}</span>
+          </label>
+        );
+        return (
+          <li key={node.path}>
+            {node.children ? (
+              <details>
+                <summary>{label}</summary>
+                <FileTree
+                  nodes={node.children}
+                  selected={selected}
+                  inherited={checked}
+                  onToggle={onToggle}
+                />
+              </details>
+            ) : (
+              label
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 export default function AdminPage() {
   const [pending, setPending] = useState<PendingDevice[]>([]);
   const [paired, setPaired] = useState<PairedDevice[]>([]);
@@ -54,6 +226,14 @@ export default function AdminPage() {
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
   const [restartInProgress, setRestartInProgress] = useState(false);
   const [syncInProgress, setSyncInProgress] = useState(false);
+  const [syncHistory, setSyncHistory] = useState<SyncHistoryResponse | null>(null);
+  const [backups, setBackups] = useState<BackupEntry[]>([]);
+  const [restoreInProgress, setRestoreInProgress] = useState<string | null>(null);
+  const [browsedBackup, setBrowsedBackup] = useState<string | null>(null);
+  const [snapshotFiles, setSnapshotFiles] = useState<FileTreeNode[] | null>(null);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [modelChain, setModelChain] = useState<ModelChainStatus[]>([]);
+  const [modelCheckInProgress, setModelCheckInProgress] = useState(false);
 
   const fetchDevices = useCallback(async () => {
     try {
@@ -88,10 +268,52 @@ export default function AdminPage() {
     }
   }, []);
 
+  const fetchSyncHistory = useCallback(async () => {
+    try {
+      setSyncHistory(await getSyncHistory());
+    } catch (err) {
+      console.error('Failed to fetch sync history:', err);
+    }
+  }, []);
+
+  const fetchBackups = useCallback(async () => {
+    try {
+      const data = await listBackups();
+      setBackups(data.backups || []);
+    } catch (err) {
+      // Like storage status, the backup list is not critical
+      console.error('Failed to fetch backups:', err);
+    }
+  }, []);
+
+  const fetchModelChain = useCallback(async () => {
+    try {
+      const data = await getModelChain();
+      setModelChain(data.chain || []);
+    } catch (err) {
+      console.error('Failed to fetch model chain:', err);
+    }
+  }, []);
+
   useEffect(() => {
     fetchDevices();
     fetchStorageStatus();
-  }, [fetchDevices, fetchStorageStatus]);
+    fetchSyncHistory();
+    fetchBackups();
+    fetchModelChain();
+  }, [fetchDevices, fetchStorageStatus, fetchSyncHistory, fetchBackups, fetchModelChain]);
+
+  const handleCheckModels = async () => {
+    setModelCheckInProgress(true);
+    try {
+      const data = await checkModelChain();
+      setModelChain(data.chain || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check providers');
+    } finally {
+      setModelCheckInProgress(false);
+    }
+  };
 
   const handleApprove = async (requestId: string) => {
     setActionInProgress(requestId);
@@ -160,8 +382,18 @@ export default function AdminPage() {
       const result = await triggerSync();
       if (result.success) {
         // Update the storage status with new lastSync time
-        setStorageStatus((prev) => (prev ? { ...prev, lastSync: result.lastSync || null } : null));
+        setStorageStatus((prev) =>
+          prev
+            ? {
+                ...prev,
+                lastSync: result.lastSync || null,
+                verification: result.verification ?? prev.verification,
+              }
+            : null,
+        );
         setError(null);
+        // The sync may have taken a new snapshot
+        fetchBackups();
       } else {
         setError(result.error || 'Sync failed');
       }
@@ -169,6 +401,95 @@ export default function AdminPage() {
       setError(err instanceof Error ? err.message : 'Failed to sync');
     } finally {
       setSyncInProgress(false);
+      fetchSyncHistory();
+    }
+  };
+
+  const handleRestore = async (backup: BackupEntry) => {
+    if (
+      !confirm(
+        `Restore the backup from ${formatSyncTime(backup.createdAt)}? The gateway will be stopped, its data replaced with this backup, and restarted. Changes since then will be lost.`,
+      )
+    ) {
+      return;
+    }
+
+    setRestoreInProgress(backup.id);
+    try {
+      const result = await restoreBackup(backup.id);
+      if (result.success) {
+        setStorageStatus((prev) => (prev ? { ...prev, lastSync: result.lastSync || null } : null));
+        setError(null);
+        alert('Backup restored. The gateway is restarting; clients will reconnect automatically.');
+        fetchBackups();
+      } else {
+        setError(result.error || 'Restore failed');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setRestoreInProgress(null);
+    }
+  };
+
+  const handleBrowse = async (backup: BackupEntry) => {
+    setSelectedPaths(new Set());
+    setSnapshotFiles(null);
+    if (browsedBackup === backup.id) {
+      setBrowsedBackup(null);
+      return;
+    }
+    setBrowsedBackup(backup.id);
+    try {
+      const data = await listBackupFiles(backup.id);
+      setSnapshotFiles(buildFileTree(data.files || []));
+    } catch (err) {
+      setBrowsedBackup(null);
+      setError(err instanceof Error ? err.message : 'Failed to list backup files');
+    }
+  };
+
+  const togglePath = (path: string) => {
+    setSelectedPaths((prev) => {
+      const next = new Set([...prev].filter((p) => !p.startsWith(`${path}/`)));
+      if (prev.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const handleRestoreFiles = async (backup: BackupEntry) => {
+    const paths = [...selectedPaths];
+    if (
+      !confirm(
+        `Restore ${paths.join(', ')} from the backup of ${formatSyncTime(backup.createdAt)}? The current versions will be replaced; the rest of the data and the gateway are left as they are.`,
+      )
+    ) {
+      return;
+    }
+
+    setRestoreInProgress(backup.id);
+    try {
+      const result = await restoreBackupFiles(backup.id, paths);
+      if (result.success) {
+        setStorageStatus((prev) => (prev ? { ...prev, lastSync: result.lastSync || null } : null));
+        setError(null);
+        setSelectedPaths(new Set());
+        alert(`Restored ${result.restoredFiles?.length ?? 0} file(s) from the backup.`);
+        fetchBackups();
+      } else {
+        setError(
+          result.details ? `${result.error}: ${result.details}` : result.error || 'Restore failed',
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore files');
+    } finally {
+      setRestoreInProgress(null);
+      fetchSyncHistory();
     }
   };
 
@@ -215,7 +536,15 @@ export default function AdminPage() {
               </span>
               <span className="last-sync">
                 Last backup: {formatSyncTime(storageStatus.lastSync)}
+                {storageStatus.encrypted && ' (encrypted)'}
               </span>
+              {storageStatus.verification && (
+                <span
+                  className={`last-sync ${storageStatus.verification.ok ? '' : 'verify-failed'}`}
+                >
+                  {formatVerification(storageStatus.verification)}
+                </span>
+              )}
             </div>
             <button
               className="btn btn-secondary btn-sm"
@@ -229,6 +558,100 @@ export default function AdminPage() {
         </div>
       )}
 
+      {syncHistory && syncHistory.history.length > 0 && (
+        <section className="devices-section sync-history-section">
+          <div className="section-header">
+            <h2>Sync History</h2>
+            <button className="btn btn-secondary" onClick={fetchSyncHistory}>
+              Refresh
+            </button>
+          </div>
+          <SyncHistoryChart history={syncHistory.history} />
+          <p className={`hint ${syncHistory.consecutiveFailures > 0 ? 'sync-failing' : ''}`}>
+            {syncHistory.consecutiveFailures > 0
+              ? `The last ${syncHistory.consecutiveFailures} sync(s) failed: ${syncHistory.history[0].error ?? 'unknown error'}.`
+              : `Last sync: ${describeSync(syncHistory.history[0])}.`}{' '}
+            {syncHistory.alertConfigured
+              ? `An alert is sent after ${syncHistory.alertThreshold} failures in a row.`
+              : 'Set SYNC_ALERT_WEBHOOK_URL to be alerted when syncs keep failing.'}
+          </p>
+        </section>
+      )}
+
+      <section className="devices-section backups-section">
+        <div className="section-header">
+          <h2>Backups</h2>
+          <button className="btn btn-secondary" onClick={fetchBackups}>
+            Refresh
+          </button>
+        </div>
+        {backups.length === 0 ? (
+          <p className="hint">
+            No backup snapshots yet. A snapshot is kept at most every 15 minutes when data is synced
+            to R2.
+          </p>
+        ) : (
+          <ul className="backup-list">
+            {backups.map((backup) => (
+              <li key={backup.id} className="backup-row">
+                <span className="backup-time" title={backup.createdAt}>
+                  {formatSyncTime(backup.createdAt)}
+                </span>
+                <span className="backup-size">{formatBytes(backup.size)}</span>
+                <div className="backup-actions">
+                  <button className="btn btn-secondary btn-sm" onClick={() => handleBrowse(backup)}>
+                    {browsedBackup === backup.id ? 'Close' : 'Browse'}
+                  </button>
+                  <a className="btn btn-secondary btn-sm" href={getBackupDownloadUrl(backup.id)}>
+                    Download
+                  </a>
+                  <button
+                    className="btn btn-danger btn-sm"
+                    onClick={() => handleRestore(backup)}
+                    disabled={restoreInProgress !== null}
+                  >
+                    {restoreInProgress === backup.id && <ButtonSpinner />}
+                    {restoreInProgress === backup.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                </div>
+                {browsedBackup === backup.id && (
+                  <div className="backup-files">
+                    {snapshotFiles === null ? (
+                      <p className="hint">Loading files...</p>
+                    ) : snapshotFiles.length === 0 ? (
+                      <p className="hint">This backup contains no files.</p>
+                    ) : (
+                      <>
+                        <FileTree
+                          nodes={snapshotFiles}
+                          selected={selectedPaths}
+                          onToggle={togglePath}
+                        />
+                        <div className="backup-files-actions">
+                          <span className="hint">
+                            Selected files and directories replace their current versions.
+                          </span>
+                          <button
+                            className="btn btn-danger btn-sm"
+                            onClick={() => handleRestoreFiles(backup)}
+                            disabled={selectedPaths.size === 0 || restoreInProgress !== null}
+                          >
+                            {restoreInProgress === backup.id && <ButtonSpinner />}
+                            {restoreInProgress === backup.id
+                              ? 'Restoring...'
+                              : `Restore selected (${selectedPaths.size})`}
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
       <section className="devices-section gateway-section">
         <div className="section-header">
           <h2>Gateway Controls</h2>
@@ -247,6 +670,48 @@ export default function AdminPage() {
         </p>
       </section>
 
+      {modelChain.length > 0 && (
+        <section className="devices-section models-section">
+          <div className="section-header">
+            <h2>Models</h2>
+            <button
+              className="btn btn-secondary"
+              onClick={handleCheckModels}
+              disabled={modelCheckInProgress}
+            >
+              {modelCheckInProgress && <ButtonSpinner />}
+              {modelCheckInProgress ? 'Checking...' : 'Check Now'}
+            </button>
+          </div>
+          <ol className="model-chain">
+            {modelChain.map((model) => (
+              <li key={model.ref} className="model-row">
+                <span className="model-ref">{model.ref}</span>
+                <span className={`model-status ${modelStatusLabel(model).replace(/ /g, '-')}`}>
+                  {modelStatusLabel(model)}
+                </span>
+                {model.errorRate !== null && (
+                  <span className="model-error-rate">
+                    {Math.round(model.errorRate * 100)}% of recent checks failed
+                  </span>
+                )}
+                {model.lastCheck && !model.lastCheck.ok && (
+                  <span className="model-error">
+                    {model.lastCheck.error}
+                    {model.lastCheck.status !== undefined && ` (HTTP ${model.lastCheck.status})`}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+          <p className="hint">
+            {describeFailover(modelChain) ??
+              'Requests go to the first model; the others take over when its provider fails.'}{' '}
+            Providers are checked every 5 minutes.
+          </p>
+        </section>
+      )}
+
       {loading ? (
         <div className="loading">
           <div className="spinner"></div>
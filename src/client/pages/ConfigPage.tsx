@@ -0,0 +1,358 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getConfig,
+  validateConfig,
+  applyConfig,
+  rollbackConfig,
+  getEffectiveConfig,
+  getConfigOverlay,
+  saveConfigOverlay,
+  AuthError,
+  REDACTED,
+  type ConfigResponse,
+  type ConfigValidationResponse,
+  type ConfigChange,
+  type ConfigLayer,
+  type EffectiveConfigResponse,
+} from '../api';
+import './AdminPage.css';
+import './ConfigPage.css';
+
+function ButtonSpinner() {
+  return <span className="btn-spinner" />;
+}
+
+function formatValue(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+const LAYER_LABELS: Record<ConfigLayer, string> = {
+  runtime: 'file',
+  env: 'env',
+  overlay: 'overlay',
+};
+
+function parseObject(text: string): Record<string, unknown> {
+  const parsed: unknown = JSON.parse(text);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('expected a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// One block per changed path: removed value in red, added value in green
+function ConfigDiff({ changes }: { changes: ConfigChange[] }) {
+  return (
+    <ul className="config-diff">
+      {changes.map((change) => (
+        <li key={change.path}>
+          <div className="config-diff-path">{change.path}</div>
+          {'before' in change && (
+            <pre className="config-diff-line removed">- {formatValue(change.before)}</pre>
+          )}
+          {'after' in change && (
+            <pre className="config-diff-line added">+ {formatValue(change.after)}</pre>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ConfigPage() {
+  const [live, setLive] = useState<ConfigResponse | null>(null);
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<ConfigValidationResponse | null>(null);
+  // Editor contents the preview was made for; applying needs a preview of the current text
+  const [previewedText, setPreviewedText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+  const [effective, setEffective] = useState<EffectiveConfigResponse | null>(null);
+  const [overlayText, setOverlayText] = useState('');
+  const [overlayUpdatedAt, setOverlayUpdatedAt] = useState<string | null>(null);
+
+  const fetchConfig = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await getConfig();
+      setLive(data);
+      setText(JSON.stringify(data.config, null, 2));
+      setPreview(null);
+      setPreviewedText(null);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        setError('Authentication required. Please log in via Cloudflare Access.');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to load config');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchLayers = useCallback(async () => {
+    try {
+      const [effectiveData, overlayData] = await Promise.all([
+        getEffectiveConfig(),
+        getConfigOverlay(),
+      ]);
+      setEffective(effectiveData);
+      setOverlayText(JSON.stringify(overlayData.overlay, null, 2));
+      setOverlayUpdatedAt(overlayData.updatedAt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load config layers');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConfig();
+    fetchLayers();
+  }, [fetchConfig, fetchLayers]);
+
+  const parseEditor = (): Record<string, unknown> | null => {
+    try {
+      return parseObject(text);
+    } catch (err) {
+      setError(`Invalid config: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  };
+
+  const handleSaveOverlay = async () => {
+    let overlay: Record<string, unknown>;
+    try {
+      overlay = parseObject(overlayText);
+    } catch (err) {
+      setError(`Invalid overlay: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    setActionInProgress('overlay');
+    try {
+      setError(null);
+      const result = await saveConfigOverlay(overlay);
+      setOverlayUpdatedAt(result.updatedAt);
+      await fetchLayers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save overlay');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    const config = parseEditor();
+    if (!config) return;
+    setActionInProgress('preview');
+    try {
+      setError(null);
+      setPreview(await validateConfig(config));
+      setPreviewedText(text);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to validate config');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleApply = async () => {
+    const config = parseEditor();
+    if (!config || !live) return;
+    if (!confirm('Save this config and restart the gateway? Connected clients will reconnect.')) {
+      return;
+    }
+    setActionInProgress('apply');
+    try {
+      const result = await applyConfig(config, live.version);
+      alert(result.message || 'Config saved.');
+      await Promise.all([fetchConfig(), fetchLayers()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply config');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!confirm('Restore the config as it was before the last change and restart the gateway?')) {
+      return;
+    }
+    setActionInProgress('rollback');
+    try {
+      const result = await rollbackConfig();
+      alert(result.message || 'Previous config restored.');
+      await Promise.all([fetchConfig(), fetchLayers()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back config');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const canApply =
+    preview !== null &&
+    preview.valid &&
+    preview.changes.length > 0 &&
+    previewedText === text &&
+    actionInProgress === null;
+
+  return (
+    <div className="devices-page">
+      {error && (
+        <div className="error-banner">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="dismiss-btn">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="loading">
+          <div className="spinner"></div>
+          <p>Loading config...</p>
+        </div>
+      ) : (
+        <section className="devices-section config-section">
+          <div className="section-header">
+            <h2>openclaw.json</h2>
+            <div className="header-actions">
+              <button className="btn btn-secondary" onClick={fetchConfig}>
+                Reload
+              </button>
+              {live?.hasPrevious && (
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleRollback}
+                  disabled={actionInProgress !== null}
+                >
+                  {actionInProgress === 'rollback' && <ButtonSpinner />}
+                  Roll Back
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="hint">
+            Secrets are shown as <code>{REDACTED}</code> and kept as they are unless you replace
+            them. Preview an edit to validate it and see what changes; applying it restarts the
+            gateway.
+          </p>
+          <textarea
+            className="config-editor"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            spellCheck={false}
+            disabled={live === null}
+          />
+          <div className="config-actions">
+            <button
+              className="btn btn-secondary"
+              onClick={handlePreview}
+              disabled={live === null || actionInProgress !== null}
+            >
+              {actionInProgress === 'preview' && <ButtonSpinner />}
+              Preview Changes
+            </button>
+            <button className="btn btn-primary" onClick={handleApply} disabled={!canApply}>
+              {actionInProgress === 'apply' && <ButtonSpinner />}
+              {actionInProgress === 'apply' ? 'Applying...' : 'Apply & Restart'}
+            </button>
+          </div>
+
+          {preview && (
+            <div className="config-preview">
+              {preview.errors.length > 0 && (
+                <ul className="config-issues errors">
+                  {preview.errors.map((issue) => (
+                    <li key={issue.path}>
+                      <code>{issue.path}</code> {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {preview.warnings.length > 0 && (
+                <ul className="config-issues warnings">
+                  {preview.warnings.map((issue) => (
+                    <li key={issue.path}>
+                      <code>{issue.path}</code> {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {preview.changes.length === 0 ? (
+                <p className="hint">No changes.</p>
+              ) : (
+                <ConfigDiff changes={preview.changes} />
+              )}
+              {previewedText !== text && (
+                <p className="hint">The config was edited after this preview; preview it again.</p>
+              )}
+            </div>
+          )}
+        </section>
+      )}
+
+      <section className="devices-section config-section">
+        <div className="section-header">
+          <h2>Overlay</h2>
+          <button
+            className="btn btn-primary"
+            onClick={handleSaveOverlay}
+            disabled={actionInProgress !== null}
+          >
+            {actionInProgress === 'overlay' && <ButtonSpinner />}
+            Save Overlay
+          </button>
+        </div>
+        <p className="hint">
+          Settings merged into openclaw.json every time the gateway starts, after the settings
+          derived from Worker secrets, so they survive restarts. Secrets are not allowed here; set
+          them as Worker secrets. Changes apply on the next restart.
+          {overlayUpdatedAt && ` Last saved: ${new Date(overlayUpdatedAt).toLocaleString()}.`}
+        </p>
+        <textarea
+          className="config-editor overlay-editor"
+          value={overlayText}
+          onChange={(e) => setOverlayText(e.target.value)}
+          spellCheck={false}
+        />
+      </section>
+
+      {effective && (
+        <section className="devices-section config-section">
+          <div className="section-header">
+            <h2>Effective Config</h2>
+            <button className="btn btn-secondary" onClick={fetchLayers}>
+              Refresh
+            </button>
+          </div>
+          <p className="hint">
+            What the gateway gets on its next start. Later layers win:{' '}
+            {effective.precedence.map((layer) => LAYER_LABELS[layer]).join(' → ')}.
+            {!effective.runtimeFound && ' The gateway has not written a config file yet.'}
+          </p>
+          <table className="effective-config">
+            <tbody>
+              {effective.values.map((entry) => (
+                <tr key={entry.path} className={entry.pending ? 'pending' : undefined}>
+                  <td className="effective-path">{entry.path}</td>
+                  <td className="effective-value">{JSON.stringify(entry.value)}</td>
+                  <td>
+                    <span className={`layer-badge ${entry.source}`}>
+                      {LAYER_LABELS[entry.source]}
+                    </span>
+                    {entry.pending && (
+                      <span className="pending-badge" title="Applied on the next restart">
+                        pending
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getRuntimeSettings,
+  getRuntimeSettingsAudit,
+  saveRuntimeSettings,
+  getGatewayTokenStatus,
+  rotateGatewayToken,
+  endGatewayTokenGrace,
+  AuthError,
+  type GatewayTokenStatusResponse,
+  type RuntimeSetting,
+  type RuntimeSettingsAuditEntry,
+  type RuntimeSettingsResponse,
+} from '../api';
+import './AdminPage.css';
+import './ConfigPage.css';
+import './SettingsPage.css';
+
+function ButtonSpinner() {
+  return <span className="btn-spinner" />;
+}
+
+// Editor value per setting: the override, or '' for none
+function draftsFrom(settings: RuntimeSetting[]): Record<string, string> {
+  return Object.fromEntries(settings.map((setting) => [setting.name, setting.runtimeValue ?? '']));
+}
+
+function formatSettingValue(value: string | null) {
+  return value === null ? '—' : JSON.stringify(value);
+}
+
+function OverrideInput({
+  setting,
+  value,
+  onChange,
+}: {
+  setting: RuntimeSetting;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  if (setting.options) {
+    return (
+      <select className="setting-input" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">(no override)</option>
+        {setting.options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  }
+  return (
+    <input
+      className="setting-input"
+      type="text"
+      value={value}
+      placeholder="(no override)"
+      onChange={(e) => onChange(e.target.value)}
+      spellCheck={false}
+    />
+  );
+}
+
+const GRACE_CHOICES = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 168, label: '1 week' },
+];
+
+const GATEWAY_TOKEN_LABELS = {
+  current: 'The gateway runs with the current token.',
+  previous: 'The gateway still runs with the previous token; it switches when it next restarts.',
+  unknown:
+    'The gateway runs with a token from before the previous rotation; restart it so clients can connect.',
+};
+
+function GatewayTokenSection({ onError }: { onError: (message: string) => void }) {
+  const [status, setStatus] = useState<GatewayTokenStatusResponse | null>(null);
+  const [graceHours, setGraceHours] = useState(24);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await getGatewayTokenStatus());
+    } catch (err) {
+      console.error('Failed to fetch gateway token status:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleRotate = async () => {
+    if (
+      !confirm(
+        'Rotate the gateway token? Clients can keep using the current token for the grace period.',
+      )
+    ) {
+      return;
+    }
+    setActionInProgress('rotate');
+    try {
+      const result = await rotateGatewayToken(graceHours);
+      setNewToken(result.token);
+      await fetchStatus();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to rotate the gateway token');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleEndGrace = async () => {
+    if (!confirm('Stop accepting the previous token now? Clients still using it are refused.')) {
+      return;
+    }
+    setActionInProgress('end-grace');
+    try {
+      await endGatewayTokenGrace();
+      await fetchStatus();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to end the grace period');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  if (!status?.configured) {
+    return null;
+  }
+  const { rotation } = status;
+
+  return (
+    <section className="devices-section config-section">
+      <div className="section-header">
+        <h2>Gateway Token</h2>
+        <div className="header-actions">
+          <select
+            className="setting-input grace-select"
+            value={graceHours}
+            onChange={(e) => setGraceHours(Number(e.target.value))}
+            aria-label="Grace period"
+          >
+            {GRACE_CHOICES.map((choice) => (
+              <option key={choice.hours} value={choice.hours}>
+                Grace: {choice.label}
+              </option>
+            ))}
+          </select>
+          <button
+            className="btn btn-primary"
+            onClick={handleRotate}
+            disabled={actionInProgress !== null}
+          >
+            {actionInProgress === 'rotate' && <ButtonSpinner />}
+            Rotate Token
+          </button>
+        </div>
+      </div>
+      {newToken && (
+        <div className="new-token">
+          <p className="hint">New token (shown once; give it to your clients):</p>
+          <code>{newToken}</code>
+        </div>
+      )}
+      {rotation ? (
+        <p className="hint">
+          Rotated {new Date(rotation.rotatedAt).toLocaleString()} by {rotation.rotatedBy}.{' '}
+          {rotation.graceActive
+            ? `The previous token is accepted until ${new Date(rotation.graceUntil).toLocaleString()}.`
+            : 'The previous token is no longer accepted.'}{' '}
+          {status.gatewayToken && GATEWAY_TOKEN_LABELS[status.gatewayToken]}
+        </p>
+      ) : (
+        <p className="hint">
+          The gateway token is MOLTBOT_GATEWAY_TOKEN. Rotating replaces it without a redeploy;
+          clients connecting through the Worker can keep using the old token for the grace period.
+          Clients reaching the gateway directly need the new token once it restarts.
+        </p>
+      )}
+      {rotation?.graceActive && (
+        <button
+          className="btn btn-secondary"
+          onClick={handleEndGrace}
+          disabled={actionInProgress !== null}
+        >
+          {actionInProgress === 'end-grace' && <ButtonSpinner />}
+          End Grace Period
+        </button>
+      )}
+      {status.previousTokenClients.length > 0 && (
+        <>
+          <h3 className="token-clients-title">Clients still using the previous token</h3>
+          <table className="effective-config">
+            <tbody>
+              {status.previousTokenClients.map((client) => (
+                <tr key={`${client.tenantId}-${client.user}-${client.userAgent}`}>
+                  <td>{client.user ?? 'unknown user'}</td>
+                  <td className="effective-path">{client.tenantId}</td>
+                  <td className="setting-description">{client.userAgent ?? ''}</td>
+                  <td>{new Date(client.lastSeen).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default function SettingsPage() {
+  const [data, setData] = useState<RuntimeSettingsResponse | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [audit, setAudit] = useState<RuntimeSettingsAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setError(null);
+      const [settingsData, auditData] = await Promise.all([
+        getRuntimeSettings(),
+        getRuntimeSettingsAudit(),
+      ]);
+      setData(settingsData);
+      setDrafts(draftsFrom(settingsData.settings));
+      setAudit(auditData.entries);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        setError('Authentication required. Please log in via Cloudflare Access.');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to load settings');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // Overrides that differ from the stored ones; an empty field removes the override
+  const changes: Record<string, string | null> = {};
+  for (const setting of data?.settings ?? []) {
+    const draft = drafts[setting.name] ?? '';
+    if (draft !== (setting.runtimeValue ?? '')) {
+      changes[setting.name] = draft === '' ? null : draft;
+    }
+  }
+  const changedNames = Object.keys(changes);
+
+  const handleSave = async () => {
+    if (!confirm(`Save ${changedNames.join(', ')}? Runtime settings apply to the whole Worker.`)) {
+      return;
+    }
+    setSaving(true);
+    try {
+      setError(null);
+      const result = await saveRuntimeSettings(changes);
+      alert(result.message || 'Settings saved.');
+      await fetchSettings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="devices-page">
+      {error && (
+        <div className="error-banner">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="dismiss-btn">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="loading">
+          <div className="spinner"></div>
+          <p>Loading settings...</p>
+        </div>
+      ) : (
+        data && (
+          <section className="devices-section config-section">
+            <div className="section-header">
+              <h2>Runtime Settings</h2>
+              <div className="header-actions">
+                <button className="btn btn-secondary" onClick={fetchSettings}>
+                  Reload
+                </button>
+                <button
+                  className="btn btn-primary"
+                  onClick={handleSave}
+                  disabled={changedNames.length === 0 || saving}
+                >
+                  {saving && <ButtonSpinner />}
+                  Save
+                </button>
+              </div>
+            </div>
+            <p className="hint">
+              Overrides of Worker settings that take effect without a redeploy. Later layers win:{' '}
+              {data.precedence.join(' → ')}. Secrets can only be set as Worker secrets. Settings
+              marked <span className="pending-badge">restart</span> are read when the gateway
+              starts.
+              {data.updatedAt && ` Last saved: ${new Date(data.updatedAt).toLocaleString()}.`}
+            </p>
+            <table className="effective-config settings-table">
+              <thead>
+                <tr>
+                  <th>Setting</th>
+                  <th>Worker env</th>
+                  <th>Override</th>
+                  <th>In effect</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.settings.map((setting) => (
+                  <tr key={setting.name}>
+                    <td>
+                      <div className="effective-path">{setting.name}</div>
+                      <div className="setting-description">{setting.description}</div>
+                    </td>
+                    <td className="effective-value">{formatSettingValue(setting.envValue)}</td>
+                    <td>
+                      <OverrideInput
+                        setting={setting}
+                        value={drafts[setting.name] ?? ''}
+                        onChange={(value) =>
+                          setDrafts((current) => ({ ...current, [setting.name]: value }))
+                        }
+                      />
+                    </td>
+                    <td>
+                      <span className={`layer-badge ${setting.source}`}>{setting.source}</span>
+                      {setting.appliedAtStart && <span className="pending-badge">restart</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )
+      )}
+
+      {!loading && (
+        <section className="devices-section config-section">
+          <div className="section-header">
+            <h2>Audit Log</h2>
+          </div>
+          {audit.length === 0 ? (
+            <p className="hint">No runtime settings have been changed yet.</p>
+          ) : (
+            <table className="effective-config">
+              <tbody>
+                {audit.map((entry, i) => (
+                  <tr key={`${entry.at}-${entry.setting}-${i}`}>
+                    <td>{new Date(entry.at).toLocaleString()}</td>
+                    <td>{entry.by}</td>
+                    <td className="effective-path">{entry.setting}</td>
+                    <td className="effective-value">
+                      {formatSettingValue(entry.from)} → {formatSettingValue(entry.to)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+
+      {!loading && <GatewayTokenSection onError={setError} />}
+    </div>
+  );
+}
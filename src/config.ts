@@ -8,9 +8,120 @@ export const MOLTBOT_PORT = 18789;
 /** Maximum time to wait for Moltbot to start (3 minutes) */
 export const STARTUP_TIMEOUT_MS = 180_000;
 
+/** Delay before the watchdog restarts a crashed gateway; doubles with each crash in the window */
+export const WATCHDOG_BACKOFF_BASE_MS = 15_000;
+
+/** Upper bound for the watchdog restart delay (10 minutes) */
+export const WATCHDOG_BACKOFF_MAX_MS = 600_000;
+
+/** Number of crashes within CRASH_LOOP_WINDOW_MS after which the watchdog stops restarting */
+export const CRASH_LOOP_THRESHOLD = 5;
+
+/** Window over which gateway crashes are counted (30 minutes) */
+export const CRASH_LOOP_WINDOW_MS = 1_800_000;
+
 /** Mount path for R2 persistent storage inside the container */
 export const R2_MOUNT_PATH = '/data/moltbot';
 
+/** Part size for streamed backup uploads (R2 multipart parts must be at least 5 MiB) */
+export const BACKUP_PART_SIZE = 8 * 1024 * 1024;
+
+/** Maximum time to wait for tar to build the backup archive in the container */
+export const BACKUP_ARCHIVE_TIMEOUT_MS = 300_000;
+
+/** Longest a sync before a gateway restart, kill or sleep may delay it */
+export const PRE_STOP_SYNC_TIMEOUT_MS = 60_000;
+
+/** How long a sync holds its tenant's sync lock without renewing it (renewed while it runs) */
+export const SYNC_LEASE_MS = 120_000;
+
+/** Longest a sync waits for another sync of the same tenant to finish */
+export const SYNC_LOCK_WAIT_MS = 60_000;
+
+/** Sync history entries kept per tenant (a day of 5-minute cron syncs) */
+export const SYNC_HISTORY_LIMIT = 288;
+
+/** Consecutive failed syncs after which the alert webhook fires (override with SYNC_ALERT_THRESHOLD) */
+export const DEFAULT_SYNC_ALERT_THRESHOLD = 3;
+
+/** Maximum time to wait for the alert webhook to respond */
+export const SYNC_ALERT_TIMEOUT_MS = 10_000;
+
+/** Provider health checks kept per provider (an hour of 5-minute cron checks) */
+export const PROVIDER_HEALTH_WINDOW = 12;
+
+/** Maximum time to wait for a provider to answer a health check */
+export const PROVIDER_CHECK_TIMEOUT_MS = 10_000;
+
+/** How long an isolate reuses the runtime settings it read from R2 before reading them again */
+export const RUNTIME_SETTINGS_CACHE_MS = 30_000;
+
+/** Runtime settings changes kept in the audit log */
+export const RUNTIME_SETTINGS_AUDIT_LIMIT = 200;
+
+/** How long a rotated-out gateway token is still accepted by default (24 hours) */
+export const DEFAULT_GATEWAY_TOKEN_GRACE_MS = 86_400_000;
+
+/** Longest grace period an admin can choose for a rotated-out gateway token (30 days) */
+export const MAX_GATEWAY_TOKEN_GRACE_MS = 2_592_000_000;
+
+/** How long an isolate reuses the gateway token rotation it read from R2 */
+export const GATEWAY_TOKEN_CACHE_MS = 30_000;
+
+/** Clients still using a rotated-out gateway token that are remembered for the admin UI */
+export const GATEWAY_TOKEN_CLIENTS_LIMIT = 50;
+
+/** Idle time before the sandbox sleeps outside SANDBOX_AWAKE_HOURS when SANDBOX_SLEEP_AFTER is 'never' */
+export const DEFAULT_OFF_HOURS_SLEEP_AFTER = '30m';
+
+/** How long before an awake window opens the cron handler starts the gateway (15 minutes) */
+export const SANDBOX_PREWARM_MS = 900_000;
+
+/** Gateway WebSocket protocol version the Worker speaks as a client */
+export const GATEWAY_PROTOCOL_VERSION = 3;
+
+/** Longest the Worker waits for the agent to finish a /v1/chat/completions reply (10 minutes) */
+export const CHAT_COMPLETION_TIMEOUT_MS = 600_000;
+
+/** Port of OpenClaw's Telegram webhook listener in the container */
+export const TELEGRAM_WEBHOOK_PORT = 8787;
+
+/** Path the Telegram webhook listener serves */
+export const TELEGRAM_WEBHOOK_PATH = '/telegram-webhook';
+
+/** Updates a tenant's webhook queue holds; more are refused so the channel retries them later */
+export const WEBHOOK_QUEUE_LIMIT = 1000;
+
+/** Update IDs remembered per queue so redelivered updates are queued once */
+export const WEBHOOK_DEDUPE_WINDOW = 200;
+
+/** Delay before replaying the webhook queue again after a failed replay */
+export const WEBHOOK_RETRY_MS = 60_000;
+
+/** Times the gateway may refuse a queued update before it is dropped */
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+
+/** Maximum time to wait for a channel's webhook listener once the gateway is up */
+export const WEBHOOK_LISTENER_TIMEOUT_MS = 60_000;
+
+/** Minimum time between copies of the latest backup to a BACKUP_DESTINATIONS entry */
+export const DEFAULT_REPLICATION_INTERVAL_MINUTES = 60;
+
+/** Minimum time between verifications of the latest backup against its manifest (1 hour) */
+export const BACKUP_VERIFY_INTERVAL_MS = 3_600_000;
+
+/** Minimum time between backup snapshots; syncs in between only update the latest backup */
+export const SNAPSHOT_MIN_INTERVAL_MS = 900_000;
+
+/** Default snapshot retention: newest snapshot per hour for this many hours... */
+export const DEFAULT_RETAIN_HOURLY = 24;
+
+/** ...and newest snapshot per day for this many days */
+export const DEFAULT_RETAIN_DAILY = 30;
+
+/** Most keys a single R2 delete() call accepts */
+export const R2_DELETE_BATCH = 1000;
+
 /**
  * R2 bucket name for persistent storage.
  * Default must match wrangler.jsonc r2_buckets[].bucket_name. Override via R2_BUCKET_NAME for tests.
@@ -18,3 +129,9 @@ export const R2_MOUNT_PATH = '/data/moltbot';
 export function getR2BucketName(env?: { R2_BUCKET_NAME?: string }): string {
   return env?.R2_BUCKET_NAME || 'moltdata';
 }
+
+/**
+ * Sandbox ID used in single-tenant mode, and the tenant whose data lives at the root of the
+ * R2 bucket. Kept as 'moltbot' so existing deployments keep their container and backups.
+ */
+export const DEFAULT_TENANT_ID = 'moltbot';
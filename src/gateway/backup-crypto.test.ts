@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BackupDecryptionError,
+  decryptIfEncrypted,
+  decryptStream,
+  encryptStream,
+  getBackupKeyring,
+  headerKeyId,
+  importBackupKey,
+  reencryptStream,
+} from './backup-crypto';
+import { createMockEnv } from '../test-utils';
+
+const KEY_A = btoa(String.fromCharCode(...new Uint8Array(32).fill(1)));
+const KEY_B = btoa(String.fromCharCode(...new Uint8Array(32).fill(2)));
+
+async function* chunks(data: Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+  for (let i = 0; i < data.length; i += size) {
+    yield data.subarray(i, i + size);
+  }
+}
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: number[] = [];
+  for await (const chunk of source) {
+    parts.push(...chunk);
+  }
+  return Uint8Array.from(parts);
+}
+
+function sample(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31) % 251);
+}
+
+describe('backup encryption', () => {
+  it('round-trips bodies spanning several segments, including exact segment multiples', async () => {
+    const keyring = await getBackupKeyring(createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_A }));
+    for (const length of [0, 5, 64 * 1024, 150_000]) {
+      const data = sample(length);
+      // eslint-disable-next-line no-await-in-loop -- each size is checked in turn
+      const encrypted = await collect(encryptStream(chunks(data, 10_000), keyring.current!));
+      // eslint-disable-next-line no-await-in-loop
+      const decrypted = await collect(decryptStream(chunks(encrypted, 7_000), keyring));
+      expect(decrypted).toEqual(data);
+    }
+  });
+
+  it('derives a stable key id and rejects keys of the wrong length', async () => {
+    const a = await importBackupKey(KEY_A);
+    expect(a.id).toMatch(/^[0-9a-f]{16}$/);
+    expect((await importBackupKey(`${KEY_A}\n`)).id).toBe(a.id);
+    expect((await importBackupKey(KEY_B)).id).not.toBe(a.id);
+    await expect(importBackupKey(btoa('too short'))).rejects.toThrow('32-byte');
+  });
+
+  it('detects truncated and tampered backups', async () => {
+    const keyring = await getBackupKeyring(createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_A }));
+    const encrypted = await collect(encryptStream(sample(150_000), keyring.current!));
+
+    // Cut off right after the first full segment (header + 64 KiB + tag)
+    const truncated = encrypted.slice(0, 80 + 64 * 1024 + 16);
+    await expect(collect(decryptStream(chunks(truncated, 4096), keyring))).rejects.toThrow(
+      BackupDecryptionError,
+    );
+
+    const tampered = encrypted.slice();
+    tampered[1000] ^= 1;
+    await expect(collect(decryptStream(chunks(tampered, 4096), keyring))).rejects.toThrow(
+      'corrupt or truncated',
+    );
+  });
+
+  it('reports backups encrypted with an unknown key', async () => {
+    const a = await getBackupKeyring(createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_A }));
+    const b = await getBackupKeyring(createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_B }));
+    const encrypted = await collect(encryptStream(sample(10), a.current!));
+
+    await expect(collect(decryptStream(chunks(encrypted, 100), b))).rejects.toThrow(
+      `unknown key ${a.current!.id}`,
+    );
+  });
+
+  it('passes plaintext backups through unchanged', async () => {
+    const keyring = await getBackupKeyring(createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_A }));
+    const data = sample(1000);
+
+    expect(await collect(decryptIfEncrypted(chunks(data, 3), keyring))).toEqual(data);
+  });
+
+  it('rewraps backups under a previous key without re-encrypting the body', async () => {
+    const old = await getBackupKeyring(createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_A }));
+    const rotated = await getBackupKeyring(
+      createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_B, BACKUP_ENCRYPTION_KEY_PREVIOUS: KEY_A }),
+    );
+    const current = { ...rotated, current: rotated.current! };
+    const data = sample(100_000);
+    const encrypted = await collect(encryptStream(data, old.current!));
+
+    const rewrapped = await collect((await reencryptStream(chunks(encrypted, 5000), current))!);
+
+    expect(headerKeyId(rewrapped)).toBe(rotated.current!.id);
+    expect(rewrapped.subarray(80)).toEqual(encrypted.subarray(80));
+    const onlyNewKey = await getBackupKeyring(createMockEnv({ BACKUP_ENCRYPTION_KEY: KEY_B }));
+    expect(await collect(decryptStream(chunks(rewrapped, 5000), onlyNewKey))).toEqual(data);
+    expect(await reencryptStream(chunks(rewrapped, 5000), current)).toBeNull();
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * Envelope encryption for backups stored in R2.
+ *
+ * Every object gets its own random data key, which encrypts the body and is itself wrapped with
+ * the key from BACKUP_ENCRYPTION_KEY. Rotating that key only rewraps the data key in the header;
+ * the encrypted body is copied unchanged.
+ *
+ * Layout:
+ *   header (80 bytes): magic "MBE1" | key id (8) | wrap IV (12) | wrapped data key (48) | nonce prefix (8)
+ *   segments: AES-256-GCM over 64 KiB of plaintext each, nonce = prefix || segment index (u32 BE),
+ *             additional data = final flag. The last segment is always shorter than a full one
+ *             (possibly empty), so a backup cut off at a segment boundary fails to decrypt.
+ */
+import type { MoltbotEnv } from '../types';
+import { toChunks, type UploadBody } from './r2-upload';
+
+const MAGIC = new Uint8Array([0x4d, 0x42, 0x45, 0x31]); // "MBE1"
+const KEY_ID_LENGTH = 8;
+const IV_LENGTH = 12;
+const DATA_KEY_LENGTH = 32;
+const WRAPPED_KEY_LENGTH = DATA_KEY_LENGTH + 16;
+const NONCE_PREFIX_LENGTH = 8;
+const HEADER_LENGTH =
+  MAGIC.length + KEY_ID_LENGTH + IV_LENGTH + WRAPPED_KEY_LENGTH + NONCE_PREFIX_LENGTH;
+
+const SEGMENT_SIZE = 64 * 1024;
+const TAG_LENGTH = 16;
+const FINAL = new Uint8Array([1]);
+const NOT_FINAL = new Uint8Array([0]);
+
+/** Custom metadata key recording which key encrypted an object */
+export const ENCRYPTION_KEY_ID_METADATA = 'encryption-key-id';
+
+export interface BackupKey {
+  /** First 8 bytes of the key's SHA-256, hex-encoded */
+  id: string;
+  key: CryptoKey;
+}
+
+export interface BackupKeyring {
+  /** Key new backups are encrypted with, or null when encryption is off */
+  current: BackupKey | null;
+  /** All keys that may decrypt existing backups, by id */
+  keys: Map<string, CryptoKey>;
+}
+
+/**
+ * Thrown when an encrypted backup can't be decrypted (unknown key, corrupt or truncated data)
+ */
+export class BackupDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupDecryptionError';
+  }
+}
+
+interface OpenedHeader {
+  keyId: string;
+  dataKey: Uint8Array;
+  noncePrefix: Uint8Array;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16));
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+function segmentNonce(prefix: Uint8Array, index: number): Uint8Array {
+  const nonce = new Uint8Array(IV_LENGTH);
+  nonce.set(prefix);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index);
+  return nonce;
+}
+
+function importAesKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw as Uint8Array<ArrayBuffer>, 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Import a base64-encoded 256-bit key (e.g. from `openssl rand -base64 32`)
+ */
+export async function importBackupKey(secret: string): Promise<BackupKey> {
+  let raw: Uint8Array;
+  try {
+    raw = Uint8Array.from(atob(secret.trim()), (c) => c.charCodeAt(0));
+  } catch {
+    raw = new Uint8Array(0);
+  }
+  if (raw.length !== 32) {
+    throw new Error('Backup encryption keys must be base64-encoded 32-byte keys');
+  }
+  const digest = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', raw as Uint8Array<ArrayBuffer>),
+  );
+  return { id: toHex(digest.slice(0, KEY_ID_LENGTH)), key: await importAesKey(raw) };
+}
+
+/**
+ * Keys from BACKUP_ENCRYPTION_KEY (current) and BACKUP_ENCRYPTION_KEY_PREVIOUS (comma-separated)
+ */
+export async function getBackupKeyring(env: MoltbotEnv): Promise<BackupKeyring> {
+  const keys = new Map<string, CryptoKey>();
+  const current = env.BACKUP_ENCRYPTION_KEY
+    ? await importBackupKey(env.BACKUP_ENCRYPTION_KEY)
+    : null;
+  const previous = await Promise.all(
+    (env.BACKUP_ENCRYPTION_KEY_PREVIOUS ?? '')
+      .split(',')
+      .filter((secret) => secret.trim() !== '')
+      .map(importBackupKey),
+  );
+  for (const key of [...previous, ...(current ? [current] : [])]) {
+    keys.set(key.id, key.key);
+  }
+  return { current, keys };
+}
+
+/**
+ * Whether bytes (at least the first 4 of an object) start an encrypted backup
+ */
+export function isEncrypted(head: Uint8Array): boolean {
+  return head.length >= MAGIC.length && MAGIC.every((b, i) => head[i] === b);
+}
+
+async function sealHeader(
+  key: BackupKey,
+  dataKey: Uint8Array,
+  noncePrefix: Uint8Array,
+): Promise<Uint8Array> {
+  const keyId = fromHex(key.id);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const wrapped = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: keyId as Uint8Array<ArrayBuffer> },
+      key.key,
+      dataKey as Uint8Array<ArrayBuffer>,
+    ),
+  );
+  const header = new Uint8Array(HEADER_LENGTH);
+  let offset = 0;
+  for (const part of [MAGIC, keyId, iv, wrapped, noncePrefix]) {
+    header.set(part, offset);
+    offset += part.length;
+  }
+  return header;
+}
+
+async function openHeader(header: Uint8Array, keyring: BackupKeyring): Promise<OpenedHeader> {
+  let offset = MAGIC.length;
+  const take = (length: number) => header.slice(offset, (offset += length));
+  const keyIdBytes = take(KEY_ID_LENGTH);
+  const iv = take(IV_LENGTH);
+  const wrapped = take(WRAPPED_KEY_LENGTH);
+  const noncePrefix = take(NONCE_PREFIX_LENGTH);
+
+  const keyId = toHex(keyIdBytes);
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw new BackupDecryptionError(
+      `Backup is encrypted with unknown key ${keyId} (set it in BACKUP_ENCRYPTION_KEY_PREVIOUS)`,
+    );
+  }
+  try {
+    const dataKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: keyIdBytes },
+      key,
+      wrapped,
+    );
+    return { keyId, dataKey: new Uint8Array(dataKey), noncePrefix };
+  } catch {
+    throw new BackupDecryptionError(`Backup key ${keyId} does not match the backup header`);
+  }
+}
+
+/**
+ * Key id of an encrypted backup's header
+ */
+export function headerKeyId(header: Uint8Array): string {
+  return toHex(header.slice(MAGIC.length, MAGIC.length + KEY_ID_LENGTH));
+}
+
+/**
+ * Encrypt a backup body as a stream of chunks.
+ */
+export async function* encryptStream(body: UploadBody, key: BackupKey): AsyncGenerator<Uint8Array> {
+  const dataKey = crypto.getRandomValues(new Uint8Array(DATA_KEY_LENGTH));
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH));
+  const segmentKey = await importAesKey(dataKey);
+  yield await sealHeader(key, dataKey, noncePrefix);
+
+  const buffer = new Uint8Array(SEGMENT_SIZE);
+  let filled = 0;
+  let index = 0;
+  const seal = async (final: boolean) =>
+    new Uint8Array(
+      await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv: segmentNonce(noncePrefix, index++) as Uint8Array<ArrayBuffer>,
+          additionalData: final ? FINAL : NOT_FINAL,
+        },
+        segmentKey,
+        buffer.slice(0, filled),
+      ),
+    );
+
+  for await (const chunk of toChunks(body)) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      // A full segment is only sealed once more data arrives, so the final one is always short
+      if (filled === SEGMENT_SIZE) {
+        // eslint-disable-next-line no-await-in-loop -- segments are sealed in order
+        yield await seal(false);
+        filled = 0;
+      }
+      const n = Math.min(SEGMENT_SIZE - filled, chunk.length - offset);
+      buffer.set(chunk.subarray(offset, offset + n), filled);
+      filled += n;
+      offset += n;
+    }
+  }
+  if (filled === SEGMENT_SIZE) {
+    yield await seal(false);
+    filled = 0;
+  }
+  yield await seal(true);
+}
+
+/**
+ * Decrypt an encrypted backup stream.
+ *
+ * @throws BackupDecryptionError for unknown keys and corrupt or truncated data
+ */
+export async function* decryptStream(
+  source: AsyncIterable<Uint8Array>,
+  keyring: BackupKeyring,
+): AsyncGenerator<Uint8Array> {
+  let pending: Uint8Array = new Uint8Array(0);
+  let header: OpenedHeader | null = null;
+  let segmentKey: CryptoKey | null = null;
+  let index = 0;
+
+  const open = async (segment: Uint8Array, final: boolean) => {
+    try {
+      return new Uint8Array(
+        await crypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv: segmentNonce(header!.noncePrefix, index++) as Uint8Array<ArrayBuffer>,
+            additionalData: final ? FINAL : NOT_FINAL,
+          },
+          segmentKey!,
+          segment as Uint8Array<ArrayBuffer>,
+        ),
+      );
+    } catch {
+      throw new BackupDecryptionError('Encrypted backup is corrupt or truncated');
+    }
+  };
+
+  for await (const chunk of source) {
+    pending = concat(pending, chunk);
+    if (!header) {
+      if (pending.length < HEADER_LENGTH) continue;
+      // eslint-disable-next-line no-await-in-loop -- the header is opened once, before any segment
+      header = await openHeader(pending.subarray(0, HEADER_LENGTH), keyring);
+      // eslint-disable-next-line no-await-in-loop
+      segmentKey = await importAesKey(header.dataKey);
+      pending = pending.slice(HEADER_LENGTH);
+    }
+    // Keep at least one segment's worth back: the last one must be opened as final
+    while (pending.length > SEGMENT_SIZE + TAG_LENGTH) {
+      // eslint-disable-next-line no-await-in-loop -- segments are opened in order
+      yield await open(pending.subarray(0, SEGMENT_SIZE + TAG_LENGTH), false);
+      pending = pending.slice(SEGMENT_SIZE + TAG_LENGTH);
+    }
+  }
+  if (!header) {
+    throw new BackupDecryptionError('Encrypted backup is truncated');
+  }
+  yield await open(pending, true);
+}
+
+interface Peeked {
+  head: Uint8Array;
+  /** Everything, including the peeked bytes */
+  stream: AsyncGenerator<Uint8Array>;
+  /** Stop reading the source without consuming `stream` */
+  close: () => Promise<void>;
+}
+
+/**
+ * Read at least the first `length` bytes of a stream (fewer if it ends first)
+ */
+async function peek(source: AsyncIterable<Uint8Array>, length: number): Promise<Peeked> {
+  const iterator = source[Symbol.asyncIterator]();
+  let head: Uint8Array = new Uint8Array(0);
+  let done = false;
+  while (head.length < length && !done) {
+    // eslint-disable-next-line no-await-in-loop -- reading the stream in order
+    const next = await iterator.next();
+    done = next.done ?? false;
+    if (!next.done) head = concat(head, next.value);
+  }
+  async function* rest() {
+    yield head;
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop -- reading the stream in order
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+  return {
+    head,
+    stream: rest(),
+    close: async () => {
+      await iterator.return?.(undefined);
+    },
+  };
+}
+
+/**
+ * Decrypt a backup stream if it is encrypted; plaintext (pre-encryption) backups pass through.
+ */
+export async function* decryptIfEncrypted(
+  source: AsyncIterable<Uint8Array>,
+  keyring: BackupKeyring,
+): AsyncGenerator<Uint8Array> {
+  const { head, stream } = await peek(source, MAGIC.length);
+  yield* isEncrypted(head) ? decryptStream(stream, keyring) : stream;
+}
+
+/**
+ * Bring a stored backup under the current key: plaintext backups are encrypted and backups under
+ * an older key get their data key rewrapped (the body is copied unchanged).
+ *
+ * @returns The stream to store, or null if the backup already uses the current key
+ */
+export async function reencryptStream(
+  source: AsyncIterable<Uint8Array>,
+  keyring: BackupKeyring & { current: BackupKey },
+): Promise<AsyncGenerator<Uint8Array> | null> {
+  const { head, stream, close } = await peek(source, HEADER_LENGTH);
+  if (!isEncrypted(head)) {
+    return encryptStream(stream, keyring.current);
+  }
+  if (head.length < HEADER_LENGTH) {
+    await close();
+    throw new BackupDecryptionError('Encrypted backup is truncated');
+  }
+  if (headerKeyId(head) === keyring.current.id) {
+    await close();
+    return null;
+  }
+  const opened = await openHeader(head.subarray(0, HEADER_LENGTH), keyring);
+  const header = await sealHeader(keyring.current, opened.dataKey, opened.noncePrefix);
+  return (async function* () {
+    let first = true;
+    for await (const chunk of stream) {
+      // The peeked chunk starts with the old header
+      yield first ? concat(header, chunk.subarray(HEADER_LENGTH)) : chunk;
+      first = false;
+    }
+  })();
+}
+
+/**
+ * Encrypt a body with the current key if encryption is enabled.
+ *
+ * @returns The body to store and the id of the key used (null when stored as plaintext)
+ */
+export async function encryptForStorage(
+  env: MoltbotEnv,
+  body: UploadBody,
+): Promise<{ body: UploadBody; keyId: string | null }> {
+  const { current } = await getBackupKeyring(env);
+  return current
+    ? { body: encryptStream(body, current), keyId: current.id }
+    : { body, keyId: null };
+}
+
+/**
+ * Iterate a ReadableStream (e.g. an R2 object body) as chunks
+ */
+export async function* fromReadable(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let finished = false;
+  try {
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop -- reading the stream in order
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Stopped early (error or consumer gave up): don't leave the source body half-read
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Wrap chunks in a ReadableStream, e.g. for a Response body
+ */
+export function toReadable(chunks: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    },
+  });
+}
+
+/**
+ * Plaintext contents of a stored backup object (decrypted if needed)
+ */
+export async function readBackupObject(
+  env: MoltbotEnv,
+  obj: R2ObjectBody,
+): Promise<AsyncGenerator<Uint8Array>> {
+  return decryptIfEncrypted(fromReadable(obj.body), await getBackupKeyring(env));
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ENCRYPTION_KEY_ID_METADATA, getBackupKeyring, headerKeyId } from './backup-crypto';
+import { reencryptBackups } from './backup-rotation';
+import { readSyncManifest, writeSyncManifest } from './blob-store';
+import { createSnapshot, readSnapshotManifest } from './snapshots';
+import { createMockBucket, createMockEnv, suppressConsole } from '../test-utils';
+
+// backup-rotation pulls in sync-binding, which imports streamFile from the sandbox SDK
+vi.mock('@cloudflare/sandbox', () => ({ streamFile: vi.fn() }));
+
+const KEY_A = btoa(String.fromCharCode(...new Uint8Array(32).fill(1)));
+const KEY_B = btoa(String.fromCharCode(...new Uint8Array(32).fill(2)));
+
+function sample(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31) % 251);
+}
+
+describe('reencryptBackups', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('encrypts plaintext backups and rewraps snapshots under the current key', async () => {
+    const { bucket, objects } = createMockBucket({ 'openclaw/backup.tar.gz': sample(300) });
+    const oldEnv = createMockEnv({ MOLTBOT_BUCKET: bucket, BACKUP_ENCRYPTION_KEY: KEY_A });
+    const snapshot = await createSnapshot(oldEnv, 'moltbot', sample(200));
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      BACKUP_ENCRYPTION_KEY: KEY_B,
+      BACKUP_ENCRYPTION_KEY_PREVIOUS: KEY_A,
+    });
+    const { current } = await getBackupKeyring(env);
+
+    const result = await reencryptBackups(env, 'moltbot');
+
+    expect(result).toEqual({
+      reencrypted: ['openclaw/backup.tar.gz', snapshot.key],
+      failed: [],
+    });
+    for (const key of ['openclaw/backup.tar.gz', snapshot.key]) {
+      expect(headerKeyId(objects.get(key)!.body)).toBe(current!.id);
+      expect(objects.get(key)!.customMetadata?.[ENCRYPTION_KEY_ID_METADATA]).toBe(current!.id);
+    }
+    const manifest = await readSnapshotManifest(env, 'moltbot');
+    expect(manifest.snapshots[0].keyId).toBe(current!.id);
+
+    // Nothing left to do on the next run
+    expect(await reencryptBackups(env, 'moltbot')).toEqual({ reencrypted: [], failed: [] });
+  });
+
+  it('rewraps blobs and the sync manifest, skipping blobs already under the current key', async () => {
+    const hash = 'c'.repeat(64);
+    const { bucket, objects, mocks } = createMockBucket({ [`blobs/${hash}`]: sample(50) });
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket, BACKUP_ENCRYPTION_KEY: KEY_A });
+    const files = [{ hash, size: 50, mode: 0o644, path: 'clawd/MEMORY.md' }];
+    await writeSyncManifest(createMockEnv({ MOLTBOT_BUCKET: bucket }), 'moltbot', {
+      lastSync: '2026-03-10T12:00:00.000Z',
+      files,
+    });
+    const { current } = await getBackupKeyring(env);
+
+    const result = await reencryptBackups(env, 'moltbot');
+    mocks.get.mockClear();
+    const again = await reencryptBackups(env, 'moltbot');
+
+    expect(result).toEqual({ reencrypted: [`blobs/${hash}`, 'sync/manifest'], failed: [] });
+    expect(headerKeyId(objects.get(`blobs/${hash}`)!.body)).toBe(current!.id);
+    expect(objects.get('sync/manifest')!.customMetadata?.['last-sync']).toBe(
+      '2026-03-10T12:00:00.000Z',
+    );
+    expect((await readSyncManifest(env, 'moltbot'))?.files).toEqual(files);
+    expect(again).toEqual({ reencrypted: [], failed: [] });
+    expect(mocks.get).not.toHaveBeenCalledWith(`blobs/${hash}`);
+  });
+});
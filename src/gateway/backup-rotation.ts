@@ -0,0 +1,147 @@
+import type { MoltbotEnv } from '../types';
+import {
+  ENCRYPTION_KEY_ID_METADATA,
+  fromReadable,
+  getBackupKeyring,
+  reencryptStream,
+  type BackupKey,
+  type BackupKeyring,
+} from './backup-crypto';
+import { BLOB_PREFIX, SYNC_MANIFEST_KEY } from './blob-store';
+import { uploadInParts } from './r2-upload';
+import { readSnapshotManifest, writeSnapshotManifest } from './snapshots';
+import { BACKUP_KEY } from './sync-binding';
+import { withSyncLock } from './sync-lock';
+import { getTenantR2Prefix } from './tenant';
+
+export interface ReencryptResult {
+  /** Keys (relative to the tenant prefix) rewritten under the current key */
+  reencrypted: string[];
+  failed: Array<{ key: string; error: string }>;
+}
+
+/**
+ * Rewrite one object under the current key.
+ *
+ * @returns The stored size, or null if the object doesn't exist
+ */
+async function reencryptObject(
+  bucket: R2Bucket,
+  key: string,
+  keyring: BackupKeyring & { current: BackupKey },
+): Promise<{ size: number; rewritten: boolean } | null> {
+  const obj = await bucket.get(key);
+  if (!obj) {
+    return null;
+  }
+  const stream = await reencryptStream(fromReadable(obj.body), keyring);
+  if (!stream) {
+    return { size: obj.size, rewritten: false };
+  }
+  // A multipart upload only replaces the object on completion, after the source was fully read
+  const { bytes } = await uploadInParts(bucket, key, stream, {
+    httpMetadata: obj.httpMetadata,
+    customMetadata: { ...obj.customMetadata, [ENCRYPTION_KEY_ID_METADATA]: keyring.current.id },
+  });
+  return { size: bytes, rewritten: true };
+}
+
+/**
+ * Bring a tenant's latest backup (blobs and sync manifest, or the tarball from before the
+ * content-addressed store) and snapshots under the current BACKUP_ENCRYPTION_KEY:
+ * plaintext backups are encrypted and ones under a previous key are rewrapped. Objects already
+ * under the current key are skipped without being read, so this is cheap once rotation is done.
+ * No-op when encryption is off.
+ */
+export async function reencryptBackups(
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<ReencryptResult> {
+  const result: ReencryptResult = { reencrypted: [], failed: [] };
+  const keyring = await getBackupKeyring(env);
+  const { current } = keyring;
+  if (!current) {
+    return result;
+  }
+  const ring = { ...keyring, current };
+  const prefix = getTenantR2Prefix(tenantId);
+
+  // The sync manifest is rewritten in place, so a sync must not replace it in the meantime (an
+  // older list written back over a newer one would reference blobs the newer sync deleted)
+  const rotated = await withSyncLock(env, tenantId, async () => {
+    // Blobs are listed with their metadata, so ones already under the current key aren't read
+    const stale: string[] = [];
+    let cursor: string | undefined;
+    do {
+      // eslint-disable-next-line no-await-in-loop -- paginated listing
+      const page = await env.MOLTBOT_BUCKET.list({
+        prefix: prefix + BLOB_PREFIX,
+        cursor,
+        // Supported by R2 (and required for metadata in listings) but missing from these types
+        include: ['customMetadata'],
+      } as R2ListOptions);
+      for (const obj of page.objects) {
+        if (obj.customMetadata?.[ENCRYPTION_KEY_ID_METADATA] !== current.id) {
+          stale.push(obj.key.slice(prefix.length));
+        }
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    for (const key of [...stale, SYNC_MANIFEST_KEY, BACKUP_KEY]) {
+      try {
+        if (key === SYNC_MANIFEST_KEY || key === BACKUP_KEY) {
+          // eslint-disable-next-line no-await-in-loop -- one object at a time to bound memory
+          const head = await env.MOLTBOT_BUCKET.head(prefix + key);
+          if (!head || head.customMetadata?.[ENCRYPTION_KEY_ID_METADATA] === current.id) continue;
+        }
+        // eslint-disable-next-line no-await-in-loop
+        const outcome = await reencryptObject(env.MOLTBOT_BUCKET, prefix + key, ring);
+        if (outcome?.rewritten) result.reencrypted.push(key);
+      } catch (err) {
+        result.failed.push({
+          key,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    return true;
+  });
+  if (!rotated) {
+    result.failed.push({ key: SYNC_MANIFEST_KEY, error: 'Another sync is still running' });
+  }
+
+  const manifest = await readSnapshotManifest(env, tenantId);
+  let changed = false;
+  for (const entry of manifest.snapshots) {
+    if (entry.keyId === current.id) continue;
+    try {
+      // eslint-disable-next-line no-await-in-loop -- one snapshot at a time to bound memory
+      const outcome = await reencryptObject(env.MOLTBOT_BUCKET, prefix + entry.key, ring);
+      if (!outcome) continue;
+      entry.keyId = current.id;
+      entry.size = outcome.size;
+      changed = true;
+      if (outcome.rewritten) result.reencrypted.push(entry.key);
+    } catch (err) {
+      result.failed.push({
+        key: entry.key,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  if (changed) {
+    await writeSnapshotManifest(env, tenantId, manifest.snapshots);
+  }
+
+  if (result.reencrypted.length > 0 || result.failed.length > 0) {
+    console.log(
+      '[Encryption] Re-encrypted',
+      result.reencrypted.length,
+      'backup(s) for tenant',
+      tenantId,
+      result.failed.length > 0 ? `(${result.failed.length} failed)` : '',
+    );
+  }
+  return result;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  VERIFICATION_KEY,
+  isVerificationDue,
+  parseManifestOutput,
+  sameContents,
+  verificationResult,
+  verifyIfDue,
+} from './backup-verify';
+import { createMockBucket, createMockEnv, suppressConsole } from '../test-utils';
+
+async function* chunks(...parts: number[][]): AsyncGenerator<Uint8Array> {
+  for (const part of parts) {
+    yield Uint8Array.from(part);
+  }
+}
+
+describe('parseManifestOutput', () => {
+  it('separates the summary line from mismatched paths', () => {
+    expect(parseManifestOutput('clawd/a file.md\n.openclaw/openclaw.json\n# 12 3456\n')).toEqual({
+      summary: { files: 12, bytes: 3456 },
+      lines: ['clawd/a file.md', '.openclaw/openclaw.json'],
+    });
+    expect(parseManifestOutput('')).toEqual({ summary: null, lines: [] });
+  });
+});
+
+describe('isVerificationDue', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const verified = (verifiedAt: string, ok = true) => ({
+    ...verificationResult('binding', verifiedAt, null, ok ? [] : ['x']),
+    verifiedAt,
+  });
+
+  it('is due without a previous verification, after a failure, or after an hour', () => {
+    expect(isVerificationDue(null, now)).toBe(true);
+    expect(isVerificationDue(verified('2026-03-10T11:30:00Z', false), now)).toBe(true);
+    expect(isVerificationDue(verified('2026-03-10T10:59:00Z'), now)).toBe(true);
+    expect(isVerificationDue(verified('2026-03-10T11:30:00Z'), now)).toBe(false);
+  });
+});
+
+describe('sameContents', () => {
+  it('compares contents regardless of chunking', async () => {
+    expect(await sameContents(chunks([1, 2, 3], [4]), chunks([1], [], [2, 3, 4]))).toBe(true);
+    expect(await sameContents(chunks([1, 2, 3]), chunks([1, 2, 3], [4]))).toBe(false);
+    expect(await sameContents(chunks([1, 2, 3]), chunks([1, 9, 3]))).toBe(false);
+    expect(await sameContents(chunks(), chunks([]))).toBe(true);
+  });
+});
+
+describe('verifyIfDue', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('records the result and skips verification until it is due again', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const verify = vi.fn(async () =>
+      verificationResult('mount', '2026-03-10T12:00:00Z', { files: 2, bytes: 10 }, []),
+    );
+
+    const first = await verifyIfDue(env, 'moltbot', false, verify);
+    const second = await verifyIfDue(env, 'moltbot', false, verify);
+    const forced = await verifyIfDue(env, 'moltbot', true, verify);
+
+    expect(first).toMatchObject({ ok: true, files: 2, bytes: 10 });
+    expect(second).toBeNull();
+    expect(forced).not.toBeNull();
+    expect(verify).toHaveBeenCalledTimes(2);
+    expect(objects.has(VERIFICATION_KEY)).toBe(true);
+  });
+
+  it('keeps verifying while the last verification failed', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const verify = vi.fn(async () =>
+      verificationResult('mount', '2026-03-10T12:00:00Z', null, ['openclaw/openclaw.json']),
+    );
+
+    await verifyIfDue(env, 'moltbot', false, verify);
+    const again = await verifyIfDue(env, 'moltbot', false, verify);
+
+    expect(again).toMatchObject({ ok: false, mismatches: ['openclaw/openclaw.json'] });
+    expect(verify).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,198 @@
+import type { MoltbotEnv } from '../types';
+import { BACKUP_VERIFY_INTERVAL_MS } from '../config';
+import { getTenantR2Prefix } from './tenant';
+
+/**
+ * Manifest at the root of every backup tarball (restore download or snapshot, generated from the
+ * sync manifest; see blob-store.ts): one `<sha256> <size> <path>` line per file, paths relative
+ * to the backup root. start-openclaw.sh checks it before restoring, so the format must stay
+ * shell-parseable.
+ */
+export const MANIFEST_FILE = '.backup-manifest';
+
+/** Result of the last verification, relative to the tenant's R2 prefix */
+export const VERIFICATION_KEY = '.backup-verification.json';
+
+/** At most this many mismatched paths are recorded */
+const MAX_MISMATCHES = 20;
+
+export interface BackupVerification {
+  verifiedAt: string; // ISO timestamp
+  /** Timestamp of the sync that was verified */
+  lastSync: string;
+  method: 'mount' | 'binding';
+  ok: boolean;
+  /** Files and total file bytes listed in the manifest */
+  files: number;
+  bytes: number;
+  /** Paths missing or different in R2 (first MAX_MISMATCHES) */
+  mismatches?: string[];
+  error?: string;
+}
+
+export interface ManifestSummary {
+  files: number;
+  bytes: number;
+}
+
+/**
+ * Shell command that checks the files under `dir` against its manifest. Prints each missing or
+ * different path, then the summary line. Exits 2 without a manifest and 3 on any mismatch.
+ */
+export function verifyManifestCommand(dir: string): string {
+  return (
+    `(cd ${dir} && [ -f ${MANIFEST_FILE} ] || { echo "No ${MANIFEST_FILE} in ${dir}" >&2; exit 2; }; ` +
+    `bad=0; while read -r hash size path; do ` +
+    `if [ ! -f "$path" ] || [ "$(stat -c %s "$path")" != "$size" ] || ` +
+    `[ "$(sha256sum < "$path" | cut -c1-64)" != "$hash" ]; then echo "$path"; bad=$((bad+1)); fi; ` +
+    `done < ${MANIFEST_FILE}; ` +
+    `awk '{n++; b+=$2} END {printf "# %d %d\\n", n, b}' ${MANIFEST_FILE}; [ $bad -eq 0 ] || exit 3)`
+  );
+}
+
+/**
+ * Split output ending in a `# <files> <bytes>` summary line (verifyManifestCommand, the sync's
+ * file listing) into the summary and the remaining lines (mismatched paths for verification).
+ */
+export function parseManifestOutput(stdout: string): {
+  summary: ManifestSummary | null;
+  lines: string[];
+} {
+  let summary: ManifestSummary | null = null;
+  const lines: string[] = [];
+  for (const line of stdout.split('\n')) {
+    const match = line.match(/^# (\d+) (\d+)$/);
+    if (match) {
+      summary = { files: Number(match[1]), bytes: Number(match[2]) };
+    } else if (line.trim() !== '') {
+      lines.push(line);
+    }
+  }
+  return { summary, lines };
+}
+
+/**
+ * Verification result from the paths found to differ (and an error for whole-backup failures)
+ */
+export function verificationResult(
+  method: BackupVerification['method'],
+  lastSync: string,
+  summary: ManifestSummary | null,
+  mismatches: string[],
+  error?: string,
+): BackupVerification {
+  return {
+    verifiedAt: new Date().toISOString(),
+    lastSync,
+    method,
+    ok: mismatches.length === 0 && !error,
+    files: summary?.files ?? 0,
+    bytes: summary?.bytes ?? 0,
+    ...(mismatches.length > 0 && { mismatches: mismatches.slice(0, MAX_MISMATCHES) }),
+    ...(error && { error }),
+  };
+}
+
+/**
+ * Last recorded verification for a tenant, or null if none
+ */
+export async function readVerification(
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<BackupVerification | null> {
+  const obj = await env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + VERIFICATION_KEY);
+  return obj ? ((await obj.json()) as BackupVerification) : null;
+}
+
+/**
+ * Whether the latest backup should be verified: never verified, last check failed, or last
+ * check older than BACKUP_VERIFY_INTERVAL_MS.
+ */
+export function isVerificationDue(last: BackupVerification | null, now: Date): boolean {
+  return (
+    !last || !last.ok || now.getTime() - Date.parse(last.verifiedAt) >= BACKUP_VERIFY_INTERVAL_MS
+  );
+}
+
+/**
+ * Run `verify` if a verification is due (or `force` is set) and record its result.
+ * Verification reads the whole backup back, so it is rate-limited rather than run every sync.
+ *
+ * @returns The new verification, or null if none was due or it could not be run
+ */
+export async function verifyIfDue(
+  env: MoltbotEnv,
+  tenantId: string,
+  force: boolean,
+  verify: () => Promise<BackupVerification>,
+): Promise<BackupVerification | null> {
+  let result: BackupVerification;
+  try {
+    if (!force && !isVerificationDue(await readVerification(env, tenantId), new Date())) {
+      return null;
+    }
+    result = await verify();
+  } catch (err) {
+    console.error('[Verify] Backup verification could not run:', err);
+    return null;
+  }
+  if (result.ok) {
+    console.log('[Verify] Backup verified:', result.files, 'files,', result.bytes, 'bytes');
+  } else {
+    console.error(
+      '[Verify] Backup does not match its manifest:',
+      result.error ?? result.mismatches,
+    );
+  }
+  try {
+    await env.MOLTBOT_BUCKET.put(
+      getTenantR2Prefix(tenantId) + VERIFICATION_KEY,
+      JSON.stringify(result),
+      { httpMetadata: { contentType: 'application/json' } },
+    );
+  } catch (err) {
+    console.error('[Verify] Failed to record verification:', err);
+  }
+  return result;
+}
+
+async function nextNonEmpty(iterator: AsyncIterator<Uint8Array>): Promise<Uint8Array | null> {
+  for (;;) {
+    // eslint-disable-next-line no-await-in-loop -- reading the stream in order
+    const next = await iterator.next();
+    if (next.done) return null;
+    if (next.value.length > 0) return next.value;
+  }
+}
+
+/**
+ * Whether two byte streams have identical contents, regardless of how they are chunked
+ */
+export async function sameContents(
+  a: AsyncIterable<Uint8Array>,
+  b: AsyncIterable<Uint8Array>,
+): Promise<boolean> {
+  const left = a[Symbol.asyncIterator]();
+  const right = b[Symbol.asyncIterator]();
+  // null once a stream has ended
+  let x: Uint8Array | null = new Uint8Array(0);
+  let y: Uint8Array | null = new Uint8Array(0);
+  try {
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop -- streams are compared in order
+      if (x?.length === 0) x = await nextNonEmpty(left);
+      // eslint-disable-next-line no-await-in-loop
+      if (y?.length === 0) y = await nextNonEmpty(right);
+      if (x === null || y === null) return x === y;
+      const n = Math.min(x.length, y.length);
+      for (let i = 0; i < n; i++) {
+        if (x[i] !== y[i]) return false;
+      }
+      x = x.subarray(n);
+      y = y.subarray(n);
+    }
+  } finally {
+    await left.return?.(undefined);
+    await right.return?.(undefined);
+  }
+}
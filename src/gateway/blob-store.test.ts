@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blobKey,
+  formatFileList,
+  manifestArchive,
+  parseFileList,
+  readSyncManifest,
+  writeSyncManifest,
+  type FileEntry,
+} from './blob-store';
+import { encryptStream, getBackupKeyring, isEncrypted } from './backup-crypto';
+import { createMockBucket, createMockEnv, readTarGz } from '../test-utils';
+
+const KEY = btoa(String.fromCharCode(...new Uint8Array(32).fill(7)));
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: number[] = [];
+  for await (const chunk of chunks) {
+    parts.push(...chunk);
+  }
+  return Uint8Array.from(parts);
+}
+
+describe('file lists', () => {
+  it('round-trips paths with spaces and modes, ignoring malformed lines', () => {
+    const files: FileEntry[] = [
+      { hash: HASH_A, size: 12, mode: 0o644, path: '.openclaw/openclaw.json' },
+      { hash: HASH_B, size: 0, mode: 0o755, path: 'clawd/skills/my skill/run.sh' },
+    ];
+
+    const text = formatFileList(files);
+
+    expect(text).toBe(
+      `${HASH_A} 12 644 .openclaw/openclaw.json\n${HASH_B} 0 755 clawd/skills/my skill/run.sh\n`,
+    );
+    expect(parseFileList(`${text}# 2 12\nnot a file line\n`)).toEqual(files);
+  });
+});
+
+describe('manifestArchive', () => {
+  it('assembles a restorable tarball from plaintext and encrypted blobs', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket, BACKUP_ENCRYPTION_KEY: KEY });
+    const { current } = await getBackupKeyring(env);
+    const config = new TextEncoder().encode('{}');
+    await bucket.put(blobKey(HASH_A), config);
+    await bucket.put(
+      blobKey(HASH_B),
+      await collect(encryptStream(new TextEncoder().encode('notes'), current!)),
+    );
+    await writeSyncManifest(env, 'moltbot', {
+      lastSync: '2026-03-10T12:00:00.000Z',
+      files: [
+        { hash: HASH_A, size: 2, mode: 0o600, path: '.openclaw/openclaw.json' },
+        { hash: HASH_B, size: 5, mode: 0o644, path: 'clawd/MEMORY.md' },
+      ],
+    });
+
+    const manifest = await readSyncManifest(env, 'moltbot');
+    const files = await readTarGz(manifestArchive(env, 'moltbot', manifest!));
+
+    expect(manifest?.lastSync).toBe('2026-03-10T12:00:00.000Z');
+    expect(files).toEqual([
+      {
+        path: '.backup-manifest',
+        mode: 0o644,
+        body: `${HASH_A} 2 .openclaw/openclaw.json\n${HASH_B} 5 clawd/MEMORY.md\n`,
+      },
+      { path: '.openclaw/openclaw.json', mode: 0o600, body: '{}' },
+      { path: 'clawd/MEMORY.md', mode: 0o644, body: 'notes' },
+    ]);
+  });
+
+  it('stores the manifest encrypted and the sync marker as plaintext', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket, BACKUP_ENCRYPTION_KEY: KEY });
+
+    await writeSyncManifest(env, 'team', {
+      lastSync: '2026-03-10T12:00:00.000Z',
+      files: [{ hash: HASH_A, size: 2, mode: 0o644, path: '.openclaw/openclaw.json' }],
+    });
+
+    expect(isEncrypted(objects.get('tenants/team/sync/manifest')!.body)).toBe(true);
+    expect(new TextDecoder().decode(objects.get('tenants/team/sync/.last-sync')!.body)).toBe(
+      '2026-03-10T12:00:00.000Z',
+    );
+  });
+});
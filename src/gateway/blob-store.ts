@@ -0,0 +1,218 @@
+import type { MoltbotEnv } from '../types';
+import { R2_DELETE_BATCH } from '../config';
+import { ENCRYPTION_KEY_ID_METADATA, encryptForStorage, readBackupObject } from './backup-crypto';
+import { MANIFEST_FILE } from './backup-verify';
+import { uploadInParts } from './r2-upload';
+import { gzipStream, tarStream, type TarEntry } from './tar';
+import { getTenantR2Prefix } from './tenant';
+
+/**
+ * Content-addressed backup store.
+ *
+ * Each distinct file content is stored once under `blobs/<sha256>`, and each sync writes a
+ * manifest listing every backed-up file with its hash. A sync only uploads blobs that aren't
+ * stored yet, and a sync that finds the same file list skips R2 writes altogether. The file list has one `<sha256> <size> <mode> <path>` line per file (mode in
+ * octal, paths relative to /root), so start-openclaw.sh can restore it straight from the mount.
+ */
+
+/** Blob keys are this prefix plus the content's SHA-256, relative to the tenant's R2 prefix */
+export const BLOB_PREFIX = 'blobs/';
+/** File list of the latest sync, relative to the tenant's R2 prefix */
+export const SYNC_MANIFEST_KEY = 'sync/manifest';
+/** Time of the latest sync, always plaintext so the startup script can compare it */
+export const SYNC_MARKER_KEY = 'sync/.last-sync';
+
+export interface FileEntry {
+  /** SHA-256 of the contents (hex) */
+  hash: string;
+  size: number;
+  /** Permission bits, e.g. 0o644 */
+  mode: number;
+  /** Path relative to /root */
+  path: string;
+}
+
+export interface SyncManifest {
+  /** Time of the sync that wrote it (ISO timestamp) */
+  lastSync: string;
+  files: FileEntry[];
+}
+
+const FILE_LINE = /^([0-9a-f]{64}) (\d+) ([0-7]+) (.+)$/;
+
+/**
+ * Blob key for a content hash, relative to the tenant's R2 prefix
+ */
+export function blobKey(hash: string): string {
+  return BLOB_PREFIX + hash;
+}
+
+/**
+ * Parse a file list. Lines that don't match the format are ignored.
+ */
+export function parseFileList(text: string): FileEntry[] {
+  const files: FileEntry[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(FILE_LINE);
+    if (match) {
+      files.push({
+        hash: match[1],
+        size: Number(match[2]),
+        mode: Number.parseInt(match[3], 8),
+        path: match[4],
+      });
+    }
+  }
+  return files;
+}
+
+/**
+ * Format a file list (inverse of parseFileList)
+ */
+export function formatFileList(files: FileEntry[]): string {
+  return files.map((f) => `${f.hash} ${f.size} ${f.mode.toString(8)} ${f.path}\n`).join('');
+}
+
+/**
+ * Whether two file lists describe the same files (same order, contents and modes)
+ */
+export function sameFiles(a: FileEntry[], b: FileEntry[]): boolean {
+  return formatFileList(a) === formatFileList(b);
+}
+
+/**
+ * Total size of the listed files
+ */
+export function totalBytes(files: FileEntry[]): number {
+  return files.reduce((n, f) => n + f.size, 0);
+}
+
+/**
+ * The file list as a tarball manifest (see backup-verify.ts), which has no modes
+ */
+export function backupManifestText(files: FileEntry[]): string {
+  return files.map((f) => `${f.hash} ${f.size} ${f.path}\n`).join('');
+}
+
+/**
+ * Latest sync manifest for a tenant (decrypted if needed), or null if none was written yet
+ */
+export async function readSyncManifest(
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<SyncManifest | null> {
+  const obj = await env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + SYNC_MANIFEST_KEY);
+  if (!obj) {
+    return null;
+  }
+  const decoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of await readBackupObject(env, obj)) {
+    text += decoder.decode(chunk, { stream: true });
+  }
+  text += decoder.decode();
+  return {
+    lastSync: obj.customMetadata?.['last-sync'] ?? obj.uploaded.toISOString(),
+    files: parseFileList(text),
+  };
+}
+
+/**
+ * Store a sync manifest (encrypted when BACKUP_ENCRYPTION_KEY is set) and its plaintext marker.
+ * The marker is written last, so the startup script never sees a new time with an old list.
+ */
+export async function writeSyncManifest(
+  env: MoltbotEnv,
+  tenantId: string,
+  manifest: SyncManifest,
+): Promise<void> {
+  const prefix = getTenantR2Prefix(tenantId);
+  const stored = await encryptForStorage(
+    env,
+    new TextEncoder().encode(formatFileList(manifest.files)),
+  );
+  await uploadInParts(env.MOLTBOT_BUCKET, prefix + SYNC_MANIFEST_KEY, stored.body, {
+    httpMetadata: { contentType: 'text/plain' },
+    customMetadata: {
+      'last-sync': manifest.lastSync,
+      files: String(manifest.files.length),
+      bytes: String(totalBytes(manifest.files)),
+      ...(stored.keyId && { [ENCRYPTION_KEY_ID_METADATA]: stored.keyId }),
+    },
+  });
+  await env.MOLTBOT_BUCKET.put(prefix + SYNC_MARKER_KEY, manifest.lastSync, {
+    httpMetadata: { contentType: 'text/plain' },
+  });
+}
+
+/**
+ * Plaintext contents of a blob
+ *
+ * @throws If the blob is missing or can't be decrypted
+ */
+export async function readBlob(
+  env: MoltbotEnv,
+  tenantId: string,
+  hash: string,
+): Promise<AsyncGenerator<Uint8Array>> {
+  const obj = await env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + blobKey(hash));
+  if (!obj) {
+    throw new Error(`Missing blob ${hash}`);
+  }
+  return readBackupObject(env, obj);
+}
+
+async function* archiveEntries(
+  env: MoltbotEnv,
+  tenantId: string,
+  manifest: SyncManifest,
+): AsyncGenerator<TarEntry> {
+  const mtime = Math.floor(Date.parse(manifest.lastSync) / 1000) || 0;
+  const checksums = new TextEncoder().encode(backupManifestText(manifest.files));
+  yield { path: MANIFEST_FILE, mode: 0o644, size: checksums.length, mtime, body: checksums };
+  for (const file of manifest.files) {
+    yield {
+      path: file.path,
+      mode: file.mode,
+      size: file.size,
+      mtime,
+      // eslint-disable-next-line no-await-in-loop -- blobs are read one at a time, in order
+      body: await readBlob(env, tenantId, file.hash),
+    };
+  }
+}
+
+/**
+ * The files of a sync manifest as a tar.gz in the layout of a backup tarball: paths relative to
+ * /root, plus the `.backup-manifest` checksums the restore verifies. Blobs are streamed one at a
+ * time, so the archive never sits in memory.
+ */
+export function manifestArchive(
+  env: MoltbotEnv,
+  tenantId: string,
+  manifest: SyncManifest,
+): AsyncGenerator<Uint8Array> {
+  return gzipStream(tarStream(archiveEntries(env, tenantId, manifest)));
+}
+
+/**
+ * Delete blobs no longer referenced by the latest manifest (best-effort: an orphaned blob only
+ * costs storage, and is reused if the same content is synced again).
+ */
+export async function deleteBlobs(
+  env: MoltbotEnv,
+  tenantId: string,
+  hashes: string[],
+): Promise<void> {
+  const prefix = getTenantR2Prefix(tenantId);
+  try {
+    for (let i = 0; i < hashes.length; i += R2_DELETE_BATCH) {
+      // eslint-disable-next-line no-await-in-loop -- batches in order
+      await env.MOLTBOT_BUCKET.delete(
+        hashes.slice(i, i + R2_DELETE_BATCH).map((h) => prefix + blobKey(h)),
+      );
+    }
+  } catch (err) {
+    console.error('[SyncBinding] Failed to delete unreferenced blobs:', err);
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Sandbox } from '@cloudflare/sandbox';
+import { chatPrompt, chatSessionKey, streamGatewayChat } from './chat';
+
+interface RequestFrame {
+  id: string;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+type Responder = (frame: RequestFrame) => object[];
+
+/** A gateway connection that answers each request frame with the responder's frames */
+class FakeGatewaySocket {
+  readyState = 1;
+  sent: RequestFrame[] = [];
+  private listeners = new Map<string, ((event: { data?: string }) => void)[]>();
+
+  constructor(private readonly respond: Responder) {}
+
+  accept() {
+    setTimeout(() => {
+      this.emit('message', {
+        data: JSON.stringify({
+          type: 'event',
+          event: 'connect.challenge',
+          payload: { nonce: 'n' },
+        }),
+      });
+    }, 0);
+  }
+
+  addEventListener(type: string, listener: (event: { data?: string }) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  send(data: string) {
+    const frame = JSON.parse(data) as RequestFrame;
+    this.sent.push(frame);
+    setTimeout(() => {
+      for (const reply of this.respond(frame)) {
+        this.emit('message', { data: JSON.stringify(reply) });
+      }
+    }, 0);
+  }
+
+  emit(type: string, event: { data?: string }) {
+    for (const listener of this.listeners.get(type) ?? []) {
+      listener(event);
+    }
+  }
+
+  close = vi.fn(() => {
+    this.readyState = 3;
+  });
+}
+
+function sandboxWith(socket: FakeGatewaySocket): Sandbox {
+  return {
+    wsConnect: vi.fn().mockResolvedValue({ status: 101, webSocket: socket }),
+  } as unknown as Sandbox;
+}
+
+function chatEvent(state: string, text: string, extra: Record<string, unknown> = {}) {
+  return {
+    type: 'event',
+    event: 'chat',
+    payload: {
+      runId: 'run-1',
+      sessionKey: 'agent:main:openai:s1',
+      state,
+      ...extra,
+      message: { role: 'assistant', content: [{ type: 'text', text }] },
+    },
+  };
+}
+
+/** Accepts connect, then answers chat.send with the given chat events */
+function gateway(events: object[]): Responder {
+  return (frame) => {
+    if (frame.method === 'connect') {
+      return [{ type: 'res', id: frame.id, ok: true, payload: { type: 'hello-ok' } }];
+    }
+    return [{ type: 'res', id: frame.id, ok: true, payload: { runId: 'run-1' } }, ...events];
+  };
+}
+
+async function collect(chat: AsyncGenerator<string, void>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of chat) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+const request = { token: 'gw-token', sessionKey: 'openai:s1', message: 'Hello' };
+
+describe('chatPrompt', () => {
+  it('returns the text of the last user message', () => {
+    expect(
+      chatPrompt([
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'Reply' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Second ' },
+            { type: 'image_url' },
+            { type: 'text', text: 'question' },
+          ],
+        },
+      ]),
+    ).toBe('Second question');
+  });
+
+  it('returns null without user text', () => {
+    expect(chatPrompt([{ role: 'system', content: 'Be brief' }])).toBeNull();
+    expect(chatPrompt([{ role: 'user', content: '  ' }])).toBeNull();
+  });
+});
+
+describe('chatSessionKey', () => {
+  it('maps a caller and user to the same session every time', async () => {
+    const key = await chatSessionKey('bot.access', 'alice');
+
+    expect(key).toMatch(/^openai:[0-9a-f]{32}$/);
+    expect(await chatSessionKey('bot.access', 'alice')).toBe(key);
+    expect(await chatSessionKey('bot.access', 'bob')).not.toBe(key);
+    expect(await chatSessionKey('other.access', 'alice')).not.toBe(key);
+  });
+
+  it('uses a new session for each request without a user', async () => {
+    expect(await chatSessionKey('bot.access')).not.toBe(await chatSessionKey('bot.access'));
+  });
+});
+
+describe('streamGatewayChat', () => {
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', { OPEN: 1 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('connects with the token, sends the message and yields the new text of each event', async () => {
+    const socket = new FakeGatewaySocket(
+      gateway([
+        chatEvent('delta', 'Hi'),
+        chatEvent('delta', 'Hi there'),
+        chatEvent('final', 'Hi there!'),
+      ]),
+    );
+
+    const chunks = await collect(streamGatewayChat(sandboxWith(socket), request));
+
+    expect(chunks).toEqual(['Hi', ' there', '!']);
+    expect(socket.sent.map((frame) => frame.method)).toEqual(['connect', 'chat.send']);
+    expect(socket.sent[0].params).toMatchObject({ role: 'operator', auth: { token: 'gw-token' } });
+    expect(socket.sent[1].params).toMatchObject({
+      sessionKey: 'openai:s1',
+      message: 'Hello',
+      deliver: false,
+    });
+    expect(socket.close).toHaveBeenCalled();
+  });
+
+  it('ignores events of other runs', async () => {
+    const socket = new FakeGatewaySocket(
+      gateway([chatEvent('delta', 'Not ours', { runId: 'run-2' }), chatEvent('final', 'Ours')]),
+    );
+
+    expect(await collect(streamGatewayChat(sandboxWith(socket), request))).toEqual(['Ours']);
+  });
+
+  it('throws instead of dropping text when the agent rewrites its reply', async () => {
+    const socket = new FakeGatewaySocket(
+      gateway([
+        chatEvent('delta', 'The answer is 4'),
+        chatEvent('delta', 'The answer'),
+        chatEvent('delta', 'Actually, it is 5'),
+        chatEvent('final', 'Actually, it is 5.'),
+      ]),
+    );
+    const chunks: string[] = [];
+
+    await expect(
+      (async () => {
+        for await (const chunk of streamGatewayChat(sandboxWith(socket), request)) {
+          chunks.push(chunk);
+        }
+      })(),
+    ).rejects.toThrow('rewrote its reply');
+    expect(chunks).toEqual(['The answer is 4']);
+  });
+
+  it('throws when the run fails', async () => {
+    const socket = new FakeGatewaySocket(
+      gateway([chatEvent('error', '', { errorMessage: 'model overloaded' })]),
+    );
+
+    await expect(collect(streamGatewayChat(sandboxWith(socket), request))).rejects.toThrow(
+      'model overloaded',
+    );
+  });
+
+  it('throws when the gateway refuses the token', async () => {
+    const socket = new FakeGatewaySocket((frame) => [
+      { type: 'res', id: frame.id, ok: false, error: { message: 'unauthorized' } },
+    ]);
+
+    await expect(collect(streamGatewayChat(sandboxWith(socket), request))).rejects.toThrow(
+      'unauthorized',
+    );
+    expect(socket.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Chat with the agent as a gateway WebSocket client, for the OpenAI-compatible
+ * /v1/chat/completions route.
+ *
+ * Each request opens a connection with sandbox.wsConnect, authenticates with the gateway token,
+ * sends the prompt to a session with `chat.send` and follows the session's `chat` events until the
+ * run ends. The agent's `delta` events carry the reply so far; only the new text is passed on,
+ * and a reply the agent rewrites fails the stream rather than losing text.
+ * The session keeps the conversation, so only the latest user message is sent.
+ */
+import type { Sandbox } from '@cloudflare/sandbox';
+import { CHAT_COMPLETION_TIMEOUT_MS, GATEWAY_PROTOCOL_VERSION, MOLTBOT_PORT } from '../config';
+
+/** A message of an OpenAI chat completions request */
+export interface ChatCompletionMessage {
+  role: string;
+  /** Text, or content parts of which the text parts are used */
+  content: string | { type: string; text?: string }[] | null;
+}
+
+export interface GatewayChatRequest {
+  /** The gateway token the running gateway accepts */
+  token: string;
+  sessionKey: string;
+  message: string;
+  timeoutMs?: number;
+}
+
+interface GatewayFrame {
+  type?: string;
+  id?: string;
+  ok?: boolean;
+  error?: { message?: string };
+  event?: string;
+  payload?: Record<string, unknown>;
+}
+
+function contentText(content: ChatCompletionMessage['content'] | undefined): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('');
+}
+
+/** Text of a gateway chat message, whose content is a string or content blocks */
+function messageText(message: unknown): string {
+  if (typeof message !== 'object' || message === null) {
+    return '';
+  }
+  return contentText((message as { content?: ChatCompletionMessage['content'] }).content);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The text of the last user message, or null if there is none
+ */
+export function chatPrompt(messages: ChatCompletionMessage[]): string | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      return contentText(messages[i].content).trim() || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * The session for a request: the same for every request of a caller with the same `user`, and
+ * a new one for each request without it
+ *
+ * @param caller - Who is calling (see resolveAccessCaller), so callers don't share sessions
+ * @param user - The request's `user` field
+ */
+export async function chatSessionKey(caller: string, user?: string): Promise<string> {
+  if (!user) {
+    return `openai:${crypto.randomUUID()}`;
+  }
+  return `openai:${(await sha256Hex(`${caller}\n${user}`)).slice(0, 32)}`;
+}
+
+/**
+ * Send a message to a gateway session and yield the agent's reply as it is written
+ *
+ * @yields Text added to the reply since the previous chunk
+ * @throws If the gateway refuses the connection or the message, the run fails, the agent
+ *   rewrites text already yielded, or it times out
+ */
+export async function* streamGatewayChat(
+  sandbox: Sandbox,
+  request: GatewayChatRequest,
+): AsyncGenerator<string, void> {
+  const response = await sandbox.wsConnect(
+    new Request(`http://localhost:${MOLTBOT_PORT}/`, { headers: { Upgrade: 'websocket' } }),
+    MOLTBOT_PORT,
+  );
+  const ws = response.webSocket;
+  if (!ws) {
+    throw new Error(`Gateway refused the WebSocket connection: HTTP ${response.status}`);
+  }
+  ws.accept();
+
+  const chunks: string[] = [];
+  let done = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+  const finish = (error?: Error) => {
+    if (!done) {
+      done = true;
+      failure = error ?? null;
+      notify();
+    }
+  };
+
+  const connectId = crypto.randomUUID();
+  const sendId = crypto.randomUUID();
+  let connectSent = false;
+  let runId: string | null = null;
+  let replied = '';
+
+  const send = (id: string, method: string, params: Record<string, unknown>) => {
+    ws.send(JSON.stringify({ type: 'req', id, method, params }));
+  };
+  const connect = () => {
+    if (connectSent) {
+      return;
+    }
+    connectSent = true;
+    send(connectId, 'connect', {
+      minProtocol: GATEWAY_PROTOCOL_VERSION,
+      maxProtocol: GATEWAY_PROTOCOL_VERSION,
+      client: {
+        id: 'gateway-client',
+        displayName: 'Moltbot Worker API',
+        version: '1.0.0',
+        platform: 'cloudflare-workers',
+        mode: 'backend',
+      },
+      role: 'operator',
+      scopes: ['operator.read', 'operator.write'],
+      auth: { token: request.token },
+    });
+  };
+  const reply = (text: string) => {
+    // Each event carries the whole reply so far
+    if (done || replied.startsWith(text)) {
+      return;
+    }
+    if (!text.startsWith(replied)) {
+      // The agent reset or rewrote its reply; the text passed on can't be taken back
+      finish(new Error('The agent rewrote its reply after part of it was sent'));
+      return;
+    }
+    chunks.push(text.slice(replied.length));
+    replied = text;
+    notify();
+  };
+
+  const onFrame = (frame: GatewayFrame) => {
+    if (frame.type === 'event' && frame.event === 'connect.challenge') {
+      connect();
+      return;
+    }
+    if (frame.type === 'res') {
+      if (!frame.ok && (frame.id === connectId || frame.id === sendId)) {
+        finish(new Error(frame.error?.message || 'Gateway refused the request'));
+      } else if (frame.id === connectId) {
+        send(sendId, 'chat.send', {
+          sessionKey: request.sessionKey,
+          message: request.message,
+          idempotencyKey: sendId,
+          deliver: false,
+        });
+      } else if (frame.id === sendId && typeof frame.payload?.runId === 'string') {
+        runId = frame.payload.runId;
+      }
+      return;
+    }
+    if (frame.type !== 'event' || frame.event !== 'chat' || !frame.payload) {
+      return;
+    }
+
+    // The gateway may report the session under its full key (agent:<id>:<key>)
+    const { payload } = frame;
+    const ours = runId
+      ? payload.runId === runId
+      : typeof payload.sessionKey === 'string' &&
+        (payload.sessionKey === request.sessionKey ||
+          payload.sessionKey.endsWith(`:${request.sessionKey}`));
+    if (!ours) {
+      return;
+    }
+    if (payload.state === 'delta' || payload.state === 'final') {
+      reply(messageText(payload.message));
+    }
+    if (payload.state === 'final' || payload.state === 'aborted') {
+      finish();
+    } else if (payload.state === 'error') {
+      const message = typeof payload.errorMessage === 'string' ? payload.errorMessage : '';
+      finish(new Error(message || 'Agent run failed'));
+    }
+  };
+
+  ws.addEventListener('message', (event) => {
+    if (typeof event.data !== 'string') {
+      return;
+    }
+    try {
+      onFrame(JSON.parse(event.data) as GatewayFrame);
+    } catch {
+      // Not a protocol frame
+    }
+  });
+  ws.addEventListener('close', () => finish(new Error('Gateway closed the connection')));
+  ws.addEventListener('error', () => finish(new Error('Gateway connection failed')));
+
+  // Gateways that don't send a challenge expect connect right away
+  const challengeTimer = setTimeout(connect, 1000);
+  const timeout = setTimeout(
+    () => finish(new Error('Timed out waiting for the agent to reply')),
+    request.timeoutMs ?? CHAT_COMPLETION_TIMEOUT_MS,
+  );
+
+  try {
+    while (chunks.length > 0 || !done) {
+      if (chunks.length > 0) {
+        yield chunks.shift()!;
+        continue;
+      }
+      // eslint-disable-next-line no-await-in-loop -- wait for the next event
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+    if (failure) {
+      throw failure;
+    }
+  } finally {
+    clearTimeout(challengeTimer);
+    clearTimeout(timeout);
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.close(1000, 'done');
+    }
+  }
+}
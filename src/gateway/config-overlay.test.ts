@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONFIG_OVERLAY_KEY,
+  configLayers,
+  effectiveConfig,
+  readConfigOverlay,
+  validateOverlay,
+  writeConfigOverlay,
+} from './config-overlay';
+import { applyConfigPatch } from './env';
+import { REDACTED } from './openclaw-config';
+import { createMockBucket, createMockEnv } from '../test-utils';
+
+describe('config overlay', () => {
+  it('stores the overlay per tenant and applies it after the env layer', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket, TELEGRAM_BOT_TOKEN: 'tg' });
+
+    await writeConfigOverlay(env, 'team', {
+      channels: { telegram: { streamMode: 'partial', allowFrom: ['42'] } },
+    });
+    const layers = await configLayers(env, 'team');
+    const stale = { channels: { telegram: { botToken: 'old', streamMode: 'off', legacy: true } } };
+
+    expect(objects.has(`tenants/team/${CONFIG_OVERLAY_KEY}`)).toBe(true);
+    expect((await readConfigOverlay(env, 'moltbot')).overlay).toEqual({});
+    expect(layers.slice(-2)).toEqual([
+      { path: ['channels', 'telegram', 'streamMode'], value: 'partial', source: 'overlay' },
+      { path: ['channels', 'telegram', 'allowFrom'], value: ['42'], source: 'overlay' },
+    ]);
+    // The env layer drops stale channel keys; the overlay's tweaks survive it
+    expect(applyConfigPatch(stale, layers).channels).toEqual({
+      telegram: {
+        botToken: 'tg',
+        enabled: true,
+        dmPolicy: 'pairing',
+        streamMode: 'partial',
+        allowFrom: ['42'],
+      },
+    });
+  });
+
+  it('rejects invalid overlays and overlays holding secrets', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockBucket().bucket });
+
+    expect(validateOverlay({ gateway: { port: 'high' } })).toEqual([
+      { path: 'gateway.port', message: 'expected an integer, got string' },
+    ]);
+    expect(validateOverlay({ channels: { slack: { botToken: 'xoxb' } } })).toEqual([
+      {
+        path: 'channels.slack.botToken',
+        message: 'secrets cannot be stored in the overlay; set them as Worker secrets',
+      },
+    ]);
+    await expect(writeConfigOverlay(env, 'moltbot', { gateway: { port: 0 } })).rejects.toThrow(
+      'Invalid overlay: gateway.port must be between 1 and 65535',
+    );
+  });
+});
+
+describe('effectiveConfig', () => {
+  it('attributes each value to the layer that sets it and flags values not yet applied', () => {
+    const runtime = {
+      gateway: { port: 18789, auth: { token: 'gw' }, bind: 'lan' },
+      agents: { defaults: { workspace: '/root/clawd', model: { primary: 'anthropic/claude' } } },
+    };
+
+    const values = effectiveConfig(runtime, [
+      { path: ['gateway', 'port'], value: 18789, source: 'env' },
+      { path: ['gateway', 'auth', 'token'], value: 'gw', source: 'env' },
+      { path: ['agents', 'defaults', 'model'], value: { primary: 'openai/gpt-4o' }, source: 'env' },
+      { path: ['agents', 'defaults', 'model', 'primary'], value: 'x/y', source: 'overlay' },
+    ]);
+
+    expect(values).toEqual([
+      { path: 'gateway.port', value: 18789, source: 'env' },
+      { path: 'gateway.auth.token', value: REDACTED, source: 'env' },
+      { path: 'gateway.bind', value: 'lan', source: 'runtime' },
+      { path: 'agents.defaults.workspace', value: '/root/clawd', source: 'runtime' },
+      { path: 'agents.defaults.model.primary', value: 'x/y', source: 'overlay', pending: true },
+    ]);
+  });
+});
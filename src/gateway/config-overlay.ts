@@ -0,0 +1,196 @@
+import type { MoltbotEnv } from '../types';
+import { applyConfigPatch, buildConfigPatch, configPatchOperations } from './env';
+import type { ConfigSetOperation } from './env';
+import {
+  redactConfig,
+  secretPaths,
+  validateConfig,
+  type ConfigIssue,
+  type OpenClawConfig,
+} from './openclaw-config';
+import { getTenantR2Prefix } from './tenant';
+
+/**
+ * Layered openclaw.json. From lowest to highest precedence:
+ *
+ * 1. runtime - the file in the container, as written by `openclaw onboard`, the gateway, the
+ *    config editor or a restored backup
+ * 2. env - settings derived from Worker secrets (buildConfigPatch), written on every start
+ * 3. overlay - admin-managed settings stored in R2, written on every start after the env layer
+ *
+ * Both upper layers are applied by start-openclaw.sh, so a value set in the overlay survives
+ * restarts even where the env layer replaces a whole object (the channel configs).
+ */
+
+/** Admin-managed overlay, relative to the tenant's R2 prefix */
+export const CONFIG_OVERLAY_KEY = '.config-overlay.json';
+
+export type ConfigLayer = 'runtime' | 'env' | 'overlay';
+
+export interface LayeredOperation extends ConfigSetOperation {
+  source: Exclude<ConfigLayer, 'runtime'>;
+}
+
+export interface ConfigOverlay {
+  overlay: OpenClawConfig;
+  updatedAt: string | null;
+}
+
+/** A value of the config as it will be after the next start */
+export interface EffectiveValue {
+  /** Dotted path, e.g. channels.telegram.dmPolicy */
+  path: string;
+  /** The value, with secrets redacted */
+  value: unknown;
+  /** The layer the value comes from */
+  source: ConfigLayer;
+  /** The running gateway's file has a different value (the layer changed since it started) */
+  pending?: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Set operations for every leaf (non-object value or array) of a config */
+function leafOperations(value: unknown, path: string[] = []): ConfigSetOperation[] {
+  if (isObject(value) && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([key, child]) => leafOperations(child, [...path, key]));
+  }
+  return path.length > 0 ? [{ path, value }] : [];
+}
+
+/**
+ * The tenant's config overlay ({} when none is stored)
+ */
+export async function readConfigOverlay(env: MoltbotEnv, tenantId: string): Promise<ConfigOverlay> {
+  const obj = await env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + CONFIG_OVERLAY_KEY);
+  if (!obj) {
+    return { overlay: {}, updatedAt: null };
+  }
+  return {
+    overlay: (await obj.json()) as OpenClawConfig,
+    updatedAt: obj.customMetadata?.['updated-at'] ?? null,
+  };
+}
+
+/**
+ * Check an overlay: it must pass the config schema and hold no secrets, which belong in Worker
+ * secrets (the overlay is stored unencrypted).
+ */
+export function validateOverlay(overlay: unknown): ConfigIssue[] {
+  if (!isObject(overlay)) {
+    return [{ path: '(root)', message: 'expected an object' }];
+  }
+  return [
+    ...validateConfig(overlay),
+    ...secretPaths(overlay).map((path) => ({
+      path,
+      message: 'secrets cannot be stored in the overlay; set them as Worker secrets',
+    })),
+  ];
+}
+
+/**
+ * Store the tenant's config overlay. It takes effect when the gateway next starts.
+ *
+ * @throws If the overlay is invalid (see validateOverlay)
+ */
+export async function writeConfigOverlay(
+  env: MoltbotEnv,
+  tenantId: string,
+  overlay: OpenClawConfig,
+): Promise<ConfigOverlay> {
+  const issues = validateOverlay(overlay);
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid overlay: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`,
+    );
+  }
+  const updatedAt = new Date().toISOString();
+  await env.MOLTBOT_BUCKET.put(
+    getTenantR2Prefix(tenantId) + CONFIG_OVERLAY_KEY,
+    JSON.stringify(overlay),
+    {
+      httpMetadata: { contentType: 'application/json' },
+      customMetadata: { 'updated-at': updatedAt },
+    },
+  );
+  return { overlay, updatedAt };
+}
+
+/**
+ * The env layer alone: the operations derived from Worker configuration (see buildConfigPatch)
+ */
+export function envLayer(env: MoltbotEnv): LayeredOperation[] {
+  return configPatchOperations(buildConfigPatch(env)).map(({ path, value }) => ({
+    path,
+    value,
+    source: 'env' as const,
+  }));
+}
+
+/**
+ * The operations start-openclaw.sh applies to openclaw.json, in precedence order: the env layer,
+ * then the overlay.
+ *
+ * @param env - Worker environment bindings
+ * @param tenantId - Tenant whose overlay to apply
+ * @throws If the overlay can't be read from R2
+ */
+export async function configLayers(env: MoltbotEnv, tenantId: string): Promise<LayeredOperation[]> {
+  const { overlay } = await readConfigOverlay(env, tenantId);
+  return [
+    ...envLayer(env),
+    ...leafOperations(overlay).map(({ path, value }) => ({
+      path,
+      value,
+      source: 'overlay' as const,
+    })),
+  ];
+}
+
+function isPrefix(prefix: string[], path: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((key, i) => key === path[i]);
+}
+
+/** The last operation that sets the path or one of its parents */
+function lastSetting(layers: LayeredOperation[], path: string[]): LayeredOperation | undefined {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    if (isPrefix(layers[i].path, path)) {
+      return layers[i];
+    }
+  }
+  return undefined;
+}
+
+function valueAt(config: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((value, key) => (isObject(value) ? value[key] : undefined), config);
+}
+
+/**
+ * Every value of the config the gateway gets on its next start, with the layer it comes from:
+ * the last operation that set it or one of its parents, or the runtime file if none did.
+ *
+ * @param runtime - The config file in the container
+ * @param layers - Operations of the upper layers (see configLayers)
+ */
+export function effectiveConfig(
+  runtime: OpenClawConfig,
+  layers: LayeredOperation[],
+): EffectiveValue[] {
+  const merged = applyConfigPatch(runtime, layers);
+  return leafOperations(merged).map(({ path }) => {
+    const layer = lastSetting(layers, path);
+    const value = valueAt(merged, path);
+    const entry: EffectiveValue = {
+      path: path.join('.'),
+      value: redactConfig(value, path[path.length - 1]),
+      source: layer?.source ?? 'runtime',
+    };
+    if (JSON.stringify(valueAt(runtime, path)) !== JSON.stringify(value)) {
+      entry.pending = true;
+    }
+    return entry;
+  });
+}
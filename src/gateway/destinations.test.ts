@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getBackupDestinations,
+  readReplicationStatus,
+  replicateBackups,
+  replicateIfDue,
+} from './destinations';
+import { blobKey, writeSyncManifest, type FileEntry } from './blob-store';
+import { isEncrypted } from './backup-crypto';
+import {
+  createMockBucket,
+  createMockEnv,
+  createMockS3Server,
+  suppressConsole,
+} from '../test-utils';
+
+const CREDENTIALS = { region: 'auto', accessKeyId: 'dr-key', secretAccessKey: 'dr-secret' };
+const KEY = btoa(String.fromCharCode(...new Uint8Array(32).fill(5)));
+
+const destination = (overrides: Record<string, unknown> = {}) => ({
+  name: 'dr',
+  endpoint: 'http://minio.local:9000',
+  bucket: 'moltbot-dr',
+  ...CREDENTIALS,
+  prefix: 'copies/',
+  ...overrides,
+});
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Store blobs and a sync manifest in the primary bucket, as a sync would */
+async function storeBackup(
+  env: ReturnType<typeof createMockEnv>,
+  tenantId: string,
+  lastSync: string,
+  files: Record<string, string>,
+): Promise<void> {
+  const prefix = tenantId === 'moltbot' ? '' : `tenants/${tenantId}/`;
+  const entries: FileEntry[] = [];
+  for (const [path, contents] of Object.entries(files)) {
+    // eslint-disable-next-line no-await-in-loop -- building the fixture in order
+    const hash = await sha256(contents);
+    // eslint-disable-next-line no-await-in-loop
+    await env.MOLTBOT_BUCKET.put(prefix + blobKey(hash), contents);
+    entries.push({ hash, size: contents.length, mode: 0o644, path });
+  }
+  await writeSyncManifest(env, tenantId, { lastSync, files: entries });
+}
+
+describe('getBackupDestinations', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('parses destinations with defaults and skips invalid or duplicate entries', () => {
+    const env = createMockEnv({
+      BACKUP_DESTINATIONS: JSON.stringify([
+        destination({ intervalMinutes: 360 }),
+        destination({ name: 'aws', region: undefined, prefix: undefined }),
+        destination({ name: 'dr' }),
+        destination({ name: 'Bad Name' }),
+        { name: 'incomplete', endpoint: 'https://s3.example.com' },
+      ]),
+    });
+
+    const destinations = getBackupDestinations(env);
+
+    expect(
+      destinations.map(({ name, location, prefix, intervalMs }) => ({
+        name,
+        location,
+        prefix,
+        intervalMs,
+      })),
+    ).toEqual([
+      {
+        name: 'dr',
+        location: 'http://minio.local:9000/moltbot-dr',
+        prefix: 'copies/',
+        intervalMs: 21_600_000,
+      },
+      {
+        name: 'aws',
+        location: 'http://minio.local:9000/moltbot-dr',
+        prefix: '',
+        intervalMs: 3_600_000,
+      },
+    ]);
+    expect(getBackupDestinations(createMockEnv({ BACKUP_DESTINATIONS: '{"name":"dr"}' }))).toEqual(
+      [],
+    );
+  });
+});
+
+describe('replication', () => {
+  let server: ReturnType<typeof createMockS3Server>;
+
+  beforeEach(() => {
+    suppressConsole();
+    server = createMockS3Server(CREDENTIALS);
+    vi.stubGlobal('fetch', server.fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('copies the latest backup, then only what changed, deleting unreferenced blobs', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      BACKUP_DESTINATIONS: JSON.stringify([destination()]),
+    });
+    const [dr] = getBackupDestinations(env);
+    await storeBackup(env, 'team', '2026-03-10T12:00:00.000Z', {
+      '.openclaw/openclaw.json': '{}',
+      'clawd/MEMORY.md': 'old notes',
+    });
+
+    const first = await replicateIfDue(env, 'team', dr);
+    await storeBackup(env, 'team', '2026-03-10T13:00:00.000Z', {
+      '.openclaw/openclaw.json': '{}',
+      'clawd/MEMORY.md': 'new notes',
+    });
+    const second = await replicateIfDue(env, 'team', dr, { force: true });
+
+    expect(first).toMatchObject({ ok: true, files: 2, uploadedFiles: 2, deletedFiles: 0 });
+    expect(second).toMatchObject({
+      ok: true,
+      lastSync: '2026-03-10T13:00:00.000Z',
+      uploadedFiles: 1,
+      uploadedBytes: 9,
+      deletedFiles: 1,
+    });
+    expect(new Set(server.objects.keys())).toEqual(
+      new Set([
+        `copies/tenants/team/blobs/${await sha256('{}')}`,
+        `copies/tenants/team/blobs/${await sha256('new notes')}`,
+        'copies/tenants/team/sync/manifest',
+        'copies/tenants/team/sync/.last-sync',
+      ]),
+    );
+    expect(server.objects.get('copies/tenants/team/sync/manifest')!.metadata).toMatchObject({
+      'last-sync': '2026-03-10T13:00:00.000Z',
+      files: '2',
+    });
+    expect(await readReplicationStatus(env, 'team', 'dr')).toEqual(second);
+  });
+
+  it('copies encrypted backups as stored', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket, BACKUP_ENCRYPTION_KEY: KEY });
+    await storeBackup(env, 'moltbot', '2026-03-10T12:00:00.000Z', { 'clawd/MEMORY.md': 'notes' });
+    const dr = getBackupDestinations(
+      createMockEnv({ BACKUP_DESTINATIONS: JSON.stringify([destination({ prefix: '' })]) }),
+    )[0];
+
+    const status = await replicateIfDue(env, 'moltbot', dr);
+
+    expect(status).toMatchObject({ ok: true, keyId: expect.stringMatching(/^[0-9a-f]{16}$/) });
+    expect(isEncrypted(server.objects.get('sync/manifest')!.body)).toBe(true);
+    expect(server.objects.get('sync/manifest')!.metadata['encryption-key-id']).toBe(status!.keyId);
+  });
+
+  it('waits for the interval and for a new backup before copying again', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-10T12:00:00Z') });
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      BACKUP_DESTINATIONS: JSON.stringify([destination({ intervalMinutes: 60 })]),
+    });
+    await storeBackup(env, 'moltbot', '2026-03-10T12:00:00.000Z', { 'clawd/MEMORY.md': 'v1' });
+    await replicateBackups(env, 'moltbot');
+    await storeBackup(env, 'moltbot', '2026-03-10T12:05:00.000Z', { 'clawd/MEMORY.md': 'v2' });
+    server.fetch.mockClear();
+
+    await replicateBackups(env, 'moltbot');
+    expect(server.fetch).not.toHaveBeenCalled();
+
+    vi.setSystemTime(new Date('2026-03-10T13:00:00Z'));
+    await replicateBackups(env, 'moltbot');
+    expect((await readReplicationStatus(env, 'moltbot', 'dr'))?.lastSync).toBe(
+      '2026-03-10T12:05:00.000Z',
+    );
+
+    server.fetch.mockClear();
+    vi.setSystemTime(new Date('2026-03-10T14:00:00Z'));
+    await replicateBackups(env, 'moltbot');
+    expect(server.fetch).not.toHaveBeenCalled();
+  });
+
+  it('records a failed copy and keeps what the destination last held', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const [dr] = getBackupDestinations(
+      createMockEnv({ BACKUP_DESTINATIONS: JSON.stringify([destination()]) }),
+    );
+    await storeBackup(env, 'moltbot', '2026-03-10T12:00:00.000Z', { 'clawd/MEMORY.md': 'v1' });
+    await replicateIfDue(env, 'moltbot', dr);
+    await storeBackup(env, 'moltbot', '2026-03-10T12:05:00.000Z', { 'clawd/MEMORY.md': 'v2' });
+    server.fetch.mockResolvedValue(
+      new Response('<Error><Code>SlowDown</Code></Error>', { status: 503 }),
+    );
+
+    const status = await replicateIfDue(env, 'moltbot', dr, { force: true });
+
+    expect(status).toMatchObject({
+      ok: false,
+      lastSync: '2026-03-10T12:00:00.000Z',
+      error: expect.stringContaining('503 SlowDown'),
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import type { MoltbotEnv } from '../types';
+import { DEFAULT_REPLICATION_INTERVAL_MINUTES } from '../config';
+import {
+  ENCRYPTION_KEY_ID_METADATA,
+  decryptIfEncrypted,
+  fromReadable,
+  getBackupKeyring,
+} from './backup-crypto';
+import {
+  BLOB_PREFIX,
+  SYNC_MANIFEST_KEY,
+  SYNC_MARKER_KEY,
+  blobKey,
+  parseFileList,
+} from './blob-store';
+import { uploadInParts, type PartUploadTarget } from './r2-upload';
+import { S3Bucket } from './s3';
+import { getTenantR2Prefix } from './tenant';
+
+/**
+ * Secondary backup destinations.
+ *
+ * Syncs always write to MOLTBOT_BUCKET. Each destination in BACKUP_DESTINATIONS receives a copy
+ * of the latest backup (the blobs, the sync manifest and its marker, under the same keys) on its
+ * own schedule, so the copy can be restored by pointing a bucket at it. Objects are copied as
+ * stored: encrypted backups stay encrypted and only BACKUP_ENCRYPTION_KEY can read them.
+ */
+
+/** Replication status per destination, relative to the tenant's R2 prefix in MOLTBOT_BUCKET */
+export const REPLICATION_STATUS_PREFIX = '.destinations/';
+
+/**
+ * The parts of the R2Bucket API replication uses. R2 bindings and S3Bucket both provide them.
+ */
+export interface ObjectStore extends PartUploadTarget {
+  head(key: string): Promise<{ size: number; customMetadata?: Record<string, string> } | null>;
+  get(key: string): Promise<{
+    body: ReadableStream<Uint8Array>;
+    size: number;
+    customMetadata?: Record<string, string>;
+  } | null>;
+  delete(keys: string | string[]): Promise<unknown>;
+  list(options: { prefix?: string; cursor?: string }): Promise<{
+    objects: Array<{ key: string; size: number }>;
+    truncated: boolean;
+    cursor?: string;
+  }>;
+}
+
+/** One entry of BACKUP_DESTINATIONS */
+export interface DestinationConfig {
+  /** Lowercase letters, digits and dashes; identifies the destination in the admin API */
+  name: string;
+  endpoint: string;
+  bucket: string;
+  /** Defaults to 'auto' (R2) */
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Key prefix inside the bucket, e.g. 'moltbot/' */
+  prefix?: string;
+  /** Minimum time between copies (default 60) */
+  intervalMinutes?: number;
+}
+
+export interface BackupDestination {
+  name: string;
+  /** Endpoint and bucket, for display (no credentials) */
+  location: string;
+  store: ObjectStore;
+  prefix: string;
+  intervalMs: number;
+}
+
+export interface ReplicationStatus {
+  attemptedAt: string; // ISO timestamp
+  ok: boolean;
+  /** Time of the sync whose backup the destination now holds */
+  lastSync?: string;
+  /** Encryption key id of the copied manifest (absent for plaintext backups) */
+  keyId?: string;
+  files?: number;
+  uploadedFiles?: number;
+  uploadedBytes?: number;
+  deletedFiles?: number;
+  error?: string;
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+function isDestinationConfig(value: unknown): value is DestinationConfig {
+  const config = value as Partial<DestinationConfig> | null;
+  return (
+    !!config &&
+    typeof config.name === 'string' &&
+    NAME_PATTERN.test(config.name) &&
+    typeof config.endpoint === 'string' &&
+    URL.canParse(config.endpoint) &&
+    typeof config.bucket === 'string' &&
+    !!config.bucket &&
+    typeof config.accessKeyId === 'string' &&
+    typeof config.secretAccessKey === 'string' &&
+    (config.region === undefined || typeof config.region === 'string') &&
+    (config.prefix === undefined || typeof config.prefix === 'string') &&
+    (config.intervalMinutes === undefined ||
+      (typeof config.intervalMinutes === 'number' && config.intervalMinutes > 0))
+  );
+}
+
+/**
+ * Destinations configured in BACKUP_DESTINATIONS (a JSON array of DestinationConfig).
+ * Invalid JSON and invalid or duplicate entries are logged and skipped.
+ */
+export function getBackupDestinations(env: MoltbotEnv): BackupDestination[] {
+  if (!env.BACKUP_DESTINATIONS) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(env.BACKUP_DESTINATIONS);
+  } catch {
+    // Fall through to the warning below
+  }
+  if (!Array.isArray(parsed)) {
+    console.warn('[Replicate] BACKUP_DESTINATIONS is not a JSON array, ignoring it');
+    return [];
+  }
+
+  const destinations: BackupDestination[] = [];
+  for (const [index, entry] of parsed.entries()) {
+    if (!isDestinationConfig(entry)) {
+      console.warn(`[Replicate] Ignoring invalid BACKUP_DESTINATIONS entry ${index}`);
+      continue;
+    }
+    if (destinations.some((d) => d.name === entry.name)) {
+      console.warn(`[Replicate] Ignoring duplicate destination name ${entry.name}`);
+      continue;
+    }
+    destinations.push({
+      name: entry.name,
+      location: `${entry.endpoint.replace(/\/+$/, '')}/${entry.bucket}`,
+      store: new S3Bucket({
+        endpoint: entry.endpoint,
+        bucket: entry.bucket,
+        region: entry.region ?? 'auto',
+        accessKeyId: entry.accessKeyId,
+        secretAccessKey: entry.secretAccessKey,
+      }),
+      prefix: entry.prefix ?? '',
+      intervalMs: (entry.intervalMinutes ?? DEFAULT_REPLICATION_INTERVAL_MINUTES) * 60_000,
+    });
+  }
+  return destinations;
+}
+
+function statusKey(tenantId: string, name: string): string {
+  return `${getTenantR2Prefix(tenantId)}${REPLICATION_STATUS_PREFIX}${name}.json`;
+}
+
+/**
+ * Last replication attempt to a destination, or null if none was made yet
+ */
+export async function readReplicationStatus(
+  env: MoltbotEnv,
+  tenantId: string,
+  name: string,
+): Promise<ReplicationStatus | null> {
+  const obj = await env.MOLTBOT_BUCKET.get(statusKey(tenantId, name));
+  return obj ? ((await obj.json()) as ReplicationStatus) : null;
+}
+
+async function writeReplicationStatus(
+  env: MoltbotEnv,
+  tenantId: string,
+  name: string,
+  status: ReplicationStatus,
+): Promise<void> {
+  await env.MOLTBOT_BUCKET.put(statusKey(tenantId, name), JSON.stringify(status), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+async function listKeys(store: ObjectStore, prefix: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop -- paginated listing
+    const page = await store.list({ prefix, cursor });
+    keys.push(...page.objects.map((obj) => obj.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return keys;
+}
+
+/**
+ * Copy the tenant's latest backup to a destination. Only blobs the destination lacks are
+ * uploaded, unless the backup was re-encrypted under another key since the last copy; then all
+ * of them are. The manifest and marker are written after the blobs and unreferenced blobs are
+ * deleted last, like a sync to MOLTBOT_BUCKET.
+ *
+ * @param previous - Status of the last copy to this destination
+ * @returns The new status, or null if the tenant has no backup yet
+ * @throws If reading from MOLTBOT_BUCKET or writing to the destination fails
+ */
+export async function replicateBackup(
+  env: MoltbotEnv,
+  tenantId: string,
+  destination: BackupDestination,
+  previous: ReplicationStatus | null,
+): Promise<ReplicationStatus | null> {
+  const prefix = getTenantR2Prefix(tenantId);
+  const remotePrefix = destination.prefix + prefix;
+  const attemptedAt = new Date().toISOString();
+
+  const manifestObj = await env.MOLTBOT_BUCKET.get(prefix + SYNC_MANIFEST_KEY);
+  if (!manifestObj) {
+    return null;
+  }
+  // Read once: the stored bytes are what gets copied, and the blob list must match them
+  const stored = new Uint8Array(await manifestObj.arrayBuffer());
+  const metadata = manifestObj.customMetadata ?? {};
+  const lastSync = metadata['last-sync'] ?? manifestObj.uploaded.toISOString();
+  const keyId = metadata[ENCRYPTION_KEY_ID_METADATA];
+
+  const decoder = new TextDecoder();
+  let text = '';
+  const chunks = decryptIfEncrypted(
+    (async function* () {
+      yield stored;
+    })(),
+    await getBackupKeyring(env),
+  );
+  for await (const chunk of chunks) {
+    text += decoder.decode(chunk, { stream: true });
+  }
+  text += decoder.decode();
+  const files = parseFileList(text);
+  const hashes = new Set(files.map((f) => f.hash));
+
+  const remoteBlobs = new Set(
+    (await listKeys(destination.store, remotePrefix + BLOB_PREFIX)).map((key) =>
+      key.slice(remotePrefix.length + BLOB_PREFIX.length),
+    ),
+  );
+  const rewrapped = (previous?.keyId ?? null) !== (keyId ?? null);
+  const missing = [...hashes].filter((hash) => rewrapped || !remoteBlobs.has(hash));
+
+  let uploadedBytes = 0;
+  for (const hash of missing) {
+    // eslint-disable-next-line no-await-in-loop -- one blob in memory at a time
+    const blob = await env.MOLTBOT_BUCKET.get(prefix + blobKey(hash));
+    if (!blob) {
+      throw new Error(`Missing blob ${hash}`);
+    }
+    // eslint-disable-next-line no-await-in-loop
+    const progress = await uploadInParts(
+      destination.store,
+      remotePrefix + blobKey(hash),
+      fromReadable(blob.body),
+      { customMetadata: blob.customMetadata },
+    );
+    uploadedBytes += progress.bytes;
+  }
+
+  await uploadInParts(destination.store, remotePrefix + SYNC_MANIFEST_KEY, stored, {
+    httpMetadata: { contentType: 'text/plain' },
+    customMetadata: metadata,
+  });
+  await destination.store.put(remotePrefix + SYNC_MARKER_KEY, new TextEncoder().encode(lastSync), {
+    httpMetadata: { contentType: 'text/plain' },
+  });
+
+  const unreferenced = [...remoteBlobs].filter((hash) => !hashes.has(hash));
+  if (unreferenced.length > 0) {
+    await destination.store.delete(unreferenced.map((hash) => remotePrefix + blobKey(hash)));
+  }
+
+  return {
+    attemptedAt,
+    ok: true,
+    lastSync,
+    ...(keyId && { keyId }),
+    files: files.length,
+    uploadedFiles: missing.length,
+    uploadedBytes,
+    deletedFiles: unreferenced.length,
+  };
+}
+
+/**
+ * Copy the tenant's latest backup to a destination if its interval has passed (or `force` is
+ * set) and the backup changed since the last successful copy. The outcome is recorded, and a
+ * failed copy is retried once the interval has passed again.
+ *
+ * @returns The destination's status after this call (null if the tenant has no backup yet)
+ */
+export async function replicateIfDue(
+  env: MoltbotEnv,
+  tenantId: string,
+  destination: BackupDestination,
+  options: { force?: boolean } = {},
+): Promise<ReplicationStatus | null> {
+  const previous = await readReplicationStatus(env, tenantId, destination.name);
+  const due =
+    options.force ||
+    !previous ||
+    Date.now() - Date.parse(previous.attemptedAt) >= destination.intervalMs;
+  if (!due) {
+    return previous;
+  }
+
+  if (previous?.ok) {
+    const manifest = await env.MOLTBOT_BUCKET.head(getTenantR2Prefix(tenantId) + SYNC_MANIFEST_KEY);
+    const metadata = manifest?.customMetadata ?? {};
+    if (
+      metadata['last-sync'] === previous.lastSync &&
+      metadata[ENCRYPTION_KEY_ID_METADATA] === previous.keyId
+    ) {
+      return previous;
+    }
+  }
+
+  let status: ReplicationStatus | null;
+  try {
+    status = await replicateBackup(env, tenantId, destination, previous);
+    if (!status) {
+      return null;
+    }
+    console.log(
+      `[Replicate] [${tenantId}] Copied backup of ${status.lastSync} to ${destination.name}:`,
+      `${status.uploadedFiles} of ${status.files} file(s) uploaded`,
+    );
+  } catch (err) {
+    console.error(`[Replicate] [${tenantId}] Copy to ${destination.name} failed:`, err);
+    status = {
+      // The destination still holds the last successful copy (or part of this one)
+      ...(previous?.lastSync && { lastSync: previous.lastSync }),
+      ...(previous?.keyId && { keyId: previous.keyId }),
+      attemptedAt: new Date().toISOString(),
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+  await writeReplicationStatus(env, tenantId, destination.name, status);
+  return status;
+}
+
+/**
+ * Run replicateIfDue for every configured destination. Failures are recorded per destination
+ * and never stop the others.
+ */
+export async function replicateBackups(env: MoltbotEnv, tenantId: string): Promise<void> {
+  for (const destination of getBackupDestinations(env)) {
+    try {
+      // eslint-disable-next-line no-await-in-loop -- destinations one at a time to bound load
+      await replicateIfDue(env, tenantId, destination);
+    } catch (err) {
+      console.error(`[Replicate] [${tenantId}] ${destination.name}:`, err);
+    }
+  }
+}
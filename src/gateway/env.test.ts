@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { buildEnvVars } from './env';
-import { createMockEnv } from '../test-utils';
+import { applyConfigPatch, buildConfigPatch, buildEnvVars, configPatchOperations } from './env';
+import { createMockEnv, suppressConsole } from '../test-utils';
 
 describe('buildEnvVars', () => {
   it('returns empty object when no env vars set', () => {
@@ -121,6 +121,23 @@ describe('buildEnvVars', () => {
     expect(result.SLACK_APP_TOKEN).toBe('slack-app');
   });
 
+  it('passes the keys of the other providers to the container', () => {
+    const env = createMockEnv({
+      GEMINI_API_KEY: 'gem',
+      MISTRAL_API_KEY: 'mis',
+      GROQ_API_KEY: 'gsk',
+      OPENROUTER_API_KEY: 'or',
+    });
+    const result = buildEnvVars(env);
+
+    expect(result).toEqual({
+      GEMINI_API_KEY: 'gem',
+      MISTRAL_API_KEY: 'mis',
+      GROQ_API_KEY: 'gsk',
+      OPENROUTER_API_KEY: 'or',
+    });
+  });
+
   it('maps DEV_MODE to OPENCLAW_DEV_MODE for container', () => {
     const env = createMockEnv({
       DEV_MODE: 'true',
@@ -144,6 +161,13 @@ describe('buildEnvVars', () => {
     expect(result.CF_ACCOUNT_ID).toBe('acct-123');
   });
 
+  it('flags encrypted backups without passing the key to the container', () => {
+    const env = createMockEnv({ BACKUP_ENCRYPTION_KEY: 'secret-key' });
+    const result = buildEnvVars(env);
+    expect(result.BACKUP_ENCRYPTED).toBe('1');
+    expect(Object.values(result)).not.toContain('secret-key');
+  });
+
   it('combines all env vars correctly', () => {
     const env = createMockEnv({
       ANTHROPIC_API_KEY: 'sk-key',
@@ -159,3 +183,316 @@ describe('buildEnvVars', () => {
     });
   });
 });
+
+/** Model entry with the limits the Worker gives its models */
+function model(id: string) {
+  return { id, name: id, contextWindow: 131072, maxTokens: 8192 };
+}
+
+describe('buildConfigPatch', () => {
+  const AI_GATEWAY = {
+    CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-gw-key',
+    CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+    CF_AI_GATEWAY_GATEWAY_ID: 'gw',
+  };
+
+  it('only sets the gateway basics when nothing else is configured', () => {
+    expect(buildConfigPatch(createMockEnv())).toEqual({
+      gateway: { port: 18789, mode: 'local', trustedProxies: ['10.1.0.0'] },
+      channels: {},
+    });
+  });
+
+  it('adds token auth and insecure control UI auth in dev mode', () => {
+    const patch = buildConfigPatch(
+      createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'token', DEV_MODE: 'true' }),
+    );
+
+    expect(patch.gateway.auth).toEqual({ token: 'token' });
+    expect(patch.gateway.controlUi).toEqual({ allowInsecureAuth: true });
+  });
+
+  it.each([
+    [
+      'workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+      'cf-ai-gw-workers-ai',
+      'https://gateway.ai.cloudflare.com/v1/acct/gw/workers-ai/v1',
+      'openai-completions',
+    ],
+    [
+      'openai/gpt-4o',
+      'cf-ai-gw-openai',
+      'https://gateway.ai.cloudflare.com/v1/acct/gw/openai',
+      'openai-completions',
+    ],
+    [
+      'anthropic/claude-sonnet-4-5',
+      'cf-ai-gw-anthropic',
+      'https://gateway.ai.cloudflare.com/v1/acct/gw/anthropic',
+      'anthropic-messages',
+    ],
+  ])('routes CF_AI_GATEWAY_MODEL=%s through the AI Gateway', (model, name, baseUrl, api) => {
+    const patch = buildConfigPatch(createMockEnv({ ...AI_GATEWAY, CF_AI_GATEWAY_MODEL: model }));
+    const modelId = model.slice(model.indexOf('/') + 1);
+
+    expect(patch.models?.providers).toEqual({
+      [name]: {
+        baseUrl,
+        apiKey: 'cf-gw-key',
+        api,
+        models: [{ id: modelId, name: modelId, contextWindow: 131072, maxTokens: 8192 }],
+      },
+    });
+    expect(patch.agents?.defaults.model).toEqual({ primary: `${name}/${modelId}` });
+  });
+
+  it('uses Workers AI directly without a gateway ID, and skips incomplete model config', () => {
+    suppressConsole();
+    const direct = buildConfigPatch(
+      createMockEnv({
+        CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-key',
+        CF_ACCOUNT_ID: 'acct-123',
+        CF_AI_GATEWAY_MODEL: 'workers-ai/@cf/qwen/qwq-32b',
+      }),
+    );
+    const incomplete = buildConfigPatch(
+      createMockEnv({ CF_ACCOUNT_ID: 'acct-123', CF_AI_GATEWAY_MODEL: 'openai/gpt-4o' }),
+    );
+
+    expect(direct.models?.providers['cf-ai-gw-workers-ai'].baseUrl).toBe(
+      'https://api.cloudflare.com/client/v4/accounts/acct-123/ai/v1',
+    );
+    expect(incomplete.models).toBeUndefined();
+    expect(incomplete.agents).toBeUndefined();
+  });
+
+  it('adds the API-key providers and defaults to the first when nothing is onboarded', () => {
+    const patch = buildConfigPatch(
+      createMockEnv({
+        MISTRAL_API_KEY: 'mis',
+        OPENROUTER_API_KEY: 'or',
+        OPENAI_COMPATIBLE_BASE_URL: 'https://llm.example.com/v1/',
+        OPENAI_COMPATIBLE_API_KEY: 'key',
+        OPENAI_COMPATIBLE_MODEL: 'qwen3-32b',
+      }),
+    );
+
+    expect(patch.models?.providers).toEqual({
+      'openai-compatible': {
+        baseUrl: 'https://llm.example.com/v1',
+        apiKey: 'key',
+        api: 'openai-completions',
+        models: [model('qwen3-32b')],
+      },
+      mistral: {
+        baseUrl: 'https://api.mistral.ai/v1',
+        apiKey: 'mis',
+        api: 'openai-completions',
+        models: [model('mistral-large-latest')],
+      },
+      openrouter: {
+        baseUrl: 'https://openrouter.ai/api/v1',
+        apiKey: 'or',
+        api: 'openai-completions',
+        models: [model('anthropic/claude-sonnet-4.5')],
+      },
+    });
+    expect(patch.agents?.defaults.model).toEqual({ primary: 'openai-compatible/qwen3-32b' });
+  });
+
+  it('keeps the onboarded default model, or CF_AI_GATEWAY_MODEL, next to the API-key providers', () => {
+    const withAnthropic = buildConfigPatch(
+      createMockEnv({ ANTHROPIC_API_KEY: 'sk', GEMINI_API_KEY: 'gem' }),
+    );
+    const withGatewayModel = buildConfigPatch(
+      createMockEnv({ ...AI_GATEWAY, CF_AI_GATEWAY_MODEL: 'openai/gpt-4o', GROQ_API_KEY: 'gsk' }),
+    );
+
+    expect(Object.keys(withAnthropic.models?.providers ?? {})).toEqual(['google']);
+    expect(withAnthropic.agents).toBeUndefined();
+    expect(Object.keys(withGatewayModel.models?.providers ?? {})).toEqual([
+      'groq',
+      'cf-ai-gw-openai',
+    ]);
+    expect(withGatewayModel.agents?.defaults.model).toEqual({ primary: 'cf-ai-gw-openai/gpt-4o' });
+  });
+
+  it('makes the first model of AI_MODEL_CHAIN the default and the rest its fallbacks', () => {
+    suppressConsole();
+    const patch = buildConfigPatch(
+      createMockEnv({
+        ...AI_GATEWAY,
+        ANTHROPIC_API_KEY: 'sk',
+        GROQ_API_KEY: 'gsk',
+        CF_AI_GATEWAY_MODEL: 'anthropic/claude-sonnet-4-5',
+        AI_MODEL_CHAIN: [
+          'anthropic/claude-opus-4-1',
+          'cf-ai-gateway/anthropic/claude-haiku-4-5',
+          'groq/openai/gpt-oss-120b',
+          'cf-ai-gateway/no-model',
+          'cf-ai-gateway/workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+        ].join(','),
+      }),
+    );
+
+    expect(patch.agents?.defaults.model).toEqual({
+      primary: 'anthropic/claude-opus-4-1',
+      fallbacks: [
+        'cf-ai-gw-anthropic/claude-haiku-4-5',
+        'groq/openai/gpt-oss-120b',
+        'cf-ai-gw-workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+      ],
+    });
+    expect(patch.models?.providers['cf-ai-gw-anthropic'].models.map((m) => m.id)).toEqual([
+      'claude-sonnet-4-5',
+      'claude-haiku-4-5',
+    ]);
+    expect(patch.models?.providers.groq.models.map((m) => m.id)).toEqual([
+      'llama-3.3-70b-versatile',
+      'openai/gpt-oss-120b',
+    ]);
+    expect(patch.models?.providers['cf-ai-gw-workers-ai'].baseUrl).toBe(
+      'https://gateway.ai.cloudflare.com/v1/acct/gw/workers-ai/v1',
+    );
+  });
+
+  it('configures every channel with a token, defaulting to pairing', () => {
+    const patch = buildConfigPatch(
+      createMockEnv({
+        TELEGRAM_BOT_TOKEN: 'tg',
+        DISCORD_BOT_TOKEN: 'dc',
+        SLACK_BOT_TOKEN: 'xoxb',
+        SLACK_APP_TOKEN: 'xapp',
+      }),
+    );
+
+    expect(patch.channels).toEqual({
+      telegram: { botToken: 'tg', enabled: true, dmPolicy: 'pairing' },
+      discord: { token: 'dc', enabled: true, dm: { policy: 'pairing' } },
+      slack: { botToken: 'xoxb', appToken: 'xapp', enabled: true },
+    });
+  });
+
+  it('opens DMs to everyone or to the listed Telegram users', () => {
+    const open = buildConfigPatch(
+      createMockEnv({
+        TELEGRAM_BOT_TOKEN: 'tg',
+        TELEGRAM_DM_POLICY: 'open',
+        DISCORD_BOT_TOKEN: 'dc',
+        DISCORD_DM_POLICY: 'open',
+        SLACK_BOT_TOKEN: 'xoxb',
+      }),
+    );
+    const listed = buildConfigPatch(
+      createMockEnv({ TELEGRAM_BOT_TOKEN: 'tg', TELEGRAM_DM_ALLOW_FROM: '123,456' }),
+    );
+
+    expect(open.channels.telegram?.allowFrom).toEqual(['*']);
+    expect(open.channels.discord?.dm).toEqual({ policy: 'open', allowFrom: ['*'] });
+    expect(open.channels.slack).toBeUndefined();
+    expect(listed.channels.telegram).toEqual({
+      botToken: 'tg',
+      enabled: true,
+      dmPolicy: 'pairing',
+      allowFrom: ['123', '456'],
+    });
+  });
+
+  it('switches Telegram to webhooks through the Worker with a webhook secret', () => {
+    const polling = buildConfigPatch(
+      createMockEnv({ TELEGRAM_BOT_TOKEN: 'tg', TELEGRAM_WEBHOOK_SECRET: 'whsec' }),
+    );
+    const webhook = buildConfigPatch(
+      createMockEnv({
+        TELEGRAM_BOT_TOKEN: 'tg',
+        TELEGRAM_WEBHOOK_SECRET: 'whsec',
+        WORKER_URL: 'https://bot.example.com/',
+      }),
+    );
+
+    expect(polling.channels.telegram?.webhookUrl).toBeUndefined();
+    expect(webhook.channels.telegram).toMatchObject({
+      webhookUrl: 'https://bot.example.com/webhooks/telegram',
+      webhookSecret: 'whsec',
+      webhookPath: '/telegram-webhook',
+    });
+  });
+});
+
+describe('applyConfigPatch', () => {
+  it('merges gateway settings and replaces channels and model providers as a whole', () => {
+    const existing = {
+      meta: { lastTouchedVersion: '2026.1.0' },
+      gateway: { port: 3000, auth: { mode: 'token', token: 'old' }, bind: 'lan' },
+      channels: {
+        telegram: { botToken: 'old', enabled: true, streamMode: 'partial' },
+        whatsapp: { enabled: true },
+      },
+      models: {
+        providers: { 'cf-ai-gw-openai': { models: [], stale: true }, openai: { api: 'x' } },
+      },
+      agents: {
+        defaults: {
+          model: { primary: 'openai/gpt-4o', fallbacks: ['x'] },
+          workspace: '/root/clawd',
+        },
+      },
+    };
+    const patch = buildConfigPatch(
+      createMockEnv({
+        MOLTBOT_GATEWAY_TOKEN: 'new',
+        TELEGRAM_BOT_TOKEN: 'tg',
+        CF_AI_GATEWAY_MODEL: 'openai/gpt-4o-mini',
+        CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-gw-key',
+        CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+        CF_AI_GATEWAY_GATEWAY_ID: 'gw',
+      }),
+    );
+
+    const config = applyConfigPatch(existing, configPatchOperations(patch));
+
+    expect(config).toEqual({
+      meta: { lastTouchedVersion: '2026.1.0' },
+      gateway: {
+        port: 18789,
+        mode: 'local',
+        trustedProxies: ['10.1.0.0'],
+        auth: { mode: 'token', token: 'new' },
+        bind: 'lan',
+      },
+      channels: {
+        telegram: { botToken: 'tg', enabled: true, dmPolicy: 'pairing' },
+        whatsapp: { enabled: true },
+      },
+      models: {
+        providers: {
+          'cf-ai-gw-openai': patch.models!.providers['cf-ai-gw-openai'],
+          openai: { api: 'x' },
+        },
+      },
+      agents: {
+        defaults: { model: { primary: 'cf-ai-gw-openai/gpt-4o-mini' }, workspace: '/root/clawd' },
+      },
+    });
+    expect(existing.gateway.port).toBe(3000);
+  });
+
+  it('creates the config from scratch', () => {
+    const operations = configPatchOperations(buildConfigPatch(createMockEnv({ DEV_MODE: 'true' })));
+
+    expect(operations).toEqual([
+      { path: ['gateway', 'port'], value: 18789 },
+      { path: ['gateway', 'mode'], value: 'local' },
+      { path: ['gateway', 'trustedProxies'], value: ['10.1.0.0'] },
+      { path: ['gateway', 'controlUi', 'allowInsecureAuth'], value: true },
+    ]);
+    expect(applyConfigPatch({ gateway: 'invalid' }, operations)).toEqual({
+      gateway: {
+        port: 18789,
+        mode: 'local',
+        trustedProxies: ['10.1.0.0'],
+        controlUi: { allowInsecureAuth: true },
+      },
+    });
+  });
+});
@@ -1,28 +1,16 @@
 import type { MoltbotEnv } from '../types';
+import { MOLTBOT_PORT, TELEGRAM_WEBHOOK_PATH } from '../config';
+import { configuredAiProviders, containerSettings } from '../settings';
 
 /**
- * Build environment variables to pass to the OpenClaw container process
+ * Build environment variables to pass to the OpenClaw container process: the settings with a
+ * container mapping in the registry, plus the legacy AI Gateway mapping
  *
  * @param env - Worker environment bindings
  * @returns Environment variables record
  */
 export function buildEnvVars(env: MoltbotEnv): Record<string, string> {
-  const envVars: Record<string, string> = {};
-
-  // Cloudflare AI Gateway configuration (new native provider)
-  if (env.CLOUDFLARE_AI_GATEWAY_API_KEY) {
-    envVars.CLOUDFLARE_AI_GATEWAY_API_KEY = env.CLOUDFLARE_AI_GATEWAY_API_KEY;
-  }
-  if (env.CF_AI_GATEWAY_ACCOUNT_ID) {
-    envVars.CF_AI_GATEWAY_ACCOUNT_ID = env.CF_AI_GATEWAY_ACCOUNT_ID;
-  }
-  if (env.CF_AI_GATEWAY_GATEWAY_ID) {
-    envVars.CF_AI_GATEWAY_GATEWAY_ID = env.CF_AI_GATEWAY_GATEWAY_ID;
-  }
-
-  // Direct provider keys
-  if (env.ANTHROPIC_API_KEY) envVars.ANTHROPIC_API_KEY = env.ANTHROPIC_API_KEY;
-  if (env.OPENAI_API_KEY) envVars.OPENAI_API_KEY = env.OPENAI_API_KEY;
+  const envVars = containerSettings(env);
 
   // Legacy AI Gateway support: AI_GATEWAY_BASE_URL + AI_GATEWAY_API_KEY
   // When set, these override direct keys for backward compatibility
@@ -32,24 +20,471 @@ export function buildEnvVars(env: MoltbotEnv): Record<string, string> {
     // Legacy path routes through Anthropic base URL
     envVars.ANTHROPIC_BASE_URL = normalizedBaseUrl;
     envVars.ANTHROPIC_API_KEY = env.AI_GATEWAY_API_KEY;
-  } else if (env.ANTHROPIC_BASE_URL) {
-    envVars.ANTHROPIC_BASE_URL = env.ANTHROPIC_BASE_URL;
-  }
-
-  // Map MOLTBOT_GATEWAY_TOKEN to OPENCLAW_GATEWAY_TOKEN (container expects this name)
-  if (env.MOLTBOT_GATEWAY_TOKEN) envVars.OPENCLAW_GATEWAY_TOKEN = env.MOLTBOT_GATEWAY_TOKEN;
-  if (env.DEV_MODE) envVars.OPENCLAW_DEV_MODE = env.DEV_MODE;
-  if (env.TELEGRAM_BOT_TOKEN) envVars.TELEGRAM_BOT_TOKEN = env.TELEGRAM_BOT_TOKEN;
-  if (env.TELEGRAM_DM_POLICY) envVars.TELEGRAM_DM_POLICY = env.TELEGRAM_DM_POLICY;
-  if (env.DISCORD_BOT_TOKEN) envVars.DISCORD_BOT_TOKEN = env.DISCORD_BOT_TOKEN;
-  if (env.DISCORD_DM_POLICY) envVars.DISCORD_DM_POLICY = env.DISCORD_DM_POLICY;
-  if (env.SLACK_BOT_TOKEN) envVars.SLACK_BOT_TOKEN = env.SLACK_BOT_TOKEN;
-  if (env.SLACK_APP_TOKEN) envVars.SLACK_APP_TOKEN = env.SLACK_APP_TOKEN;
-  if (env.CF_AI_GATEWAY_MODEL) envVars.CF_AI_GATEWAY_MODEL = env.CF_AI_GATEWAY_MODEL;
-  if (env.CF_ACCOUNT_ID) envVars.CF_ACCOUNT_ID = env.CF_ACCOUNT_ID;
-  if (env.CDP_SECRET) envVars.CDP_SECRET = env.CDP_SECRET;
-  if (env.WORKER_URL) envVars.WORKER_URL = env.WORKER_URL;
-  if (env.BACKUP_RESTORE_TOKEN) envVars.BACKUP_RESTORE_TOKEN = env.BACKUP_RESTORE_TOKEN;
+  }
 
   return envVars;
 }
+
+/** Where the Worker writes the config patch that start-openclaw.sh applies to openclaw.json */
+export const CONFIG_PATCH_PATH = '/tmp/openclaw-config-patch.json';
+
+/** Address of the sandbox's proxy, which the gateway must trust for client IPs */
+const SANDBOX_PROXY = '10.1.0.0';
+
+/** Limits given to the models the Worker adds to openclaw.json */
+const MODEL_CONTEXT_WINDOW = 131072;
+const MODEL_MAX_TOKENS = 8192;
+
+/** A provider with an OpenAI-compatible API, enabled by setting its API key secret */
+interface ApiKeyProvider {
+  /** Provider name in openclaw.json */
+  name: string;
+  apiKeyVar: 'GEMINI_API_KEY' | 'MISTRAL_API_KEY' | 'GROQ_API_KEY' | 'OPENROUTER_API_KEY';
+  baseUrl: string;
+  defaultModel: string;
+}
+
+/** In order of preference when one of them provides the default model */
+const API_KEY_PROVIDERS: ApiKeyProvider[] = [
+  {
+    name: 'google',
+    apiKeyVar: 'GEMINI_API_KEY',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+    defaultModel: 'gemini-2.5-flash',
+  },
+  {
+    name: 'mistral',
+    apiKeyVar: 'MISTRAL_API_KEY',
+    baseUrl: 'https://api.mistral.ai/v1',
+    defaultModel: 'mistral-large-latest',
+  },
+  {
+    name: 'groq',
+    apiKeyVar: 'GROQ_API_KEY',
+    baseUrl: 'https://api.groq.com/openai/v1',
+    defaultModel: 'llama-3.3-70b-versatile',
+  },
+  {
+    name: 'openrouter',
+    apiKeyVar: 'OPENROUTER_API_KEY',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    defaultModel: 'anthropic/claude-sonnet-4.5',
+  },
+];
+
+/** Provider name for OPENAI_COMPATIBLE_BASE_URL */
+const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+
+export interface TelegramChannelConfig {
+  botToken: string;
+  enabled: true;
+  dmPolicy: string;
+  allowFrom?: string[];
+  /** Webhook mode: OpenClaw registers webhookUrl with Telegram and listens on webhookPath */
+  webhookUrl?: string;
+  webhookSecret?: string;
+  webhookPath?: string;
+}
+
+/** Discord nests its DM settings (DiscordDmConfig in OpenClaw) */
+export interface DiscordChannelConfig {
+  token: string;
+  enabled: true;
+  dm: { policy: string; allowFrom?: string[] };
+}
+
+export interface SlackChannelConfig {
+  botToken: string;
+  appToken: string;
+  enabled: true;
+}
+
+export interface ModelProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  api: 'anthropic-messages' | 'openai-completions';
+  models: ModelConfig[];
+}
+
+export interface ModelConfig {
+  id: string;
+  name: string;
+  contextWindow: number;
+  maxTokens: number;
+}
+
+/**
+ * The parts of openclaw.json the Worker controls. Everything else (set by `openclaw onboard`,
+ * the user or restored from a backup) is left alone.
+ */
+export interface OpenClawConfigPatch {
+  gateway: {
+    port: number;
+    mode: 'local';
+    trustedProxies: string[];
+    auth?: { token: string };
+    controlUi?: { allowInsecureAuth: boolean };
+  };
+  models?: { providers: Record<string, ModelProviderConfig> };
+  agents?: { defaults: { model: { primary: string; fallbacks?: string[] } } };
+  channels: {
+    telegram?: TelegramChannelConfig;
+    discord?: DiscordChannelConfig;
+    slack?: SlackChannelConfig;
+  };
+}
+
+/** How the Worker reaches a provider to check its health */
+export interface ProviderEndpoint {
+  baseUrl: string;
+  apiKey: string;
+  api: ModelProviderConfig['api'];
+}
+
+/** One model of AI_MODEL_CHAIN */
+export interface ModelChainEntry {
+  /** Model reference in openclaw.json, e.g. cf-ai-gw-anthropic/claude-sonnet-4-5 */
+  ref: string;
+  /** Provider name in openclaw.json */
+  provider: string;
+  /** Absent for providers the Worker has no credentials for, e.g. ones added in the overlay */
+  endpoint?: ProviderEndpoint;
+}
+
+/** Set `value` at `path` in openclaw.json, replacing whatever is there */
+export interface ConfigSetOperation {
+  path: string[];
+  value: unknown;
+}
+
+/**
+ * Objects in the patch that replace the existing value instead of being merged into it. Channel
+ * objects are replaced so that stale keys from old backups, which fail OpenClaw's strict config
+ * validation, are dropped (see #47).
+ */
+const REPLACED_PATHS = [
+  ['channels', '*'],
+  ['models', 'providers', '*'],
+  ['agents', 'defaults', 'model'],
+];
+
+function modelConfig(id: string): ModelConfig {
+  return { id, name: id, contextWindow: MODEL_CONTEXT_WINDOW, maxTokens: MODEL_MAX_TOKENS };
+}
+
+/**
+ * Provider entry and default model for CF_AI_GATEWAY_MODEL (`provider/model-id`), routed through
+ * the AI Gateway, or straight to Workers AI when only CF_ACCOUNT_ID is set. Examples:
+ * `workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast`, `openai/gpt-4o`,
+ * `anthropic/claude-sonnet-4-5`.
+ */
+function gatewayModelProvider(
+  env: MoltbotEnv,
+  model: string,
+): { name: string; provider: ModelProviderConfig; modelId: string } | null {
+  const slashIdx = model.indexOf('/');
+  const gwProvider = model.substring(0, slashIdx);
+  const modelId = model.substring(slashIdx + 1);
+
+  let baseUrl: string | undefined;
+  if (env.CF_AI_GATEWAY_ACCOUNT_ID && env.CF_AI_GATEWAY_GATEWAY_ID) {
+    baseUrl = `https://gateway.ai.cloudflare.com/v1/${env.CF_AI_GATEWAY_ACCOUNT_ID}/${env.CF_AI_GATEWAY_GATEWAY_ID}/${gwProvider}`;
+    if (gwProvider === 'workers-ai') baseUrl += '/v1';
+  } else if (gwProvider === 'workers-ai' && env.CF_ACCOUNT_ID) {
+    baseUrl = `https://api.cloudflare.com/client/v4/accounts/${env.CF_ACCOUNT_ID}/ai/v1`;
+  }
+  if (!baseUrl || !env.CLOUDFLARE_AI_GATEWAY_API_KEY) {
+    return null;
+  }
+  return {
+    name: `cf-ai-gw-${gwProvider}`,
+    modelId,
+    provider: {
+      baseUrl,
+      apiKey: env.CLOUDFLARE_AI_GATEWAY_API_KEY,
+      api: gwProvider === 'anthropic' ? 'anthropic-messages' : 'openai-completions',
+      models: [modelConfig(modelId)],
+    },
+  };
+}
+
+/**
+ * Provider entries for the API-key providers and the custom OpenAI-compatible endpoint, with the
+ * default model of the first one.
+ */
+function apiKeyProviders(env: MoltbotEnv): {
+  providers: Record<string, ModelProviderConfig>;
+  primary?: string;
+} {
+  const providers: Record<string, ModelProviderConfig> = {};
+  let primary: string | undefined;
+  if (
+    env.OPENAI_COMPATIBLE_BASE_URL &&
+    env.OPENAI_COMPATIBLE_API_KEY &&
+    env.OPENAI_COMPATIBLE_MODEL
+  ) {
+    providers[OPENAI_COMPATIBLE_PROVIDER] = {
+      baseUrl: env.OPENAI_COMPATIBLE_BASE_URL.replace(/\/+$/, ''),
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+      api: 'openai-completions',
+      models: [modelConfig(env.OPENAI_COMPATIBLE_MODEL)],
+    };
+    primary = `${OPENAI_COMPATIBLE_PROVIDER}/${env.OPENAI_COMPATIBLE_MODEL}`;
+  }
+  for (const { name, apiKeyVar, baseUrl, defaultModel } of API_KEY_PROVIDERS) {
+    const apiKey = env[apiKeyVar];
+    if (!apiKey) continue;
+    providers[name] = {
+      baseUrl,
+      apiKey,
+      api: 'openai-completions',
+      models: [modelConfig(defaultModel)],
+    };
+    primary ??= `${name}/${defaultModel}`;
+  }
+  return { providers, primary };
+}
+
+/** AI_MODEL_CHAIN provider prefix for models routed through Cloudflare AI Gateway */
+const CHAIN_GATEWAY_PROVIDER = 'cf-ai-gateway';
+
+function addModel(provider: ModelProviderConfig, modelId: string): void {
+  if (!provider.models.some((model) => model.id === modelId)) {
+    provider.models.push(modelConfig(modelId));
+  }
+}
+
+/** Endpoint of a provider in the chain: one the Worker configures, or direct Anthropic/OpenAI */
+function chainEndpoint(
+  env: MoltbotEnv,
+  provider: string,
+  providers: Record<string, ModelProviderConfig>,
+): ProviderEndpoint | undefined {
+  const configured = providers[provider];
+  if (configured) {
+    return { baseUrl: configured.baseUrl, apiKey: configured.apiKey, api: configured.api };
+  }
+  if (provider === 'anthropic') {
+    // Same precedence as buildEnvVars: the legacy gateway replaces the direct key
+    if (env.AI_GATEWAY_API_KEY && env.AI_GATEWAY_BASE_URL) {
+      const baseUrl = env.AI_GATEWAY_BASE_URL.replace(/\/+$/, '');
+      return { baseUrl, apiKey: env.AI_GATEWAY_API_KEY, api: 'anthropic-messages' };
+    }
+    if (env.ANTHROPIC_API_KEY) {
+      const baseUrl = (env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '');
+      return { baseUrl, apiKey: env.ANTHROPIC_API_KEY, api: 'anthropic-messages' };
+    }
+  }
+  if (provider === 'openai' && env.OPENAI_API_KEY) {
+    return {
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: env.OPENAI_API_KEY,
+      api: 'openai-completions',
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Resolve AI_MODEL_CHAIN, a comma-separated list of `provider/model-id` tried in order, into
+ * model references and the provider entries they need. `cf-ai-gateway/<provider>/<model-id>`
+ * routes a model through the AI Gateway like CF_AI_GATEWAY_MODEL. Models of the API-key providers
+ * are added to their entries; other providers (anthropic, openai, or ones from the overlay) are
+ * referenced as they are.
+ */
+function resolveModelChain(
+  env: MoltbotEnv,
+  providers: Record<string, ModelProviderConfig>,
+): ModelChainEntry[] {
+  const entries: ModelChainEntry[] = [];
+  for (const spec of (env.AI_MODEL_CHAIN ?? '').split(',')) {
+    const model = spec.trim();
+    const slashIdx = model.indexOf('/');
+    if (!model) continue;
+    if (slashIdx <= 0 || slashIdx === model.length - 1) {
+      console.warn(`AI_MODEL_CHAIN: ignoring "${model}", expected provider/model-id`);
+      continue;
+    }
+    let provider = model.substring(0, slashIdx);
+    let modelId = model.substring(slashIdx + 1);
+    if (provider === CHAIN_GATEWAY_PROVIDER) {
+      const routed = modelId.includes('/') ? gatewayModelProvider(env, modelId) : null;
+      if (!routed) {
+        console.warn(`AI_MODEL_CHAIN: ignoring "${model}", AI Gateway is not configured for it`);
+        continue;
+      }
+      provider = routed.name;
+      modelId = routed.modelId;
+      if (providers[provider]) {
+        addModel(providers[provider], modelId);
+      } else {
+        providers[provider] = routed.provider;
+      }
+    } else if (providers[provider]) {
+      addModel(providers[provider], modelId);
+    }
+    entries.push({
+      ref: `${provider}/${modelId}`,
+      provider,
+      endpoint: chainEndpoint(env, provider, providers),
+    });
+  }
+  return entries;
+}
+
+/**
+ * The models of AI_MODEL_CHAIN in order, with the endpoints used to check their providers
+ *
+ * @param env - Worker environment bindings
+ */
+export function modelChain(env: MoltbotEnv): ModelChainEntry[] {
+  return resolveModelChain(env, apiKeyProviders(env).providers);
+}
+
+/**
+ * Build the openclaw.json settings derived from Worker configuration: gateway port, auth and
+ * trusted proxies, the CF_AI_GATEWAY_MODEL provider, the Gemini, Mistral, Groq, OpenRouter and
+ * custom OpenAI-compatible providers, and the Telegram, Discord and Slack channels.
+ * `openclaw onboard` sets up the Anthropic, OpenAI and AI Gateway credentials themselves.
+ *
+ * The default model is the first model of AI_MODEL_CHAIN, with the rest as fallbacks, if set;
+ * otherwise CF_AI_GATEWAY_MODEL if set; otherwise, when neither Anthropic, OpenAI nor the AI
+ * Gateway is configured, the default model of the first API-key provider.
+ *
+ * The legacy AI Gateway base URL needs no entry: the Anthropic SDK reads ANTHROPIC_BASE_URL
+ * itself, and a provider entry without a models array fails OpenClaw's config validation.
+ *
+ * @param env - Worker environment bindings
+ */
+export function buildConfigPatch(env: MoltbotEnv): OpenClawConfigPatch {
+  const patch: OpenClawConfigPatch = {
+    gateway: { port: MOLTBOT_PORT, mode: 'local', trustedProxies: [SANDBOX_PROXY] },
+    channels: {},
+  };
+  if (env.MOLTBOT_GATEWAY_TOKEN) {
+    patch.gateway.auth = { token: env.MOLTBOT_GATEWAY_TOKEN };
+  }
+  if (env.DEV_MODE === 'true') {
+    patch.gateway.controlUi = { allowInsecureAuth: true };
+  }
+
+  const { providers, primary } = apiKeyProviders(env);
+  if (primary) {
+    patch.models = { providers };
+    const onboarded = configuredAiProviders(env).some((name) =>
+      ['cloudflare-ai-gateway', 'anthropic', 'openai'].includes(name),
+    );
+    if (!onboarded) {
+      patch.agents = { defaults: { model: { primary } } };
+    }
+  }
+
+  if (env.CF_AI_GATEWAY_MODEL) {
+    const model = gatewayModelProvider(env, env.CF_AI_GATEWAY_MODEL);
+    if (model) {
+      providers[model.name] = model.provider;
+      patch.models = { providers };
+      patch.agents = { defaults: { model: { primary: `${model.name}/${model.modelId}` } } };
+    } else {
+      console.warn(
+        'CF_AI_GATEWAY_MODEL set but missing required config (account ID, gateway ID, or API key)',
+      );
+    }
+  }
+
+  const chain = resolveModelChain(env, providers);
+  if (chain.length > 0) {
+    patch.models = { providers };
+    const [first, ...fallbacks] = chain.map((entry) => entry.ref);
+    patch.agents = { defaults: { model: { primary: first, fallbacks } } };
+  }
+
+  if (env.TELEGRAM_BOT_TOKEN) {
+    const dmPolicy = env.TELEGRAM_DM_POLICY || 'pairing';
+    patch.channels.telegram = { botToken: env.TELEGRAM_BOT_TOKEN, enabled: true, dmPolicy };
+    if (env.TELEGRAM_DM_ALLOW_FROM) {
+      patch.channels.telegram.allowFrom = env.TELEGRAM_DM_ALLOW_FROM.split(',');
+    } else if (dmPolicy === 'open') {
+      patch.channels.telegram.allowFrom = ['*'];
+    }
+    // Telegram delivers to the Worker, which queues updates while the gateway is down and
+    // replays them to the listener (see gateway/webhooks)
+    if (env.TELEGRAM_WEBHOOK_SECRET && env.WORKER_URL) {
+      patch.channels.telegram.webhookUrl = `${env.WORKER_URL.replace(/\/+$/, '')}/webhooks/telegram`;
+      patch.channels.telegram.webhookSecret = env.TELEGRAM_WEBHOOK_SECRET;
+      patch.channels.telegram.webhookPath = TELEGRAM_WEBHOOK_PATH;
+    }
+  }
+  if (env.DISCORD_BOT_TOKEN) {
+    const policy = env.DISCORD_DM_POLICY || 'pairing';
+    patch.channels.discord = {
+      token: env.DISCORD_BOT_TOKEN,
+      enabled: true,
+      dm: policy === 'open' ? { policy, allowFrom: ['*'] } : { policy },
+    };
+  }
+  if (env.SLACK_BOT_TOKEN && env.SLACK_APP_TOKEN) {
+    patch.channels.slack = {
+      botToken: env.SLACK_BOT_TOKEN,
+      appToken: env.SLACK_APP_TOKEN,
+      enabled: true,
+    };
+  }
+  return patch;
+}
+
+function isReplaced(path: string[]): boolean {
+  return REPLACED_PATHS.some(
+    (pattern) =>
+      pattern.length === path.length && pattern.every((key, i) => key === '*' || key === path[i]),
+  );
+}
+
+function flattenPatch(patch: object, path: string[]): ConfigSetOperation[] {
+  return Object.entries(patch).flatMap(([key, value]: [string, unknown]) => {
+    const valuePath = [...path, key];
+    if (value === undefined) {
+      return [];
+    }
+    if (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !isReplaced(valuePath)
+    ) {
+      return flattenPatch(value, valuePath);
+    }
+    return [{ path: valuePath, value }];
+  });
+}
+
+/**
+ * Flatten a patch into the operations start-openclaw.sh applies: nested objects are merged key
+ * by key, except at REPLACED_PATHS and for arrays, which are set as a whole.
+ */
+export function configPatchOperations(patch: OpenClawConfigPatch): ConfigSetOperation[] {
+  return flattenPatch(patch, []);
+}
+
+/**
+ * Apply set operations to a parsed openclaw.json, creating parent objects as needed. The node
+ * script in start-openclaw.sh does the same in the container.
+ */
+export function applyConfigPatch(
+  config: Record<string, unknown>,
+  operations: ConfigSetOperation[],
+): Record<string, unknown> {
+  const result = structuredClone(config);
+  for (const { path, value } of operations) {
+    let target = result;
+    for (const key of path.slice(0, -1)) {
+      const next = target[key];
+      if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = value;
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { MoltbotEnv } from '../types';
+import {
+  StartupStateStore,
+  type StartupCoordinator,
+  type StartupPhase,
+  type StartupState,
+} from './startup-state';
+import { SyncLockStore, type SyncLock, type SyncLockCoordinator } from './sync-lock';
+import {
+  WatchdogStore,
+  type GatewayCrash,
+  type WatchdogCoordinator,
+  type WatchdogState,
+} from './watchdog';
+
+/**
+ * Durable Object holding gateway lifecycle state for one tenant (addressed by tenant ID).
+ *
+ * Worker isolates don't share memory, so anything that must look the same from every isolate
+ * (startup lock, last failure, phase timestamps, crash history, sync lock) lives here instead of
+ * in module globals.
+ */
+export class GatewayState
+  extends DurableObject<MoltbotEnv>
+  implements StartupCoordinator, WatchdogCoordinator, SyncLockCoordinator
+{
+  private readonly startup = new StartupStateStore(this.ctx.storage);
+  private readonly watchdog = new WatchdogStore(this.ctx.storage);
+  private readonly syncLock = new SyncLockStore(this.ctx.storage);
+
+  async getState(): Promise<StartupState> {
+    return this.startup.getState();
+  }
+
+  async acquire(owner: string, leaseMs: number): Promise<boolean> {
+    return this.startup.acquire(owner, leaseMs);
+  }
+
+  async beginAttempt(owner: string): Promise<void> {
+    return this.startup.beginAttempt(owner);
+  }
+
+  async recordPhase(owner: string, phase: StartupPhase): Promise<void> {
+    return this.startup.recordPhase(owner, phase);
+  }
+
+  async release(owner: string, failure?: { message: string; hint?: string }): Promise<void> {
+    return this.startup.release(owner, failure);
+  }
+
+  async clearFailure(): Promise<void> {
+    return this.startup.clearFailure();
+  }
+
+  async getWatchdogState(): Promise<WatchdogState> {
+    return this.watchdog.getWatchdogState();
+  }
+
+  async recordCrash(crash: GatewayCrash): Promise<WatchdogState> {
+    return this.watchdog.recordCrash(crash);
+  }
+
+  async recordRestart(): Promise<void> {
+    return this.watchdog.recordRestart();
+  }
+
+  async resetWatchdog(): Promise<void> {
+    return this.watchdog.resetWatchdog();
+  }
+
+  async getSyncLock(): Promise<SyncLock | null> {
+    return this.syncLock.getSyncLock();
+  }
+
+  async acquireSyncLock(owner: string, leaseMs: number): Promise<boolean> {
+    return this.syncLock.acquireSyncLock(owner, leaseMs);
+  }
+
+  async releaseSyncLock(owner: string): Promise<void> {
+    return this.syncLock.releaseSyncLock(owner);
+  }
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GATEWAY_TOKEN_KEY,
+  applyTokenRotation,
+  checkClientToken,
+  endTokenGrace,
+  forwardedToken,
+  gatewayTokenArg,
+  gatewayTokenFor,
+  readPreviousTokenClients,
+  readTokenRotation,
+  recordPreviousTokenClient,
+  rewriteConnectFrame,
+  rotateGatewayToken,
+  runningGatewayToken,
+  type GatewayTokenRotation,
+} from './gateway-token';
+import { createMockBucket, createMockEnv } from '../test-utils';
+
+const HOUR = 3_600_000;
+
+const ROTATION: GatewayTokenRotation = {
+  current: 'new',
+  previous: 'old',
+  previousSince: '2026-01-01T00:00:00.000Z',
+  rotatedAt: '2026-02-01T00:00:00.000Z',
+  rotatedBy: 'admin@example.com',
+  graceUntil: '2026-02-02T00:00:00.000Z',
+  envTokenHash: 'hash',
+};
+
+/** A gateway process whose command doesn't record its token */
+function startedAt(startTime: string) {
+  return { command: 'start-openclaw.sh', startTime: new Date(startTime) };
+}
+
+function markForwarded(token: string): string {
+  return `${token}->gw`;
+}
+
+describe('rotateGatewayToken', () => {
+  it('keeps the replaced token and chains rotations', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket, MOLTBOT_GATEWAY_TOKEN: 'secret' });
+
+    const first = await rotateGatewayToken(env, 'a@example.com', HOUR);
+    const second = await rotateGatewayToken(env, 'b@example.com', 2 * HOUR);
+
+    expect(objects.has(GATEWAY_TOKEN_KEY)).toBe(true);
+    expect(first.current).toMatch(/^[0-9a-f]{64}$/);
+    expect(first).toMatchObject({ previous: 'secret', previousSince: null });
+    expect(second).toMatchObject({
+      previous: first.current,
+      previousSince: first.rotatedAt,
+      rotatedBy: 'b@example.com',
+      envTokenHash: first.envTokenHash,
+    });
+    expect(Date.parse(second.graceUntil) - Date.parse(second.rotatedAt)).toBe(2 * HOUR);
+    expect(await readTokenRotation(env)).toEqual(second);
+    expect(applyTokenRotation(env, second).MOLTBOT_GATEWAY_TOKEN).toBe(second.current);
+  });
+
+  it('is superseded by a new MOLTBOT_GATEWAY_TOKEN secret', async () => {
+    const { bucket } = createMockBucket();
+    await rotateGatewayToken(
+      createMockEnv({ MOLTBOT_BUCKET: bucket, MOLTBOT_GATEWAY_TOKEN: 'secret' }),
+      'a@example.com',
+      HOUR,
+    );
+
+    const redeployed = createMockEnv({ MOLTBOT_BUCKET: bucket, MOLTBOT_GATEWAY_TOKEN: 'replaced' });
+
+    expect(await readTokenRotation(redeployed)).toBeNull();
+    expect(applyTokenRotation(redeployed, null)).toBe(redeployed);
+  });
+
+  it('rejects rotation without a token or with an out-of-range grace period', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockBucket().bucket });
+
+    await expect(rotateGatewayToken(env, 'a@example.com', HOUR)).rejects.toThrow(
+      'MOLTBOT_GATEWAY_TOKEN is not set',
+    );
+    await expect(
+      rotateGatewayToken({ ...env, MOLTBOT_GATEWAY_TOKEN: 'secret' }, 'a@example.com', -1),
+    ).rejects.toThrow('Grace period must be between 0 and 720 hours');
+  });
+
+  it('can end the grace period early', async () => {
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: createMockBucket().bucket,
+      MOLTBOT_GATEWAY_TOKEN: 'secret',
+    });
+
+    expect(await endTokenGrace(env)).toBeNull();
+    const rotation = await rotateGatewayToken(env, 'a@example.com', HOUR);
+    const ended = await endTokenGrace(env);
+
+    expect(checkClientToken(ended!, 'secret')).toBe('expired');
+    expect(checkClientToken(ended!, rotation.current)).toBe('current');
+  });
+});
+
+describe('token checks', () => {
+  it('accepts the previous token only during the grace period', () => {
+    const during = Date.parse('2026-02-01T12:00:00.000Z');
+    const after = Date.parse('2026-02-02T00:00:00.000Z');
+
+    expect(checkClientToken(ROTATION, 'new', after)).toBe('current');
+    expect(checkClientToken(ROTATION, 'old', during)).toBe('previous');
+    expect(checkClientToken(ROTATION, 'old', after)).toBe('expired');
+    expect(checkClientToken(ROTATION, 'guess', during)).toBe('invalid');
+  });
+
+  it('swaps accepted tokens for the gateway token and drops the rest', () => {
+    const during = Date.parse('2026-02-01T12:00:00.000Z');
+    const after = Date.parse('2026-02-03T00:00:00.000Z');
+
+    expect(forwardedToken(ROTATION, 'new', 'old', during)).toBe('old');
+    expect(forwardedToken(ROTATION, 'old', 'old', during)).toBe('old');
+    expect(forwardedToken(ROTATION, 'old', 'old', after)).toBe('');
+    expect(forwardedToken(ROTATION, 'guess', 'new', during)).toBe('');
+  });
+
+  it('works out the token a gateway runs with from its start time', () => {
+    const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret' });
+
+    expect(runningGatewayToken(ROTATION, startedAt('2026-02-01T00:00:00.000Z'))).toBe('new');
+    expect(runningGatewayToken(ROTATION, startedAt('2026-01-15T00:00:00.000Z'))).toBe('old');
+    expect(runningGatewayToken(ROTATION, startedAt('2025-12-31T00:00:00.000Z'))).toBeNull();
+    expect(gatewayTokenFor(env, ROTATION, startedAt('2025-12-31T00:00:00.000Z'))).toBe('new');
+    expect(gatewayTokenFor(env, ROTATION, null)).toBe('new');
+    expect(gatewayTokenFor(env, null, null)).toBe('secret');
+  });
+
+  it('records the token a gateway starts with in its command', async () => {
+    const { bucket } = createMockBucket();
+    await bucket.put(GATEWAY_TOKEN_KEY, JSON.stringify(ROTATION));
+    const gateway = async (token: string) => ({
+      command: `start-openclaw.sh ${await gatewayTokenArg(
+        createMockEnv({ MOLTBOT_BUCKET: bucket, MOLTBOT_GATEWAY_TOKEN: token }),
+      )}`,
+      // Started after the rotation, by an isolate that hadn't seen it yet
+      startTime: new Date('2026-02-01T01:00:00.000Z'),
+    });
+
+    expect(runningGatewayToken(ROTATION, await gateway('new'))).toBe('new');
+    expect(runningGatewayToken(ROTATION, await gateway('old'))).toBe('old');
+    expect(runningGatewayToken(ROTATION, await gateway('secret'))).toBeNull();
+  });
+
+  it('rewrites the token of connect frames only', () => {
+    const connect = JSON.stringify({
+      type: 'req',
+      id: '1',
+      method: 'connect',
+      params: { auth: { token: 'old' }, client: { id: 'ui' } },
+    });
+    const other = JSON.stringify({ type: 'req', id: '2', method: 'chat.send', params: {} });
+
+    expect(JSON.parse(rewriteConnectFrame(connect, markForwarded)).params).toEqual({
+      auth: { token: 'old->gw' },
+      client: { id: 'ui' },
+    });
+    expect(rewriteConnectFrame(other, markForwarded)).toBe(other);
+    expect(rewriteConnectFrame('not json', markForwarded)).toBe('not json');
+  });
+});
+
+describe('recordPreviousTokenClient', () => {
+  it('keeps one entry per client, most recent first', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockBucket().bucket });
+
+    await recordPreviousTokenClient(env, { tenantId: 'moltbot', user: 'a@x.com', userAgent: 'UI' });
+    await recordPreviousTokenClient(env, {
+      tenantId: 'moltbot',
+      user: 'b@x.com',
+      userAgent: 'CLI',
+    });
+    await recordPreviousTokenClient(env, { tenantId: 'moltbot', user: 'a@x.com', userAgent: 'UI' });
+
+    expect((await readPreviousTokenClients(env)).map((client) => client.user)).toEqual([
+      'a@x.com',
+      'b@x.com',
+    ]);
+  });
+});
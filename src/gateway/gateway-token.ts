@@ -0,0 +1,360 @@
+import type { Process } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import {
+  GATEWAY_TOKEN_CACHE_MS,
+  GATEWAY_TOKEN_CLIENTS_LIMIT,
+  MAX_GATEWAY_TOKEN_GRACE_MS,
+} from '../config';
+import { timingSafeEqual } from '../utils/secrets';
+
+/**
+ * Gateway token rotation without a redeploy or restart.
+ *
+ * MOLTBOT_GATEWAY_TOKEN is the first token. Rotating generates a new one and keeps the one it
+ * replaces, which clients may keep using until the grace period ends. The Worker checks the
+ * token clients present and forwards the token the running gateway was started with (recorded in
+ * its start command, see gatewayTokenArg), so the gateway only needs the new token once it next
+ * restarts. Setting a new MOLTBOT_GATEWAY_TOKEN
+ * secret supersedes a stored rotation.
+ */
+
+/** The rotation state, at the bucket root */
+export const GATEWAY_TOKEN_KEY = '.gateway-token.json';
+
+/** Clients seen using the previous token since the last rotation, at the bucket root */
+export const GATEWAY_TOKEN_CLIENTS_KEY = '.gateway-token-clients.json';
+
+export interface GatewayTokenRotation {
+  /** Token handed to clients and to gateways started since rotatedAt */
+  current: string;
+  /** The token it replaced */
+  previous: string;
+  /** When the previous token became current; null when it was MOLTBOT_GATEWAY_TOKEN */
+  previousSince: string | null;
+  rotatedAt: string; // ISO timestamp
+  /** Email of the admin who rotated the token */
+  rotatedBy: string;
+  /** Clients are refused the previous token after this time */
+  graceUntil: string;
+  /** SHA-256 (hex) of the MOLTBOT_GATEWAY_TOKEN the rotations started from */
+  envTokenHash: string;
+}
+
+/** How a token a client presented relates to the rotation */
+export type ClientTokenStatus = 'current' | 'previous' | 'expired' | 'invalid';
+
+/** A client that connected with the previous token */
+export interface PreviousTokenClient {
+  tenantId: string;
+  /** Cloudflare Access email, when known */
+  user?: string;
+  userAgent?: string;
+  lastSeen: string; // ISO timestamp
+}
+
+/**
+ * Start command argument recording which token a gateway was started with: when that token
+ * became current, or 'env' for MOLTBOT_GATEWAY_TOKEN
+ */
+const TOKEN_SINCE_ARG = '--token-since=';
+
+/** Rotations read by this isolate, per bucket, until they expire */
+const cache = new WeakMap<R2Bucket, { rotation: GatewayTokenRotation | null; expiresAt: number }>();
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+/**
+ * The stored rotation, or null if there is none or MOLTBOT_GATEWAY_TOKEN has changed since it
+ * was made
+ *
+ * @param env - Worker environment bindings, with MOLTBOT_GATEWAY_TOKEN as deployed
+ */
+export async function readTokenRotation(env: MoltbotEnv): Promise<GatewayTokenRotation | null> {
+  if (!env.MOLTBOT_GATEWAY_TOKEN) {
+    return null;
+  }
+  const obj = await env.MOLTBOT_BUCKET.get(GATEWAY_TOKEN_KEY);
+  if (!obj) {
+    return null;
+  }
+  const rotation = (await obj.json()) as GatewayTokenRotation;
+  return rotation.envTokenHash === (await sha256(env.MOLTBOT_GATEWAY_TOKEN)) ? rotation : null;
+}
+
+/**
+ * readTokenRotation, read from R2 at most once per GATEWAY_TOKEN_CACHE_MS per isolate. If R2
+ * can't be read the rotation is treated as absent.
+ */
+export async function cachedTokenRotation(env: MoltbotEnv): Promise<GatewayTokenRotation | null> {
+  let cached = cache.get(env.MOLTBOT_BUCKET);
+  if (!cached || cached.expiresAt <= Date.now()) {
+    try {
+      cached = {
+        rotation: await readTokenRotation(env),
+        expiresAt: Date.now() + GATEWAY_TOKEN_CACHE_MS,
+      };
+    } catch (err) {
+      console.error('[Token] Failed to read gateway token rotation:', err);
+      return null;
+    }
+    cache.set(env.MOLTBOT_BUCKET, cached);
+  }
+  return cached.rotation;
+}
+
+/**
+ * The env with MOLTBOT_GATEWAY_TOKEN replaced by the rotated token, so gateways start with it and
+ * clients are given it
+ */
+export function applyTokenRotation(
+  env: MoltbotEnv,
+  rotation: GatewayTokenRotation | null,
+): MoltbotEnv {
+  return rotation ? { ...env, MOLTBOT_GATEWAY_TOKEN: rotation.current } : env;
+}
+
+/**
+ * The env with the current gateway token (see cachedTokenRotation)
+ *
+ * @param env - Worker environment bindings, with MOLTBOT_GATEWAY_TOKEN as deployed
+ */
+export async function withGatewayToken(env: MoltbotEnv): Promise<MoltbotEnv> {
+  return applyTokenRotation(env, await cachedTokenRotation(env));
+}
+
+/**
+ * Replace the gateway token with a new random one. The replaced token stays valid for graceMs.
+ * Rotating again before earlier rotations reach the gateways means they need a restart.
+ *
+ * @param env - Worker environment bindings, with MOLTBOT_GATEWAY_TOKEN as deployed
+ * @param by - Who rotated the token, for the status
+ * @param graceMs - How long clients may keep using the replaced token
+ * @throws If MOLTBOT_GATEWAY_TOKEN is not set or graceMs is out of range
+ */
+export async function rotateGatewayToken(
+  env: MoltbotEnv,
+  by: string,
+  graceMs: number,
+): Promise<GatewayTokenRotation> {
+  if (!env.MOLTBOT_GATEWAY_TOKEN) {
+    throw new Error('MOLTBOT_GATEWAY_TOKEN is not set; there is no token to rotate');
+  }
+  if (!Number.isFinite(graceMs) || graceMs < 0 || graceMs > MAX_GATEWAY_TOKEN_GRACE_MS) {
+    throw new Error(
+      `Grace period must be between 0 and ${MAX_GATEWAY_TOKEN_GRACE_MS / 3_600_000} hours`,
+    );
+  }
+
+  const existing = await readTokenRotation(env);
+  const now = Date.now();
+  const rotation: GatewayTokenRotation = {
+    current: toHex(crypto.getRandomValues(new Uint8Array(32))),
+    previous: existing?.current ?? env.MOLTBOT_GATEWAY_TOKEN,
+    previousSince: existing?.rotatedAt ?? null,
+    rotatedAt: new Date(now).toISOString(),
+    rotatedBy: by,
+    graceUntil: new Date(now + graceMs).toISOString(),
+    envTokenHash: existing?.envTokenHash ?? (await sha256(env.MOLTBOT_GATEWAY_TOKEN)),
+  };
+  await env.MOLTBOT_BUCKET.put(GATEWAY_TOKEN_KEY, JSON.stringify(rotation), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  await env.MOLTBOT_BUCKET.delete(GATEWAY_TOKEN_CLIENTS_KEY);
+  cache.delete(env.MOLTBOT_BUCKET);
+  return rotation;
+}
+
+/**
+ * Stop accepting the previous token now instead of at the end of the grace period
+ *
+ * @returns The updated rotation, or null if there is none
+ */
+export async function endTokenGrace(env: MoltbotEnv): Promise<GatewayTokenRotation | null> {
+  const rotation = await readTokenRotation(env);
+  if (!rotation) {
+    return null;
+  }
+  const ended = { ...rotation, graceUntil: new Date().toISOString() };
+  await env.MOLTBOT_BUCKET.put(GATEWAY_TOKEN_KEY, JSON.stringify(ended), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  cache.delete(env.MOLTBOT_BUCKET);
+  return ended;
+}
+
+/**
+ * Whether a token a client presented is the current one, the previous one within (or after) its
+ * grace period, or neither
+ */
+export function checkClientToken(
+  rotation: GatewayTokenRotation,
+  token: string,
+  now: number = Date.now(),
+): ClientTokenStatus {
+  if (timingSafeEqual(token, rotation.current)) {
+    return 'current';
+  }
+  if (timingSafeEqual(token, rotation.previous)) {
+    return now < Date.parse(rotation.graceUntil) ? 'previous' : 'expired';
+  }
+  return 'invalid';
+}
+
+/**
+ * The start command argument recording the token a gateway starts with (see runningGatewayToken).
+ * The rotation is read from R2 uncached, since the cached one may predate a rotation made by
+ * another isolate. A token that is neither the current nor the previous one is
+ * MOLTBOT_GATEWAY_TOKEN (the stored rotation is for an earlier secret) or older than both, which
+ * no later rotation gives back. Empty when R2 can't be read, so the token is inferred from the
+ * start time.
+ *
+ * @param env - Worker environment bindings, with the gateway token the gateway starts with
+ */
+export async function gatewayTokenArg(env: MoltbotEnv): Promise<string> {
+  const token = env.MOLTBOT_GATEWAY_TOKEN;
+  if (!token) {
+    return '';
+  }
+  let rotation: GatewayTokenRotation | null;
+  try {
+    const obj = await env.MOLTBOT_BUCKET.get(GATEWAY_TOKEN_KEY);
+    rotation = obj ? ((await obj.json()) as GatewayTokenRotation) : null;
+  } catch (err) {
+    console.error('[Token] Failed to read gateway token rotation:', err);
+    return '';
+  }
+  let since = 'env';
+  if (rotation?.current === token) {
+    since = rotation.rotatedAt;
+  } else if (rotation?.previous === token) {
+    since = rotation.previousSince ?? 'env';
+  }
+  return `${TOKEN_SINCE_ARG}${since}`;
+}
+
+/**
+ * The token a gateway process was started with, from the argument gatewayTokenArg added to its
+ * command, or else from its start time: gateways started before the rotation still have the
+ * previous token. Null when it predates the previous token too, so only a restart gives it a
+ * token the Worker knows.
+ */
+export function runningGatewayToken(
+  rotation: GatewayTokenRotation,
+  gateway: Pick<Process, 'command' | 'startTime'>,
+): string | null {
+  const since = gateway.command
+    .split(' ')
+    .find((arg) => arg.startsWith(TOKEN_SINCE_ARG))
+    ?.slice(TOKEN_SINCE_ARG.length);
+  if (since !== undefined) {
+    if (since === rotation.rotatedAt) {
+      return rotation.current;
+    }
+    return since === (rotation.previousSince ?? 'env') ? rotation.previous : null;
+  }
+
+  const startedAt = new Date(gateway.startTime).getTime();
+  if (startedAt >= Date.parse(rotation.rotatedAt)) {
+    return rotation.current;
+  }
+  if (rotation.previousSince === null || startedAt >= Date.parse(rotation.previousSince)) {
+    return rotation.previous;
+  }
+  return null;
+}
+
+/**
+ * The token to give a gateway process: MOLTBOT_GATEWAY_TOKEN without a rotation, otherwise the
+ * one it was started with, or the current token when that's unknown
+ *
+ * @param env - Worker environment bindings
+ * @param gateway - The gateway process, or null for one about to start
+ */
+export function gatewayTokenFor(
+  env: MoltbotEnv,
+  rotation: GatewayTokenRotation | null,
+  gateway: Pick<Process, 'command' | 'startTime'> | null,
+): string | undefined {
+  if (!rotation) {
+    return env.MOLTBOT_GATEWAY_TOKEN;
+  }
+  return (gateway && runningGatewayToken(rotation, gateway)) ?? rotation.current;
+}
+
+/**
+ * The token to forward in place of one a client presented: accepted tokens are swapped for the
+ * gateway's own, and others are dropped. A gateway that hasn't restarted since the rotation
+ * would otherwise still accept an expired token.
+ *
+ * @param gatewayToken - The token the gateway runs with (see runningGatewayToken)
+ */
+export function forwardedToken(
+  rotation: GatewayTokenRotation,
+  token: string,
+  gatewayToken: string,
+  now: number = Date.now(),
+): string {
+  const status = checkClientToken(rotation, token, now);
+  return status === 'current' || status === 'previous' ? gatewayToken : '';
+}
+
+/**
+ * Swap the token in a gateway `connect` request frame. Other frames, and frames that aren't JSON,
+ * are returned as they are.
+ *
+ * @param forward - Maps the client's token to the one to forward (see forwardedToken)
+ */
+export function rewriteConnectFrame(data: string, forward: (token: string) => string): string {
+  let frame: { method?: unknown; params?: { auth?: { token?: unknown } } };
+  try {
+    frame = JSON.parse(data);
+  } catch {
+    return data;
+  }
+  const auth = frame?.params?.auth;
+  if (frame?.method !== 'connect' || typeof auth?.token !== 'string') {
+    return data;
+  }
+  auth.token = forward(auth.token);
+  return JSON.stringify(frame);
+}
+
+/**
+ * Clients seen using the previous token since the last rotation, most recent first
+ */
+export async function readPreviousTokenClients(env: MoltbotEnv): Promise<PreviousTokenClient[]> {
+  const obj = await env.MOLTBOT_BUCKET.get(GATEWAY_TOKEN_CLIENTS_KEY);
+  return obj ? ((await obj.json()) as PreviousTokenClient[]) : [];
+}
+
+/**
+ * Remember a client that connected with the previous token, replacing its earlier entry (same
+ * tenant, user and user agent). Best-effort: failures are only logged.
+ */
+export async function recordPreviousTokenClient(
+  env: MoltbotEnv,
+  client: Omit<PreviousTokenClient, 'lastSeen'>,
+): Promise<void> {
+  try {
+    const entry: PreviousTokenClient = { ...client, lastSeen: new Date().toISOString() };
+    const others = (await readPreviousTokenClients(env)).filter(
+      (seen) =>
+        seen.tenantId !== client.tenantId ||
+        seen.user !== client.user ||
+        seen.userAgent !== client.userAgent,
+    );
+    await env.MOLTBOT_BUCKET.put(
+      GATEWAY_TOKEN_CLIENTS_KEY,
+      JSON.stringify([entry, ...others].slice(0, GATEWAY_TOKEN_CLIENTS_LIMIT)),
+      { httpMetadata: { contentType: 'application/json' } },
+    );
+  } catch (err) {
+    console.error('[Token] Failed to record client using the previous token:', err);
+  }
+}
@@ -1,5 +1,17 @@
 export { buildEnvVars } from './env';
 export { mountR2Storage } from './r2';
-export { findExistingMoltbotProcess, ensureMoltbotGateway } from './process';
+export {
+  findExistingMoltbotProcess,
+  findLastExitedMoltbotProcess,
+  ensureMoltbotGateway,
+} from './process';
 export { syncToR2 } from './sync';
 export { waitForProcess } from './utils';
+export {
+  isMultiTenant,
+  resolveTenantId,
+  resolveServiceTokenTenantId,
+  registerTenant,
+  listTenants,
+} from './tenant';
+export { runGatewayWatchdog } from './watchdog';
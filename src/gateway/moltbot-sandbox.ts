@@ -0,0 +1,34 @@
+import { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { DEFAULT_TENANT_ID } from '../config';
+import { withRuntimeSettings } from '../runtime-settings';
+import { syncBeforeStop } from './pre-stop';
+import { findExistingMoltbotProcess } from './process';
+import { buildSandboxOptions } from './sleep-schedule';
+
+/**
+ * Sandbox Durable Object with a pre-stop hook for planned sleep.
+ *
+ * With SANDBOX_SLEEP_AFTER set, the container is stopped once it has been idle that long, which
+ * can be up to one cron interval after the last sync. Syncing here first keeps what the gateway
+ * wrote since then. Exported as `Sandbox` so the Durable Object binding is unchanged.
+ */
+export class MoltbotSandbox extends Sandbox<MoltbotEnv> {
+  override async onActivityExpired(): Promise<void> {
+    // With keepAlive (SANDBOX_SLEEP_AFTER unset or 'never', or within awake hours) the base class
+    // keeps the container running, so there is nothing to save
+    const env = await withRuntimeSettings(this.env);
+    if (!buildSandboxOptions(env).keepAlive) {
+      try {
+        if (await findExistingMoltbotProcess(this)) {
+          // getSandbox() stores the sandbox ID, which is the tenant ID, under this key
+          const tenantId = (await this.ctx.storage.get<string>('sandboxName')) ?? DEFAULT_TENANT_ID;
+          await syncBeforeStop(this, env, tenantId, 'sleep');
+        }
+      } catch (err) {
+        console.error('[PreStop] Sync before sleep failed:', err);
+      }
+    }
+    await super.onActivityExpired();
+  }
+}
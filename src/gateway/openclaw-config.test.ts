@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OPENCLAW_CONFIG_PATH,
+  PREVIOUS_CONFIG_PATH,
+  REDACTED,
+  diffConfig,
+  prepareConfigEdit,
+  readOpenClawConfig,
+  redactConfig,
+  rollbackOpenClawConfig,
+  validateConfig,
+  writeOpenClawConfig,
+} from './openclaw-config';
+import type { LayeredOperation } from './config-overlay';
+import { createMockSandbox } from '../test-utils';
+
+const LIVE = {
+  gateway: { port: 18789, mode: 'local', auth: { token: 'gw-secret' } },
+  channels: { telegram: { botToken: 'tg-secret', enabled: true, dmPolicy: 'pairing' } },
+  agents: { defaults: { model: { primary: 'anthropic/claude-sonnet-4-5' } } },
+};
+
+/** Sandbox whose files live in a map */
+function sandboxWithFiles(files: Record<string, string>) {
+  const mock = createMockSandbox();
+  const contents = new Map(Object.entries(files));
+  mock.existsMock.mockImplementation(async (path: string) => ({
+    success: true,
+    exists: contents.has(path),
+  }));
+  mock.readFileMock.mockImplementation(async (path: string) => ({ content: contents.get(path) }));
+  mock.writeFileMock.mockImplementation(async (path: string, content: string) => {
+    contents.set(path, content);
+  });
+  return { ...mock, contents };
+}
+
+describe('validateConfig', () => {
+  it('accepts known sections and passes unknown ones through', () => {
+    expect(validateConfig({ ...LIVE, skills: { anything: [1, 2] } })).toEqual([]);
+  });
+
+  it('reports each invalid value with its path', () => {
+    const issues = validateConfig({
+      gateway: { port: 99999, trustedProxies: '10.1.0.0' },
+      channels: { discord: { enabled: 'yes', dm: { policy: 'everyone' } } },
+      models: { providers: { gw: { models: [{ id: 'm', maxTokens: 1.5 }] } } },
+    });
+
+    expect(issues).toEqual([
+      { path: 'gateway.port', message: 'must be between 1 and 65535' },
+      { path: 'gateway.trustedProxies', message: 'expected an array, got string' },
+      { path: 'channels.discord.enabled', message: 'expected a boolean, got string' },
+      {
+        path: 'channels.discord.dm.policy',
+        message: 'must be one of pairing, allowlist, open, disabled',
+      },
+      {
+        path: 'models.providers.gw.models[0].maxTokens',
+        message: 'expected an integer, got number',
+      },
+    ]);
+  });
+});
+
+describe('redactConfig and diffConfig', () => {
+  it('hides secret values', () => {
+    expect(redactConfig(LIVE)).toEqual({
+      ...LIVE,
+      gateway: { ...LIVE.gateway, auth: { token: REDACTED } },
+      channels: { telegram: { ...LIVE.channels.telegram, botToken: REDACTED } },
+    });
+  });
+
+  it('lists added, removed and changed values without revealing secrets', () => {
+    const after = {
+      gateway: { port: 18789, mode: 'local', auth: { token: 'new-secret' } },
+      channels: { discord: { token: 'dc', enabled: true } },
+      agents: { defaults: { model: { primary: 'openai/gpt-4o' } } },
+    };
+
+    expect(diffConfig(LIVE, after)).toEqual([
+      { path: 'gateway.auth.token', before: REDACTED, after: REDACTED },
+      { path: 'channels.telegram', before: redactConfig(LIVE.channels.telegram) },
+      { path: 'channels.discord', after: { token: REDACTED, enabled: true } },
+      {
+        path: 'agents.defaults.model.primary',
+        before: 'anthropic/claude-sonnet-4-5',
+        after: 'openai/gpt-4o',
+      },
+    ]);
+  });
+});
+
+describe('prepareConfigEdit', () => {
+  it('keeps redacted secrets and warns about settings the upper layers reset', () => {
+    const layers: LayeredOperation[] = [
+      { path: ['gateway', 'port'], value: 18789, source: 'env' },
+      { path: ['channels', 'telegram'], value: LIVE.channels.telegram, source: 'env' },
+      { path: ['agents', 'defaults', 'model', 'primary'], value: 'x/y', source: 'overlay' },
+    ];
+    const proposed = redactConfig(LIVE);
+    proposed.gateway.port = 3000;
+    proposed.agents.defaults.model.primary = 'openai/gpt-4o';
+
+    const edit = prepareConfigEdit(LIVE, proposed, layers);
+
+    expect(edit.errors).toEqual([]);
+    expect(edit.config.gateway).toEqual({ ...LIVE.gateway, port: 3000 });
+    expect(edit.config.channels).toEqual(LIVE.channels);
+    expect(edit.changes.map((c) => c.path)).toEqual([
+      'gateway.port',
+      'agents.defaults.model.primary',
+    ]);
+    expect(edit.warnings).toEqual([
+      {
+        path: 'gateway.port',
+        message: 'set by the Worker from its environment; reset when the gateway restarts',
+      },
+      {
+        path: 'agents.defaults.model.primary',
+        message: 'set by the config overlay; reset when the gateway restarts',
+      },
+    ]);
+  });
+
+  it('rejects redacted values that have no secret behind them', () => {
+    const proposed = { ...redactConfig(LIVE), channels: { slack: { appToken: REDACTED } } };
+
+    const edit = prepareConfigEdit(LIVE, proposed, []);
+
+    expect(edit.errors).toEqual([
+      {
+        path: 'channels.slack.appToken',
+        message: 'redacted value has no secret to keep; enter the value',
+      },
+    ]);
+    expect(prepareConfigEdit(LIVE, [], []).errors).toHaveLength(1);
+  });
+});
+
+describe('reading, writing and rolling back openclaw.json', () => {
+  it('keeps the replaced file so the edit can be rolled back, and rolled forward again', async () => {
+    const original = JSON.stringify(LIVE);
+    const { sandbox, contents } = sandboxWithFiles({ [OPENCLAW_CONFIG_PATH]: original });
+
+    const live = await readOpenClawConfig(sandbox);
+    await writeOpenClawConfig(sandbox, { ...live!.config, gateway: { port: 3000 } }, live!.content);
+    const edited = contents.get(OPENCLAW_CONFIG_PATH)!;
+
+    expect(live?.config).toEqual(LIVE);
+    expect(live?.version).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.parse(edited).gateway).toEqual({ port: 3000 });
+    expect(contents.get(PREVIOUS_CONFIG_PATH)).toBe(original);
+
+    expect(await rollbackOpenClawConfig(sandbox)).toBe(true);
+    expect(contents.get(OPENCLAW_CONFIG_PATH)).toBe(original);
+    expect(contents.get(PREVIOUS_CONFIG_PATH)).toBe(edited);
+  });
+
+  it('reports a missing config or previous version', async () => {
+    const { sandbox } = sandboxWithFiles({});
+
+    expect(await readOpenClawConfig(sandbox)).toBeNull();
+    expect(await rollbackOpenClawConfig(sandbox)).toBe(false);
+  });
+});
@@ -0,0 +1,393 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { LayeredOperation } from './config-overlay';
+import { sha256Hex } from './s3';
+
+/**
+ * Reading, validating and editing the live openclaw.json from the admin UI.
+ *
+ * The editor works on a redacted copy: secret values are replaced with REDACTED, and a REDACTED
+ * value in an edit keeps the secret that is in the file. Each apply keeps the replaced file next
+ * to it, so the last edit can be rolled back.
+ */
+
+export const OPENCLAW_CONFIG_PATH = '/root/.openclaw/openclaw.json';
+export const PREVIOUS_CONFIG_PATH = '/root/.openclaw/openclaw.json.previous';
+
+/** Stands in for secret values in the editor */
+export const REDACTED = '__REDACTED__';
+
+/** Keys whose string values are secrets (botToken, apiKey, auth.token, ...) */
+const SECRET_KEY = /(token|secret|password|apikey|privatekey)$/i;
+
+export type OpenClawConfig = Record<string, unknown>;
+
+export interface LiveConfig {
+  config: OpenClawConfig;
+  /** Raw file contents */
+  content: string;
+  /** SHA-256 of the contents, to detect edits based on an outdated copy */
+  version: string;
+}
+
+export interface ConfigIssue {
+  /** Dotted path of the offending value, e.g. gateway.port */
+  path: string;
+  message: string;
+}
+
+export interface ConfigChange {
+  path: string;
+  /** Absent for added values; secrets are shown as REDACTED */
+  before?: unknown;
+  /** Absent for removed values */
+  after?: unknown;
+}
+
+export interface ConfigEdit {
+  /** The proposed config with redacted secrets filled in from the live file */
+  config: OpenClawConfig;
+  errors: ConfigIssue[];
+  /** Changes that are allowed but won't stick, e.g. to settings the Worker manages */
+  warnings: ConfigIssue[];
+  changes: ConfigChange[];
+}
+
+type SchemaNode =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'integer'; min: number; max: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items: SchemaNode }
+  | {
+      type: 'object';
+      properties?: Record<string, SchemaNode>;
+      /** Schema for keys not in `properties`; unknown keys are accepted when omitted */
+      values?: SchemaNode;
+    };
+
+const STRING: SchemaNode = { type: 'string' };
+const STRINGS: SchemaNode = { type: 'array', items: STRING };
+const DM_POLICY: SchemaNode = {
+  type: 'string',
+  enum: ['pairing', 'allowlist', 'open', 'disabled'],
+};
+
+/**
+ * The parts of OpenClaw's config schema this deployment depends on. Sections not listed here are
+ * passed through for the gateway to validate on startup.
+ */
+const CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    gateway: {
+      type: 'object',
+      properties: {
+        port: { type: 'integer', min: 1, max: 65535 },
+        mode: { type: 'string', enum: ['local', 'remote'] },
+        bind: { type: 'string', enum: ['loopback', 'lan', 'tailnet', 'auto', 'custom'] },
+        trustedProxies: STRINGS,
+        auth: {
+          type: 'object',
+          properties: { mode: { type: 'string', enum: ['token', 'password'] }, token: STRING },
+        },
+        controlUi: { type: 'object', properties: { allowInsecureAuth: { type: 'boolean' } } },
+      },
+    },
+    channels: {
+      type: 'object',
+      values: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean' },
+          dmPolicy: DM_POLICY,
+          allowFrom: STRINGS,
+          dm: { type: 'object', properties: { policy: DM_POLICY, allowFrom: STRINGS } },
+        },
+      },
+    },
+    models: {
+      type: 'object',
+      properties: {
+        providers: {
+          type: 'object',
+          values: {
+            type: 'object',
+            properties: {
+              baseUrl: STRING,
+              apiKey: STRING,
+              api: STRING,
+              models: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: STRING,
+                    name: STRING,
+                    contextWindow: { type: 'integer', min: 1, max: Number.MAX_SAFE_INTEGER },
+                    maxTokens: { type: 'integer', min: 1, max: Number.MAX_SAFE_INTEGER },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    agents: {
+      type: 'object',
+      properties: {
+        defaults: {
+          type: 'object',
+          properties: {
+            model: { type: 'object', properties: { primary: STRING, fallbacks: STRINGS } },
+            workspace: STRING,
+          },
+        },
+      },
+    },
+  },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return Number.isInteger(value) ? 'integer' : typeof value;
+}
+
+function checkSchema(value: unknown, schema: SchemaNode, path: string, issues: ConfigIssue[]) {
+  const fail = (message: string) => issues.push({ path: path || '(root)', message });
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return fail(`expected a string, got ${describeType(value)}`);
+      if (schema.enum && !schema.enum.includes(value)) {
+        return fail(`must be one of ${schema.enum.join(', ')}`);
+      }
+      return;
+    case 'integer':
+      if (!Number.isInteger(value)) return fail(`expected an integer, got ${describeType(value)}`);
+      if ((value as number) < schema.min || (value as number) > schema.max) {
+        return fail(`must be between ${schema.min} and ${schema.max}`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') return fail(`expected a boolean, got ${describeType(value)}`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) return fail(`expected an array, got ${describeType(value)}`);
+      value.forEach((item, i) => checkSchema(item, schema.items, `${path}[${i}]`, issues));
+      return;
+    case 'object':
+      if (!isObject(value)) return fail(`expected an object, got ${describeType(value)}`);
+      for (const [key, child] of Object.entries(value)) {
+        const childSchema = schema.properties?.[key] ?? schema.values;
+        if (childSchema) checkSchema(child, childSchema, path ? `${path}.${key}` : key, issues);
+      }
+  }
+}
+
+/**
+ * Check a config against CONFIG_SCHEMA.
+ */
+export function validateConfig(config: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  checkSchema(config, CONFIG_SCHEMA, '', issues);
+  return issues;
+}
+
+/**
+ * Copy of the config with secret string values replaced by REDACTED.
+ */
+export function redactConfig<T>(value: T, key = ''): T {
+  if (typeof value === 'string' && SECRET_KEY.test(key) && value !== '') {
+    return REDACTED as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactConfig(item, key)) as T;
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactConfig(v, k)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Replace REDACTED values in an edited config with the secret at the same path in the live
+ * config. A REDACTED value with nothing to fill it in is left as is (and fails validation).
+ */
+function unredact(value: unknown, live: unknown): unknown {
+  if (value === REDACTED && typeof live === 'string') {
+    return live;
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, unredact(v, isObject(live) ? live[k] : undefined)]),
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => unredact(item, Array.isArray(live) ? live[i] : undefined));
+  }
+  return value;
+}
+
+/**
+ * Dotted paths of the secret values in a config.
+ */
+export function secretPaths(value: unknown, path = '', key = ''): string[] {
+  if (typeof value === 'string') {
+    return value !== '' && SECRET_KEY.test(key) ? [path] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => secretPaths(item, `${path}[${i}]`, key));
+  }
+  if (isObject(value)) {
+    return Object.entries(value).flatMap(([k, v]) => secretPaths(v, path ? `${path}.${k}` : k, k));
+  }
+  return [];
+}
+
+function findRedacted(value: unknown, path: string): string[] {
+  if (value === REDACTED) return [path];
+  if (Array.isArray(value)) return value.flatMap((item, i) => findRedacted(item, `${path}[${i}]`));
+  if (isObject(value)) {
+    return Object.entries(value).flatMap(([k, v]) => findRedacted(v, path ? `${path}.${k}` : k));
+  }
+  return [];
+}
+
+/**
+ * Changes between two configs, one per changed leaf value (arrays count as values), with
+ * secrets redacted.
+ */
+export function diffConfig(before: unknown, after: unknown, path = ''): ConfigChange[] {
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in after)) return [{ path: childPath, before: redactConfig(before[key], key) }];
+      if (!(key in before)) return [{ path: childPath, after: redactConfig(after[key], key) }];
+      return diffConfig(before[key], after[key], childPath);
+    });
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  const key = path.slice(path.lastIndexOf('.') + 1);
+  return [{ path, before: redactConfig(before, key), after: redactConfig(after, key) }];
+}
+
+/**
+ * Read and parse the live openclaw.json.
+ *
+ * @returns The config, or null when the gateway has not written one yet
+ * @throws If the file can't be read or is not a JSON object
+ */
+export async function readOpenClawConfig(sandbox: Sandbox): Promise<LiveConfig | null> {
+  if (!(await sandbox.exists(OPENCLAW_CONFIG_PATH)).exists) {
+    return null;
+  }
+  const { content } = await sandbox.readFile(OPENCLAW_CONFIG_PATH);
+  const config: unknown = JSON.parse(content);
+  if (!isObject(config)) {
+    throw new Error(`${OPENCLAW_CONFIG_PATH} does not contain a JSON object`);
+  }
+  return { config, content, version: await sha256Hex(content) };
+}
+
+const LAYER_WARNINGS: Record<LayeredOperation['source'], string> = {
+  env: 'set by the Worker from its environment; reset when the gateway restarts',
+  overlay: 'set by the config overlay; reset when the gateway restarts',
+};
+
+/** The last upper-layer operation that sets the dotted path, one of its parents or its children */
+function managingLayer(layers: LayeredOperation[], path: string): LayeredOperation | undefined {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const managed = layers[i].path.join('.');
+    if (path === managed || path.startsWith(`${managed}.`) || managed.startsWith(`${path}.`)) {
+      return layers[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check an edit of the (redacted) config against the live one: fill in redacted secrets,
+ * validate the result, and list what would change. Changes to settings that the env layer or
+ * the overlay writes on every start are reported as warnings, since a restart resets them.
+ *
+ * @param live - Current config
+ * @param proposed - Edited config, as returned by the editor
+ * @param layers - Operations applied on every start (see configLayers)
+ */
+export function prepareConfigEdit(
+  live: OpenClawConfig,
+  proposed: unknown,
+  layers: LayeredOperation[],
+): ConfigEdit {
+  if (!isObject(proposed)) {
+    return {
+      config: {},
+      errors: [{ path: '(root)', message: 'expected an object' }],
+      warnings: [],
+      changes: [],
+    };
+  }
+  const config = unredact(proposed, live) as OpenClawConfig;
+  const errors = [
+    ...validateConfig(config),
+    ...findRedacted(config, '').map((path) => ({
+      path,
+      message: 'redacted value has no secret to keep; enter the value',
+    })),
+  ];
+  const changes = diffConfig(live, config);
+
+  const warnings = changes.flatMap(({ path }) => {
+    const layer = managingLayer(layers, path);
+    return layer ? [{ path, message: LAYER_WARNINGS[layer.source] }] : [];
+  });
+  return { config, errors, warnings, changes };
+}
+
+/**
+ * Write a new openclaw.json, keeping the current file as the previous version.
+ *
+ * @param sandbox - The sandbox instance
+ * @param config - The new config
+ * @param currentContent - Contents of the file being replaced
+ */
+export async function writeOpenClawConfig(
+  sandbox: Sandbox,
+  config: OpenClawConfig,
+  currentContent: string,
+): Promise<void> {
+  await sandbox.writeFile(PREVIOUS_CONFIG_PATH, currentContent);
+  await sandbox.writeFile(OPENCLAW_CONFIG_PATH, JSON.stringify(config, null, 2));
+}
+
+/**
+ * Swap openclaw.json with its previous version, so a second rollback undoes the first.
+ *
+ * @returns Whether there was a previous version
+ */
+export async function rollbackOpenClawConfig(sandbox: Sandbox): Promise<boolean> {
+  if (!(await sandbox.exists(PREVIOUS_CONFIG_PATH)).exists) {
+    return false;
+  }
+  const { content: previous } = await sandbox.readFile(PREVIOUS_CONFIG_PATH);
+  const current = await readOpenClawConfig(sandbox);
+  if (current) {
+    await sandbox.writeFile(PREVIOUS_CONFIG_PATH, current.content);
+  }
+  await sandbox.writeFile(OPENCLAW_CONFIG_PATH, previous);
+  return true;
+}
+
+/**
+ * Whether openclaw.json has a previous version to roll back to.
+ */
+export async function hasPreviousConfig(sandbox: Sandbox): Promise<boolean> {
+  return (await sandbox.exists(PREVIOUS_CONFIG_PATH)).exists;
+}
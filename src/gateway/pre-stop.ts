@@ -0,0 +1,46 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { PRE_STOP_SYNC_TIMEOUT_MS } from '../config';
+import type { SyncResult } from './sync';
+import { syncWithHistory, type StopReason } from './sync-history';
+
+/**
+ * Save the container's state to R2 before the gateway is stopped.
+ *
+ * The startup script restores the R2 backup whenever it is newer than the local copy, so
+ * without this a restart would roll back everything since the last cron sync, and a container
+ * going to sleep would lose it outright. The sync is bounded by PRE_STOP_SYNC_TIMEOUT_MS so a
+ * stuck sync can't block the stop; either way the outcome is recorded in the sync history.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenantId - Tenant that owns the sandbox
+ * @param reason - Why the gateway is being stopped
+ */
+export async function syncBeforeStop(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  reason: StopReason,
+): Promise<SyncResult> {
+  console.log(`[PreStop] [${tenantId}] Syncing to R2 before ${reason}...`);
+  let result: SyncResult;
+  try {
+    result = await syncWithHistory(sandbox, env, tenantId, 'pre-stop', {
+      reason,
+      timeoutMs: PRE_STOP_SYNC_TIMEOUT_MS,
+    });
+  } catch (err) {
+    result = { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  if (result.success) {
+    console.log(`[PreStop] [${tenantId}] Synced before ${reason} at`, result.lastSync);
+  } else {
+    console.error(
+      `[PreStop] [${tenantId}] Sync before ${reason} failed, continuing:`,
+      result.error,
+      result.details || '',
+    );
+  }
+  return result;
+}
@@ -1,8 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { findExistingMoltbotProcess, ensureMoltbotGateway } from './process';
+import {
+  findExistingMoltbotProcess,
+  findLastExitedMoltbotProcess,
+  ensureMoltbotGateway,
+} from './process';
 import type { Sandbox, Process } from '@cloudflare/sandbox';
-import { createMockSandbox, createMockEnv } from '../test-utils';
+import { SYNC_LOCK_WAIT_MS } from '../config';
+import { createMockSandbox, createMockEnv, suppressConsole } from '../test-utils';
 import { _resetStartupState } from './startup-state';
+import { getSyncLockCoordinator } from './sync-lock';
+import { getWatchdogCoordinator, getWatchdogState } from './watchdog';
+
+// Pre-stop syncs are covered in their own tests; the real one needs the sandbox SDK at runtime
+vi.mock('./pre-stop', () => ({
+  syncBeforeStop: vi.fn().mockResolvedValue({ success: true }),
+}));
 
 function createFullMockProcess(overrides: Partial<Process> = {}): Process {
   return {
@@ -13,6 +25,7 @@ function createFullMockProcess(overrides: Partial<Process> = {}): Process {
     endTime: undefined,
     exitCode: undefined,
     waitForPort: vi.fn(),
+    waitForLog: vi.fn(),
     kill: vi.fn(),
     getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr: '' }),
     ...overrides,
@@ -145,6 +158,64 @@ describe('findExistingMoltbotProcess', () => {
   });
 });
 
+describe('findLastExitedMoltbotProcess', () => {
+  it('returns the most recently ended gateway process', async () => {
+    const processes = [
+      createFullMockProcess({
+        id: 'old',
+        status: 'failed',
+        endTime: new Date('2026-01-01T00:00:00Z'),
+      }),
+      createFullMockProcess({
+        id: 'new',
+        command: 'start-openclaw.sh',
+        status: 'completed',
+        exitCode: 1,
+        endTime: new Date('2026-01-01T01:00:00Z'),
+      }),
+      createFullMockProcess({ id: 'cli', command: 'openclaw devices list', status: 'failed' }),
+    ];
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue(processes);
+
+    const result = await findLastExitedMoltbotProcess(sandbox);
+    expect(result?.id).toBe('new');
+  });
+
+  it('ignores gateway processes that exited cleanly', async () => {
+    const processes = [
+      createFullMockProcess({
+        id: 'crashed',
+        status: 'failed',
+        endTime: new Date('2026-01-01T00:00:00Z'),
+      }),
+      createFullMockProcess({
+        id: 'clean',
+        status: 'completed',
+        exitCode: 0,
+        endTime: new Date('2026-01-01T01:00:00Z'),
+      }),
+    ];
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue(processes);
+
+    const result = await findLastExitedMoltbotProcess(sandbox);
+    expect(result?.id).toBe('crashed');
+  });
+
+  it('ignores running and killed gateway processes', async () => {
+    const processes = [
+      createFullMockProcess({ status: 'running' }),
+      createFullMockProcess({ status: 'killed', endTime: new Date() }),
+    ];
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue(processes);
+
+    const result = await findLastExitedMoltbotProcess(sandbox);
+    expect(result).toBeNull();
+  });
+});
+
 describe('ensureMoltbotGateway', () => {
   beforeEach(() => {
     _resetStartupState();
@@ -158,4 +229,94 @@ describe('ensureMoltbotGateway', () => {
       /No AI provider configured/,
     );
   });
+
+  describe('when an existing gateway never listens', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-test' });
+
+    function hungGateway(): Process {
+      return createFullMockProcess({
+        id: 'hung',
+        waitForPort: vi.fn().mockRejectedValue(new Error('timeout')),
+        getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr: 'stuck restoring' }),
+      });
+    }
+
+    beforeEach(() => {
+      suppressConsole();
+      _resetStartupState();
+    });
+
+    it('kills it, counts it as a crash and starts a new one', async () => {
+      const hung = hungGateway();
+      const { sandbox, startProcessMock } = createMockSandbox({ processes: [hung] });
+      startProcessMock.mockResolvedValue(createFullMockProcess({ id: 'fresh' }));
+
+      const process = await ensureMoltbotGateway(sandbox, env);
+
+      expect(process.id).toBe('fresh');
+      expect(hung.kill).toHaveBeenCalled();
+      const state = await getWatchdogState(env, 'moltbot');
+      expect(state.crashes.map((crash) => crash.processId)).toEqual(['hung']);
+      expect(state.crashes[0].stderr).toContain('stuck restoring');
+    });
+
+    it('stops restarting once the timeouts add up to a crash loop', async () => {
+      const coordinator = getWatchdogCoordinator(env, 'moltbot');
+      for (let i = 0; i < 4; i++) {
+        // eslint-disable-next-line no-await-in-loop -- crashes are recorded in order
+        await coordinator.recordCrash({ processId: `p${i}`, exitCode: 1, stderr: '', at: Date.now() });
+      }
+      const hung = hungGateway();
+      const { sandbox, startProcessMock } = createMockSandbox({ processes: [hung] });
+
+      await expect(ensureMoltbotGateway(sandbox, env)).rejects.toThrow(/crash loop/);
+      expect(hung.kill).toHaveBeenCalled();
+      expect(startProcessMock).not.toHaveBeenCalled();
+      expect((await getWatchdogState(env, 'moltbot')).crashLoop?.lastCrash.processId).toBe('hung');
+    });
+  });
+
+  it('holds the sync lock while the startup script restores the backup, not until the port listens', async () => {
+    suppressConsole();
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-test' });
+    const locks = getSyncLockCoordinator(env, 'moltbot');
+    const held: Record<string, boolean> = {};
+    const { sandbox, startProcessMock } = createMockSandbox({ processes: [] });
+    startProcessMock.mockResolvedValue(
+      createFullMockProcess({
+        id: 'fresh',
+        waitForLog: vi.fn(async () => {
+          held.restore = (await locks.getSyncLock()) !== null;
+          return { line: '[phase] onboard 0' };
+        }),
+        waitForPort: vi.fn(async () => {
+          held.port = (await locks.getSyncLock()) !== null;
+        }),
+      }),
+    );
+
+    const process = await ensureMoltbotGateway(sandbox, env);
+
+    expect(process.id).toBe('fresh');
+    expect(held).toEqual({ restore: true, port: false });
+  });
+
+  it('does not start a gateway (and restore the backup) while a sync holds the sync lock', async () => {
+    vi.useFakeTimers();
+    try {
+      suppressConsole();
+      const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-test' });
+      const { sandbox, startProcessMock } = createMockSandbox({ processes: [] });
+      await getSyncLockCoordinator(env, 'moltbot').acquireSyncLock('sync', 600_000);
+
+      const result = ensureMoltbotGateway(sandbox, env).catch((err: Error) => err);
+      await vi.advanceTimersByTimeAsync(SYNC_LOCK_WAIT_MS + 1000);
+
+      expect(await result).toMatchObject({ message: expect.stringMatching(/backup sync is still running/) });
+      expect(startProcessMock).not.toHaveBeenCalled();
+      await getSyncLockCoordinator(env, 'moltbot').releaseSyncLock('sync');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -1,54 +1,59 @@
 import type { Sandbox, Process } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
-import { MOLTBOT_PORT, STARTUP_TIMEOUT_MS } from '../config';
-import { buildEnvVars } from './env';
+import { DEFAULT_TENANT_ID, MOLTBOT_PORT, STARTUP_TIMEOUT_MS } from '../config';
+import { AI_PROVIDER_SECRETS, configuredAiProviders } from '../settings';
+import { buildEnvVars, CONFIG_PATCH_PATH } from './env';
+import { configLayers, envLayer, type LayeredOperation } from './config-overlay';
+import { gatewayTokenArg } from './gateway-token';
+import { syncBeforeStop } from './pre-stop';
 import { mountR2Storage } from './r2';
-import { withStartupLock } from './startup-state';
+import { withStartupLock, type StartupLease } from './startup-state';
+import { withSyncLock } from './sync-lock';
+import { deriveBackupRestoreToken } from './tenant';
+import { recordStartupTimeout } from './watchdog';
 
 /**
  * Pre-flight: ensure at least one AI provider is configured so we fail fast with a clear message.
  */
 function assertAiProviderConfigured(env: MoltbotEnv): void {
-  const hasCloudflare =
-    !!(env.CLOUDFLARE_AI_GATEWAY_API_KEY && env.CF_AI_GATEWAY_ACCOUNT_ID && env.CF_AI_GATEWAY_GATEWAY_ID);
-  const hasLegacy = !!(env.AI_GATEWAY_API_KEY && env.AI_GATEWAY_BASE_URL);
-  const hasAnthropic = !!env.ANTHROPIC_API_KEY;
-  const hasOpenAI = !!env.OPENAI_API_KEY;
-  if (!hasCloudflare && !hasLegacy && !hasAnthropic && !hasOpenAI) {
-    throw new Error(
-      'No AI provider configured. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, or Cloudflare AI Gateway secrets.',
-    );
+  if (configuredAiProviders(env).length === 0) {
+    throw new Error(`No AI provider configured. Set ${AI_PROVIDER_SECRETS}.`);
   }
 }
 
+const LOG_PREFIX = '[Gateway]';
+
+/**
+ * Match gateway processes (openclaw gateway or legacy clawdbot gateway).
+ * Don't match CLI commands like "openclaw devices list".
+ */
+function isGatewayProcess(proc: Process): boolean {
+  const isGatewayCommand =
+    proc.command.includes('start-openclaw.sh') ||
+    proc.command.includes('openclaw gateway') ||
+    // Legacy: match old startup script during transition
+    proc.command.includes('start-moltbot.sh') ||
+    proc.command.includes('clawdbot gateway');
+  const isCliCommand =
+    proc.command.includes('openclaw devices') ||
+    proc.command.includes('openclaw --version') ||
+    proc.command.includes('openclaw onboard') ||
+    proc.command.includes('clawdbot devices') ||
+    proc.command.includes('clawdbot --version');
+  return isGatewayCommand && !isCliCommand;
+}
+
 /**
  * Find an existing OpenClaw gateway process
  *
  * @param sandbox - The sandbox instance
  * @returns The process if found and running/starting, null otherwise
  */
-const LOG_PREFIX = '[Gateway]';
-
 export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Process | null> {
   try {
     const processes = await sandbox.listProcesses();
     for (const proc of processes) {
-      // Match gateway process (openclaw gateway or legacy clawdbot gateway)
-      // Don't match CLI commands like "openclaw devices list"
-      const isGatewayProcess =
-        proc.command.includes('start-openclaw.sh') ||
-        proc.command.includes('openclaw gateway') ||
-        // Legacy: match old startup script during transition
-        proc.command.includes('start-moltbot.sh') ||
-        proc.command.includes('clawdbot gateway');
-      const isCliCommand =
-        proc.command.includes('openclaw devices') ||
-        proc.command.includes('openclaw --version') ||
-        proc.command.includes('openclaw onboard') ||
-        proc.command.includes('clawdbot devices') ||
-        proc.command.includes('clawdbot --version');
-
-      if (isGatewayProcess && !isCliCommand) {
+      if (isGatewayProcess(proc)) {
         if (proc.status === 'starting' || proc.status === 'running') {
           return proc;
         }
@@ -60,13 +65,163 @@ export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Proc
   return null;
 }
 
+/**
+ * Find the most recent gateway process that crashed: failed, errored or exited with a non-zero
+ * code. Processes that exited cleanly or that we killed deliberately are ignored.
+ *
+ * @param sandbox - The sandbox instance
+ * @returns The most recently ended crashed gateway process, or null if none crashed
+ */
+export async function findLastExitedMoltbotProcess(sandbox: Sandbox): Promise<Process | null> {
+  let latest: Process | null = null;
+  try {
+    const processes = await sandbox.listProcesses();
+    for (const proc of processes) {
+      if (!isGatewayProcess(proc)) continue;
+      const crashed =
+        proc.status === 'failed' ||
+        proc.status === 'error' ||
+        (proc.status === 'completed' && !!proc.exitCode);
+      if (!crashed) {
+        continue;
+      }
+      const endedAt = (proc.endTime ?? proc.startTime)?.getTime() ?? 0;
+      const latestEndedAt = latest ? ((latest.endTime ?? latest.startTime)?.getTime() ?? 0) : -1;
+      if (endedAt > latestEndedAt) {
+        latest = proc;
+      }
+    }
+  } catch (e) {
+    console.error(LOG_PREFIX, 'Could not list processes:', e);
+  }
+  return latest;
+}
+
+/** Printed by start-openclaw.sh once it has restored the backup */
+const RESTORED_MARKER = /^\[phase\] onboard /m;
+
+/**
+ * Start the gateway process and wait for its port (step 3 of doEnsureMoltbotGateway).
+ *
+ * The startup script restores the backup first, so no sync may stage the files until it is done
+ * (and one still running, e.g. a timed-out pre-stop sync, finishes before the restore). The sync
+ * lock is released once the script moves on to onboarding, not held while the gateway comes up.
+ */
+async function startGateway(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  lease: StartupLease,
+  elapsed: () => string,
+): Promise<Process> {
+  await lease.beginAttempt();
+  const envVars = buildEnvVars(env);
+  if (tenantId !== DEFAULT_TENANT_ID) {
+    // Restore via /internal/backup must ask for this tenant's backup with a tenant-scoped token
+    envVars.MOLTBOT_TENANT_ID = tenantId;
+    if (env.BACKUP_RESTORE_TOKEN) {
+      envVars.BACKUP_RESTORE_TOKEN = await deriveBackupRestoreToken(
+        env.BACKUP_RESTORE_TOKEN,
+        tenantId,
+      );
+    }
+  }
+  // start-openclaw.sh applies the env layer and the overlay to openclaw.json after restoring
+  // and onboarding
+  let layers: LayeredOperation[];
+  try {
+    layers = await configLayers(env, tenantId);
+  } catch (overlayErr) {
+    console.error(LOG_PREFIX, 'Failed to read config overlay, starting without it:', overlayErr);
+    layers = envLayer(env);
+  }
+  await sandbox.writeFile(CONFIG_PATCH_PATH, JSON.stringify(layers));
+  // The argument records which gateway token it starts with (the script ignores it)
+  const command = `/usr/local/bin/start-openclaw.sh ${await gatewayTokenArg(env)}`.trimEnd();
+  console.log(LOG_PREFIX, 'Command:', command, '| Env keys:', Object.keys(envVars).length);
+
+  const process = await withSyncLock(env, tenantId, async () => {
+    let started: Process;
+    try {
+      started = await sandbox.startProcess(command, {
+        env: Object.keys(envVars).length > 0 ? envVars : undefined,
+      });
+      console.log(
+        LOG_PREFIX,
+        'Process started — id:',
+        started.id,
+        'status:',
+        started.status,
+        '(' + elapsed() + ')',
+      );
+      await lease.phase('process_start');
+    } catch (startErr) {
+      console.error(LOG_PREFIX, 'Failed to start process:', startErr, '(' + elapsed() + ')');
+      throw startErr;
+    }
+    try {
+      await started.waitForLog(RESTORED_MARKER, STARTUP_TIMEOUT_MS);
+      console.log(LOG_PREFIX, 'Backup restored (' + elapsed() + ')');
+    } catch (restoreErr) {
+      // The script exited or hung while restoring; waiting for the port reports it
+      console.error(
+        LOG_PREFIX,
+        'Startup script did not finish restoring:',
+        restoreErr,
+        '(' + elapsed() + ')',
+      );
+    }
+    return started;
+  });
+  if (!process) {
+    throw new Error('A backup sync is still running, not starting the gateway yet');
+  }
+
+  try {
+    await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
+    console.log(
+      LOG_PREFIX,
+      'OpenClaw gateway is ready on port',
+      MOLTBOT_PORT,
+      '(' + elapsed() + ')',
+    );
+    await lease.phase('port_listening');
+    const logs = await process.getLogs();
+    if (logs.stdout) console.log(LOG_PREFIX, 'stdout (recent):', logs.stdout.slice(-500));
+    if (logs.stderr) console.log(LOG_PREFIX, 'stderr (recent):', logs.stderr?.slice(-500));
+  } catch (e) {
+    console.error(LOG_PREFIX, 'waitForPort failed:', e, '(' + elapsed() + ')');
+    try {
+      const logs = await process.getLogs();
+      console.error(LOG_PREFIX, 'Startup failed. Stderr:', logs.stderr || '(empty)');
+      console.error(LOG_PREFIX, 'Startup failed. Stdout:', logs.stdout || '(empty)');
+      throw new Error(
+        `OpenClaw gateway failed to start. Stderr: ${(logs.stderr || '(empty)').slice(0, 500)}`,
+        {
+          cause: e,
+        },
+      );
+    } catch (logErr) {
+      console.error(LOG_PREFIX, 'Failed to get logs:', logErr);
+      throw e;
+    }
+  }
+
+  return process;
+}
+
 /**
  * Ensure the OpenClaw gateway is running (internal: runs inside withStartupLock).
  * 1. Pre-flight AI provider check
  * 2. Mount R2 if configured
  * 3. Reuse existing process or start new one and wait for port
  */
-async function doEnsureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): Promise<Process> {
+async function doEnsureMoltbotGateway(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  lease: StartupLease,
+): Promise<Process> {
   const t0 = Date.now();
   const elapsed = () => `${Date.now() - t0}ms`;
 
@@ -75,12 +230,16 @@ async function doEnsureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): Promis
 
   // Mount R2 storage (non-blocking)
   console.log(LOG_PREFIX, 'Step 1/3: Mounting R2 storage (if configured)...');
-  const r2Mounted = await mountR2Storage(sandbox, env);
+  const r2Mounted = await mountR2Storage(sandbox, env, tenantId);
   if (!r2Mounted) {
-    console.log(LOG_PREFIX, 'Step 1/3: R2 not mounted — gateway will still start (' + elapsed() + ')');
+    console.log(
+      LOG_PREFIX,
+      'Step 1/3: R2 not mounted — gateway will still start (' + elapsed() + ')',
+    );
   } else {
     console.log(LOG_PREFIX, 'Step 1/3: R2 mount done (' + elapsed() + ')');
   }
+  await lease.phase('r2_mount');
 
   console.log(LOG_PREFIX, 'Step 2/3: Checking for existing gateway process...');
   const existingProcess = await findExistingMoltbotProcess(sandbox);
@@ -99,62 +258,52 @@ async function doEnsureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): Promis
         timeout: STARTUP_TIMEOUT_MS,
       });
       console.log(LOG_PREFIX, 'Gateway is reachable on port', MOLTBOT_PORT, '(' + elapsed() + ')');
+      await lease.phase('port_listening');
       return existingProcess;
-    } catch (_e) {
-      console.error(LOG_PREFIX, 'Existing process not reachable after timeout — killing and will restart (' + elapsed() + ')');
+    } catch (waitErr) {
+      console.error(
+        LOG_PREFIX,
+        'Existing process not reachable after timeout — killing and will restart (' +
+          elapsed() +
+          ')',
+      );
+      await syncBeforeStop(sandbox, env, tenantId, 'kill');
+      const watchdog = await recordStartupTimeout(env, tenantId, existingProcess).catch(
+        (recordErr) => {
+          console.error(LOG_PREFIX, 'Failed to record startup timeout:', recordErr);
+          return null;
+        },
+      );
       try {
         await existingProcess.kill();
       } catch (killError) {
         console.error(LOG_PREFIX, 'Failed to kill process:', killError);
       }
+      if (watchdog?.crashLoop) {
+        throw new Error(
+          `Gateway crash loop: ${watchdog.crashLoop.crashes} crashes or startup timeouts in a row, not restarting`,
+          { cause: waitErr },
+        );
+      }
     }
   } else {
     console.log(LOG_PREFIX, 'No existing gateway process (' + elapsed() + ')');
   }
 
   console.log(LOG_PREFIX, 'Step 3/3: Starting new OpenClaw gateway...');
-  const envVars = buildEnvVars(env);
-  const command = '/usr/local/bin/start-openclaw.sh';
-  console.log(LOG_PREFIX, 'Command:', command, '| Env keys:', Object.keys(envVars).length);
-
-  let process: Process;
-  try {
-    process = await sandbox.startProcess(command, {
-      env: Object.keys(envVars).length > 0 ? envVars : undefined,
-    });
-    console.log(LOG_PREFIX, 'Process started — id:', process.id, 'status:', process.status, '(' + elapsed() + ')');
-  } catch (startErr) {
-    console.error(LOG_PREFIX, 'Failed to start process:', startErr, '(' + elapsed() + ')');
-    throw startErr;
-  }
-
-  try {
-    await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
-    console.log(LOG_PREFIX, 'OpenClaw gateway is ready on port', MOLTBOT_PORT, '(' + elapsed() + ')');
-    const logs = await process.getLogs();
-    if (logs.stdout) console.log(LOG_PREFIX, 'stdout (recent):', logs.stdout.slice(-500));
-    if (logs.stderr) console.log(LOG_PREFIX, 'stderr (recent):', logs.stderr?.slice(-500));
-  } catch (e) {
-    console.error(LOG_PREFIX, 'waitForPort failed:', e, '(' + elapsed() + ')');
-    try {
-      const logs = await process.getLogs();
-      console.error(LOG_PREFIX, 'Startup failed. Stderr:', logs.stderr || '(empty)');
-      console.error(LOG_PREFIX, 'Startup failed. Stdout:', logs.stdout || '(empty)');
-      throw new Error(`OpenClaw gateway failed to start. Stderr: ${(logs.stderr || '(empty)').slice(0, 500)}`, {
-        cause: e,
-      });
-    } catch (logErr) {
-      console.error(LOG_PREFIX, 'Failed to get logs:', logErr);
-      throw e;
-    }
-  }
-
-  return process;
+  return startGateway(sandbox, env, tenantId, lease, elapsed);
 }
 
 /**
- * Ensure the OpenClaw gateway is running. Deduplicates concurrent calls and records failure for /api/status.
+ * Ensure the OpenClaw gateway is running. Deduplicates concurrent calls (across isolates when
+ * GATEWAY_STATE is bound) and records phases and failure for /api/status.
  */
-export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): Promise<Process> {
-  return withStartupLock(() => doEnsureMoltbotGateway(sandbox, env));
+export async function ensureMoltbotGateway(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string = DEFAULT_TENANT_ID,
+): Promise<Process> {
+  return withStartupLock(env, tenantId, (lease) =>
+    doEnsureMoltbotGateway(sandbox, env, tenantId, lease),
+  );
 }
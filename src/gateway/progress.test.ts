@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import { buildTimeline, getStartupProgress, parsePhaseMarkers, tailOutput } from './progress';
+import { _resetStartupState, getStartupCoordinator } from './startup-state';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+// Pre-stop syncs are covered in their own tests; the real one needs the sandbox SDK at runtime
+vi.mock('./pre-stop', () => ({
+  syncBeforeStop: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+const SCRIPT_OUTPUT = [
+  'Config directory: /root/.openclaw',
+  '[phase] restore 1000',
+  'R2 backup is newer, will restore',
+  '[phase] onboard 2000',
+  'Using existing config',
+  '[phase] config_patch 2500',
+  'Configuration patched successfully',
+].join('\n');
+
+function runningGateway(stdout: string): Process {
+  return {
+    id: 'gw-1',
+    command: '/usr/local/bin/start-openclaw.sh',
+    status: 'running',
+    startTime: new Date(),
+    getLogs: vi.fn().mockResolvedValue({ stdout, stderr: '' }),
+    waitForPort: vi.fn().mockRejectedValue(new Error('timeout')),
+  } as unknown as Process;
+}
+
+describe('parsePhaseMarkers', () => {
+  it('extracts known phases with their timestamps', () => {
+    expect(parsePhaseMarkers(SCRIPT_OUTPUT + '\n[phase] bogus 3000')).toEqual({
+      restore: 1000,
+      onboard: 2000,
+      config_patch: 2500,
+    });
+  });
+});
+
+describe('tailOutput', () => {
+  it('drops phase markers and blank lines and keeps the last lines', () => {
+    expect(tailOutput(SCRIPT_OUTPUT + '\n\n', 2)).toEqual([
+      'Using existing config',
+      'Configuration patched successfully',
+    ]);
+  });
+});
+
+describe('buildTimeline', () => {
+  it('marks the latest script phase as active', () => {
+    const states = buildTimeline({ r2_mount: 500, restore: 1000, onboard: 2000 }).map(
+      (p) => p.state,
+    );
+    expect(states).toEqual(['done', 'done', 'active', 'pending', 'pending', 'pending']);
+  });
+
+  it('moves on to the next phase once R2 mount has completed', () => {
+    const states = buildTimeline({ r2_mount: 500 }).map((p) => p.state);
+    expect(states).toEqual(['done', 'active', 'pending', 'pending', 'pending', 'pending']);
+  });
+
+  it('marks everything done once the port is listening', () => {
+    const timeline = buildTimeline({ r2_mount: 500, port_listening: 9000 });
+    expect(timeline.every((p) => p.state === 'done')).toBe(true);
+    expect(timeline[1].at).toBeNull();
+  });
+});
+
+describe('getStartupProgress', () => {
+  beforeEach(() => {
+    suppressConsole();
+    _resetStartupState();
+  });
+
+  it('reports waiting when no gateway process exists', async () => {
+    const { sandbox } = createMockSandbox({ processes: [] });
+    const progress = await getStartupProgress(sandbox, createMockEnv(), 'moltbot');
+    expect(progress.status).toBe('waiting');
+  });
+
+  it('reports the stored failure when startup failed', async () => {
+    const env = createMockEnv();
+    const coordinator = getStartupCoordinator(env, 'moltbot');
+    await coordinator.acquire('a', 1000);
+    await coordinator.release('a', { message: 'port never opened', hint: 'check logs' });
+
+    const { sandbox } = createMockSandbox({ processes: [] });
+    const progress = await getStartupProgress(sandbox, env, 'moltbot');
+    expect(progress.status).toBe('startup_failed');
+    expect(progress.message).toBe('port never opened');
+  });
+
+  it('combines worker phases with script markers while starting', async () => {
+    const env = createMockEnv();
+    const coordinator = getStartupCoordinator(env, 'moltbot');
+    await coordinator.acquire('a', 60_000);
+    await coordinator.recordPhase('a', 'r2_mount');
+
+    const { sandbox } = createMockSandbox({ processes: [runningGateway(SCRIPT_OUTPUT)] });
+    const progress = await getStartupProgress(sandbox, env, 'moltbot');
+
+    expect(progress.status).toBe('starting');
+    expect(progress.phases.find((p) => p.state === 'active')?.name).toBe('config_patch');
+    expect(progress.output.at(-1)).toBe('Configuration patched successfully');
+  });
+
+  it('reports running once the gateway listens, even if no isolate recorded it', async () => {
+    const gateway = runningGateway(SCRIPT_OUTPUT + '\n[phase] gateway_start 3000');
+    vi.mocked(gateway.waitForPort).mockResolvedValue(undefined);
+    const { sandbox } = createMockSandbox({ processes: [gateway] });
+
+    const progress = await getStartupProgress(sandbox, createMockEnv(), 'moltbot');
+    expect(progress.status).toBe('running');
+  });
+});
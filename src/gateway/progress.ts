@@ -0,0 +1,179 @@
+/**
+ * Startup progress for the loading page.
+ *
+ * Combines the phases the Worker records itself (R2 mount, port listening) with the phase
+ * markers start-openclaw.sh prints to stdout (`[phase] <name> <epoch ms>`) into one timeline.
+ */
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { MOLTBOT_PORT } from '../config';
+import { findExistingMoltbotProcess } from './process';
+import { getStartupState, type StartupState } from './startup-state';
+import { getWatchdogState } from './watchdog';
+
+/** Phases shown on the loading page, in order */
+export const PROGRESS_PHASES = [
+  { name: 'r2_mount', label: 'Mounting R2 storage' },
+  { name: 'restore', label: 'Restoring from backup' },
+  { name: 'onboard', label: 'Onboarding' },
+  { name: 'config_patch', label: 'Patching config' },
+  { name: 'gateway_start', label: 'Starting gateway' },
+  { name: 'port_listening', label: 'Gateway listening' },
+] as const;
+
+export type ProgressPhaseName = (typeof PROGRESS_PHASES)[number]['name'];
+
+/**
+ * Phases recorded by the Worker when they complete. Script markers are printed when a phase
+ * starts, so the latest marker is the phase still running.
+ */
+const COMPLETION_PHASES = new Set<ProgressPhaseName>(['r2_mount', 'port_listening']);
+
+/** Lines of script output included in each update */
+const OUTPUT_TAIL_LINES = 15;
+
+const PHASE_MARKER = /^\[phase\] (\w+) (\d+)\s*$/;
+
+export interface ProgressPhase {
+  name: ProgressPhaseName;
+  label: string;
+  state: 'pending' | 'active' | 'done';
+  /** When the phase was reached, or null if it hasn't been */
+  at: number | null;
+}
+
+export interface StartupProgress {
+  status: 'waiting' | 'starting' | 'running' | 'startup_failed' | 'crash_loop';
+  startedAt: number | null;
+  elapsedMs: number | null;
+  phases: ProgressPhase[];
+  /** Last lines of start-openclaw.sh stdout (phase markers removed) */
+  output: string[];
+  message?: string;
+  hint?: string;
+}
+
+/**
+ * Parse `[phase] <name> <epoch ms>` markers from start-openclaw.sh output. Later markers for
+ * the same phase win.
+ */
+export function parsePhaseMarkers(output: string): Partial<Record<ProgressPhaseName, number>> {
+  const known = new Set<string>(PROGRESS_PHASES.map((p) => p.name));
+  const phases: Partial<Record<ProgressPhaseName, number>> = {};
+  for (const line of output.split('\n')) {
+    const match = PHASE_MARKER.exec(line);
+    if (match && known.has(match[1])) {
+      phases[match[1] as ProgressPhaseName] = Number(match[2]);
+    }
+  }
+  return phases;
+}
+
+/**
+ * Last lines of script output without phase markers
+ */
+export function tailOutput(output: string, lines: number = OUTPUT_TAIL_LINES): string[] {
+  return output
+    .split('\n')
+    .filter((line) => line.trim() !== '' && !PHASE_MARKER.test(line))
+    .slice(-lines);
+}
+
+/**
+ * Build the timeline from the times each phase was reached.
+ */
+export function buildTimeline(
+  reached: Partial<Record<ProgressPhaseName, number>>,
+): ProgressPhase[] {
+  const lastIndex = PROGRESS_PHASES.reduce(
+    (last, phase, i) => (reached[phase.name] !== undefined ? i : last),
+    -1,
+  );
+  const lastName = lastIndex >= 0 ? PROGRESS_PHASES[lastIndex].name : null;
+  // A completed last phase means the next one is underway; a started one is still running
+  const activeIndex =
+    lastName === 'port_listening'
+      ? -1
+      : lastName && COMPLETION_PHASES.has(lastName)
+        ? lastIndex + 1
+        : lastIndex;
+
+  return PROGRESS_PHASES.map((phase, i) => ({
+    name: phase.name,
+    label: phase.label,
+    state: i === activeIndex ? 'active' : i <= lastIndex ? 'done' : 'pending',
+    at: reached[phase.name] ?? null,
+  }));
+}
+
+function workerPhases(startup: StartupState): Partial<Record<ProgressPhaseName, number>> {
+  return {
+    r2_mount: startup.phases.r2_mount,
+    port_listening: startup.phases.port_listening,
+  };
+}
+
+/**
+ * Snapshot the startup progress of a tenant's gateway.
+ */
+export async function getStartupProgress(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<StartupProgress> {
+  const [startup, watchdog] = await Promise.all([
+    getStartupState(env, tenantId),
+    getWatchdogState(env, tenantId),
+  ]);
+  const startedAt = startup.startedAt;
+  const base = {
+    startedAt,
+    elapsedMs: startedAt ? Date.now() - startedAt : null,
+  };
+
+  if (watchdog.crashLoop) {
+    return {
+      ...base,
+      status: 'crash_loop',
+      phases: buildTimeline(workerPhases(startup)),
+      output: tailOutput(watchdog.crashLoop.lastCrash.stderr),
+      message: `Gateway crashed ${watchdog.crashLoop.crashes} times in a row and will not be restarted automatically.`,
+      hint: 'Fix the cause shown in the output, then retry startup.',
+    };
+  }
+
+  const process = await findExistingMoltbotProcess(sandbox);
+  if (!process) {
+    const failure = startup.lastFailure;
+    return {
+      ...base,
+      status: failure ? 'startup_failed' : 'waiting',
+      phases: buildTimeline(workerPhases(startup)),
+      output: [],
+      message: failure?.message ?? 'Waiting for the gateway process to start...',
+      hint: failure?.hint,
+    };
+  }
+
+  const logs = await process.getLogs().catch(() => ({ stdout: '', stderr: '' }));
+  const stdout = logs.stdout || '';
+  const reached = { ...parsePhaseMarkers(stdout), ...workerPhases(startup) };
+
+  // The isolate that started the process may be gone before it recorded port_listening
+  if (reached.port_listening === undefined && reached.gateway_start !== undefined) {
+    const listening = await process
+      .waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: 1000 })
+      .then(() => true)
+      .catch(() => false);
+    if (listening) {
+      reached.port_listening = Date.now();
+    }
+  }
+
+  return {
+    ...base,
+    status: reached.port_listening !== undefined ? 'running' : 'starting',
+    phases: buildTimeline(reached),
+    output: tailOutput(stdout),
+  };
+}
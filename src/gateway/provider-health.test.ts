@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  PROVIDER_HEALTH_KEY,
+  checkModelChain,
+  checkProvider,
+  modelChainStatus,
+  readProviderHealth,
+  type ProviderCheck,
+} from './provider-health';
+import { modelChain } from './env';
+import { createMockBucket, createMockEnv, suppressConsole } from '../test-utils';
+
+const CHAIN_ENV = {
+  ANTHROPIC_API_KEY: 'sk-ant',
+  CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-key',
+  CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+  CF_AI_GATEWAY_GATEWAY_ID: 'gw',
+  AI_MODEL_CHAIN:
+    'anthropic/claude-sonnet-4-5, cf-ai-gateway/workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+};
+
+function check(ok: boolean, error?: string): ProviderCheck {
+  return { checkedAt: '2026-03-10T12:00:00.000Z', ok, latencyMs: 100, ...(error && { error }) };
+}
+
+describe('checkProvider', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lists the models with the API style of the provider', async () => {
+    fetchMock.mockResolvedValue(new Response('{"data":[]}'));
+
+    const anthropic = await checkProvider({
+      baseUrl: 'https://api.anthropic.com',
+      apiKey: 'sk-ant',
+      api: 'anthropic-messages',
+    });
+    await checkProvider({
+      baseUrl: 'https://api.groq.com/openai/v1',
+      apiKey: 'gsk',
+      api: 'openai-completions',
+    });
+
+    expect(anthropic).toMatchObject({ ok: true, status: 200 });
+    expect(fetchMock.mock.calls.map(([url, init]) => [url, init.headers])).toEqual([
+      [
+        'https://api.anthropic.com/v1/models',
+        { 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' },
+      ],
+      ['https://api.groq.com/openai/v1/models', { Authorization: 'Bearer gsk' }],
+    ]);
+  });
+
+  it('fails on rate limits, rejected keys, provider errors and network errors only', async () => {
+    const endpoint = {
+      baseUrl: 'https://llm.example.com/v1',
+      apiKey: 'k',
+      api: 'openai-completions' as const,
+    };
+    const results = [];
+    for (const status of [429, 401, 503, 404]) {
+      fetchMock.mockResolvedValueOnce(new Response(null, { status }));
+      // eslint-disable-next-line no-await-in-loop -- one mocked response per check
+      results.push(await checkProvider(endpoint));
+    }
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+    results.push(await checkProvider(endpoint));
+
+    expect(results.map(({ ok, status, error }) => ({ ok, status, error }))).toEqual([
+      { ok: false, status: 429, error: 'Rate limited' },
+      { ok: false, status: 401, error: 'API key rejected' },
+      { ok: false, status: 503, error: 'Provider error' },
+      { ok: true, status: 404, error: undefined },
+      { ok: false, status: undefined, error: 'Unreachable: fetch failed' },
+    ]);
+  });
+});
+
+describe('checkModelChain', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    suppressConsole();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('records a window of checks per provider in the chain', async () => {
+    const { bucket, objects } = createMockBucket({
+      [PROVIDER_HEALTH_KEY]: JSON.stringify({
+        anthropic: Array.from({ length: 12 }, () => check(true)),
+        'removed-provider': [check(true)],
+      }),
+    });
+    const env = createMockEnv({ ...CHAIN_ENV, MOLTBOT_BUCKET: bucket });
+    fetchMock.mockImplementation(
+      async (url: string) =>
+        new Response(null, { status: url.includes('anthropic.com') ? 429 : 200 }),
+    );
+
+    await checkModelChain(env);
+    const health = await readProviderHealth(env);
+
+    expect(objects.has(PROVIDER_HEALTH_KEY)).toBe(true);
+    expect(Object.keys(health)).toEqual(['anthropic', 'cf-ai-gw-workers-ai']);
+    expect(health.anthropic).toHaveLength(12);
+    expect(health.anthropic[0]).toMatchObject({ ok: false, error: 'Rate limited' });
+    expect(health['cf-ai-gw-workers-ai']).toEqual([expect.objectContaining({ ok: true })]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://gateway.ai.cloudflare.com/v1/acct/gw/workers-ai/v1/models',
+      expect.anything(),
+    );
+  });
+
+  it('does nothing without a chain', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockBucket().bucket });
+
+    expect(await checkModelChain(env)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('modelChainStatus', () => {
+  it('marks the first model whose provider passes as serving', () => {
+    const chain = modelChain(
+      createMockEnv({ ...CHAIN_ENV, AI_MODEL_CHAIN: `${CHAIN_ENV.AI_MODEL_CHAIN},custom/model` }),
+    );
+
+    const status = modelChainStatus(chain, {
+      anthropic: [check(false, 'Rate limited'), check(true), check(true), check(false)],
+      'cf-ai-gw-workers-ai': [check(true)],
+    });
+
+    expect(status).toEqual([
+      {
+        ref: 'anthropic/claude-sonnet-4-5',
+        provider: 'anthropic',
+        checked: true,
+        errorRate: 0.5,
+        lastCheck: check(false, 'Rate limited'),
+        serving: false,
+      },
+      {
+        ref: 'cf-ai-gw-workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+        provider: 'cf-ai-gw-workers-ai',
+        checked: true,
+        errorRate: 0,
+        lastCheck: check(true),
+        serving: true,
+      },
+      { ref: 'custom/model', provider: 'custom', checked: false, errorRate: null, serving: false },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import type { MoltbotEnv } from '../types';
+import { PROVIDER_CHECK_TIMEOUT_MS, PROVIDER_HEALTH_WINDOW } from '../config';
+import { modelChain, type ModelChainEntry, type ProviderEndpoint } from './env';
+
+/**
+ * Health of the providers in AI_MODEL_CHAIN.
+ *
+ * The gateway's model calls don't pass through the Worker, so the cron checks each provider of the
+ * chain instead, with an authenticated request for its model list. OpenClaw moves on to the next
+ * model when a provider rate-limits, rejects its key, fails or can't be reached, and the checks
+ * treat the same answers as failures, so the first model whose provider passes is the one serving.
+ */
+
+/** Recent checks of every provider, for the whole deployment, at the root of the bucket */
+export const PROVIDER_HEALTH_KEY = '.provider-health.json';
+
+export interface ProviderCheck {
+  checkedAt: string; // ISO timestamp
+  ok: boolean;
+  latencyMs: number;
+  /** HTTP status, when the provider answered */
+  status?: number;
+  error?: string;
+}
+
+/** Checks per provider name, newest first */
+export type ProviderHealth = Record<string, ProviderCheck[]>;
+
+export interface ModelChainStatus {
+  ref: string;
+  provider: string;
+  /** False for providers the Worker has no credentials for; those are assumed to work */
+  checked: boolean;
+  /** Share of failed checks among the recent ones, or null before the first check */
+  errorRate: number | null;
+  lastCheck?: ProviderCheck;
+  /** The first model whose provider passed its last check (or has no checks) */
+  serving: boolean;
+}
+
+/** Request that lists the provider's models */
+function modelListRequest(endpoint: ProviderEndpoint): { url: string; headers: HeadersInit } {
+  if (endpoint.api === 'anthropic-messages') {
+    return {
+      url: `${endpoint.baseUrl}/v1/models`,
+      headers: { 'x-api-key': endpoint.apiKey, 'anthropic-version': '2023-06-01' },
+    };
+  }
+  return {
+    url: `${endpoint.baseUrl}/models`,
+    headers: { Authorization: `Bearer ${endpoint.apiKey}` },
+  };
+}
+
+/** Why a provider's answer means a model call would fail, or null if it wouldn't */
+function failureReason(status: number): string | null {
+  if (status === 429) return 'Rate limited';
+  if (status === 401 || status === 403) return 'API key rejected';
+  if (status >= 500) return 'Provider error';
+  // Anything else is an answer; some OpenAI-compatible APIs don't implement /models
+  return null;
+}
+
+/**
+ * Check one provider
+ *
+ * @param endpoint - Where the provider is and the key to use
+ */
+export async function checkProvider(endpoint: ProviderEndpoint): Promise<ProviderCheck> {
+  const { url, headers } = modelListRequest(endpoint);
+  const started = Date.now();
+  const checkedAt = new Date(started).toISOString();
+  try {
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(PROVIDER_CHECK_TIMEOUT_MS),
+    });
+    // Only the status matters
+    await response.body?.cancel();
+    const error = failureReason(response.status);
+    return {
+      checkedAt,
+      ok: error === null,
+      latencyMs: Date.now() - started,
+      status: response.status,
+      ...(error && { error }),
+    };
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === 'TimeoutError';
+    return {
+      checkedAt,
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: timedOut
+        ? `No answer within ${PROVIDER_CHECK_TIMEOUT_MS / 1000}s`
+        : `Unreachable: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
+/**
+ * Recorded provider checks ({} before the first)
+ */
+export async function readProviderHealth(env: MoltbotEnv): Promise<ProviderHealth> {
+  const obj = await env.MOLTBOT_BUCKET.get(PROVIDER_HEALTH_KEY);
+  return obj ? ((await obj.json()) as ProviderHealth) : {};
+}
+
+/**
+ * Check every provider of AI_MODEL_CHAIN the Worker can reach and record the results, keeping the
+ * newest PROVIDER_HEALTH_WINDOW checks per provider. Providers no longer in the chain are dropped.
+ *
+ * @returns The recorded checks, or null when AI_MODEL_CHAIN has nothing to check
+ */
+export async function checkModelChain(env: MoltbotEnv): Promise<ProviderHealth | null> {
+  const endpoints = new Map<string, ProviderEndpoint>();
+  for (const entry of modelChain(env)) {
+    if (entry.endpoint) endpoints.set(entry.provider, entry.endpoint);
+  }
+  if (endpoints.size === 0) {
+    return null;
+  }
+
+  const previous = await readProviderHealth(env);
+  const checks = await Promise.all(
+    [...endpoints].map(async ([provider, endpoint]) => {
+      const check = await checkProvider(endpoint);
+      if (!check.ok) {
+        console.warn('[Models] Provider', provider, 'failed its check:', check.error);
+      }
+      return [provider, check] as const;
+    }),
+  );
+  const health: ProviderHealth = {};
+  for (const [provider, check] of checks) {
+    health[provider] = [check, ...(previous[provider] ?? [])].slice(0, PROVIDER_HEALTH_WINDOW);
+  }
+  await env.MOLTBOT_BUCKET.put(PROVIDER_HEALTH_KEY, JSON.stringify(health), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  return health;
+}
+
+/**
+ * The models of the chain with their providers' health, marking the one OpenClaw is using
+ *
+ * @param chain - The resolved AI_MODEL_CHAIN (see modelChain)
+ * @param health - Recorded checks (see readProviderHealth)
+ */
+export function modelChainStatus(
+  chain: ModelChainEntry[],
+  health: ProviderHealth,
+): ModelChainStatus[] {
+  let servingFound = false;
+  return chain.map(({ ref, provider, endpoint }) => {
+    const checks = endpoint ? (health[provider] ?? []) : [];
+    const lastCheck = checks[0];
+    const serving = !servingFound && (lastCheck?.ok ?? true);
+    servingFound ||= serving;
+    return {
+      ref,
+      provider,
+      checked: !!endpoint,
+      errorRate:
+        checks.length > 0 ? checks.filter((check) => !check.ok).length / checks.length : null,
+      ...(lastCheck && { lastCheck }),
+      serving,
+    };
+  });
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { uploadInParts } from './r2-upload';
+import { createMockBucket } from '../test-utils';
+
+async function* chunks(...sizes: number[]): AsyncGenerator<Uint8Array> {
+  let value = 0;
+  for (const size of sizes) {
+    yield Uint8Array.from({ length: size }, () => value++ % 256);
+  }
+}
+
+async function* failing(): AsyncGenerator<Uint8Array> {
+  yield new Uint8Array(15);
+  throw new Error('stream reset');
+}
+
+describe('uploadInParts', () => {
+  it('stores bodies that fit in one part with a single put', async () => {
+    const { bucket, objects, mocks } = createMockBucket();
+
+    const result = await uploadInParts(bucket, 'small', chunks(3, 4), { partSize: 10 });
+
+    expect(result).toEqual({ bytes: 7, parts: 1 });
+    expect(objects.get('small')?.body).toEqual(Uint8Array.from([0, 1, 2, 3, 4, 5, 6]));
+    expect(mocks.createMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it('splits larger streams into equal parts regardless of chunk boundaries', async () => {
+    const { bucket, objects, mocks } = createMockBucket();
+    const progress: number[] = [];
+
+    const result = await uploadInParts(bucket, 'large', chunks(7, 7, 11), {
+      partSize: 10,
+      onProgress: (p) => progress.push(p.bytes),
+    });
+
+    expect(result).toEqual({ bytes: 25, parts: 3 });
+    expect(progress).toEqual([10, 20, 25]);
+    const upload = await mocks.createMultipartUpload.mock.results[0].value;
+    expect(upload.uploadPart.mock.calls.map((c: [number, Uint8Array]) => c[1].length)).toEqual([
+      10, 10, 5,
+    ]);
+    expect(objects.get('large')?.body).toEqual(Uint8Array.from({ length: 25 }, (_, i) => i));
+  });
+
+  it('aborts the multipart upload when the source fails part-way', async () => {
+    const { bucket, objects, mocks } = createMockBucket();
+
+    await expect(uploadInParts(bucket, 'broken', failing(), { partSize: 10 })).rejects.toThrow(
+      'stream reset',
+    );
+
+    const upload = await mocks.createMultipartUpload.mock.results[0].value;
+    expect(upload.abort).toHaveBeenCalled();
+    expect(upload.complete).not.toHaveBeenCalled();
+    expect(objects.has('broken')).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { BACKUP_PART_SIZE } from '../config';
+
+/** Object body: bytes in memory or a stream of chunks (e.g. a file read from the container) */
+export type UploadBody = Uint8Array | AsyncIterable<Uint8Array>;
+
+export interface UploadProgress {
+  /** Bytes stored so far */
+  bytes: number;
+  /** Parts stored so far (1 for a single put) */
+  parts: number;
+}
+
+export interface UploadOptions {
+  httpMetadata?: R2HTTPMetadata;
+  customMetadata?: Record<string, string>;
+  /** Defaults to BACKUP_PART_SIZE */
+  partSize?: number;
+  /** Called after each stored part */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Where uploadInParts stores objects: an R2 bucket binding, or an S3Bucket for other
+ * destinations
+ */
+export interface PartUploadTarget {
+  put(
+    key: string,
+    body: Uint8Array,
+    options: Pick<UploadOptions, 'httpMetadata' | 'customMetadata'>,
+  ): Promise<unknown>;
+  createMultipartUpload(
+    key: string,
+    options: Pick<UploadOptions, 'httpMetadata' | 'customMetadata'>,
+  ): Promise<{
+    uploadPart(partNumber: number, body: Uint8Array): Promise<R2UploadedPart>;
+    complete(parts: R2UploadedPart[]): Promise<unknown>;
+    abort(): Promise<unknown>;
+  }>;
+}
+
+/**
+ * Iterate a body as chunks
+ */
+export async function* toChunks(body: UploadBody): AsyncGenerator<Uint8Array> {
+  if (body instanceof Uint8Array) {
+    yield body;
+  } else {
+    yield* body;
+  }
+}
+
+/**
+ * Upload a body to R2 (or another PartUploadTarget) in fixed-size parts so only one part is held in memory at a time.
+ *
+ * Bodies that fit in a single part are stored with a plain put; larger ones use a multipart
+ * upload (R2 requires every part but the last to have the same size). A multipart upload that
+ * fails part-way is aborted so no orphaned parts are left behind.
+ *
+ * @returns Bytes and parts stored
+ * @throws If reading the body or any R2 call fails
+ */
+export async function uploadInParts(
+  bucket: PartUploadTarget,
+  key: string,
+  body: UploadBody,
+  options: UploadOptions = {},
+): Promise<UploadProgress> {
+  const partSize = options.partSize ?? BACKUP_PART_SIZE;
+  const metadata = { httpMetadata: options.httpMetadata, customMetadata: options.customMetadata };
+  const progress: UploadProgress = { bytes: 0, parts: 0 };
+  const state: {
+    upload: Awaited<ReturnType<PartUploadTarget['createMultipartUpload']>> | null;
+    uploaded: R2UploadedPart[];
+  } = {
+    upload: null,
+    uploaded: [],
+  };
+  const buffer = new Uint8Array(partSize);
+  let filled = 0;
+
+  const storePart = async () => {
+    state.upload ??= await bucket.createMultipartUpload(key, metadata);
+    const part = await state.upload.uploadPart(state.uploaded.length + 1, buffer.slice(0, filled));
+    state.uploaded.push(part);
+    progress.bytes += filled;
+    progress.parts++;
+    filled = 0;
+    options.onProgress?.({ ...progress });
+  };
+
+  try {
+    for await (const chunk of toChunks(body)) {
+      let offset = 0;
+      while (offset < chunk.length) {
+        const n = Math.min(partSize - filled, chunk.length - offset);
+        buffer.set(chunk.subarray(offset, offset + n), filled);
+        filled += n;
+        offset += n;
+        if (filled === partSize) {
+          // eslint-disable-next-line no-await-in-loop -- parts are uploaded in order to bound memory
+          await storePart();
+        }
+      }
+    }
+
+    if (!state.upload) {
+      await bucket.put(key, buffer.slice(0, filled), metadata);
+      progress.bytes = filled;
+      progress.parts = 1;
+      options.onProgress?.({ ...progress });
+      return progress;
+    }
+    if (filled > 0) {
+      await storePart();
+    }
+    await state.upload.complete(state.uploaded);
+    return progress;
+  } catch (err) {
+    if (state.upload) {
+      await state.upload.abort().catch(() => {});
+    }
+    throw err;
+  }
+}
@@ -57,6 +57,23 @@ describe('mountR2Storage', () => {
         { endpoint: 'https://account123.r2.cloudflarestorage.com' },
       );
     });
+
+    it('mounts only the tenant prefix for non-default tenants', async () => {
+      const { sandbox, mountBucketMock, startProcessMock } = createMockSandbox({ mounted: false });
+      startProcessMock
+        .mockResolvedValueOnce(createMockProcess(''))
+        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'));
+
+      const env = createMockEnv({ CF_ACCOUNT_ID: 'account123' });
+
+      const result = await mountR2Storage(sandbox, env, 'team');
+
+      expect(result).toBe(true);
+      expect(mountBucketMock).toHaveBeenCalledWith('moltdata', '/data/moltbot', {
+        endpoint: 'https://account123.r2.cloudflarestorage.com',
+        prefix: '/tenants/team/',
+      });
+    });
   });
 
   describe('SDK mountBucket (single call to avoid duplicate passwd entries)', () => {
@@ -1,14 +1,15 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
-import { R2_MOUNT_PATH, getR2BucketName } from '../config';
+import { DEFAULT_TENANT_ID, R2_MOUNT_PATH, getR2BucketName } from '../config';
+import { getTenantMountPrefix } from './tenant';
 
 /** Consistent log prefix for all R2 mount operations */
 const LOG_PREFIX = '[R2 Mount]';
 
 /**
- * In-flight mount promise used to deduplicate concurrent mount attempts.
+ * In-flight mount promises (per tenant) used to deduplicate concurrent mount attempts.
  */
-let inflightMount: Promise<boolean> | null = null;
+const inflightMounts = new Map<string, Promise<boolean>>();
 
 /** Wait for a sandbox process to finish (up to ~2 s by default). */
 async function waitForProcess(
@@ -53,28 +54,38 @@ async function isR2Mounted(sandbox: Sandbox, label?: string): Promise<boolean> {
  * - Single mountBucket() call with endpoint; SDK auto-detects AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY from Worker secrets.
  * - If explicit credentials are set (R2_* or AWS_*), we pass them in options as a fallback.
  *
+ * In multi-tenant mode, non-default tenants mount only their own prefix (tenants/<id>/),
+ * so the container sees the same layout under R2_MOUNT_PATH regardless of tenant.
+ *
  * Requires production deployment (FUSE); does not work with wrangler dev.
  *
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
+ * @param tenantId - Tenant that owns the sandbox
  * @returns true if mounted successfully, false otherwise
  */
-export async function mountR2Storage(sandbox: Sandbox, env: MoltbotEnv): Promise<boolean> {
+export async function mountR2Storage(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string = DEFAULT_TENANT_ID,
+): Promise<boolean> {
   if (!env.CF_ACCOUNT_ID) {
     console.log(`${LOG_PREFIX} Skipped — CF_ACCOUNT_ID not set`);
     return false;
   }
 
-  if (inflightMount) {
+  const inflight = inflightMounts.get(tenantId);
+  if (inflight) {
     console.log(`${LOG_PREFIX} Waiting for in-flight mount attempt...`);
-    return inflightMount;
+    return inflight;
   }
 
-  inflightMount = doMount(sandbox, env);
+  const mount = doMount(sandbox, env, tenantId);
+  inflightMounts.set(tenantId, mount);
   try {
-    return await inflightMount;
+    return await mount;
   } finally {
-    inflightMount = null;
+    inflightMounts.delete(tenantId);
   }
 }
 
@@ -87,15 +98,16 @@ export async function mountR2Storage(sandbox: Sandbox, env: MoltbotEnv): Promise
  * So we call mountBucket exactly once: with credentials if we have them,
  * otherwise endpoint only (SDK auto-detects AWS_* from Worker secrets).
  */
-async function doMount(sandbox: Sandbox, env: MoltbotEnv): Promise<boolean> {
+async function doMount(sandbox: Sandbox, env: MoltbotEnv, tenantId: string): Promise<boolean> {
   const bucketName = getR2BucketName(env);
   const endpoint = `https://${env.CF_ACCOUNT_ID}.r2.cloudflarestorage.com`;
+  const prefix = getTenantMountPrefix(tenantId);
   const hasExplicitCreds =
     !!(env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY) ||
     !!(env.R2_ACCESS_KEY_ID && env.R2_SECRET_ACCESS_KEY);
 
   console.log(
-    `${LOG_PREFIX} Starting — bucket=${bucketName}, path=${R2_MOUNT_PATH}, endpoint=${endpoint}, explicitCreds=${hasExplicitCreds}`,
+    `${LOG_PREFIX} Starting — bucket=${bucketName}, path=${R2_MOUNT_PATH}, endpoint=${endpoint}, explicitCreds=${hasExplicitCreds}${prefix ? `, prefix=${prefix}` : ''}`,
   );
   const startTime = Date.now();
 
@@ -105,9 +117,16 @@ async function doMount(sandbox: Sandbox, env: MoltbotEnv): Promise<boolean> {
   }
 
   // Single mountBucket call: with creds if set, else endpoint only (SDK auto-detects AWS_*)
-  const mountOptions: { endpoint: string; credentials?: { accessKeyId: string; secretAccessKey: string } } = {
+  const mountOptions: {
+    endpoint: string;
+    prefix?: string;
+    credentials?: { accessKeyId: string; secretAccessKey: string };
+  } = {
     endpoint,
   };
+  if (prefix) {
+    mountOptions.prefix = prefix;
+  }
   if (hasExplicitCreds) {
     mountOptions.credentials = {
       accessKeyId: env.AWS_ACCESS_KEY_ID ?? env.R2_ACCESS_KEY_ID!,
@@ -145,13 +164,13 @@ async function doMount(sandbox: Sandbox, env: MoltbotEnv): Promise<boolean> {
 
   const elapsed = Date.now() - startTime;
   console.error(
-    `${LOG_PREFIX} FAILED (${elapsed}ms). Gateway will run without persistent storage. ` +
-      'Binding backup (tar.gz + put) will be used for cron; set WORKER_URL + BACKUP_RESTORE_TOKEN for restore at startup.',
+    `${LOG_PREFIX} FAILED (${elapsed}ms). The backup can't be restored from the mount at startup. ` +
+      'Syncs still go through the R2 binding; set WORKER_URL + BACKUP_RESTORE_TOKEN for restore at startup.',
   );
   return false;
 }
 
 /** Exposed for testing only */
 export function _resetMountLock(): void {
-  inflightMount = null;
+  inflightMounts.clear();
 }
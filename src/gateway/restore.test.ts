@@ -0,0 +1,383 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import { listSnapshotFiles, restoreSnapshot, restoreSnapshotPaths } from './restore';
+import { gzipStream, tarStream, type TarEntry } from './tar';
+import { createSnapshot, snapshotId } from './snapshots';
+import { getSyncLockCoordinator } from './sync-lock';
+import { SYNC_LOCK_WAIT_MS } from '../config';
+import {
+  createMockBucket,
+  createMockEnv,
+  createMockProcess,
+  createMockSandbox,
+  readTarGz,
+  suppressConsole,
+} from '../test-utils';
+
+// The real streamFile decodes SSE events; the mocked readFileStream yields raw archive bytes
+vi.mock('@cloudflare/sandbox', () => ({
+  streamFile: async function* (stream: ReadableStream<Uint8Array>) {
+    yield new Uint8Array(await new Response(stream).arrayBuffer());
+  },
+}));
+
+const encoder = new TextEncoder();
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Snapshot tarball of `files` with its manifest, as blob-store.ts writes them */
+async function snapshotOf(
+  files: Record<string, string>,
+  manifestOverrides: Record<string, string> = {},
+): Promise<AsyncIterable<Uint8Array>> {
+  const entries: TarEntry[] = [];
+  const lines: string[] = [];
+  for (const [path, body] of Object.entries(files)) {
+    const bytes = encoder.encode(body);
+    entries.push({ path, mode: 0o644, size: bytes.length, mtime: 1_760_000_000, body: bytes });
+    // eslint-disable-next-line no-await-in-loop -- building the fixture in order
+    lines.push(`${manifestOverrides[path] ?? (await sha256(body))} ${bytes.length} ${path}\n`);
+  }
+  const manifest = encoder.encode(lines.join(''));
+  entries.push({
+    path: '.backup-manifest',
+    mode: 0o644,
+    size: manifest.length,
+    mtime: 1_760_000_000,
+    body: manifest,
+  });
+  return gzipStream(tarStream(entries));
+}
+
+const SNAPSHOT_FILES = {
+  '.openclaw/openclaw.json': '{"agents":{}}',
+  'clawd/MEMORY.md': 'remember this',
+  'clawd/skills/weather/SKILL.md': '# Weather',
+  'clawd/skills/weather/run.sh': 'curl wttr.in',
+  'clawd/skills/other/SKILL.md': '# Other',
+};
+
+describe('restoreSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('rejects unknown and malformed snapshot ids without touching the gateway', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const { sandbox, listProcessesMock } = createMockSandbox();
+
+    for (const id of ['20260310T120000Z', '../openclaw/backup']) {
+      // eslint-disable-next-line no-await-in-loop -- each id is checked in turn
+      const result = await restoreSnapshot(sandbox, env, 'moltbot', id);
+      expect(result).toEqual({ success: false, error: 'Snapshot not found' });
+    }
+    expect(listProcessesMock).not.toHaveBeenCalled();
+  });
+
+  it('stops the gateway, unpacks the snapshot and makes it the current backup', async () => {
+    vi.useFakeTimers();
+    // Shortly after the snapshot, so the syncs around the restore don't take another one
+    vi.setSystemTime(new Date('2026-03-10T12:05:00Z'));
+    try {
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      const entry = await createSnapshot(
+        env,
+        'moltbot',
+        new Uint8Array([1, 2, 3]),
+        new Date('2026-03-10T12:00:00Z'),
+      );
+
+      const kill = vi.fn().mockResolvedValue(undefined);
+      const { sandbox, startProcessMock, writeFileMock, readFileStreamMock } = createMockSandbox({
+        processes: [
+          {
+            id: 'gw-1',
+            command: '/usr/local/bin/start-openclaw.sh',
+            status: 'running',
+            kill,
+          } as unknown as Process,
+        ],
+      });
+      // Both syncs (before stopping the gateway and after the restore) stage one file
+      const config = '{}';
+      const hash = Array.from(
+        new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(config))),
+        (b) => b.toString(16).padStart(2, '0'),
+      ).join('');
+      startProcessMock.mockImplementation(async (cmd: string) =>
+        createMockProcess(cmd.includes('rsync') ? '# 1 2\n' : ''),
+      );
+      readFileStreamMock.mockImplementation(async (path: string) =>
+        new Blob([
+          path.endsWith('.files') ? `${hash} 2 644 .openclaw/openclaw.json\n` : config,
+        ]).stream(),
+      );
+
+      const pending = restoreSnapshot(sandbox, env, 'moltbot', snapshotId(entry.key));
+      await vi.advanceTimersByTimeAsync(2000);
+      const result = await pending;
+
+      expect(result.success).toBe(true);
+      expect(result.restored).toBe('snapshots/20260310T120000Z.tar.gz');
+      expect(result.previousProcessId).toBe('gw-1');
+      expect(kill).toHaveBeenCalled();
+      // The snapshot is opened again once the gateway is stopped, not kept open during the sync
+      const reads = vi.mocked(bucket.get).mock;
+      const snapshotReads = reads.invocationCallOrder.filter(
+        (_, i) => reads.calls[i][0] === entry.key,
+      );
+      expect(snapshotReads).toHaveLength(2);
+      expect(snapshotReads[1]).toBeGreaterThan(kill.mock.invocationCallOrder[0]);
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/snapshot-restore.tar.gz.0', 'AQID', {
+        encoding: 'base64',
+      });
+      expect(startProcessMock).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'for i in $(seq 0 0); do cat /tmp/snapshot-restore.tar.gz.$i; done | ' +
+            'tar xzf - -C /tmp/snapshot-restore',
+        ),
+      );
+      // Syncs paused by a failed startup restore resume
+      expect(startProcessMock).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'rm -rf /tmp/snapshot-restore /tmp/snapshot-restore.tar.gz.* /root/.moltbot-restore-failed',
+        ),
+      );
+      expect(objects.has('sync/manifest')).toBe(true);
+      // Both the pre-restore state and the restored state were synced
+      const history = JSON.parse(new TextDecoder().decode(objects.get('.sync-history.json')!.body));
+      expect(history.map((e: { trigger: string }) => e.trigger)).toEqual(['restore', 'pre-stop']);
+      expect(history[1]).toMatchObject({ reason: 'restore', success: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('uploads the snapshot into the container in parts', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const body = Uint8Array.from({ length: 5 * 1024 * 1024 }, (_, i) => i % 251);
+    const entry = await createSnapshot(env, 'moltbot', body);
+    const { sandbox, startProcessMock, writeFileMock } = createMockSandbox({ processes: [] });
+    startProcessMock.mockResolvedValueOnce(createMockProcess('', { exitCode: 2 }));
+
+    await restoreSnapshot(sandbox, env, 'moltbot', snapshotId(entry.key));
+
+    const parts = writeFileMock.mock.calls.map(([path, content]) => {
+      return { path, bytes: Uint8Array.from(atob(content), (c) => c.charCodeAt(0)) };
+    });
+    expect(parts.map((part) => part.path)).toEqual([
+      '/tmp/snapshot-restore.tar.gz.0',
+      '/tmp/snapshot-restore.tar.gz.1',
+    ]);
+    expect(parts[0].bytes.length).toBe(4 * 1024 * 1024);
+    const uploaded = await new Blob(parts.map((part) => part.bytes)).arrayBuffer();
+    expect(new Uint8Array(await crypto.subtle.digest('SHA-256', uploaded))).toEqual(
+      new Uint8Array(await crypto.subtle.digest('SHA-256', body)),
+    );
+    expect(startProcessMock.mock.calls[0][0]).toContain(
+      'for i in $(seq 0 1); do cat /tmp/snapshot-restore.tar.gz.$i; done',
+    );
+  });
+
+  it('refuses snapshots that do not match their manifest', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const entry = await createSnapshot(env, 'moltbot', new Uint8Array([1]));
+    const { sandbox, startProcessMock } = createMockSandbox({ processes: [] });
+    startProcessMock.mockResolvedValueOnce(
+      createMockProcess('.openclaw/openclaw.json\n# 4 100\n', { exitCode: 3 }),
+    );
+
+    const result = await restoreSnapshot(sandbox, env, 'moltbot', snapshotId(entry.key));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Snapshot does not match its manifest');
+    expect(result.details).toContain('.openclaw/openclaw.json');
+    expect(startProcessMock.mock.calls[0][0]).toMatch(/\.backup-manifest.*for d in/);
+    expect(objects.has('openclaw/backup.tar.gz')).toBe(false);
+  });
+
+  it('reports unpack failures and skips the sync', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const entry = await createSnapshot(env, 'moltbot', new Uint8Array([1]));
+    const { sandbox, startProcessMock } = createMockSandbox({ processes: [] });
+    startProcessMock.mockResolvedValueOnce(
+      createMockProcess('', { exitCode: 2, stderr: 'gzip: stdin: not in gzip format' }),
+    );
+
+    const result = await restoreSnapshot(sandbox, env, 'moltbot', snapshotId(entry.key));
+
+    expect(result.success).toBe(false);
+    expect(result.details).toBe('gzip: stdin: not in gzip format');
+    expect(startProcessMock).toHaveBeenCalledTimes(1);
+    expect(objects.has('openclaw/backup.tar.gz')).toBe(false);
+  });
+
+  it('kills tar and fails the restore when unpacking outlasts its timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      const entry = await createSnapshot(env, 'moltbot', new Uint8Array([1]));
+      const { sandbox, startProcessMock } = createMockSandbox({ processes: [] });
+      const tar = { ...createMockProcess('', { status: 'running' }), kill: vi.fn() };
+      startProcessMock.mockResolvedValueOnce(tar);
+
+      const result = restoreSnapshot(sandbox, env, 'moltbot', snapshotId(entry.key));
+      await vi.advanceTimersByTimeAsync(61_000);
+
+      expect(await result).toMatchObject({
+        success: false,
+        error: 'Failed to unpack snapshot',
+        details: 'Timed out after 61s',
+      });
+      expect(tar.kill).toHaveBeenCalled();
+      expect(objects.has('openclaw/backup.tar.gz')).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not replace any files while a sync holds the sync lock', async () => {
+    vi.useFakeTimers();
+    try {
+      const { bucket } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      const entry = await createSnapshot(env, 'moltbot', new Uint8Array([1]));
+      const { sandbox, startProcessMock, writeFileMock } = createMockSandbox({ processes: [] });
+      await getSyncLockCoordinator(env, 'moltbot').acquireSyncLock('sync', 600_000);
+
+      const result = restoreSnapshot(sandbox, env, 'moltbot', snapshotId(entry.key));
+      await vi.advanceTimersByTimeAsync(SYNC_LOCK_WAIT_MS + 1000);
+
+      expect(await result).toEqual({
+        success: false,
+        error: 'A backup sync is still running',
+        details: 'Timed out waiting for the sync lock',
+      });
+      expect(writeFileMock).not.toHaveBeenCalled();
+      expect(startProcessMock).not.toHaveBeenCalled();
+      await getSyncLockCoordinator(env, 'moltbot').releaseSyncLock('sync');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('selective restore', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('lists the files in a snapshot without its manifest', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const entry = await createSnapshot(env, 'moltbot', await snapshotOf(SNAPSHOT_FILES));
+
+    const files = await listSnapshotFiles(env, 'moltbot', snapshotId(entry.key));
+
+    expect(files?.map((file) => file.path)).toEqual(Object.keys(SNAPSHOT_FILES));
+    expect(files?.[1]).toEqual({ path: 'clawd/MEMORY.md', size: 13, mode: 0o644 });
+    expect(await listSnapshotFiles(env, 'moltbot', '20260310T120000Z')).toBeNull();
+  });
+
+  it('replaces only the selected paths and keeps the gateway running', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-10T12:05:00Z'), toFake: ['Date'] });
+    try {
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      const entry = await createSnapshot(
+        env,
+        'moltbot',
+        await snapshotOf(SNAPSHOT_FILES),
+        new Date('2026-03-10T12:00:00Z'),
+      );
+      const { sandbox, startProcessMock, writeFileMock, readFileStreamMock, listProcessesMock } =
+        createMockSandbox();
+      const hash = await sha256('{}');
+      startProcessMock.mockImplementation(async (cmd: string) =>
+        createMockProcess(cmd.includes('rsync') ? '# 1 2\n' : ''),
+      );
+      readFileStreamMock.mockImplementation(async (path: string) =>
+        new Blob([
+          path.endsWith('.files') ? `${hash} 2 644 .openclaw/openclaw.json\n` : '{}',
+        ]).stream(),
+      );
+
+      const result = await restoreSnapshotPaths(sandbox, env, 'moltbot', snapshotId(entry.key), [
+        'clawd/skills/weather/',
+        './clawd/MEMORY.md',
+      ]);
+
+      expect(result).toMatchObject({
+        success: true,
+        restored: 'snapshots/20260310T120000Z.tar.gz',
+        restoredFiles: [
+          'clawd/MEMORY.md',
+          'clawd/skills/weather/SKILL.md',
+          'clawd/skills/weather/run.sh',
+        ],
+      });
+      expect(listProcessesMock).not.toHaveBeenCalled();
+      expect(writeFileMock).toHaveBeenCalledTimes(1);
+      const [archivePath, archive] = writeFileMock.mock.calls[0];
+      expect(archivePath).toBe('/tmp/snapshot-restore.tar.gz.0');
+      const unpacked = await readTarGz(
+        (async function* () {
+          yield Uint8Array.from(atob(archive), (c) => c.charCodeAt(0));
+        })(),
+      );
+      expect(unpacked.map((file) => file.path)).toEqual(result.restoredFiles);
+      const restoreCmd = startProcessMock.mock.calls
+        .map(([cmd]) => cmd as string)
+        .find((cmd) => cmd.includes('tar xzf - -C /tmp/snapshot-restore'));
+      expect(restoreCmd).toContain(
+        "rm -rf '/root/clawd/skills/weather' && mkdir -p \"$(dirname '/root/clawd/skills/weather')\" && " +
+          "mv '/tmp/snapshot-restore/clawd/skills/weather' '/root/clawd/skills/weather'",
+      );
+      expect(restoreCmd).toContain(
+        "mv '/tmp/snapshot-restore/clawd/MEMORY.md' '/root/clawd/MEMORY.md'",
+      );
+      const history = JSON.parse(new TextDecoder().decode(objects.get('.sync-history.json')!.body));
+      expect(history.map((e: { trigger: string }) => e.trigger)).toEqual(['restore', 'restore']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('refuses invalid paths, paths not in the snapshot and files that fail the manifest', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const entry = await createSnapshot(
+      env,
+      'moltbot',
+      await snapshotOf(SNAPSHOT_FILES, { 'clawd/MEMORY.md': '0'.repeat(64) }),
+    );
+    const id = snapshotId(entry.key);
+    const { sandbox, startProcessMock, writeFileMock } = createMockSandbox();
+
+    const results = [
+      await restoreSnapshotPaths(sandbox, env, 'moltbot', id, ['clawd/../../etc/passwd']),
+      await restoreSnapshotPaths(sandbox, env, 'moltbot', id, ['.backup-manifest']),
+      await restoreSnapshotPaths(sandbox, env, 'moltbot', id, ['clawd/skills/missing']),
+      await restoreSnapshotPaths(sandbox, env, 'moltbot', id, ['clawd']),
+    ];
+
+    expect(results.map((r) => r.error)).toEqual([
+      'Invalid paths',
+      'Invalid paths',
+      'Paths not in snapshot',
+      'Snapshot does not match its manifest',
+    ]);
+    expect(results[3].details).toBe('1 file(s) missing or changed: clawd/MEMORY.md');
+    expect(startProcessMock).not.toHaveBeenCalled();
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,466 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { readBackupObject } from './backup-crypto';
+import { MANIFEST_FILE, parseManifestOutput, verifyManifestCommand } from './backup-verify';
+import { findExistingMoltbotProcess } from './process';
+import { getSnapshot, snapshotKeyFromId } from './snapshots';
+import { syncBeforeStop } from './pre-stop';
+import { sha256Hex } from './s3';
+import { gunzipStream, gzipStream, readTar, tarStream, type TarEntry } from './tar';
+import { RESTORE_FAILED_PATH } from './sync-binding';
+import { syncWithHistory } from './sync-history';
+import { withSyncLock } from './sync-lock';
+import { waitForProcess } from './utils';
+
+/** Where the snapshot is uploaded (in parts: .0, .1, …) and unpacked inside the container */
+const RESTORE_ARCHIVE = '/tmp/snapshot-restore.tar.gz';
+const RESTORE_STAGING_DIR = '/tmp/snapshot-restore';
+
+/** Size of the parts the snapshot is uploaded in, so only one of them is held in memory */
+const RESTORE_PART_SIZE = 4 * 1024 * 1024;
+
+/** Root the snapshot paths are relative to */
+const RESTORE_ROOT = '/root';
+
+/**
+ * Time given to unpack a snapshot: a base allowance plus time per MiB of archive. tar is killed
+ * once it is up, so it can't replace files after the sync lock is released.
+ */
+const UNPACK_BASE_MS = 60_000;
+const UNPACK_MS_PER_MIB = 1000;
+
+/** Time given to a killed gateway to exit before its files are replaced */
+const STOP_GRACE_MS = 2000;
+
+/** Files are only replaced under the sync lock, so no sync stages them halfway through */
+const SYNC_RUNNING = {
+  success: false,
+  error: 'A backup sync is still running',
+  details: 'Timed out waiting for the sync lock',
+} as const;
+
+export interface RestoreResult {
+  success: boolean;
+  /** Snapshot key (relative to the tenant prefix) that was restored */
+  restored?: string;
+  /** Gateway process stopped for the restore */
+  previousProcessId?: string;
+  lastSync?: string;
+  /** Files written by a selective restore, relative to /root */
+  restoredFiles?: string[];
+  error?: string;
+  details?: string;
+}
+
+/** A file in a snapshot, as listed for browsing */
+export interface SnapshotFile {
+  /** Path relative to /root, e.g. clawd/MEMORY.md */
+  path: string;
+  size: number;
+  mode: number;
+}
+
+/**
+ * Encode bytes as base64, in chunks to stay within argument limits.
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Upload an archive into the container as RESTORE_ARCHIVE.0, .1, … of RESTORE_PART_SIZE each,
+ * reading it as it is written.
+ *
+ * @returns Shell command that writes the archive to its stdout
+ */
+async function uploadArchive(sandbox: Sandbox, chunks: AsyncIterable<Uint8Array>): Promise<string> {
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let parts = 0;
+  const write = (part: Uint8Array) =>
+    sandbox.writeFile(`${RESTORE_ARCHIVE}.${parts++}`, bytesToBase64(part), { encoding: 'base64' });
+  for await (const chunk of chunks) {
+    pending.push(chunk);
+    pendingBytes += chunk.length;
+    while (pendingBytes >= RESTORE_PART_SIZE) {
+      const data = concatBytes(pending);
+      // eslint-disable-next-line no-await-in-loop -- parts are written in order
+      await write(data.subarray(0, RESTORE_PART_SIZE));
+      pending = [data.subarray(RESTORE_PART_SIZE)];
+      pendingBytes -= RESTORE_PART_SIZE;
+    }
+  }
+  if (pendingBytes > 0 || parts === 0) {
+    await write(concatBytes(pending));
+  }
+  // Parts left over from an earlier, failed restore are not read
+  return `for i in $(seq 0 ${parts - 1}); do cat ${RESTORE_ARCHIVE}.$i; done`;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Whether `path` is the selected path or inside the selected directory */
+function isSelected(path: string, selection: string[]): boolean {
+  return selection.some((sel) => path === sel || path.startsWith(`${sel}/`));
+}
+
+/**
+ * Normalize a path selected for restore: relative to /root, without `.`, `..` or empty
+ * segments, and not the snapshot's own manifest. Returns null for paths that can't be restored.
+ */
+export function normalizeRestorePath(path: string): string | null {
+  const segments = path.split('/').filter((segment) => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..') || segments[0] === MANIFEST_FILE) {
+    return null;
+  }
+  return segments.join('/');
+}
+
+/**
+ * List the files in a snapshot, without the manifest it carries.
+ *
+ * @returns The files in archive order, or null when there is no such snapshot
+ * @throws If the snapshot can't be read or decrypted, or is truncated
+ */
+export async function listSnapshotFiles(
+  env: MoltbotEnv,
+  tenantId: string,
+  id: string,
+): Promise<SnapshotFile[] | null> {
+  const snapshot = snapshotKeyFromId(id) ? await getSnapshot(env, tenantId, id) : null;
+  if (!snapshot) {
+    return null;
+  }
+  const files: SnapshotFile[] = [];
+  for await (const { path, size, mode } of readTar(
+    gunzipStream(await readBackupObject(env, snapshot)),
+  )) {
+    if (path !== MANIFEST_FILE) {
+      files.push({ path, size, mode });
+    }
+  }
+  return files;
+}
+
+/**
+ * Unpack a snapshot archive into a staging directory, check it against its manifest and swap
+ * its top-level directories into /root. Run under the sync lock.
+ */
+async function unpackSnapshot(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  snapshot: R2ObjectBody,
+  previousProcessId: string | undefined,
+): Promise<RestoreResult> {
+  try {
+    const readArchive = await uploadArchive(sandbox, await readBackupObject(env, snapshot));
+
+    const restoreCmd =
+      `rm -rf ${RESTORE_STAGING_DIR} && mkdir -p ${RESTORE_STAGING_DIR} && ` +
+      `${readArchive} | tar xzf - -C ${RESTORE_STAGING_DIR} && ` +
+      `if [ -f ${RESTORE_STAGING_DIR}/${MANIFEST_FILE} ]; then ${verifyManifestCommand(RESTORE_STAGING_DIR)} || exit $?; ` +
+      `rm -f ${RESTORE_STAGING_DIR}/${MANIFEST_FILE}; fi && ` +
+      `for d in ${RESTORE_STAGING_DIR}/* ${RESTORE_STAGING_DIR}/.[!.]*; do ` +
+      `[ -e "$d" ] || continue; rm -rf "/root/\${d##*/}" && mv "$d" /root/ || exit 1; done && ` +
+      `rm -rf ${RESTORE_STAGING_DIR} ${RESTORE_ARCHIVE}.* ${RESTORE_FAILED_PATH}`;
+    const proc = await sandbox.startProcess(restoreCmd);
+    const timeoutMs = UNPACK_BASE_MS + Math.ceil(snapshot.size / (1024 * 1024)) * UNPACK_MS_PER_MIB;
+    await waitForProcess(proc, timeoutMs);
+    if (proc.status === 'running') {
+      await proc.kill();
+      return {
+        success: false,
+        previousProcessId,
+        error: 'Failed to unpack snapshot',
+        details: `Timed out after ${Math.round(timeoutMs / 1000)}s`,
+      };
+    }
+    if (proc.exitCode === 3) {
+      const { lines } = parseManifestOutput((await proc.getLogs()).stdout ?? '');
+      return {
+        success: false,
+        previousProcessId,
+        error: 'Snapshot does not match its manifest',
+        details: `${lines.length} file(s) missing or changed: ${lines.slice(0, 20).join(', ')}`,
+      };
+    }
+    if (proc.exitCode !== 0) {
+      const logs = await proc.getLogs();
+      return {
+        success: false,
+        previousProcessId,
+        error: 'Failed to unpack snapshot',
+        details: logs.stderr || logs.stdout || `exit code ${proc.exitCode}`,
+      };
+    }
+  } catch (err) {
+    return {
+      success: false,
+      previousProcessId,
+      error: 'Failed to restore snapshot',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+  return { success: true, previousProcessId };
+}
+
+/**
+ * Restore a snapshot into the running container.
+ *
+ * Checks the snapshot can be decrypted if needed (before anything is stopped, so a missing key
+ * leaves the gateway running), stops the gateway, streams the snapshot into the container in parts,
+ * unpacks it into a staging directory and checks it against the manifest it carries (older
+ * snapshots have none). Only then is each top-level directory it contains (config dir, clawd)
+ * swapped into /root, which also resumes syncs paused by a failed startup restore. The restored
+ * state is then synced to R2 so it also becomes the current backup; otherwise the next startup
+ * would restore the newer backup over it. Restarting the gateway is left to the caller.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenantId - Tenant that owns the sandbox and the snapshot
+ * @param id - Snapshot id (see snapshotId)
+ */
+export async function restoreSnapshot(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  id: string,
+): Promise<RestoreResult> {
+  const key = snapshotKeyFromId(id);
+  const snapshot = key ? await getSnapshot(env, tenantId, id) : null;
+  if (!key || !snapshot) {
+    return { success: false, error: 'Snapshot not found' };
+  }
+  // Read the start of the snapshot before anything is stopped. It is read again once the gateway
+  // is stopped, since the pre-stop sync may take longer than a read can stay open.
+  try {
+    const stream = await readBackupObject(env, snapshot);
+    try {
+      await stream.next();
+    } finally {
+      await stream.return(undefined);
+    }
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Failed to read snapshot',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  const existingProcess = await findExistingMoltbotProcess(sandbox);
+  if (existingProcess) {
+    // The current state becomes the latest backup (and a snapshot, when one is due), so the
+    // restore can be undone
+    await syncBeforeStop(sandbox, env, tenantId, 'restore');
+    console.log('[Restore] Stopping gateway process:', existingProcess.id);
+    try {
+      await existingProcess.kill();
+    } catch (killErr) {
+      console.error('[Restore] Error killing process:', killErr);
+    }
+    await new Promise((r) => setTimeout(r, STOP_GRACE_MS));
+  }
+  const previousProcessId = existingProcess?.id;
+
+  const unpacked = await withSyncLock(env, tenantId, async () => {
+    const reopened = await getSnapshot(env, tenantId, id);
+    if (!reopened) {
+      return { success: false, previousProcessId, error: 'Snapshot not found' };
+    }
+    return unpackSnapshot(sandbox, env, reopened, previousProcessId);
+  });
+  if (!unpacked) {
+    return { ...SYNC_RUNNING, previousProcessId };
+  }
+  if (!unpacked.success) {
+    return unpacked;
+  }
+  console.log('[Restore] Restored', key, 'for tenant', tenantId);
+
+  const sync = await syncWithHistory(sandbox, env, tenantId, 'restore');
+  if (!sync.success) {
+    return {
+      success: false,
+      restored: key,
+      previousProcessId,
+      error: 'Snapshot restored but the current backup could not be updated',
+      details: sync.details ?? sync.error,
+    };
+  }
+  return { success: true, restored: key, previousProcessId, lastSync: sync.lastSync };
+}
+
+/**
+ * Write the selected snapshot files into the container, replacing each selected path as a
+ * whole. Run under the sync lock.
+ */
+async function replacePaths(
+  sandbox: Sandbox,
+  files: { path: string; mode: number; body: Uint8Array }[],
+  selected: string[],
+): Promise<RestoreResult> {
+  try {
+    const mtime = Math.floor(Date.now() / 1000);
+    const entries: TarEntry[] = files.map((file) => ({ ...file, size: file.body.length, mtime }));
+    const readArchive = await uploadArchive(sandbox, gzipStream(tarStream(entries)));
+
+    const replace = selected.map((sel) => {
+      const target = shellQuote(`${RESTORE_ROOT}/${sel}`);
+      return (
+        `rm -rf ${target} && mkdir -p "$(dirname ${target})" && ` +
+        `mv ${shellQuote(`${RESTORE_STAGING_DIR}/${sel}`)} ${target}`
+      );
+    });
+    const restoreCmd =
+      `rm -rf ${RESTORE_STAGING_DIR} && mkdir -p ${RESTORE_STAGING_DIR} && ` +
+      `${readArchive} | tar xzf - -C ${RESTORE_STAGING_DIR} && ` +
+      `${replace.join(' && ')} && ` +
+      `rm -rf ${RESTORE_STAGING_DIR} ${RESTORE_ARCHIVE}.*`;
+    const proc = await sandbox.startProcess(restoreCmd);
+    await waitForProcess(proc, 60000);
+    if (proc.exitCode !== 0) {
+      const logs = await proc.getLogs();
+      return {
+        success: false,
+        error: 'Failed to restore files',
+        details: logs.stderr || logs.stdout || `exit code ${proc.exitCode}`,
+      };
+    }
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Failed to restore files',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+  return { success: true };
+}
+
+/**
+ * Restore some files or directories from a snapshot, leaving the rest of the container's state
+ * and the gateway alone.
+ *
+ * The selected files are read from the snapshot in the Worker and checked against the snapshot's
+ * manifest (when it has one), so nothing is written unless every one of them matches. The current
+ * state is synced first, which takes a snapshot of it when one is due. Each selected path
+ * is then replaced as a whole: a restored directory loses files that were added since the
+ * snapshot. The result is synced so it becomes the current backup.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenantId - Tenant that owns the sandbox and the snapshot
+ * @param id - Snapshot id (see snapshotId)
+ * @param paths - Files or directories to restore, relative to /root
+ */
+export async function restoreSnapshotPaths(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  id: string,
+  paths: string[],
+): Promise<RestoreResult> {
+  const selection = paths.map(normalizeRestorePath);
+  if (selection.length === 0 || selection.includes(null)) {
+    return {
+      success: false,
+      error: 'Invalid paths',
+      details: 'Paths must be relative to /root and may not contain ..',
+    };
+  }
+  const selected = [...new Set(selection as string[])].filter(
+    (sel, _i, all) => !all.some((other) => sel.startsWith(`${other}/`)),
+  );
+
+  const key = snapshotKeyFromId(id);
+  const snapshot = key ? await getSnapshot(env, tenantId, id) : null;
+  if (!key || !snapshot) {
+    return { success: false, error: 'Snapshot not found' };
+  }
+
+  const files: { path: string; mode: number; body: Uint8Array }[] = [];
+  let manifest: string | null = null;
+  try {
+    for await (const file of readTar(
+      gunzipStream(await readBackupObject(env, snapshot)),
+      (path) => path === MANIFEST_FILE || isSelected(path, selected),
+    )) {
+      if (!file.body) continue;
+      if (file.path === MANIFEST_FILE) {
+        manifest = new TextDecoder().decode(file.body);
+      } else {
+        files.push({ path: file.path, mode: file.mode, body: file.body });
+      }
+    }
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Failed to read snapshot',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  const missing = selected.filter((sel) => !files.some((file) => isSelected(file.path, [sel])));
+  if (missing.length > 0) {
+    return { success: false, error: 'Paths not in snapshot', details: missing.join(', ') };
+  }
+  if (manifest !== null) {
+    const expected = new Map<string, string>();
+    for (const line of manifest.split('\n')) {
+      const match = line.match(/^([0-9a-f]{64}) \d+ (.+)$/);
+      if (match) expected.set(match[2], match[1]);
+    }
+    const hashes = await Promise.all(files.map((file) => sha256Hex(file.body)));
+    const mismatched = files
+      .filter((file, i) => expected.get(file.path) !== hashes[i])
+      .map((file) => file.path);
+    if (mismatched.length > 0) {
+      return {
+        success: false,
+        error: 'Snapshot does not match its manifest',
+        details: `${mismatched.length} file(s) missing or changed: ${mismatched.slice(0, 20).join(', ')}`,
+      };
+    }
+  }
+
+  // Save recent changes (and a snapshot, when one is due) before replacing anything
+  await syncWithHistory(sandbox, env, tenantId, 'restore');
+
+  const replaced = await withSyncLock(env, tenantId, () => replacePaths(sandbox, files, selected));
+  if (!replaced) {
+    return SYNC_RUNNING;
+  }
+  if (!replaced.success) {
+    return replaced;
+  }
+  const restoredFiles = files.map((file) => file.path);
+  console.log('[Restore] Restored', selected.join(', '), 'from', key, 'for tenant', tenantId);
+
+  const sync = await syncWithHistory(sandbox, env, tenantId, 'restore');
+  if (!sync.success) {
+    return {
+      success: false,
+      restored: key,
+      restoredFiles,
+      error: 'Files restored but the current backup could not be updated',
+      details: sync.details ?? sync.error,
+    };
+  }
+  return { success: true, restored: key, restoredFiles, lastSync: sync.lastSync };
+}
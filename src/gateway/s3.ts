@@ -0,0 +1,391 @@
+/**
+ * Minimal S3 client for backup destinations outside MOLTBOT_BUCKET: AWS S3, MinIO, or an R2
+ * bucket in another account through its S3 API. Requests are signed with AWS Signature V4
+ * and use path-style URLs (`<endpoint>/<bucket>/<key>`), which every S3-compatible store
+ * accepts.
+ *
+ * S3Bucket implements the subset of the R2Bucket API that backup replication and
+ * uploadInParts use, so code written against an ObjectStore works with either.
+ */
+
+export interface S3Config {
+  /** e.g. https://s3.eu-west-1.amazonaws.com or https://<account>.r2.cloudflarestorage.com */
+  endpoint: string;
+  bucket: string;
+  /** 'auto' for R2 */
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3Object {
+  key: string;
+  size: number;
+  customMetadata: Record<string, string>;
+}
+
+export interface S3ObjectBody extends S3Object {
+  body: ReadableStream<Uint8Array>;
+}
+
+export interface S3PutOptions {
+  httpMetadata?: { contentType?: string };
+  customMetadata?: Record<string, string>;
+}
+
+/**
+ * Request to sign. `path` must already be URI-encoded (see encodeKey).
+ */
+export interface SignableRequest {
+  method: string;
+  host: string;
+  path: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Hex SHA-256 of the body */
+  payloadHash: string;
+}
+
+/**
+ * Error response from an S3 endpoint
+ */
+export class S3Error extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+  ) {
+    super(message);
+    this.name = 'S3Error';
+  }
+}
+
+const encoder = new TextEncoder();
+const METADATA_HEADER_PREFIX = 'x-amz-meta-';
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>));
+}
+
+async function hmac(key: Uint8Array | ArrayBuffer, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key as Uint8Array<ArrayBuffer>,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * RFC 3986 encoding as SigV4 requires (encodeURIComponent leaves !'()* alone)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/**
+ * URI-encode an object key for use in a request path, keeping '/' separators
+ */
+export function encodeKey(key: string): string {
+  return key.split('/').map(uriEncode).join('/');
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  const names = Object.keys(query);
+  names.sort();
+  return names.map((name) => `${uriEncode(name)}=${uriEncode(query[name])}`).join('&');
+}
+
+/**
+ * Sign a request with AWS Signature V4.
+ *
+ * @returns The request headers plus x-amz-date, x-amz-content-sha256 and authorization
+ *   (host is signed but not returned; fetch sets it from the URL)
+ */
+export async function signRequest(
+  request: SignableRequest,
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  now: Date = new Date(),
+): Promise<Record<string, string>> {
+  const amzDate = now
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const signed = { ...headers, host: request.host };
+  const names = Object.keys(signed).map((name) => name.toLowerCase());
+  names.sort();
+  const lookup = Object.fromEntries(
+    Object.entries(signed).map(([name, value]) => [name.toLowerCase(), value.trim()]),
+  );
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    canonicalQuery(request.query ?? {}),
+    names.map((name) => `${name}:${lookup[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join(
+    '\n',
+  );
+
+  let key: ArrayBuffer = await hmac(encoder.encode(`AWS4${config.secretAccessKey}`), dateStamp);
+  for (const part of [config.region, 's3', 'aws4_request']) {
+    // eslint-disable-next-line no-await-in-loop -- each key derives from the previous one
+    key = await hmac(key, part);
+  }
+  const signature = toHex(await hmac(key, stringToSign));
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function readMetadata(headers: Headers): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (name.startsWith(METADATA_HEADER_PREFIX)) {
+      metadata[name.slice(METADATA_HEADER_PREFIX.length)] = value;
+    }
+  });
+  return metadata;
+}
+
+function metadataHeaders(options: S3PutOptions = {}): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (options.httpMetadata?.contentType) {
+    headers['content-type'] = options.httpMetadata.contentType;
+  }
+  for (const [name, value] of Object.entries(options.customMetadata ?? {})) {
+    headers[METADATA_HEADER_PREFIX + name.toLowerCase()] = value;
+  }
+  return headers;
+}
+
+const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+/**
+ * A bucket on an S3-compatible endpoint
+ */
+export class S3Bucket {
+  private readonly base: URL;
+
+  constructor(private readonly config: S3Config) {
+    this.base = new URL(config.endpoint);
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    init: {
+      query?: Record<string, string>;
+      headers?: Record<string, string>;
+      body?: Uint8Array;
+    } = {},
+  ): Promise<Response> {
+    const basePath = this.base.pathname.replace(/\/+$/, '');
+    const path = `${basePath}/${encodeKey(this.config.bucket)}${key ? `/${encodeKey(key)}` : ''}`;
+    const query = init.query ?? {};
+    const payloadHash = init.body ? await sha256Hex(init.body) : EMPTY_PAYLOAD_HASH;
+    const headers = await signRequest(
+      { method, host: this.base.host, path, query, headers: init.headers, payloadHash },
+      this.config,
+    );
+    const search = canonicalQuery(query);
+    return fetch(`${this.base.origin}${path}${search ? `?${search}` : ''}`, {
+      method,
+      headers,
+      body: init.body as Uint8Array<ArrayBuffer> | undefined,
+    });
+  }
+
+  private async fail(response: Response, action: string): Promise<never> {
+    const text = await response.text().catch(() => '');
+    const code = xmlValue(text, 'Code');
+    const message = xmlValue(text, 'Message');
+    throw new S3Error(
+      `S3 ${action} failed: ${response.status}${code ? ` ${code}` : ''}${message ? ` (${message})` : ''}`,
+      response.status,
+      code,
+    );
+  }
+
+  async head(key: string): Promise<S3Object | null> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      return this.fail(response, `HEAD ${key}`);
+    }
+    return {
+      key,
+      size: Number(response.headers.get('content-length') ?? 0),
+      customMetadata: readMetadata(response.headers),
+    };
+  }
+
+  async get(key: string): Promise<S3ObjectBody | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok || !response.body) {
+      return this.fail(response, `GET ${key}`);
+    }
+    return {
+      key,
+      size: Number(response.headers.get('content-length') ?? 0),
+      customMetadata: readMetadata(response.headers),
+      body: response.body,
+    };
+  }
+
+  async put(key: string, body: Uint8Array | string, options?: S3PutOptions): Promise<void> {
+    const bytes = typeof body === 'string' ? encoder.encode(body) : body;
+    const response = await this.request('PUT', key, {
+      headers: metadataHeaders(options),
+      body: bytes,
+    });
+    if (!response.ok) {
+      return this.fail(response, `PUT ${key}`);
+    }
+    await response.body?.cancel();
+  }
+
+  /**
+   * Delete objects one request at a time (S3's batch delete requires a Content-MD5 header,
+   * which Web Crypto can't compute). Missing keys are not an error.
+   */
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      // eslint-disable-next-line no-await-in-loop -- one request per key, in order
+      const response = await this.request('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.fail(response, `DELETE ${key}`);
+      }
+      // eslint-disable-next-line no-await-in-loop
+      await response.body?.cancel();
+    }
+  }
+
+  /**
+   * One page of keys under a prefix (ListObjectsV2)
+   */
+  async list(options: { prefix?: string; cursor?: string } = {}): Promise<{
+    objects: Array<{ key: string; size: number }>;
+    truncated: boolean;
+    cursor?: string;
+  }> {
+    const query: Record<string, string> = { 'list-type': '2' };
+    if (options.prefix) query.prefix = options.prefix;
+    if (options.cursor) query['continuation-token'] = options.cursor;
+    const response = await this.request('GET', '', { query });
+    if (!response.ok) {
+      return this.fail(response, `LIST ${options.prefix ?? ''}`);
+    }
+    const xml = await response.text();
+    const objects = [...xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)].map(([, entry]) => ({
+      key: xmlValue(entry, 'Key') ?? '',
+      size: Number(xmlValue(entry, 'Size') ?? 0),
+    }));
+    const truncated = xmlValue(xml, 'IsTruncated') === 'true';
+    return {
+      objects,
+      truncated,
+      ...(truncated && { cursor: xmlValue(xml, 'NextContinuationToken') }),
+    };
+  }
+
+  async createMultipartUpload(key: string, options?: S3PutOptions) {
+    const response = await this.request('POST', key, {
+      query: { uploads: '' },
+      headers: metadataHeaders(options),
+    });
+    if (!response.ok) {
+      return this.fail(response, `CreateMultipartUpload ${key}`);
+    }
+    const uploadId = xmlValue(await response.text(), 'UploadId');
+    if (!uploadId) {
+      throw new S3Error(`S3 CreateMultipartUpload ${key} returned no upload id`, response.status);
+    }
+
+    return {
+      key,
+      uploadId,
+      uploadPart: async (partNumber: number, body: Uint8Array) => {
+        const part = await this.request('PUT', key, {
+          query: { partNumber: String(partNumber), uploadId },
+          body,
+        });
+        if (!part.ok) {
+          return this.fail(part, `UploadPart ${key} #${partNumber}`);
+        }
+        await part.body?.cancel();
+        return { partNumber, etag: part.headers.get('etag') ?? '' };
+      },
+      complete: async (parts: Array<{ partNumber: number; etag: string }>) => {
+        const xml =
+          '<CompleteMultipartUpload>' +
+          parts
+            .map(
+              (p) => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag></Part>`,
+            )
+            .join('') +
+          '</CompleteMultipartUpload>';
+        const done = await this.request('POST', key, {
+          query: { uploadId },
+          headers: { 'content-type': 'application/xml' },
+          body: encoder.encode(xml),
+        });
+        // S3 can report a failed completion in a 200 response body
+        const text = done.ok ? await done.text() : '';
+        if (!done.ok || text.includes('<Error>')) {
+          return this.fail(done.ok ? new Response(text, { status: 500 }) : done, `Complete ${key}`);
+        }
+      },
+      abort: async () => {
+        const aborted = await this.request('DELETE', key, { query: { uploadId } });
+        await aborted.body?.cancel();
+      },
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  awakeHoursError,
+  buildSandboxOptions,
+  evaluateSchedule,
+  minuteOfWeek,
+  parseAwakeHours,
+  sandboxSchedule,
+  timeZoneError,
+} from './sleep-schedule';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+const DAY = 1440;
+
+/** Minutes since Monday 00:00 */
+function at(day: number, hours: number, minutes = 0): number {
+  return day * DAY + hours * 60 + minutes;
+}
+
+describe('parseAwakeHours', () => {
+  it('expands day lists and ranges into windows', () => {
+    expect(parseAwakeHours('Mon-Wed 08:00-19:00; Sat,sun 10:30-14:00')).toEqual([
+      { start: at(0, 8), duration: 660 },
+      { start: at(1, 8), duration: 660 },
+      { start: at(2, 8), duration: 660 },
+      { start: at(5, 10, 30), duration: 210 },
+      { start: at(6, 10, 30), duration: 210 },
+    ]);
+    expect(parseAwakeHours('Daily 09:00-17:00')).toHaveLength(7);
+    expect(parseAwakeHours('Sat-Mon 09:00-17:00').map((window) => window.start)).toEqual([
+      at(0, 9),
+      at(5, 9),
+      at(6, 9),
+    ]);
+  });
+
+  it('runs windows that end before they start past midnight', () => {
+    expect(parseAwakeHours('Fri 22:00-02:00')).toEqual([{ start: at(4, 22), duration: 240 }]);
+    expect(parseAwakeHours('Mon 00:00-24:00')).toEqual([{ start: 0, duration: DAY }]);
+  });
+
+  it('reports what is wrong with invalid schedules', () => {
+    expect(awakeHoursError('Mon-Fri 08:00-19:00')).toBeNull();
+    expect(awakeHoursError('Mon-Fri 8am-7pm')).toContain('expected "<days> HH:MM-HH:MM"');
+    expect(awakeHoursError('Weekdays 08:00-19:00')).toContain('unknown day');
+    expect(awakeHoursError('Mon 08:00-25:00')).toBe('invalid time 25:00');
+    expect(awakeHoursError(' ; ')).toBe('no awake windows given');
+  });
+});
+
+describe('timeZoneError', () => {
+  it('accepts IANA time zones only', () => {
+    expect(timeZoneError('Europe/Berlin')).toBeNull();
+    expect(timeZoneError('Mars/Olympus')).toContain('unknown time zone');
+  });
+});
+
+describe('minuteOfWeek', () => {
+  it('reads the weekday and time in the time zone', () => {
+    // Monday 2026-01-05, 23:30 UTC is already Tuesday in Berlin
+    const date = new Date('2026-01-05T23:30:00Z');
+
+    expect(minuteOfWeek(date, 'UTC')).toBe(at(0, 23, 30));
+    expect(minuteOfWeek(date, 'Europe/Berlin')).toBe(at(1, 0, 30));
+    expect(minuteOfWeek(new Date('2026-01-04T23:59:00Z'), 'UTC')).toBe(at(6, 23, 59));
+  });
+});
+
+describe('evaluateSchedule', () => {
+  const weekdays = parseAwakeHours('Mon-Fri 08:00-19:00');
+
+  it('is awake inside a window and counts down to the next one outside', () => {
+    expect(evaluateSchedule(weekdays, at(2, 12))).toEqual({
+      awake: true,
+      opensIn: 0,
+      prewarm: false,
+    });
+    expect(evaluateSchedule(weekdays, at(2, 19))).toMatchObject({ awake: false, opensIn: 780 });
+  });
+
+  it('prewarms shortly before a window opens, across the weekend', () => {
+    expect(evaluateSchedule(weekdays, at(0, 7, 50))).toMatchObject({ prewarm: true, opensIn: 10 });
+    expect(evaluateSchedule(weekdays, at(6, 23, 50))).toMatchObject({ prewarm: false });
+    expect(evaluateSchedule(weekdays, at(0, 7, 45))).toMatchObject({ prewarm: true });
+    expect(evaluateSchedule(weekdays, at(0, 7, 40))).toMatchObject({ prewarm: false });
+  });
+
+  it('keeps overnight windows awake past midnight and the end of the week', () => {
+    const nights = parseAwakeHours('Sun 22:00-02:00');
+
+    expect(evaluateSchedule(nights, at(6, 23)).awake).toBe(true);
+    expect(evaluateSchedule(nights, at(0, 1, 59)).awake).toBe(true);
+    expect(evaluateSchedule(nights, at(0, 2)).awake).toBe(false);
+  });
+});
+
+describe('buildSandboxOptions', () => {
+  // Wednesday 2026-01-07
+  const noon = new Date('2026-01-07T12:00:00Z');
+  const night = new Date('2026-01-07T23:00:00Z');
+
+  it('keeps the old behaviour without a schedule', () => {
+    expect(buildSandboxOptions(createMockEnv(), noon)).toEqual({ keepAlive: true });
+    expect(buildSandboxOptions(createMockEnv({ SANDBOX_SLEEP_AFTER: '10m' }), noon)).toEqual({
+      sleepAfter: '10m',
+    });
+  });
+
+  it('keeps the sandbox alive during awake hours and lets it sleep outside them', () => {
+    const env = createMockEnv({ SANDBOX_AWAKE_HOURS: 'Mon-Fri 08:00-19:00' });
+
+    expect(buildSandboxOptions(env, noon)).toEqual({ keepAlive: true });
+    expect(buildSandboxOptions(env, night)).toEqual({ keepAlive: false, sleepAfter: '30m' });
+    expect(buildSandboxOptions({ ...env, SANDBOX_SLEEP_AFTER: '1h' }, night)).toEqual({
+      keepAlive: false,
+      sleepAfter: '1h',
+    });
+  });
+
+  it('reads the schedule in SANDBOX_TIMEZONE', () => {
+    const env = createMockEnv({
+      SANDBOX_AWAKE_HOURS: 'Mon-Fri 08:00-19:00',
+      SANDBOX_TIMEZONE: 'America/New_York',
+    });
+
+    // 23:00 UTC is 18:00 in New York
+    expect(buildSandboxOptions(env, night)).toEqual({ keepAlive: true });
+  });
+
+  it('ignores an invalid schedule', () => {
+    suppressConsole();
+    const env = createMockEnv({ SANDBOX_AWAKE_HOURS: 'weekdays', SANDBOX_SLEEP_AFTER: '10m' });
+
+    expect(sandboxSchedule(env, noon)).toBeNull();
+    expect(buildSandboxOptions(env, noon)).toEqual({ sleepAfter: '10m' });
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring SANDBOX_AWAKE_HOURS'),
+    );
+  });
+});
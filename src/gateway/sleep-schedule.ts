@@ -0,0 +1,207 @@
+import type { SandboxOptions } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { DEFAULT_OFF_HOURS_SLEEP_AFTER, SANDBOX_PREWARM_MS } from '../config';
+
+/**
+ * Awake hours: a weekly calendar of when the sandbox is kept warm.
+ *
+ * SANDBOX_AWAKE_HOURS lists windows such as `Mon-Fri 08:00-19:00; Sat 10:00-14:00`, read in
+ * SANDBOX_TIMEZONE (default UTC). Inside a window, and for SANDBOX_PREWARM_MS before one opens,
+ * the container is kept alive; outside them it sleeps once idle for SANDBOX_SLEEP_AFTER (default
+ * DEFAULT_OFF_HOURS_SLEEP_AFTER). The cron handler starts idle gateways in the prewarm period so
+ * the first request of the day doesn't wait for a cold start.
+ */
+
+const DAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const MINUTES_PER_DAY = 1440;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+/** One awake window, in minutes since Monday 00:00 local time */
+export interface AwakeWindow {
+  start: number;
+  /** Minutes; a window may run past midnight (e.g. 22:00-02:00) */
+  duration: number;
+}
+
+/** Where a point in time falls in the schedule */
+export interface ScheduleState {
+  /** Inside an awake window */
+  awake: boolean;
+  /** Minutes until the next window opens; 0 when awake */
+  opensIn: number;
+  /** Not awake yet, but a window opens within SANDBOX_PREWARM_MS */
+  prewarm: boolean;
+}
+
+function parseDays(spec: string): number[] {
+  const days = new Set<number>();
+  for (const part of spec.toLowerCase().split(',')) {
+    if (part === 'daily') {
+      DAYS.forEach((_, day) => days.add(day));
+      continue;
+    }
+    const [from, to = from] = part.split('-').map((name) => DAYS.indexOf(name.slice(0, 3)));
+    if (from < 0 || to < 0) {
+      throw new Error(
+        `unknown day in "${spec}" (use Mon, Tue, ... Sun, ranges like Mon-Fri, or Daily)`,
+      );
+    }
+    // Ranges may wrap around the weekend, e.g. Fri-Mon
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === to) break;
+    }
+  }
+  return DAYS.map((_, day) => day).filter((day) => days.has(day));
+}
+
+function parseTime(hours: string, minutes: string): number {
+  const value = Number(hours) * 60 + Number(minutes);
+  if (Number(minutes) > 59 || value > MINUTES_PER_DAY) {
+    throw new Error(`invalid time ${hours}:${minutes}`);
+  }
+  return value;
+}
+
+/**
+ * Parse SANDBOX_AWAKE_HOURS: `;`-separated entries of days and a time range, e.g.
+ * `Mon-Fri 08:00-19:00; Sat,Sun 10:00-14:00`. An end before the start runs past midnight.
+ *
+ * @throws If an entry can't be parsed
+ */
+export function parseAwakeHours(spec: string): AwakeWindow[] {
+  const windows: AwakeWindow[] = [];
+  for (const entry of spec
+    .split(';')
+    .map((e) => e.trim())
+    .filter(Boolean)) {
+    const match = entry.match(/^(\S+)\s+(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+    if (!match) {
+      throw new Error(`expected "<days> HH:MM-HH:MM", got "${entry}"`);
+    }
+    const start = parseTime(match[2], match[3]);
+    const end = parseTime(match[4], match[5]);
+    const duration = end > start ? end - start : end + MINUTES_PER_DAY - start;
+    for (const day of parseDays(match[1])) {
+      windows.push({ start: day * MINUTES_PER_DAY + start, duration });
+    }
+  }
+  if (windows.length === 0) {
+    throw new Error('no awake windows given');
+  }
+  return windows;
+}
+
+/** What's wrong with a SANDBOX_AWAKE_HOURS value, or null if it's valid */
+export function awakeHoursError(spec: string): string | null {
+  try {
+    parseAwakeHours(spec);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/** What's wrong with a SANDBOX_TIMEZONE value, or null if it's a known IANA time zone */
+export function timeZoneError(timeZone: string): string | null {
+  try {
+    minuteOfWeek(new Date(), timeZone);
+    return null;
+  } catch {
+    return `unknown time zone "${timeZone}" (use an IANA name such as Europe/Berlin)`;
+  }
+}
+
+/**
+ * Minutes since Monday 00:00 in the time zone
+ */
+export function minuteOfWeek(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+  const day = DAYS.indexOf(part('weekday').toLowerCase());
+  return day * MINUTES_PER_DAY + Number(part('hour')) * 60 + Number(part('minute'));
+}
+
+/**
+ * Where a minute of the week falls in the schedule
+ *
+ * @param minute - Minutes since Monday 00:00 (see minuteOfWeek)
+ */
+export function evaluateSchedule(windows: AwakeWindow[], minute: number): ScheduleState {
+  const awake = windows.some(
+    (window) => (minute - window.start + MINUTES_PER_WEEK) % MINUTES_PER_WEEK < window.duration,
+  );
+  const opensIn = awake
+    ? 0
+    : Math.min(
+        ...windows.map((window) => (window.start - minute + MINUTES_PER_WEEK) % MINUTES_PER_WEEK),
+      );
+  return { awake, opensIn, prewarm: !awake && opensIn * 60_000 <= SANDBOX_PREWARM_MS };
+}
+
+/**
+ * The schedule's state now, or null without SANDBOX_AWAKE_HOURS. An invalid schedule is logged
+ * and ignored.
+ *
+ * @param env - Worker environment bindings
+ */
+export function sandboxSchedule(env: MoltbotEnv, now: Date = new Date()): ScheduleState | null {
+  if (!env.SANDBOX_AWAKE_HOURS) {
+    return null;
+  }
+  const timeZone = env.SANDBOX_TIMEZONE || 'UTC';
+  const problem = awakeHoursError(env.SANDBOX_AWAKE_HOURS) ?? timeZoneError(timeZone);
+  if (problem) {
+    console.warn(`[Schedule] Ignoring SANDBOX_AWAKE_HOURS: ${problem}`);
+    return null;
+  }
+  return evaluateSchedule(parseAwakeHours(env.SANDBOX_AWAKE_HOURS), minuteOfWeek(now, timeZone));
+}
+
+/**
+ * Build sandbox options based on environment configuration.
+ *
+ * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
+ * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
+ * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
+ *
+ * With SANDBOX_AWAKE_HOURS the container is kept alive in (and just before) the awake windows and
+ * sleeps after SANDBOX_SLEEP_AFTER outside them, or DEFAULT_OFF_HOURS_SLEEP_AFTER if that is
+ * 'never'. The options are applied on every getSandbox(), so the cron handler moves the sandbox
+ * between the two within one run of a window opening or closing.
+ *
+ * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
+ *   npx wrangler secret put SANDBOX_SLEEP_AFTER
+ *   # Enter: 10m (or 1h, 30m, etc.)
+ */
+export function buildSandboxOptions(env: MoltbotEnv, now: Date = new Date()): SandboxOptions {
+  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
+
+  const schedule = sandboxSchedule(env, now);
+  if (schedule) {
+    if (schedule.awake || schedule.prewarm) {
+      return { keepAlive: true };
+    }
+    // keepAlive must be turned off explicitly; sleepAfter alone doesn't clear it
+    return {
+      keepAlive: false,
+      sleepAfter: sleepAfter === 'never' ? DEFAULT_OFF_HOURS_SLEEP_AFTER : sleepAfter,
+    };
+  }
+
+  // 'never' means keep the container alive indefinitely
+  if (sleepAfter === 'never') {
+    return { keepAlive: true };
+  }
+
+  // Otherwise, use the specified duration
+  return { sleepAfter };
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createSnapshot,
+  getRetentionPolicy,
+  isSnapshotDue,
+  pruneSnapshots,
+  readSnapshotManifest,
+  selectSnapshotsToKeep,
+  snapshotId,
+  snapshotIfDue,
+  snapshotKey,
+  snapshotKeyFromId,
+  type SnapshotEntry,
+} from './snapshots';
+import { SYNC_LOCK_WAIT_MS } from '../config';
+import { createMockBucket, createMockEnv, suppressConsole } from '../test-utils';
+import { getSyncLockCoordinator } from './sync-lock';
+
+function entry(createdAt: string): SnapshotEntry {
+  return { key: snapshotKey(new Date(createdAt)), createdAt, size: 10 };
+}
+
+describe('snapshotKey', () => {
+  it('uses ISO 8601 basic format without colons', () => {
+    expect(snapshotKey(new Date('2026-03-04T05:06:07.890Z'))).toBe(
+      'snapshots/20260304T050607Z.tar.gz',
+    );
+  });
+});
+
+describe('getRetentionPolicy', () => {
+  it('defaults to hourly for a day and daily for a month', () => {
+    expect(getRetentionPolicy(createMockEnv())).toEqual({ hourly: 24, daily: 30 });
+  });
+
+  it('reads overrides and ignores invalid values', () => {
+    const env = createMockEnv({ BACKUP_RETAIN_HOURLY: '6', BACKUP_RETAIN_DAILY: 'lots' });
+    expect(getRetentionPolicy(env)).toEqual({ hourly: 6, daily: 30 });
+  });
+});
+
+describe('selectSnapshotsToKeep', () => {
+  const now = new Date('2026-03-10T12:30:00Z');
+
+  it('keeps the newest snapshot per hour within the hourly window', () => {
+    const snapshots = [
+      entry('2026-03-10T12:20:00Z'),
+      entry('2026-03-10T12:05:00Z'),
+      entry('2026-03-10T11:50:00Z'),
+      entry('2026-03-10T11:10:00Z'),
+      entry('2026-03-10T09:45:00Z'),
+    ];
+    const keep = selectSnapshotsToKeep(snapshots, { hourly: 2, daily: 0 }, now);
+    expect(keep).toEqual(new Set([snapshots[0].key, snapshots[2].key]));
+  });
+
+  it('keeps the newest snapshot per day within the daily window', () => {
+    const snapshots = [
+      entry('2026-03-10T08:00:00Z'),
+      entry('2026-03-09T22:00:00Z'),
+      entry('2026-03-09T10:00:00Z'),
+      entry('2026-03-08T23:00:00Z'),
+      entry('2026-03-01T23:00:00Z'),
+    ];
+    const keep = selectSnapshotsToKeep(snapshots, { hourly: 0, daily: 3 }, now);
+    expect(keep).toEqual(new Set([snapshots[0].key, snapshots[1].key, snapshots[3].key]));
+  });
+
+  it('always keeps the newest snapshot', () => {
+    const snapshots = [entry('2026-01-01T00:00:00Z')];
+    expect(selectSnapshotsToKeep(snapshots, { hourly: 0, daily: 0 }, now)).toEqual(
+      new Set([snapshots[0].key]),
+    );
+  });
+});
+
+describe('isSnapshotDue', () => {
+  it('is due when there are no snapshots or the newest is 15 minutes old', () => {
+    const now = new Date('2026-03-10T12:30:00Z');
+    const manifest = (createdAt: string) => ({
+      version: 1 as const,
+      updatedAt: createdAt,
+      snapshots: [entry(createdAt)],
+    });
+    expect(isSnapshotDue({ version: 1, updatedAt: '', snapshots: [] }, now)).toBe(true);
+    expect(isSnapshotDue(manifest('2026-03-10T12:20:00Z'), now)).toBe(false);
+    expect(isSnapshotDue(manifest('2026-03-10T12:15:00Z'), now)).toBe(true);
+  });
+});
+
+describe('snapshot storage', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('stores snapshots under the tenant prefix and records them in the manifest', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+    await createSnapshot(env, 'team', new Uint8Array([1, 2, 3]), new Date('2026-03-10T12:00:00Z'));
+
+    expect(objects.has('tenants/team/snapshots/20260310T120000Z.tar.gz')).toBe(true);
+    const manifest = await readSnapshotManifest(env, 'team');
+    expect(manifest.snapshots).toEqual([
+      {
+        key: 'snapshots/20260310T120000Z.tar.gz',
+        createdAt: '2026-03-10T12:00:00.000Z',
+        size: 3,
+      },
+    ]);
+  });
+
+  it('only builds the tarball when a snapshot is due', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    let builds = 0;
+    const getBody = async () => {
+      builds++;
+      return new Uint8Array([1]);
+    };
+
+    expect(await snapshotIfDue(env, 'moltbot', getBody)).not.toBeNull();
+    expect(await snapshotIfDue(env, 'moltbot', getBody)).toBeNull();
+    expect(builds).toBe(1);
+  });
+
+  it('prunes snapshots outside the policy and rewrites the manifest', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      BACKUP_RETAIN_HOURLY: '1',
+      BACKUP_RETAIN_DAILY: '0',
+    });
+    await createSnapshot(env, 'moltbot', new Uint8Array([1]), new Date('2026-03-10T10:00:00Z'));
+    await createSnapshot(env, 'moltbot', new Uint8Array([2]), new Date('2026-03-10T12:00:00Z'));
+    await createSnapshot(env, 'moltbot', new Uint8Array([3]), new Date('2026-03-10T12:20:00Z'));
+
+    const result = await pruneSnapshots(env, 'moltbot', new Date('2026-03-10T12:30:00Z'));
+
+    expect(new Set(result.deleted)).toEqual(
+      new Set(['snapshots/20260310T100000Z.tar.gz', 'snapshots/20260310T120000Z.tar.gz']),
+    );
+    expect(objects.has('snapshots/20260310T122000Z.tar.gz')).toBe(true);
+    expect(objects.has('snapshots/manifest.json')).toBe(true);
+    const manifest = await readSnapshotManifest(env, 'moltbot');
+    expect(manifest.snapshots.map((s) => s.key)).toEqual(['snapshots/20260310T122000Z.tar.gz']);
+  });
+  it('deletes large backlogs in batches R2 accepts', async () => {
+    const initial: Record<string, string> = {};
+    for (let i = 0; i < 1500; i++) {
+      initial[`snapshots/backlog-${String(i).padStart(4, '0')}.tar.gz`] = 'x';
+    }
+    const { bucket, objects } = createMockBucket(initial);
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      BACKUP_RETAIN_HOURLY: '1',
+      BACKUP_RETAIN_DAILY: '0',
+    });
+
+    const result = await pruneSnapshots(env, 'moltbot');
+
+    expect(result.deleted).toHaveLength(1499);
+    expect(bucket.delete).toHaveBeenCalledTimes(2);
+    for (const [keys] of vi.mocked(bucket.delete).mock.calls) {
+      expect((keys as string[]).length).toBeLessThanOrEqual(1000);
+    }
+    expect([...objects.keys()].filter((key) => key.endsWith('.tar.gz'))).toHaveLength(1);
+  });
+
+  it('does not prune while a sync holds the sync lock', async () => {
+    vi.useFakeTimers();
+    try {
+      const { bucket, objects } = createMockBucket({
+        'snapshots/20260310T100000Z.tar.gz': 'x',
+        'snapshots/20260310T120000Z.tar.gz': 'x',
+      });
+      const env = createMockEnv({
+        MOLTBOT_BUCKET: bucket,
+        BACKUP_RETAIN_HOURLY: '1',
+        BACKUP_RETAIN_DAILY: '0',
+      });
+      const locks = getSyncLockCoordinator(env, 'moltbot');
+      await locks.acquireSyncLock('sync', 600_000);
+
+      const result = pruneSnapshots(env, 'moltbot').catch((err: Error) => err);
+      await vi.advanceTimersByTimeAsync(SYNC_LOCK_WAIT_MS + 1000);
+
+      expect(await result).toMatchObject({ message: expect.stringMatching(/still running/) });
+      expect(objects.size).toBe(2);
+      await locks.releaseSyncLock('sync');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('snapshot ids', () => {
+  it('round-trips between ids and keys and rejects anything else', () => {
+    const key = snapshotKey(new Date('2026-03-10T12:00:00Z'));
+    expect(snapshotId(key)).toBe('20260310T120000Z');
+    expect(snapshotKeyFromId('20260310T120000Z')).toBe(key);
+    expect(snapshotKeyFromId('manifest')).toBeNull();
+    expect(snapshotKeyFromId('../openclaw/backup')).toBeNull();
+  });
+});
@@ -0,0 +1,312 @@
+import type { MoltbotEnv } from '../types';
+import {
+  DEFAULT_RETAIN_DAILY,
+  DEFAULT_RETAIN_HOURLY,
+  R2_DELETE_BATCH,
+  SNAPSHOT_MIN_INTERVAL_MS,
+} from '../config';
+import { ENCRYPTION_KEY_ID_METADATA, encryptForStorage } from './backup-crypto';
+import { uploadInParts, type UploadBody } from './r2-upload';
+import { withSyncLock } from './sync-lock';
+import { getTenantR2Prefix } from './tenant';
+
+/**
+ * Point-in-time backup snapshots, relative to the tenant's R2 prefix.
+ *
+ * Snapshots live under snapshots/, apart from what the sync writes through the R2 binding
+ * (sync/manifest and blobs/, see blob-store): syncs only garbage-collect blobs/. They also stay
+ * out of openclaw/, whose legacy tree the startup script restores from and syncs delete once an
+ * encrypted backup is written.
+ */
+export const SNAPSHOT_PREFIX = 'snapshots/';
+export const SNAPSHOT_MANIFEST_KEY = `${SNAPSHOT_PREFIX}manifest.json`;
+
+const SNAPSHOT_SUFFIX = '.tar.gz';
+const SNAPSHOT_ID = /^\d{8}T\d{6}Z$/;
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+const byNewest = (a: SnapshotEntry, b: SnapshotEntry) => b.createdAt.localeCompare(a.createdAt);
+
+export interface SnapshotEntry {
+  /** Key relative to the tenant prefix, e.g. snapshots/20260101T120000Z.tar.gz */
+  key: string;
+  createdAt: string; // ISO timestamp
+  size: number;
+  /** Id of the key the snapshot is encrypted with; absent for plaintext snapshots */
+  keyId?: string;
+}
+
+export interface SnapshotManifest {
+  version: 1;
+  updatedAt: string;
+  /** Newest first */
+  snapshots: SnapshotEntry[];
+}
+
+export interface RetentionPolicy {
+  /** Keep the newest snapshot of each of the last N hours */
+  hourly: number;
+  /** Keep the newest snapshot of each of the last N days */
+  daily: number;
+}
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Retention policy from BACKUP_RETAIN_HOURLY / BACKUP_RETAIN_DAILY (defaults: 24 hours, 30 days)
+ */
+export function getRetentionPolicy(env: MoltbotEnv): RetentionPolicy {
+  return {
+    hourly: parseCount(env.BACKUP_RETAIN_HOURLY, DEFAULT_RETAIN_HOURLY),
+    daily: parseCount(env.BACKUP_RETAIN_DAILY, DEFAULT_RETAIN_DAILY),
+  };
+}
+
+/**
+ * Snapshot key for a point in time, in ISO 8601 basic format (no colons in the key)
+ */
+export function snapshotKey(date: Date): string {
+  const iso = date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+  return `${SNAPSHOT_PREFIX}${iso}${SNAPSHOT_SUFFIX}`;
+}
+
+/**
+ * Short id of a snapshot as used in admin API paths (the key without prefix and suffix)
+ */
+export function snapshotId(key: string): string {
+  return key.slice(SNAPSHOT_PREFIX.length, -SNAPSHOT_SUFFIX.length);
+}
+
+/**
+ * Key for a snapshot id, or null if the id is not a valid snapshot id
+ */
+export function snapshotKeyFromId(id: string): string | null {
+  return SNAPSHOT_ID.test(id) ? `${SNAPSHOT_PREFIX}${id}${SNAPSHOT_SUFFIX}` : null;
+}
+
+/**
+ * Fetch a snapshot tarball by id (null if the id is invalid or the snapshot doesn't exist)
+ */
+export async function getSnapshot(
+  env: MoltbotEnv,
+  tenantId: string,
+  id: string,
+): Promise<R2ObjectBody | null> {
+  const key = snapshotKeyFromId(id);
+  return key ? env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + key) : null;
+}
+
+/**
+ * Decide which snapshots to keep. For each of the last `hourly` hours and `daily` days (UTC
+ * buckets, counting the current one) the newest snapshot in that bucket is kept. The newest
+ * snapshot overall is always kept.
+ *
+ * @returns Keys of snapshots to keep
+ */
+export function selectSnapshotsToKeep(
+  snapshots: SnapshotEntry[],
+  policy: RetentionPolicy,
+  now: Date,
+): Set<string> {
+  const sorted = [...snapshots];
+  sorted.sort(byNewest);
+  const keep = new Set<string>();
+  if (sorted.length > 0) {
+    keep.add(sorted[0].key);
+  }
+
+  const applyBuckets = (sizeMs: number, count: number) => {
+    const currentBucket = Math.floor(now.getTime() / sizeMs);
+    const seen = new Set<number>();
+    for (const snapshot of sorted) {
+      const bucket = Math.floor(new Date(snapshot.createdAt).getTime() / sizeMs);
+      if (bucket > currentBucket - count && !seen.has(bucket)) {
+        seen.add(bucket);
+        keep.add(snapshot.key);
+      }
+    }
+  };
+  applyBuckets(HOUR_MS, policy.hourly);
+  applyBuckets(DAY_MS, policy.daily);
+
+  return keep;
+}
+
+/**
+ * Read a tenant's snapshot manifest (empty if none has been written yet)
+ */
+export async function readSnapshotManifest(
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<SnapshotManifest> {
+  const obj = await env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + SNAPSHOT_MANIFEST_KEY);
+  if (!obj) {
+    return { version: 1, updatedAt: new Date(0).toISOString(), snapshots: [] };
+  }
+  return (await obj.json()) as SnapshotManifest;
+}
+
+/**
+ * Replace a tenant's snapshot manifest
+ */
+export async function writeSnapshotManifest(
+  env: MoltbotEnv,
+  tenantId: string,
+  snapshots: SnapshotEntry[],
+): Promise<void> {
+  const manifest: SnapshotManifest = {
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    snapshots: [...snapshots],
+  };
+  manifest.snapshots.sort(byNewest);
+  await env.MOLTBOT_BUCKET.put(
+    getTenantR2Prefix(tenantId) + SNAPSHOT_MANIFEST_KEY,
+    JSON.stringify(manifest, null, 2),
+    { httpMetadata: { contentType: 'application/json' } },
+  );
+}
+
+/**
+ * Whether enough time has passed since the newest snapshot to take another
+ */
+export function isSnapshotDue(manifest: SnapshotManifest, now: Date): boolean {
+  const newest = manifest.snapshots[0];
+  return (
+    !newest || now.getTime() - new Date(newest.createdAt).getTime() >= SNAPSHOT_MIN_INTERVAL_MS
+  );
+}
+
+/**
+ * Store a backup tarball as a new snapshot and add it to the manifest.
+ * Streamed bodies are uploaded in parts, like the latest backup, and encrypted when
+ * BACKUP_ENCRYPTION_KEY is set.
+ */
+export async function createSnapshot(
+  env: MoltbotEnv,
+  tenantId: string,
+  body: UploadBody,
+  createdAt: Date = new Date(),
+): Promise<SnapshotEntry> {
+  const key = snapshotKey(createdAt);
+  const stored = await encryptForStorage(env, body);
+  const { bytes } = await uploadInParts(
+    env.MOLTBOT_BUCKET,
+    getTenantR2Prefix(tenantId) + key,
+    stored.body,
+    {
+      httpMetadata: { contentType: 'application/gzip' },
+      customMetadata: {
+        'created-at': createdAt.toISOString(),
+        ...(stored.keyId && { [ENCRYPTION_KEY_ID_METADATA]: stored.keyId }),
+      },
+    },
+  );
+  const entry: SnapshotEntry = { key, createdAt: createdAt.toISOString(), size: bytes };
+  if (stored.keyId) {
+    entry.keyId = stored.keyId;
+  }
+
+  const manifest = await readSnapshotManifest(env, tenantId);
+  await writeSnapshotManifest(env, tenantId, [
+    entry,
+    ...manifest.snapshots.filter((s) => s.key !== entry.key),
+  ]);
+  console.log('[Snapshots] Created', entry.key, 'size:', entry.size, 'bytes');
+  return entry;
+}
+
+/**
+ * Take a snapshot if the newest one is older than SNAPSHOT_MIN_INTERVAL_MS.
+ * Best-effort: failures are logged and never fail the sync that triggered them.
+ *
+ * @param getBody - Produces the backup tarball (only called when a snapshot is due)
+ */
+export async function snapshotIfDue(
+  env: MoltbotEnv,
+  tenantId: string,
+  getBody: () => Promise<UploadBody | null>,
+): Promise<SnapshotEntry | null> {
+  try {
+    const now = new Date();
+    if (!isSnapshotDue(await readSnapshotManifest(env, tenantId), now)) {
+      return null;
+    }
+    const body = await getBody();
+    if (!body) {
+      return null;
+    }
+    return await createSnapshot(env, tenantId, body, now);
+  } catch (err) {
+    console.error('[Snapshots] Failed to create snapshot:', err);
+    return null;
+  }
+}
+
+/**
+ * Delete snapshots outside the retention policy and rewrite the manifest.
+ * The bucket listing (not the manifest) is the source of truth, so snapshots missing from the
+ * manifest are pruned too. Runs under the sync lock, so a snapshot a sync adds meanwhile isn't
+ * dropped from the rewritten manifest.
+ *
+ * @throws If another sync holds the lock for longer than SYNC_LOCK_WAIT_MS
+ */
+export async function pruneSnapshots(
+  env: MoltbotEnv,
+  tenantId: string,
+  now: Date = new Date(),
+): Promise<{ kept: number; deleted: string[] }> {
+  const pruned = await withSyncLock(env, tenantId, async () => {
+    const prefix = getTenantR2Prefix(tenantId);
+    const manifest = await readSnapshotManifest(env, tenantId);
+    const known = new Map(manifest.snapshots.map((s) => [s.key, s]));
+
+    const snapshots: SnapshotEntry[] = [];
+    let cursor: string | undefined;
+    do {
+      // eslint-disable-next-line no-await-in-loop -- paginated listing
+      const page = await env.MOLTBOT_BUCKET.list({ prefix: prefix + SNAPSHOT_PREFIX, cursor });
+      for (const obj of page.objects) {
+        const key = obj.key.slice(prefix.length);
+        if (!key.endsWith(SNAPSHOT_SUFFIX)) continue;
+        snapshots.push(
+          known.get(key) ?? { key, createdAt: obj.uploaded.toISOString(), size: obj.size },
+        );
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    const keep = selectSnapshotsToKeep(snapshots, getRetentionPolicy(env), now);
+    const deleted = snapshots.filter((s) => !keep.has(s.key)).map((s) => s.key);
+    if (deleted.length > 0) {
+      for (let i = 0; i < deleted.length; i += R2_DELETE_BATCH) {
+        // eslint-disable-next-line no-await-in-loop -- batches in order
+        await env.MOLTBOT_BUCKET.delete(
+          deleted.slice(i, i + R2_DELETE_BATCH).map((key) => prefix + key),
+        );
+      }
+      console.log('[Snapshots] Pruned', deleted.length, 'snapshot(s) for tenant', tenantId);
+    }
+
+    if (deleted.length > 0 || snapshots.length !== manifest.snapshots.length) {
+      await writeSnapshotManifest(
+        env,
+        tenantId,
+        snapshots.filter((s) => keep.has(s.key)),
+      );
+    }
+    return { kept: keep.size, deleted };
+  });
+  if (!pruned) {
+    throw new Error('Another sync is still running, snapshots were not pruned');
+  }
+  return pruned;
+}
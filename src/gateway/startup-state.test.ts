@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  MemoryStateStorage,
+  StartupStateStore,
+  _resetStartupState,
+  clearStartupFailure,
+  getStartupCoordinator,
+  getStartupFailure,
+  getStartupState,
+  withStartupLock,
+} from './startup-state';
+import { createMockEnv } from '../test-utils';
+
+describe('StartupStateStore', () => {
+  let now: number;
+  let store: StartupStateStore;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    store = new StartupStateStore(new MemoryStateStorage(), () => now);
+  });
+
+  it('starts empty', async () => {
+    const state = await store.getState();
+    expect(state.lock).toBeNull();
+    expect(state.lastFailure).toBeNull();
+    expect(state.attempts).toBe(0);
+  });
+
+  it('grants the lock to one owner at a time', async () => {
+    expect(await store.acquire('a', 1000)).toBe(true);
+    expect(await store.acquire('b', 1000)).toBe(false);
+    await store.release('a');
+    expect(await store.acquire('b', 1000)).toBe(true);
+  });
+
+  it('lets another owner take over an expired lease', async () => {
+    await store.acquire('a', 1000);
+    now += 1001;
+    expect(await store.acquire('b', 1000)).toBe(true);
+  });
+
+  it('records attempts and phase timestamps for the lock owner', async () => {
+    await store.acquire('a', 1000);
+    await store.beginAttempt('a');
+    now += 50;
+    await store.recordPhase('a', 'port_listening');
+
+    const state = await store.getState();
+    expect(state.attempts).toBe(1);
+    expect(state.startedAt).toBe(1_000_000);
+    expect(state.phases.port_listening).toBe(1_000_050);
+    expect(state.readyAt).toBe(1_000_050);
+  });
+
+  it('keeps phases reached under the current lock when a new attempt begins', async () => {
+    await store.acquire('a', 1000);
+    await store.recordPhase('a', 'port_listening');
+    await store.release('a');
+
+    now += 100;
+    await store.acquire('b', 1000);
+    await store.recordPhase('b', 'r2_mount');
+    now += 10;
+    await store.beginAttempt('b');
+
+    const state = await store.getState();
+    expect(state.startedAt).toBe(1_000_100);
+    expect(state.phases).toEqual({ r2_mount: 1_000_100 });
+  });
+
+  it('ignores updates from an owner that lost the lock', async () => {
+    await store.acquire('a', 1000);
+    now += 1001;
+    await store.acquire('b', 1000);
+    await store.release('a', { message: 'stale' });
+
+    const state = await store.getState();
+    expect(state.lock?.owner).toBe('b');
+    expect(state.lastFailure).toBeNull();
+  });
+
+  it('renews the lease when the owner records progress', async () => {
+    await store.acquire('a', 1000);
+    now += 800;
+    await store.recordPhase('a', 'r2_mount');
+    now += 800;
+    await store.beginAttempt('a');
+    now += 800;
+
+    expect(await store.acquire('b', 1000)).toBe(false);
+    now += 201;
+    expect(await store.acquire('b', 1000)).toBe(true);
+  });
+
+  it('stores the failure on release and clears it on the next acquire', async () => {
+    await store.acquire('a', 1000);
+    await store.release('a', { message: 'boom', hint: 'try again' });
+    expect((await store.getState()).lastFailure).toEqual({
+      message: 'boom',
+      hint: 'try again',
+      at: 1_000_000,
+    });
+
+    await store.acquire('b', 1000);
+    expect((await store.getState()).lastFailure).toBeNull();
+  });
+});
+
+describe('withStartupLock', () => {
+  beforeEach(() => {
+    _resetStartupState();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one in-flight promise between concurrent callers', async () => {
+    const env = createMockEnv();
+    const fn = vi.fn().mockResolvedValue('ok');
+
+    const [a, b] = await Promise.all([
+      withStartupLock(env, 'moltbot', fn),
+      withStartupLock(env, 'moltbot', fn),
+    ]);
+
+    expect(a).toBe('ok');
+    expect(b).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('records the failure with a hint and rethrows', async () => {
+    const env = createMockEnv();
+
+    await expect(
+      withStartupLock(env, 'moltbot', () => Promise.reject(new Error('heap out of memory'))),
+    ).rejects.toThrow('heap out of memory');
+
+    const failure = await getStartupFailure(env, 'moltbot');
+    expect(failure?.message).toBe('heap out of memory');
+    expect(failure?.hint).toContain('out of memory');
+
+    await clearStartupFailure(env, 'moltbot');
+    expect(await getStartupFailure(env, 'moltbot')).toBeNull();
+  });
+
+  it('returns the result when releasing the lock fails', async () => {
+    const env = createMockEnv();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const release = vi
+      .spyOn(StartupStateStore.prototype, 'release')
+      .mockRejectedValueOnce(new Error('storage unavailable'));
+
+    await expect(withStartupLock(env, 'moltbot', async () => 'ok')).resolves.toBe('ok');
+    expect(release).toHaveBeenCalledTimes(1);
+    release.mockRestore();
+  });
+
+  it('keeps tenants independent', async () => {
+    const env = createMockEnv();
+    await withStartupLock(env, 'a', () => Promise.reject(new Error('a failed'))).catch(() => {});
+
+    expect(await getStartupFailure(env, 'a')).not.toBeNull();
+    expect(await getStartupFailure(env, 'b')).toBeNull();
+  });
+
+  it('waits for a lock held by another isolate before running', async () => {
+    vi.useFakeTimers();
+    const env = createMockEnv();
+    const coordinator = getStartupCoordinator(env, 'moltbot');
+    await coordinator.acquire('other-isolate', 60_000);
+
+    const fn = vi.fn().mockResolvedValue('ok');
+    const promise = withStartupLock(env, 'moltbot', fn);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fn).not.toHaveBeenCalled();
+
+    await coordinator.release('other-isolate');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(promise).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect((await getStartupState(env, 'moltbot')).lock).toBeNull();
+  });
+
+  it('surfaces a failure recorded by another isolate while waiting', async () => {
+    vi.useFakeTimers();
+    const env = createMockEnv();
+    const coordinator = getStartupCoordinator(env, 'moltbot');
+    await coordinator.acquire('other-isolate', 60_000);
+
+    const fn = vi.fn();
+    const settled = withStartupLock(env, 'moltbot', fn).catch((err: Error) => err);
+
+    await coordinator.release('other-isolate', { message: 'port never opened' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(((await settled) as Error).message).toBe('port never opened');
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
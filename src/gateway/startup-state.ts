@@ -1,7 +1,13 @@
 /**
- * Tracks in-flight gateway startup and last failure for a single Worker isolate.
- * Used to: (1) deduplicate concurrent startup attempts, (2) surface failure to /api/status and loading page.
+ * Gateway startup coordination shared by every Worker isolate.
+ *
+ * State (single-flight lock, last failure, phase timestamps, attempt count) lives in the
+ * GatewayState Durable Object, one instance per tenant, so /api/status and /api/retry-startup
+ * see the same view no matter which isolate serves them. When the GATEWAY_STATE binding is
+ * missing (unit tests, older deployments) an isolate-local store with the same API is used.
  */
+import type { MoltbotEnv } from '../types';
+import { PRE_STOP_SYNC_TIMEOUT_MS, STARTUP_TIMEOUT_MS, SYNC_LOCK_WAIT_MS } from '../config';
 
 export interface StartupFailure {
   message: string;
@@ -9,59 +15,317 @@ export interface StartupFailure {
   at: number; // timestamp
 }
 
-let inFlightStartup: Promise<unknown> | null = null;
-let lastFailure: StartupFailure | null = null;
+/** Named steps of a gateway start, recorded with the time they were reached */
+export type StartupPhase = 'r2_mount' | 'process_start' | 'port_listening';
 
-export function getStartupFailure(): StartupFailure | null {
-  return lastFailure;
+export interface StartupState {
+  /**
+   * Holder of the single-flight lock, or null when no startup is running. The lease is renewed
+   * for another leaseMs whenever the owner records progress.
+   */
+  lock: { owner: string; acquiredAt: number; expiresAt: number; leaseMs?: number } | null;
+  lastFailure: StartupFailure | null;
+  /** Number of times a new gateway process has been started */
+  attempts: number;
+  /** When the current (or last) attempt started (i.e. when its lock was acquired) */
+  startedAt: number | null;
+  /** When the gateway was last confirmed listening */
+  readyAt: number | null;
+  phases: Partial<Record<StartupPhase, number>>;
 }
 
-export function clearStartupFailure(): void {
-  lastFailure = null;
+/**
+ * Operations on the startup state. Implemented by StartupStateStore and exposed over RPC by
+ * the GatewayState Durable Object.
+ */
+export interface StartupCoordinator {
+  getState(): Promise<StartupState>;
+  acquire(owner: string, leaseMs: number): Promise<boolean>;
+  beginAttempt(owner: string): Promise<void>;
+  recordPhase(owner: string, phase: StartupPhase): Promise<void>;
+  release(owner: string, failure?: { message: string; hint?: string }): Promise<void>;
+  clearFailure(): Promise<void>;
 }
 
-export function setStartupFailure(message: string, hint?: string): void {
-  lastFailure = { message, hint, at: Date.now() };
+/** Minimal key/value storage (DurableObjectStorage satisfies this) */
+export interface StateStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
 }
 
-export function isStartupInProgress(): boolean {
-  return inFlightStartup !== null;
+const STATE_KEY = 'startup';
+
+/**
+ * How long a startup lock is held before another isolate may take over. Renewed at each phase,
+ * so it must cover the longest stretch between two of them: waiting for an existing gateway,
+ * syncing before killing it, then waiting for the sync lock.
+ */
+const STARTUP_LEASE_MS = STARTUP_TIMEOUT_MS + PRE_STOP_SYNC_TIMEOUT_MS + SYNC_LOCK_WAIT_MS + 60_000;
+
+/** How often an isolate waiting on another isolate's startup re-checks the state */
+const LOCK_POLL_INTERVAL_MS = 1000;
+
+function emptyState(): StartupState {
+  return {
+    lock: null,
+    lastFailure: null,
+    attempts: 0,
+    startedAt: null,
+    readyAt: null,
+    phases: {},
+  };
 }
 
 /**
- * Run a startup function (e.g. ensureMoltbotGateway) with a single-flight lock.
- * If the same startup is already in progress, returns the existing promise.
- * On rejection, stores the error for /api/status and rethrows.
+ * Storage-backed startup state. Each method is a read-modify-write of a single key, which the
+ * Durable Object's input gates make atomic.
  */
-export async function withStartupLock<T>(fn: () => Promise<T>): Promise<T> {
-  if (inFlightStartup) {
-    return inFlightStartup as Promise<T>;
-  }
-  clearStartupFailure();
-  const promise = fn().then(
-    (result) => {
-      inFlightStartup = null;
-      return result;
-    },
-    (err: unknown) => {
-      inFlightStartup = null;
-      const message = err instanceof Error ? err.message : String(err);
-      let hint = 'Check worker logs: npx wrangler tail';
-      if (message.includes('ANTHROPIC_API_KEY') || message.includes('API key')) {
-        hint = 'Set ANTHROPIC_API_KEY: npx wrangler secret put ANTHROPIC_API_KEY';
-      } else if (message.includes('heap out of memory') || message.includes('OOM')) {
-        hint = 'Gateway ran out of memory. Try again.';
+export class StartupStateStore implements StartupCoordinator {
+  constructor(
+    private readonly storage: StateStorage,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async getState(): Promise<StartupState> {
+    const state = (await this.storage.get<StartupState>(STATE_KEY)) ?? emptyState();
+    if (state.lock && state.lock.expiresAt <= this.now()) {
+      state.lock = null;
+    }
+    return state;
+  }
+
+  async acquire(owner: string, leaseMs: number): Promise<boolean> {
+    const state = await this.getState();
+    if (state.lock && state.lock.owner !== owner) {
+      return false;
+    }
+    state.lock = { owner, acquiredAt: this.now(), expiresAt: this.now() + leaseMs, leaseMs };
+    state.lastFailure = null;
+    await this.storage.put(STATE_KEY, state);
+    return true;
+  }
+
+  async beginAttempt(owner: string): Promise<void> {
+    await this.update(owner, (state) => {
+      // Drop phases from earlier attempts but keep those reached under this lock (e.g. r2_mount)
+      const since = state.lock?.acquiredAt ?? this.now();
+      state.attempts += 1;
+      state.startedAt = since;
+      state.readyAt = null;
+      state.phases = Object.fromEntries(
+        Object.entries(state.phases).filter(([, at]) => at !== undefined && at >= since),
+      );
+    });
+  }
+
+  async recordPhase(owner: string, phase: StartupPhase): Promise<void> {
+    await this.update(owner, (state) => {
+      state.phases[phase] = this.now();
+      if (phase === 'port_listening') {
+        state.readyAt = this.now();
       }
-      setStartupFailure(message, hint);
-      throw err;
-    },
-  );
-  inFlightStartup = promise;
+    });
+  }
+
+  async release(owner: string, failure?: { message: string; hint?: string }): Promise<void> {
+    await this.update(owner, (state) => {
+      state.lock = null;
+      if (failure) {
+        state.lastFailure = { message: failure.message, hint: failure.hint, at: this.now() };
+      }
+    });
+  }
+
+  async clearFailure(): Promise<void> {
+    const state = await this.getState();
+    state.lastFailure = null;
+    await this.storage.put(STATE_KEY, state);
+  }
+
+  /**
+   * Apply a mutation only if `owner` still holds the lock (a stale owner must not clobber state),
+   * renewing the lease if the lock is kept
+   */
+  private async update(owner: string, mutate: (state: StartupState) => void): Promise<void> {
+    const state = await this.getState();
+    if (state.lock?.owner !== owner) {
+      return;
+    }
+    mutate(state);
+    if (state.lock?.leaseMs) {
+      state.lock.expiresAt = this.now() + state.lock.leaseMs;
+    }
+    await this.storage.put(STATE_KEY, state);
+  }
+}
+
+/** Map-backed StateStorage for the isolate-local fallback */
+export class MemoryStateStorage implements StateStorage {
+  private readonly data = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = this.data.get(key);
+    return value === undefined ? undefined : (structuredClone(value) as T);
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    this.data.set(key, structuredClone(value));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.data.delete(key);
+  }
+}
+
+/** Isolate-local storage (per tenant) used when the GATEWAY_STATE binding is not configured */
+const localStorages = new Map<string, MemoryStateStorage>();
+
+/** In-flight startups started by this isolate, so concurrent local callers share one promise */
+const inFlightStartups = new Map<string, Promise<unknown>>();
+
+/**
+ * Get the GatewayState Durable Object stub for a tenant, or null when the binding is missing.
+ */
+export function getGatewayStateStub(env: MoltbotEnv, tenantId: string) {
+  if (!env.GATEWAY_STATE) {
+    return null;
+  }
+  return env.GATEWAY_STATE.get(env.GATEWAY_STATE.idFromName(tenantId));
+}
+
+/**
+ * Isolate-local storage for a tenant, used when GATEWAY_STATE is not bound.
+ */
+export function getLocalStateStorage(tenantId: string): StateStorage {
+  let storage = localStorages.get(tenantId);
+  if (!storage) {
+    storage = new MemoryStateStorage();
+    localStorages.set(tenantId, storage);
+  }
+  return storage;
+}
+
+/**
+ * Get the startup coordinator for a tenant: the GatewayState Durable Object when bound,
+ * otherwise an isolate-local store.
+ */
+export function getStartupCoordinator(env: MoltbotEnv, tenantId: string): StartupCoordinator {
+  const stub = getGatewayStateStub(env, tenantId);
+  if (stub) {
+    return stub as unknown as StartupCoordinator;
+  }
+  return new StartupStateStore(getLocalStateStorage(tenantId));
+}
+
+export async function getStartupState(env: MoltbotEnv, tenantId: string): Promise<StartupState> {
+  return getStartupCoordinator(env, tenantId).getState();
+}
+
+export async function getStartupFailure(
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<StartupFailure | null> {
+  const state = await getStartupState(env, tenantId);
+  return state.lastFailure;
+}
+
+export async function clearStartupFailure(env: MoltbotEnv, tenantId: string): Promise<void> {
+  await getStartupCoordinator(env, tenantId).clearFailure();
+}
+
+export async function isStartupInProgress(env: MoltbotEnv, tenantId: string): Promise<boolean> {
+  const state = await getStartupState(env, tenantId);
+  return state.lock !== null;
+}
+
+/**
+ * Handle passed to the startup function so it can record progress while holding the lock; each
+ * call also renews the lease. Recording is best-effort: a storage hiccup must not fail the
+ * startup itself.
+ */
+export interface StartupLease {
+  beginAttempt(): Promise<void>;
+  phase(name: StartupPhase): Promise<void>;
+}
+
+function failureHint(message: string): string {
+  if (message.includes('ANTHROPIC_API_KEY') || message.includes('API key')) {
+    return 'Set ANTHROPIC_API_KEY: npx wrangler secret put ANTHROPIC_API_KEY';
+  }
+  if (message.includes('heap out of memory') || message.includes('OOM')) {
+    return 'Gateway ran out of memory. Try again.';
+  }
+  return 'Check worker logs: npx wrangler tail';
+}
+
+async function runWithLock<T>(
+  env: MoltbotEnv,
+  tenantId: string,
+  fn: (lease: StartupLease) => Promise<T>,
+): Promise<T> {
+  const coordinator = getStartupCoordinator(env, tenantId);
+  const owner = crypto.randomUUID();
+  const waitStartedAt = Date.now();
+
+  // Another isolate may hold the lock: wait for it to finish, then take the lock ourselves.
+  // Re-running fn after a successful startup is cheap (it finds the running process).
+  let acquired = await coordinator.acquire(owner, STARTUP_LEASE_MS);
+  while (!acquired) {
+    // eslint-disable-next-line no-await-in-loop -- intentional sequential polling
+    await new Promise((r) => setTimeout(r, LOCK_POLL_INTERVAL_MS));
+    // eslint-disable-next-line no-await-in-loop
+    const state = await coordinator.getState();
+    if (!state.lock && state.lastFailure && state.lastFailure.at >= waitStartedAt) {
+      throw new Error(state.lastFailure.message);
+    }
+    // eslint-disable-next-line no-await-in-loop
+    acquired = await coordinator.acquire(owner, STARTUP_LEASE_MS);
+  }
+
+  const lease: StartupLease = {
+    beginAttempt: () => coordinator.beginAttempt(owner).catch(() => {}),
+    phase: (name) => coordinator.recordPhase(owner, name).catch(() => {}),
+  };
+
+  let result: T;
+  try {
+    result = await fn(lease);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await coordinator.release(owner, { message, hint: failureHint(message) }).catch(() => {});
+    throw err;
+  }
+  // The gateway is up; if the release fails the lease still expires on its own
+  await coordinator.release(owner).catch((err) => {
+    console.error('[Startup] Failed to release the startup lock:', err);
+  });
+  return result;
+}
+
+/**
+ * Run a startup function (e.g. ensureMoltbotGateway) with a single-flight lock shared across isolates.
+ * Concurrent callers in this isolate share the in-flight promise; callers in other isolates wait
+ * for the lock. On rejection, the error is stored for /api/status and rethrown.
+ */
+export async function withStartupLock<T>(
+  env: MoltbotEnv,
+  tenantId: string,
+  fn: (lease: StartupLease) => Promise<T>,
+): Promise<T> {
+  const inFlight = inFlightStartups.get(tenantId);
+  if (inFlight) {
+    return inFlight as Promise<T>;
+  }
+  const promise = runWithLock(env, tenantId, fn).finally(() => {
+    inFlightStartups.delete(tenantId);
+  });
+  inFlightStartups.set(tenantId, promise);
   return promise;
 }
 
 /** For tests: reset state between runs */
 export function _resetStartupState(): void {
-  inFlightStartup = null;
-  lastFailure = null;
+  inFlightStartups.clear();
+  localStorages.clear();
 }
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { failureStreak, getAlertThreshold, syncAlertFor } from './sync-alert';
+import { recordSync, type SyncHistoryEntry } from './sync-history';
+import { createMockBucket, createMockEnv, suppressConsole } from '../test-utils';
+
+vi.mock('./sync', () => ({ syncToR2: vi.fn() }));
+
+function entry(minute: number, success: boolean, error?: string): SyncHistoryEntry {
+  return {
+    startedAt: new Date(Date.UTC(2026, 2, 10, 12, minute)).toISOString(),
+    trigger: 'cron',
+    success,
+    durationMs: 1000,
+    ...(error && { error }),
+  };
+}
+
+// Newest first, like the stored history
+const failures = (count: number, from = 0) =>
+  Array.from({ length: count }, (_, i) => entry(from + count - i, false, `error ${count - i}`));
+
+describe('syncAlertFor', () => {
+  it('alerts once, when the failure streak reaches the threshold', () => {
+    const history = [...failures(3), entry(0, true)];
+
+    expect(failureStreak(history)).toBe(3);
+    expect(syncAlertFor(history.slice(1), 'moltbot', 3)).toBeNull();
+    expect(syncAlertFor(history, 'moltbot', 3)).toEqual({
+      event: 'sync.failing',
+      tenantId: 'moltbot',
+      consecutiveFailures: 3,
+      failingSince: '2026-03-10T12:01:00.000Z',
+      lastError: 'error 3',
+      text: 'Backups for tenant moltbot have failed 3 times in a row: error 3',
+    });
+    expect(syncAlertFor([entry(4, false), ...history], 'moltbot', 3)).toBeNull();
+  });
+
+  it('reports recovery only after a streak that alerted', () => {
+    expect(syncAlertFor([entry(5, true), ...failures(2)], 'moltbot', 3)).toBeNull();
+    expect(syncAlertFor([entry(5, true), ...failures(4)], 'team', 3)).toMatchObject({
+      event: 'sync.recovered',
+      consecutiveFailures: 4,
+      failingSince: '2026-03-10T12:01:00.000Z',
+      text: 'Backups for tenant team are succeeding again after 4 failed syncs.',
+    });
+  });
+
+  it('reads the threshold from SYNC_ALERT_THRESHOLD, ignoring invalid values', () => {
+    expect(getAlertThreshold(createMockEnv())).toBe(3);
+    expect(getAlertThreshold(createMockEnv({ SYNC_ALERT_THRESHOLD: '5' }))).toBe(5);
+    expect(getAlertThreshold(createMockEnv({ SYNC_ALERT_THRESHOLD: '0' }))).toBe(3);
+  });
+});
+
+describe('alert webhook', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    suppressConsole();
+    fetchMock.mockReset().mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the alert when a recorded sync completes the failure streak', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      SYNC_ALERT_WEBHOOK_URL: 'https://hooks.example.com/sync',
+      SYNC_ALERT_THRESHOLD: '2',
+    });
+
+    await recordSync(env, 'moltbot', entry(1, false, 'Binding backup failed'));
+    expect(fetchMock).not.toHaveBeenCalled();
+    await recordSync(env, 'moltbot', entry(2, false, 'Binding backup failed'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/sync');
+    expect(JSON.parse(init.body)).toMatchObject({
+      event: 'sync.failing',
+      consecutiveFailures: 2,
+      lastError: 'Binding backup failed',
+    });
+  });
+
+  it('does not fail the sync record when the webhook is unreachable', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      SYNC_ALERT_WEBHOOK_URL: 'https://hooks.example.com/sync',
+      SYNC_ALERT_THRESHOLD: '1',
+    });
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(recordSync(env, 'moltbot', entry(1, false))).resolves.toBeUndefined();
+
+    expect(objects.has('.sync-history.json')).toBe(true);
+  });
+});
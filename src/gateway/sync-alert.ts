@@ -0,0 +1,116 @@
+import type { MoltbotEnv } from '../types';
+import { DEFAULT_SYNC_ALERT_THRESHOLD, SYNC_ALERT_TIMEOUT_MS } from '../config';
+import type { SyncHistoryEntry } from './sync-history';
+
+/**
+ * Body of the JSON POST sent to SYNC_ALERT_WEBHOOK_URL. `text` is a one-line summary, so the
+ * webhook can point straight at a Slack-style incoming webhook.
+ */
+export interface SyncAlert {
+  event: 'sync.failing' | 'sync.recovered';
+  tenantId: string;
+  /** Length of the failure streak (for sync.recovered, the streak that just ended) */
+  consecutiveFailures: number;
+  /** Start of the first failed sync in the streak */
+  failingSince: string;
+  /** Error of the most recent failed sync */
+  lastError?: string;
+  text: string;
+}
+
+/**
+ * Number of failed syncs at the head of a newest-first history
+ */
+export function failureStreak(history: SyncHistoryEntry[]): number {
+  const index = history.findIndex((entry) => entry.success);
+  return index === -1 ? history.length : index;
+}
+
+/**
+ * Failure streak length that triggers an alert, from SYNC_ALERT_THRESHOLD (default 3)
+ */
+export function getAlertThreshold(env: MoltbotEnv): number {
+  const parsed = Number.parseInt(env.SYNC_ALERT_THRESHOLD ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_SYNC_ALERT_THRESHOLD;
+}
+
+/**
+ * The alert due after a sync was recorded, if any. A streak alerts once, when it reaches the
+ * threshold, and the first successful sync after an alerted streak sends sync.recovered.
+ *
+ * @param history - Sync history, newest first, including the sync just recorded
+ */
+export function syncAlertFor(
+  history: SyncHistoryEntry[],
+  tenantId: string,
+  threshold: number,
+): SyncAlert | null {
+  const [latest, ...previous] = history;
+  if (!latest) {
+    return null;
+  }
+
+  if (latest.success) {
+    const ended = failureStreak(previous);
+    if (ended < threshold) {
+      return null;
+    }
+    return {
+      event: 'sync.recovered',
+      tenantId,
+      consecutiveFailures: ended,
+      failingSince: previous[ended - 1].startedAt,
+      ...(previous[0].error && { lastError: previous[0].error }),
+      text: `Backups for tenant ${tenantId} are succeeding again after ${ended} failed syncs.`,
+    };
+  }
+
+  const streak = failureStreak(history);
+  if (streak !== threshold) {
+    return null;
+  }
+  return {
+    event: 'sync.failing',
+    tenantId,
+    consecutiveFailures: streak,
+    failingSince: history[streak - 1].startedAt,
+    ...(latest.error && { lastError: latest.error }),
+    text:
+      `Backups for tenant ${tenantId} have failed ${streak} times in a row` +
+      (latest.error ? `: ${latest.error}` : '.'),
+  };
+}
+
+/**
+ * POST the alert due for a tenant's sync history, if any, to SYNC_ALERT_WEBHOOK_URL.
+ * Best-effort: delivery problems are logged and never fail the sync.
+ */
+export async function notifySyncAlert(
+  env: MoltbotEnv,
+  tenantId: string,
+  history: SyncHistoryEntry[],
+): Promise<void> {
+  if (!env.SYNC_ALERT_WEBHOOK_URL) {
+    return;
+  }
+  const alert = syncAlertFor(history, tenantId, getAlertThreshold(env));
+  if (!alert) {
+    return;
+  }
+
+  try {
+    const response = await fetch(env.SYNC_ALERT_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(SYNC_ALERT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error('[SyncAlert] Webhook returned', response.status, 'for', alert.event);
+      return;
+    }
+    console.log('[SyncAlert] Sent', alert.event, 'for tenant', tenantId);
+  } catch (err) {
+    console.error('[SyncAlert] Failed to send', alert.event, 'for tenant', tenantId, err);
+  }
+}
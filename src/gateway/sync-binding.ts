@@ -1,46 +1,138 @@
-import type { Sandbox } from '@cloudflare/sandbox';
+import { streamFile, type Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
+import { BACKUP_ARCHIVE_TIMEOUT_MS, DEFAULT_TENANT_ID } from '../config';
+import { ENCRYPTION_KEY_ID_METADATA, encryptForStorage } from './backup-crypto';
+import {
+  parseManifestOutput,
+  sameContents,
+  verificationResult,
+  verifyIfDue,
+  type BackupVerification,
+} from './backup-verify';
+import {
+  blobKey,
+  deleteBlobs,
+  manifestArchive,
+  parseFileList,
+  readBlob,
+  readSyncManifest,
+  sameFiles,
+  totalBytes,
+  writeSyncManifest,
+  type FileEntry,
+  type SyncManifest,
+} from './blob-store';
+import { uploadInParts } from './r2-upload';
+import { snapshotIfDue } from './snapshots';
+import { getTenantR2Prefix } from './tenant';
 import { waitForProcess } from './utils';
 
-const BACKUP_KEY = 'openclaw/backup.tar.gz';
-const LAST_SYNC_KEY = 'openclaw/.last-sync';
+/**
+ * Backup tarball written by syncs before the content-addressed store, relative to the tenant's
+ * R2 prefix. Still restored when a tenant has no sync manifest yet.
+ */
+export const BACKUP_KEY = 'openclaw/backup.tar.gz';
+/** Last sync timestamp written alongside BACKUP_KEY, relative to the tenant's R2 prefix */
+export const LAST_SYNC_KEY = 'openclaw/.last-sync';
+
+/**
+ * Written by start-openclaw.sh when the backup failed verification and was not restored. Syncs
+ * are paused while it exists, so the fresh state the gateway started with doesn't replace the
+ * backup; a full snapshot restore removes it.
+ */
+export const RESTORE_FAILED_PATH = '/root/.moltbot-restore-failed';
+
+/** Exit code of the staging command when syncs are paused by RESTORE_FAILED_PATH */
+const RESTORE_FAILED_EXIT = 4;
+
+const MB = 1024 * 1024;
 
 export interface SyncResult {
   success: boolean;
   lastSync?: string;
   error?: string;
   details?: string;
+  /** Files in the backup and their total size */
+  files?: number;
+  bytes?: number;
+  /** Blobs (distinct file contents) and bytes uploaded by this sync */
+  uploadedFiles?: number;
+  uploadedBytes?: number;
+  /** Nothing changed since the last sync, so nothing was written */
+  skipped?: boolean;
+  /** Set when this sync also verified the R2 copy */
+  verification?: BackupVerification;
+}
+
+export interface SyncOptions {
+  /** Verify the R2 copy even if the last verification is recent */
+  verify?: boolean;
+  /** Give up waiting for another sync of the tenant when aborted (see syncToR2) */
+  signal?: AbortSignal;
 }
 
 /**
- * Decode base64 string to Uint8Array (binary-safe for gzip).
+ * Staging directories are this prefix plus an ID per sync. Each holds a copy of the backed-up
+ * files that the blobs are read from, so a file the gateway rewrites mid-sync can't end up under
+ * the wrong hash, and its file list is written next to it (`<dir>.files`).
  */
-function base64ToBytes(base64: string): Uint8Array {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
+const STAGING_PREFIX = '/tmp/moltbot-sync-';
+
+/**
+ * Result of staging the backed-up files in the container
+ */
+export type StageResult =
+  | { success: true; files: FileEntry[] }
+  | { success: false; error: string; details?: string };
+
+/** File list of a staging directory (see blob-store.ts for the format) */
+function fileListPath(dir: string): string {
+  return `${dir}.files`;
 }
 
 /**
- * Sync OpenClaw config and workspace to R2 via Worker binding (no FUSE mount).
- * Runs tar in the container, captures base64 stdout, decodes and puts to R2.
- * More efficient than mount + rsync when FUSE is unavailable or for simpler ops.
- *
- * @param sandbox - The sandbox instance
- * @param env - Worker environment bindings (must have MOLTBOT_BUCKET)
- * @returns SyncResult
+ * Shell command that lists every file under `dir` with its hash, size and mode into its file
+ * list and prints the summary line (`# <files> <bytes>`).
  */
-export async function syncToR2Binding(
+function listFilesCommand(dir: string): string {
+  const list = fileListPath(dir);
+  const tmp = `${list}.tmp`;
+  return (
+    `(cd ${dir} && find . -type f -printf '%P\\0' | sort -z > ${tmp} && ` +
+    `xargs -0 -r sha256sum < ${tmp} | cut -c1-64 > ${tmp}.sha && ` +
+    `xargs -0 -r stat -c '%s %a %n' < ${tmp} > ${tmp}.stat && ` +
+    `paste -d' ' ${tmp}.sha ${tmp}.stat > ${list} && rm -f ${tmp} ${tmp}.sha ${tmp}.stat && ` +
+    `awk '{n++; b+=$2} END {printf "# %d %d\\n", n, b}' ${list})`
+  );
+}
+
+/**
+ * Stream a file out of the container in chunks.
+ */
+export async function* readContainerFile(
   sandbox: Sandbox,
-  env: MoltbotEnv,
-): Promise<SyncResult> {
-  if (!env.MOLTBOT_BUCKET) {
-    return { success: false, error: 'R2 bucket binding (MOLTBOT_BUCKET) not available' };
+  path: string,
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const stream = await sandbox.readFileStream(path);
+  for await (const chunk of streamFile(stream)) {
+    yield typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
   }
+}
 
+/**
+ * Copy the config dir and workspace to a new staging directory and list the staged files.
+ * Nothing is staged while the last restore failed (see RESTORE_FAILED_PATH).
+ * Staging directories left by syncs that didn't finish are removed first; syncs of a tenant
+ * hold its sync lock, so none of them is still in use.
+ * rsync exits 24 when files vanish while being copied, which is expected for a live workspace;
+ * any other failure is fatal.
+ *
+ * @param sandbox - The sandbox instance
+ * @param dir - Staging directory for this sync (see STAGING_PREFIX)
+ * @returns The staged files, or an error suitable for a SyncResult
+ */
+export async function stageFiles(sandbox: Sandbox, dir: string): Promise<StageResult> {
   // Determine which config directory exists
   let configDir = '.openclaw';
   try {
@@ -67,38 +159,286 @@ export async function syncToR2Binding(
     };
   }
 
-  // tar cz from /root: config dir + clawd (exclude temp files), then base64 for safe stdout
-  const tarCmd = `tar cz --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' -C /root ${configDir} clawd 2>/dev/null | base64 -w0`;
-  console.log('[SyncBinding] Running tar in container, then uploading to R2...');
+  // .last-sync is the container's own restore marker, not part of the backup
+  const stageCmd =
+    `if [ -f ${RESTORE_FAILED_PATH} ]; then cat ${RESTORE_FAILED_PATH} >&2; exit ${RESTORE_FAILED_EXIT}; fi; ` +
+    `rm -rf ${STAGING_PREFIX}* && mkdir -p ${dir} && ` +
+    `{ rsync -a --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' --exclude='.last-sync' ` +
+    `/root/${configDir} /root/clawd ${dir}/ || [ $? -eq 24 ]; } && ` +
+    listFilesCommand(dir);
 
   try {
-    const proc = await sandbox.startProcess(tarCmd);
-    await waitForProcess(proc, 60000); // 60s for large dirs
+    const proc = await sandbox.startProcess(stageCmd);
+    await waitForProcess(proc, BACKUP_ARCHIVE_TIMEOUT_MS);
 
     const logs = await proc.getLogs();
-    const base64 = logs.stdout?.trim();
-    if (!base64) {
-      const stderr = logs.stderr?.trim() || '';
+    if (proc.exitCode === RESTORE_FAILED_EXIT) {
       return {
         success: false,
-        error: 'Backup produced no output',
-        details: stderr || 'tar may have failed (check container logs)',
+        error: 'Sync paused: the backup could not be restored at startup',
+        details: logs.stderr?.trim(),
       };
     }
+    const { summary } = parseManifestOutput(logs.stdout ?? '');
+    if (proc.exitCode !== 0 || !summary) {
+      return {
+        success: false,
+        error: 'Failed to stage backup files',
+        details: logs.stderr?.trim() || `staging exited with code ${proc.exitCode ?? 'unknown'}`,
+      };
+    }
+    const decoder = new TextDecoder();
+    let list = '';
+    for await (const chunk of readContainerFile(sandbox, fileListPath(dir))) {
+      list += decoder.decode(chunk, { stream: true });
+    }
+    const files = parseFileList(list + decoder.decode());
+    if (files.length !== summary.files) {
+      return {
+        success: false,
+        error: 'Failed to stage backup files',
+        details: `File list has ${files.length} entries, expected ${summary.files}`,
+      };
+    }
+    return { success: true, files };
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Binding backup failed',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
 
-    const body = base64ToBytes(base64);
-    const timestamp = new Date().toISOString();
+/**
+ * Remove a staging directory and its file list (best-effort: the next sync removes leftovers)
+ */
+async function removeStaging(sandbox: Sandbox, dir: string): Promise<void> {
+  try {
+    const proc = await sandbox.startProcess(`rm -rf ${dir} ${fileListPath(dir)}`);
+    await waitForProcess(proc, 30000);
+  } catch (err) {
+    console.error('[SyncBinding] Failed to remove staging directory:', err);
+  }
+}
 
-    await env.MOLTBOT_BUCKET.put(BACKUP_KEY, body, {
-      httpMetadata: { contentType: 'application/gzip' },
-      customMetadata: { 'last-sync': timestamp },
-    });
-    await env.MOLTBOT_BUCKET.put(LAST_SYNC_KEY, timestamp, {
-      httpMetadata: { contentType: 'text/plain' },
+/**
+ * Upload the staged files whose contents are not stored yet. Every blob is checked with a HEAD
+ * first, including those the previous manifest referenced: one that went missing is uploaded
+ * again instead of being left out of the new backup.
+ *
+ * @param uploaded - Updated as blobs are stored, so a failed sync can report its progress
+ */
+async function uploadBlobs(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  staging: string,
+  files: FileEntry[],
+  uploaded: { files: number; bytes: number },
+): Promise<void> {
+  const prefix = getTenantR2Prefix(tenantId);
+  const seen = new Set<string>();
+  for (const file of files) {
+    if (seen.has(file.hash)) continue;
+    seen.add(file.hash);
+    const key = prefix + blobKey(file.hash);
+    // eslint-disable-next-line no-await-in-loop -- blobs are uploaded one at a time to bound memory
+    if (await env.MOLTBOT_BUCKET.head(key)) continue;
+    // eslint-disable-next-line no-await-in-loop
+    const body = await encryptForStorage(
+      env,
+      readContainerFile(sandbox, `${staging}/${file.path}`),
+    );
+    // eslint-disable-next-line no-await-in-loop
+    await uploadInParts(env.MOLTBOT_BUCKET, key, body.body, {
+      httpMetadata: { contentType: 'application/octet-stream' },
+      customMetadata: body.keyId ? { [ENCRYPTION_KEY_ID_METADATA]: body.keyId } : undefined,
     });
+    uploaded.files++;
+    uploaded.bytes += file.size;
+  }
+}
 
-    console.log('[SyncBinding] Backup uploaded to R2:', BACKUP_KEY, 'size:', body.length, 'bytes');
-    return { success: true, lastSync: timestamp };
+/**
+ * Check the stored manifest against the synced file list, and each blob (decrypted if needed)
+ * byte for byte against the staged file it was uploaded from.
+ */
+async function verifyStoredFiles(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  staging: string,
+  files: FileEntry[],
+  lastSync: string,
+): Promise<BackupVerification> {
+  const summary = { files: files.length, bytes: totalBytes(files) };
+  const stored = await readSyncManifest(env, tenantId);
+  if (!stored || !sameFiles(stored.files, files)) {
+    return verificationResult(
+      'binding',
+      lastSync,
+      summary,
+      [],
+      'Sync manifest in R2 differs from the files that were synced',
+    );
+  }
+  const mismatches: string[] = [];
+  const checked = new Set<string>();
+  for (const file of files) {
+    if (checked.has(file.hash)) continue;
+    checked.add(file.hash);
+    let matches = false;
+    try {
+      // eslint-disable-next-line no-await-in-loop -- one blob at a time to bound memory
+      matches = await sameContents(
+        // eslint-disable-next-line no-await-in-loop
+        await readBlob(env, tenantId, file.hash),
+        readContainerFile(sandbox, `${staging}/${file.path}`),
+      );
+    } catch (err) {
+      console.error('[SyncBinding] Could not compare', file.path, err);
+    }
+    if (!matches) mismatches.push(file.path);
+  }
+  return verificationResult('binding', lastSync, summary, mismatches);
+}
+
+/**
+ * Add a verification to a sync result, failing the sync if the R2 copy didn't match
+ */
+function withVerification(result: SyncResult, verification: BackupVerification | null): SyncResult {
+  if (!verification) {
+    return result;
+  }
+  if (!verification.ok) {
+    return {
+      ...result,
+      success: false,
+      verification,
+      error: 'Backup verification failed',
+      details:
+        verification.error ??
+        `${verification.mismatches?.length ?? 0} file(s) differ in R2: ${verification.mismatches?.join(', ')}`,
+    };
+  }
+  return { ...result, verification };
+}
+
+/**
+ * Delete the blobs only the previous manifest referenced, unless the manifest now in R2 (the
+ * one that survives this sync) still references them: if it isn't the one this sync wrote,
+ * nothing is deleted.
+ */
+async function collectGarbage(
+  env: MoltbotEnv,
+  tenantId: string,
+  previous: SyncManifest,
+  written: SyncManifest,
+): Promise<void> {
+  let surviving: SyncManifest | null;
+  try {
+    surviving = await readSyncManifest(env, tenantId);
+  } catch (err) {
+    console.error('[SyncBinding] Could not re-read the sync manifest, keeping old blobs:', err);
+    return;
+  }
+  if (!surviving || surviving.lastSync !== written.lastSync) {
+    console.error('[SyncBinding] Sync manifest was replaced by another sync, keeping old blobs');
+    return;
+  }
+  const referenced = new Set(surviving.files.map((f) => f.hash));
+  const dropped = new Set(previous.files.map((f) => f.hash).filter((h) => !referenced.has(h)));
+  await deleteBlobs(env, tenantId, [...dropped]);
+}
+
+/**
+ * Sync OpenClaw config and workspace to R2 via the Worker binding (no FUSE mount).
+ *
+ * Stages the files in the container and lists their hashes, then uploads only the contents the
+ * content-addressed store doesn't have yet (see blob-store.ts) and writes the new manifest.
+ * Blobs only the previous manifest referenced are deleted. When the file list is unchanged
+ * nothing is written at all. With BACKUP_ENCRYPTION_KEY set, blobs and manifest are encrypted
+ * on their way through the Worker.
+ * A snapshot is assembled from the stored files when one is due, and the R2 copy is checked
+ * against the staged files when a verification is due (always on a tenant's first sync).
+ * Callers must hold the tenant's sync lock (see syncToR2), or concurrent syncs could delete
+ * each other's blobs.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings (must have MOLTBOT_BUCKET)
+ * @param tenantId - Tenant that owns the sandbox (keys are written under its R2 prefix)
+ * @param options - Sync options
+ * @returns SyncResult, including how much of the backup had to be uploaded
+ */
+export async function syncToR2Binding(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string = DEFAULT_TENANT_ID,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  if (!env.MOLTBOT_BUCKET) {
+    return { success: false, error: 'R2 bucket binding (MOLTBOT_BUCKET) not available' };
+  }
+
+  const staging = STAGING_PREFIX + crypto.randomUUID();
+  try {
+    return await syncStaged(sandbox, env, tenantId, staging, options);
+  } finally {
+    await removeStaging(sandbox, staging);
+  }
+}
+
+async function syncStaged(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  staging: string,
+  options: SyncOptions,
+): Promise<SyncResult> {
+  console.log('[SyncBinding] Staging files in container...');
+  const staged = await stageFiles(sandbox, staging);
+  if (!staged.success) {
+    return staged;
+  }
+  const { files } = staged;
+  const bytes = totalBytes(files);
+
+  let previous: SyncManifest | null = null;
+  try {
+    previous = await readSyncManifest(env, tenantId);
+  } catch (err) {
+    console.error(
+      '[SyncBinding] Could not read the last sync manifest, uploading everything:',
+      err,
+    );
+  }
+
+  if (previous && sameFiles(previous.files, files)) {
+    console.log('[SyncBinding] No changes since', previous.lastSync, '- nothing to upload');
+    const lastSync = previous.lastSync;
+    const verification = await verifyIfDue(env, tenantId, !!options.verify, () =>
+      verifyStoredFiles(sandbox, env, tenantId, staging, files, lastSync),
+    );
+    return withVerification(
+      {
+        success: true,
+        skipped: true,
+        lastSync,
+        files: files.length,
+        bytes,
+        uploadedFiles: 0,
+        uploadedBytes: 0,
+      },
+      verification,
+    );
+  }
+
+  const manifest: SyncManifest = { lastSync: new Date().toISOString(), files };
+  const uploaded = { files: 0, bytes: 0 };
+  try {
+    await uploadBlobs(sandbox, env, tenantId, staging, files, uploaded);
+    await writeSyncManifest(env, tenantId, manifest);
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     console.error('[SyncBinding] Upload failed:', message);
@@ -106,6 +446,35 @@ export async function syncToR2Binding(
       success: false,
       error: 'Binding backup failed',
       details: message,
+      files: files.length,
+      bytes,
+      uploadedFiles: uploaded.files,
+      uploadedBytes: uploaded.bytes,
     };
   }
+  console.log(
+    `[SyncBinding] Synced ${files.length} files (${(bytes / MB).toFixed(1)} MB), uploaded ${uploaded.files} (${(uploaded.bytes / MB).toFixed(1)} MB)`,
+  );
+
+  if (previous) {
+    await collectGarbage(env, tenantId, previous, manifest);
+  }
+
+  const result = withVerification(
+    {
+      success: true,
+      lastSync: manifest.lastSync,
+      files: files.length,
+      bytes,
+      uploadedFiles: uploaded.files,
+      uploadedBytes: uploaded.bytes,
+    },
+    await verifyIfDue(env, tenantId, !!options.verify || !previous, () =>
+      verifyStoredFiles(sandbox, env, tenantId, staging, files, manifest.lastSync),
+    ),
+  );
+  if (result.success) {
+    await snapshotIfDue(env, tenantId, async () => manifestArchive(env, tenantId, manifest));
+  }
+  return result;
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SYNC_HISTORY_LIMIT } from '../config';
+import { syncToR2 } from './sync';
+import { readSyncHistory, recordSync, syncWithHistory } from './sync-history';
+import { createMockBucket, createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+vi.mock('./sync', () => ({ syncToR2: vi.fn() }));
+
+describe('sync history', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.mocked(syncToR2).mockReset();
+  });
+
+  it('keeps the newest SYNC_HISTORY_LIMIT entries, newest first', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+    for (let i = 0; i <= SYNC_HISTORY_LIMIT; i++) {
+      // eslint-disable-next-line no-await-in-loop -- entries are recorded in order
+      await recordSync(env, 'moltbot', {
+        startedAt: new Date(i * 1000).toISOString(),
+        trigger: 'cron',
+        success: true,
+        durationMs: i,
+      });
+    }
+
+    const history = await readSyncHistory(env, 'moltbot');
+    expect(history).toHaveLength(SYNC_HISTORY_LIMIT);
+    expect(history[0].durationMs).toBe(SYNC_HISTORY_LIMIT);
+    expect(history.at(-1)!.durationMs).toBe(1);
+  });
+
+  it('records the outcome of each sync', async () => {
+    const { bucket } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+    const { sandbox } = createMockSandbox();
+    vi.mocked(syncToR2)
+      .mockResolvedValueOnce({
+        success: true,
+        lastSync: '2026-03-10T12:00:00.000Z',
+        bytes: 2048,
+        verification: {
+          verifiedAt: '2026-03-10T12:00:01.000Z',
+          lastSync: '2026-03-10T12:00:00.000Z',
+          method: 'binding',
+          ok: true,
+          files: 3,
+          bytes: 5000,
+        },
+      })
+      .mockResolvedValueOnce({ success: false, error: 'Sync aborted: no config file found' });
+
+    await syncWithHistory(sandbox, env, 'moltbot', 'manual', { verify: true });
+    await syncWithHistory(sandbox, env, 'moltbot', 'pre-stop', { reason: 'restart' });
+
+    expect(syncToR2).toHaveBeenCalledWith(sandbox, env, 'moltbot', {
+      verify: true,
+      signal: expect.any(AbortSignal),
+    });
+    const history = await readSyncHistory(env, 'moltbot');
+    expect(history).toMatchObject([
+      {
+        trigger: 'pre-stop',
+        reason: 'restart',
+        success: false,
+        error: 'Sync aborted: no config file found',
+      },
+      { trigger: 'manual', success: true, bytes: 2048, verified: true },
+    ]);
+  });
+
+  it('gives up on syncs that outlast the timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const { bucket } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      const { sandbox } = createMockSandbox();
+      vi.mocked(syncToR2).mockReturnValue(new Promise(() => {}));
+
+      const pending = syncWithHistory(sandbox, env, 'moltbot', 'pre-stop', {
+        reason: 'sleep',
+        timeoutMs: 60_000,
+      });
+      await vi.advanceTimersByTimeAsync(60_000);
+      const result = await pending;
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Sync timed out',
+        details: 'No result after 60s',
+      });
+      // A sync still waiting for the sync lock gives up instead of running after the stop
+      expect(vi.mocked(syncToR2).mock.calls[0][3]?.signal?.aborted).toBe(true);
+      const [entry] = await readSyncHistory(env, 'moltbot');
+      expect(entry).toMatchObject({
+        trigger: 'pre-stop',
+        reason: 'sleep',
+        success: false,
+        timedOut: true,
+        durationMs: 60_000,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
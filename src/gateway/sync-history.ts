@@ -0,0 +1,150 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { SYNC_HISTORY_LIMIT } from '../config';
+import { syncToR2, type SyncResult } from './sync';
+import { notifySyncAlert } from './sync-alert';
+import type { SyncOptions } from './sync-binding';
+import { getTenantR2Prefix } from './tenant';
+
+/** Recent syncs, newest first, relative to the tenant's R2 prefix */
+export const SYNC_HISTORY_KEY = '.sync-history.json';
+
+/** What started a sync */
+export type SyncTrigger = 'cron' | 'manual' | 'restore' | 'pre-stop';
+
+/** Why the gateway is being stopped, for pre-stop syncs */
+export type StopReason = 'restart' | 'kill' | 'sleep' | 'restore';
+
+export interface SyncHistoryEntry {
+  startedAt: string; // ISO timestamp
+  trigger: SyncTrigger;
+  /** Set for pre-stop syncs */
+  reason?: StopReason;
+  success: boolean;
+  durationMs: number;
+  /** Number and size of the backed-up files, and how much of them this sync uploaded */
+  files?: number;
+  bytes?: number;
+  uploadedFiles?: number;
+  uploadedBytes?: number;
+  /** Nothing had changed since the previous sync */
+  skipped?: boolean;
+  /** Whether the R2 copy was verified, when this sync verified it */
+  verified?: boolean;
+  /** The sync was abandoned after its timeout */
+  timedOut?: boolean;
+  error?: string;
+}
+
+export interface SyncRunOptions extends SyncOptions {
+  reason?: StopReason;
+  /**
+   * Stop waiting for the sync after this long; it is recorded as failed. A sync still waiting for
+   * another one gives up, and one already running finishes in the background, holding the sync
+   * lock until it does.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Recorded syncs for a tenant, newest first
+ */
+export async function readSyncHistory(
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<SyncHistoryEntry[]> {
+  const obj = await env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + SYNC_HISTORY_KEY);
+  return obj ? ((await obj.json()) as SyncHistoryEntry[]) : [];
+}
+
+/**
+ * Prepend an entry to the tenant's sync history, keeping the newest SYNC_HISTORY_LIMIT, and
+ * send the failure alert if the entry starts or ends a failure streak (see sync-alert).
+ * Best-effort: a history write never fails the sync it describes.
+ */
+export async function recordSync(
+  env: MoltbotEnv,
+  tenantId: string,
+  entry: SyncHistoryEntry,
+): Promise<void> {
+  let history: SyncHistoryEntry[];
+  try {
+    history = [entry, ...(await readSyncHistory(env, tenantId))].slice(0, SYNC_HISTORY_LIMIT);
+    await env.MOLTBOT_BUCKET.put(
+      getTenantR2Prefix(tenantId) + SYNC_HISTORY_KEY,
+      JSON.stringify(history),
+      { httpMetadata: { contentType: 'application/json' } },
+    );
+  } catch (err) {
+    console.error('[Sync] Failed to record sync history:', err);
+    return;
+  }
+  await notifySyncAlert(env, tenantId, history);
+}
+
+/**
+ * Run syncToR2 and record the outcome in the sync history.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenantId - Tenant that owns the sandbox
+ * @param trigger - What started the sync
+ * @param options - Sync options, plus the stop reason and timeout for pre-stop syncs
+ */
+export async function syncWithHistory(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  trigger: SyncTrigger,
+  options: SyncRunOptions = {},
+): Promise<SyncResult> {
+  const { reason, timeoutMs, ...syncOptions } = options;
+  const started = Date.now();
+  const abort = new AbortController();
+  const sync = syncToR2(sandbox, env, tenantId, { ...syncOptions, signal: abort.signal });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<null>((resolve) => {
+    if (timeoutMs !== undefined) timer = setTimeout(() => resolve(null), timeoutMs);
+  });
+  const result = await Promise.race([sync, timedOut]);
+  clearTimeout(timer);
+
+  if (!result) {
+    // A sync that is already running finishes in the background (anything that replaces the
+    // files waits for its sync lock); one still waiting for the lock gives up
+    abort.abort();
+    sync.catch(() => {});
+    const timeoutResult: SyncResult = {
+      success: false,
+      error: 'Sync timed out',
+      details: `No result after ${Math.round(timeoutMs! / 1000)}s`,
+    };
+    await recordSync(env, tenantId, {
+      startedAt: new Date(started).toISOString(),
+      trigger,
+      ...(reason && { reason }),
+      success: false,
+      durationMs: Date.now() - started,
+      timedOut: true,
+      error: timeoutResult.error,
+    });
+    return timeoutResult;
+  }
+
+  await recordSync(env, tenantId, {
+    startedAt: new Date(started).toISOString(),
+    trigger,
+    ...(reason && { reason }),
+    success: result.success,
+    durationMs: Date.now() - started,
+    ...(result.files !== undefined && { files: result.files }),
+    ...(result.bytes !== undefined && { bytes: result.bytes }),
+    ...(result.uploadedFiles !== undefined && { uploadedFiles: result.uploadedFiles }),
+    ...(result.uploadedBytes !== undefined && { uploadedBytes: result.uploadedBytes }),
+    ...(result.skipped && { skipped: true }),
+    ...(result.verification && { verified: result.verification.ok }),
+    ...(result.error && { error: result.error }),
+  });
+  return result;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStateStorage, _resetStartupState } from './startup-state';
+import { SyncLockStore, getSyncLockCoordinator, withSyncLock } from './sync-lock';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+describe('SyncLockStore', () => {
+  let now: number;
+  let store: SyncLockStore;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    store = new SyncLockStore(new MemoryStateStorage(), () => now);
+  });
+
+  it('grants the lock to one owner at a time', async () => {
+    expect(await store.acquireSyncLock('a', 1000)).toBe(true);
+    expect(await store.acquireSyncLock('b', 1000)).toBe(false);
+    await store.releaseSyncLock('b');
+    expect(await store.getSyncLock()).toMatchObject({ owner: 'a' });
+    await store.releaseSyncLock('a');
+    expect(await store.acquireSyncLock('b', 1000)).toBe(true);
+  });
+
+  it('renews the lease of the owner and lets others take over an expired one', async () => {
+    await store.acquireSyncLock('a', 1000);
+    now += 800;
+    expect(await store.acquireSyncLock('a', 1000)).toBe(true);
+    now += 800;
+    expect(await store.acquireSyncLock('b', 1000)).toBe(false);
+    expect(await store.getSyncLock()).toEqual({
+      owner: 'a',
+      acquiredAt: 1_000_000,
+      expiresAt: 1_001_800,
+    });
+    now += 201;
+    expect(await store.acquireSyncLock('b', 1000)).toBe(true);
+  });
+});
+
+describe('withSyncLock', () => {
+  beforeEach(() => {
+    _resetStartupState();
+    suppressConsole();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('releases the lock when the function throws', async () => {
+    const env = createMockEnv();
+
+    await expect(
+      withSyncLock(env, 'moltbot', () => Promise.reject(new Error('boom'))),
+    ).rejects.toThrow('boom');
+
+    expect(await getSyncLockCoordinator(env, 'moltbot').getSyncLock()).toBeNull();
+  });
+
+  it('gives up after waiting for another holder, without running the function', async () => {
+    vi.useFakeTimers();
+    const env = createMockEnv();
+    await getSyncLockCoordinator(env, 'moltbot').acquireSyncLock('other', 600_000);
+    const fn = vi.fn().mockResolvedValue('ok');
+
+    const result = withSyncLock(env, 'moltbot', fn, { waitMs: 5000 });
+    await vi.advanceTimersByTimeAsync(6000);
+
+    expect(await result).toBeNull();
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('stops waiting when aborted', async () => {
+    vi.useFakeTimers();
+    const env = createMockEnv();
+    await getSyncLockCoordinator(env, 'moltbot').acquireSyncLock('other', 600_000);
+    const controller = new AbortController();
+    const fn = vi.fn().mockResolvedValue('ok');
+
+    const result = withSyncLock(env, 'moltbot', fn, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(2000);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(1000);
+    await getSyncLockCoordinator(env, 'moltbot').releaseSyncLock('other');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await result).toBeNull();
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('renews the lease while the function runs', async () => {
+    vi.useFakeTimers();
+    const env = createMockEnv();
+    let finish!: (value: string) => void;
+
+    const result = withSyncLock(
+      env,
+      'moltbot',
+      () =>
+        new Promise<string>((resolve) => {
+          finish = resolve;
+        }),
+    );
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(await getSyncLockCoordinator(env, 'moltbot').acquireSyncLock('other', 1000)).toBe(false);
+
+    finish('done');
+    expect(await result).toBe('done');
+    expect(await getSyncLockCoordinator(env, 'moltbot').getSyncLock()).toBeNull();
+  });
+});
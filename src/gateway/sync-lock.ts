@@ -0,0 +1,162 @@
+/**
+ * Per-tenant sync lock.
+ *
+ * Cron, manual, pre-stop and restore syncs of a tenant may start at the same time from different
+ * isolates. They must not interleave: one sync could garbage-collect blobs that the manifest of
+ * another still references. Gateway starts (until their startup script has restored the backup)
+ * and snapshot restores take the lock too, so no sync stages /root while it is being replaced, and
+ * a pre-stop sync that outlived its timeout finishes before anything is restored.
+ *
+ * The lock lives in the GatewayState Durable Object (an isolate-local store when the binding is
+ * missing), next to the startup lock. It is a lease, renewed while its holder runs, so a holder
+ * whose isolate died does not block the next one for long.
+ */
+import type { MoltbotEnv } from '../types';
+import { SYNC_LEASE_MS, SYNC_LOCK_WAIT_MS } from '../config';
+import { getGatewayStateStub, getLocalStateStorage, type StateStorage } from './startup-state';
+
+export interface SyncLock {
+  owner: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Operations on the sync lock. Implemented by SyncLockStore and exposed over RPC by the
+ * GatewayState Durable Object.
+ */
+export interface SyncLockCoordinator {
+  getSyncLock(): Promise<SyncLock | null>;
+  /** Take the lock, or renew it if `owner` already holds it */
+  acquireSyncLock(owner: string, leaseMs: number): Promise<boolean>;
+  releaseSyncLock(owner: string): Promise<void>;
+}
+
+const STATE_KEY = 'sync-lock';
+
+/** How often a waiting sync re-checks the lock */
+const LOCK_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Tenants whose lock this isolate holds or is taking. The isolate-local store is not atomic
+ * across its awaits, so callers in this isolate are kept apart here first.
+ */
+const localHolders = new Set<string>();
+
+/**
+ * Storage-backed sync lock. Each method is a read-modify-write of a single key.
+ */
+export class SyncLockStore implements SyncLockCoordinator {
+  constructor(
+    private readonly storage: StateStorage,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async getSyncLock(): Promise<SyncLock | null> {
+    const lock = (await this.storage.get<SyncLock>(STATE_KEY)) ?? null;
+    return lock && lock.expiresAt > this.now() ? lock : null;
+  }
+
+  async acquireSyncLock(owner: string, leaseMs: number): Promise<boolean> {
+    const lock = await this.getSyncLock();
+    if (lock && lock.owner !== owner) {
+      return false;
+    }
+    await this.storage.put<SyncLock>(STATE_KEY, {
+      owner,
+      acquiredAt: lock?.acquiredAt ?? this.now(),
+      expiresAt: this.now() + leaseMs,
+    });
+    return true;
+  }
+
+  async releaseSyncLock(owner: string): Promise<void> {
+    const lock = await this.getSyncLock();
+    if (lock?.owner === owner) {
+      await this.storage.delete(STATE_KEY);
+    }
+  }
+}
+
+/**
+ * Get the sync lock for a tenant: the GatewayState Durable Object when bound, otherwise an
+ * isolate-local store.
+ */
+export function getSyncLockCoordinator(env: MoltbotEnv, tenantId: string): SyncLockCoordinator {
+  const stub = getGatewayStateStub(env, tenantId);
+  if (stub) {
+    return stub as unknown as SyncLockCoordinator;
+  }
+  return new SyncLockStore(getLocalStateStorage(tenantId));
+}
+
+export interface SyncLockOptions {
+  /** Longest to wait for the current holder (default SYNC_LOCK_WAIT_MS) */
+  waitMs?: number;
+  /** Stop waiting when aborted, e.g. because the caller stopped waiting for the result */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run `fn` while holding the tenant's sync lock, waiting for the current holder to finish
+ * first. The lease is renewed in the background until `fn` settles.
+ *
+ * @returns What `fn` returned, or null if the lock could not be taken in time (or the wait was
+ *   aborted), in which case `fn` is not run
+ */
+export async function withSyncLock<T>(
+  env: MoltbotEnv,
+  tenantId: string,
+  fn: () => Promise<T>,
+  { waitMs = SYNC_LOCK_WAIT_MS, signal }: SyncLockOptions = {},
+): Promise<T | null> {
+  const coordinator = getSyncLockCoordinator(env, tenantId);
+  const owner = crypto.randomUUID();
+  const deadline = Date.now() + waitMs;
+  const tryAcquire = async () => {
+    if (localHolders.has(tenantId)) {
+      return false;
+    }
+    localHolders.add(tenantId);
+    try {
+      if (await coordinator.acquireSyncLock(owner, SYNC_LEASE_MS)) {
+        return true;
+      }
+    } catch (err) {
+      localHolders.delete(tenantId);
+      throw err;
+    }
+    localHolders.delete(tenantId);
+    return false;
+  };
+
+  let acquired = !signal?.aborted && (await tryAcquire());
+  while (!acquired) {
+    if (Date.now() >= deadline || signal?.aborted) {
+      return null;
+    }
+    // eslint-disable-next-line no-await-in-loop -- intentional sequential polling
+    await new Promise((r) => setTimeout(r, LOCK_POLL_INTERVAL_MS));
+    // eslint-disable-next-line no-await-in-loop
+    acquired = await tryAcquire();
+  }
+
+  const renewal = setInterval(() => {
+    coordinator.acquireSyncLock(owner, SYNC_LEASE_MS).then(
+      (renewed) => {
+        if (!renewed) console.error('[Sync] Lost the sync lock for tenant', tenantId);
+      },
+      (err) => console.error('[Sync] Failed to renew the sync lock:', err),
+    );
+  }, SYNC_LEASE_MS / 4);
+  try {
+    return await fn();
+  } finally {
+    clearInterval(renewal);
+    // If the release fails the lease expires on its own
+    await coordinator.releaseSyncLock(owner).catch((err) => {
+      console.error('[Sync] Failed to release the sync lock:', err);
+    });
+    localHolders.delete(tenantId);
+  }
+}
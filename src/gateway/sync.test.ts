@@ -1,152 +1,325 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { syncToR2 } from './sync';
+import { isEncrypted } from './backup-crypto';
 import {
+  createMockBucket,
   createMockEnv,
-  createMockEnvWithR2,
   createMockProcess,
   createMockSandbox,
   suppressConsole,
 } from '../test-utils';
 
+// The real streamFile decodes SSE events; the mocked readFileStream yields raw file bytes
+vi.mock('@cloudflare/sandbox', () => ({
+  streamFile: async function* (stream: ReadableStream<Uint8Array>) {
+    yield new Uint8Array(await new Response(stream).arrayBuffer());
+  },
+}));
+
+/** Staging directory of a sync, and the path of a staged file relative to it */
+const STAGED_PATH = /^\/tmp\/moltbot-sync-[0-9a-f-]{36}\/(.+)$/;
+const FILE_LIST_PATH = /^\/tmp\/moltbot-sync-[0-9a-f-]{36}\.files$/;
+const KEY = btoa(String.fromCharCode(...new Uint8Array(32).fill(3)));
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Sandbox whose staging step finds `files` (path relative to /root → contents). `readAs`
+ * overrides what reading a staged file returns, e.g. to simulate a corrupted upload.
+ */
+async function stagedSandbox(
+  files: Record<string, string>,
+  readAs: (path: string, contents: string) => string = (_path, contents) => contents,
+) {
+  const mock = createMockSandbox();
+  const paths = Object.keys(files);
+  const lines = await Promise.all(
+    paths.map(async (path) => `${await sha256(files[path])} ${files[path].length} 644 ${path}\n`),
+  );
+  const bytes = paths.reduce((n, path) => n + files[path].length, 0);
+  mock.startProcessMock.mockImplementation(async (cmd: string) =>
+    cmd.startsWith('test -f')
+      ? createMockProcess('', { exitCode: 0 })
+      : createMockProcess(`# ${paths.length} ${bytes}\n`),
+  );
+  mock.readFileStreamMock.mockImplementation(async (path: string) => {
+    if (FILE_LIST_PATH.test(path)) return new Blob([lines.join('')]).stream();
+    const rel = path.match(STAGED_PATH)![1];
+    return new Blob([readAs(rel, files[rel])]).stream();
+  });
+  return mock;
+}
+
+const blobKeys = (objects: Map<string, unknown>) =>
+  [...objects.keys()].filter((key) => key.startsWith('blobs/'));
+
 describe('syncToR2', () => {
   beforeEach(() => {
     suppressConsole();
   });
 
-  describe('configuration checks', () => {
-    it('falls back to binding backup when CF_ACCOUNT_ID is missing', async () => {
+  describe('sanity checks', () => {
+    it('returns error when source has no config file', async () => {
       const { sandbox, startProcessMock } = createMockSandbox();
-      const putMock = vi.fn().mockResolvedValue(undefined);
-      const env = createMockEnv({
-        MOLTBOT_BUCKET: { put: putMock } as any,
-      });
-      // syncToR2Binding: test openclaw.json (exists), then tar (base64 output)
+      const { bucket, mocks } = createMockBucket();
       startProcessMock
-        .mockResolvedValueOnce(createMockProcess('', { exitCode: 0 }))   // test -f openclaw
-        .mockResolvedValueOnce(createMockProcess('H4sIAAAAAAAAA+3BMQ0AAADCIPuntsYYwQAAAAAAAAAAAAAAAAAAAPBvBAgBAAAA')); // minimal gzip base64
+        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 })) // No openclaw.json
+        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 })); // No clawdbot.json either
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
 
-      expect(result.success).toBe(true);
-      expect(putMock).toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Sync aborted: no config file found');
+      expect(mocks.put).not.toHaveBeenCalled();
     });
 
-    it('proceeds with only CF_ACCOUNT_ID (no explicit R2 credentials)', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      // mountR2Storage: isR2Mounted → mountBucket → isR2Mounted (mounted)
-      // sync: check openclaw.json → rsync → cat timestamp
+    it('reports staging failures instead of writing a partial backup', async () => {
+      const { sandbox, startProcessMock, readFileStreamMock } = createMockSandbox();
+      const { bucket, mocks } = createMockBucket();
       startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n')) // already mounted
-        .mockResolvedValueOnce(createMockProcess('ok'))  // check openclaw.json
-        .mockResolvedValueOnce(createMockProcess(''))    // rsync
-        .mockResolvedValueOnce(createMockProcess('2026-01-27T12:00:00+00:00'));  // timestamp
-
-      const env = createMockEnv({ CF_ACCOUNT_ID: 'account123' });
+        .mockResolvedValueOnce(createMockProcess('', { exitCode: 0 })) // test -f openclaw
+        .mockResolvedValueOnce(
+          createMockProcess('', { exitCode: 1, stderr: 'rsync: No space left on device' }),
+        );
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
 
-      expect(result.success).toBe(true);
+      expect(result.success).toBe(false);
+      expect(result.details).toBe('rsync: No space left on device');
+      expect(readFileStreamMock).not.toHaveBeenCalled();
+      expect(mocks.put).not.toHaveBeenCalled();
     });
+  });
 
-    it('falls back to binding when mount fails', async () => {
-      const { sandbox, startProcessMock, mountBucketMock } = createMockSandbox();
-      mountBucketMock.mockRejectedValue(new Error('Mount failed'));
-      const putMock = vi.fn().mockResolvedValue(undefined);
-      const env = createMockEnvWithR2({
-        MOLTBOT_BUCKET: { put: putMock } as any,
-      });
-      // Mount path (official pattern only): isR2Mounted fast-path, then isR2Mounted final-check after mount fails.
-      // Binding path: test openclaw (exit 1), test clawdbot (exit 1) -> no config.
+  describe('failed restore', () => {
+    it('pauses syncs while the backup could not be restored at startup', async () => {
+      const { sandbox, startProcessMock, readFileStreamMock } = createMockSandbox();
+      const { bucket, mocks } = createMockBucket();
       startProcessMock
-        .mockResolvedValueOnce(createMockProcess(''))  // isR2Mounted fast-path
-        .mockResolvedValueOnce(createMockProcess(''))  // isR2Mounted final-check
-        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 }))  // test -f openclaw
-        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 })); // test -f clawdbot
+        .mockResolvedValueOnce(createMockProcess('', { exitCode: 0 })) // test -f openclaw
+        .mockResolvedValueOnce(
+          createMockProcess('', { exitCode: 4, stderr: 'Backup in R2 did not match its manifest' }),
+        );
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
 
-      expect(result.success).toBe(false);
-      expect(result.error).toBe('Sync aborted: no config file found');
-      expect(putMock).not.toHaveBeenCalled();
+      expect(startProcessMock.mock.calls[1][0]).toMatch(
+        /^if \[ -f \/root\/\.moltbot-restore-failed \]; then .*exit 4; fi; rm -rf/,
+      );
+      expect(result).toEqual({
+        success: false,
+        error: 'Sync paused: the backup could not be restored at startup',
+        details: 'Backup in R2 did not match its manifest',
+      });
+      expect(readFileStreamMock).not.toHaveBeenCalled();
+      expect(mocks.put).not.toHaveBeenCalled();
     });
   });
 
-  describe('sanity checks', () => {
-    it('returns error when source has no config file', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 })) // No openclaw.json
-        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 })); // No clawdbot.json either
-
-      const env = createMockEnvWithR2();
+  describe('incremental sync', () => {
+    it('stores each distinct file once, verifies the first sync and takes a snapshot', async () => {
+      const { sandbox, startProcessMock } = await stagedSandbox({
+        '.openclaw/openclaw.json': '{}',
+        'clawd/MEMORY.md': 'notes',
+        'clawd/memory/copy.md': 'notes',
+      });
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
 
       const result = await syncToR2(sandbox, env);
 
-      expect(result.success).toBe(false);
-      expect(result.error).toBe('Sync aborted: no config file found');
+      const stageCmd: string = startProcessMock.mock.calls[1][0];
+      const staging = stageCmd.match(/mkdir -p (\S+)/)![1];
+      expect(stageCmd).toContain(`rsync -a --exclude`);
+      expect(stageCmd).toContain(`/root/.openclaw /root/clawd ${staging}/`);
+      expect(startProcessMock).toHaveBeenLastCalledWith(`rm -rf ${staging} ${staging}.files`);
+      expect(result).toMatchObject({
+        success: true,
+        files: 3,
+        bytes: 12,
+        uploadedFiles: 2,
+        uploadedBytes: 7,
+        verification: { ok: true, files: 3 },
+      });
+      expect(new Set(blobKeys(objects))).toEqual(
+        new Set([`blobs/${await sha256('{}')}`, `blobs/${await sha256('notes')}`]),
+      );
+      expect(new TextDecoder().decode(objects.get('sync/.last-sync')!.body)).toBe(result.lastSync);
+      expect(objects.has('snapshots/manifest.json')).toBe(true);
     });
-  });
 
-  describe('sync execution', () => {
-    it('returns success when sync completes', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      const timestamp = '2026-01-27T12:00:00+00:00';
+    it('skips unchanged syncs without writing to R2', async () => {
+      const files = { '.openclaw/openclaw.json': '{}', 'clawd/MEMORY.md': 'notes' };
+      const { bucket, mocks } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      const first = await syncToR2((await stagedSandbox(files)).sandbox, env);
+      mocks.put.mockClear();
+      mocks.createMultipartUpload.mockClear();
 
-      // Calls: mount check, check openclaw.json, rsync, cat timestamp
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess('ok'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(timestamp));
+      const second = await syncToR2((await stagedSandbox(files)).sandbox, env);
+
+      expect(second).toEqual({
+        success: true,
+        skipped: true,
+        lastSync: first.lastSync,
+        files: 2,
+        bytes: 7,
+        uploadedFiles: 0,
+        uploadedBytes: 0,
+      });
+      expect(mocks.put).not.toHaveBeenCalled();
+      expect(mocks.createMultipartUpload).not.toHaveBeenCalled();
+    });
 
-      const env = createMockEnvWithR2();
+    it('uploads only changed files and deletes blobs no longer referenced', async () => {
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      await syncToR2(
+        (await stagedSandbox({ '.openclaw/openclaw.json': '{}', 'clawd/MEMORY.md': 'old notes' }))
+          .sandbox,
+        env,
+      );
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(
+        (await stagedSandbox({ '.openclaw/openclaw.json': '{}', 'clawd/MEMORY.md': 'new notes' }))
+          .sandbox,
+        env,
+      );
 
-      expect(result.success).toBe(true);
-      expect(result.lastSync).toBe(timestamp);
+      expect(result).toMatchObject({ success: true, uploadedFiles: 1, uploadedBytes: 9 });
+      expect(new Set(blobKeys(objects))).toEqual(
+        new Set([`blobs/${await sha256('{}')}`, `blobs/${await sha256('new notes')}`]),
+      );
     });
 
-    it('returns error when rsync fails (no timestamp created)', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
+    it('uploads a blob again when it is missing although the previous manifest has it', async () => {
+      const files = { '.openclaw/openclaw.json': '{}', 'clawd/MEMORY.md': 'notes' };
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      await syncToR2((await stagedSandbox(files)).sandbox, env);
+      objects.delete(`blobs/${await sha256('notes')}`);
 
-      // Calls: mount check, check openclaw.json, rsync (fails), cat timestamp (empty)
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess('ok'))
-        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 }))
-        .mockResolvedValueOnce(createMockProcess(''));
+      const result = await syncToR2(
+        (await stagedSandbox({ ...files, 'clawd/TODO.md': 'todo' })).sandbox,
+        env,
+      );
 
-      const env = createMockEnvWithR2();
+      expect(result).toMatchObject({ success: true, uploadedFiles: 2 });
+      expect(objects.has(`blobs/${await sha256('notes')}`)).toBe(true);
+    });
 
-      const result = await syncToR2(sandbox, env);
+    it('waits for a sync that is already running instead of interleaving with it', async () => {
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+      const first = await stagedSandbox({
+        '.openclaw/openclaw.json': '{}',
+        'clawd/MEMORY.md': 'a',
+      });
+      const second = await stagedSandbox({
+        '.openclaw/openclaw.json': '{}',
+        'clawd/MEMORY.md': 'b',
+      });
+
+      const results = await Promise.all([
+        syncToR2(first.sandbox, env),
+        syncToR2(second.sandbox, env),
+      ]);
+
+      expect(results.map((r) => r.success)).toEqual([true, true]);
+      // The second sync only staged its files once the first had finished
+      const firstDone = Math.max(...first.startProcessMock.mock.invocationCallOrder);
+      expect(Math.min(...second.startProcessMock.mock.invocationCallOrder)).toBeGreaterThan(
+        firstDone,
+      );
+      expect(new Set(blobKeys(objects))).toEqual(
+        new Set([`blobs/${await sha256('{}')}`, `blobs/${await sha256('b')}`]),
+      );
+    });
+
+    it('fails the sync when a stored blob differs from the staged file', async () => {
+      const reads = new Map<string, number>();
+      // The upload reads the real contents; the verification read sees a different file
+      const { sandbox } = await stagedSandbox(
+        { '.openclaw/openclaw.json': '{}', 'clawd/MEMORY.md': 'notes' },
+        (path, contents) => {
+          reads.set(path, (reads.get(path) ?? 0) + 1);
+          return path === 'clawd/MEMORY.md' && reads.get(path)! > 1 ? 'edited' : contents;
+        },
+      );
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+      const result = await syncToR2(sandbox, env, 'moltbot', { verify: true });
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Sync failed');
+      expect(result.error).toBe('Backup verification failed');
+      expect(result.details).toBe('1 file(s) differ in R2: clawd/MEMORY.md');
+      expect(result.verification).toMatchObject({
+        method: 'binding',
+        ok: false,
+        files: 2,
+        mismatches: ['clawd/MEMORY.md'],
+      });
+      expect(
+        JSON.parse(new TextDecoder().decode(objects.get('.backup-verification.json')!.body)),
+      ).toMatchObject({ ok: false });
+      expect(objects.has('snapshots/manifest.json')).toBe(false);
     });
 
-    it('verifies rsync command is called with correct flags', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      const timestamp = '2026-01-27T12:00:00+00:00';
+    it('encrypts blobs and the manifest when BACKUP_ENCRYPTION_KEY is set', async () => {
+      const { sandbox } = await stagedSandbox({ '.openclaw/openclaw.json': '{"secret":1}' });
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket, BACKUP_ENCRYPTION_KEY: KEY });
 
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess('ok'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(timestamp));
-
-      const env = createMockEnvWithR2();
-
-      await syncToR2(sandbox, env);
-
-      // Third call should be rsync to openclaw/ R2 prefix
-      const rsyncCall = startProcessMock.mock.calls[2][0];
-      expect(rsyncCall).toContain('rsync');
-      expect(rsyncCall).toContain('--no-times');
-      expect(rsyncCall).toContain('--delete');
-      expect(rsyncCall).toContain('/root/.openclaw/');
-      expect(rsyncCall).toContain('/data/moltbot/openclaw/');
+      const result = await syncToR2(sandbox, env, 'team');
+
+      expect(result.success).toBe(true);
+      const blob = objects.get(`tenants/team/blobs/${await sha256('{"secret":1}')}`)!;
+      expect(isEncrypted(blob.body)).toBe(true);
+      expect(blob.customMetadata?.['encryption-key-id']).toMatch(/^[0-9a-f]{16}$/);
+      expect(isEncrypted(objects.get('tenants/team/sync/manifest')!.body)).toBe(true);
+    });
+  });
+
+  describe('migration', () => {
+    const oldFormats = {
+      'openclaw/backup.tar.gz': new Uint8Array([0x1f, 0x8b]),
+      'openclaw/.last-sync': '2026-01-27T12:00:00+00:00',
+      'openclaw/openclaw.json': '{}',
+      'workspace/MEMORY.md': 'notes',
+      'skills/run.sh': '#!/bin/sh',
+      '.backup-manifest': '',
+      '.last-sync': '2026-01-27T12:00:00+00:00',
+    };
+
+    it('leaves backups in the old formats in place', async () => {
+      const { sandbox } = await stagedSandbox({ '.openclaw/openclaw.json': '{}' });
+      const { bucket, objects } = createMockBucket(oldFormats);
+
+      const result = await syncToR2(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+      expect(result.success).toBe(true);
+      for (const key of Object.keys(oldFormats)) {
+        expect(objects.has(key)).toBe(true);
+      }
+    });
+
+    it('deletes the plaintext rsync tree once an encrypted sync succeeds, keeping the tarball', async () => {
+      const { sandbox } = await stagedSandbox({ '.openclaw/openclaw.json': '{}' });
+      const { bucket, objects } = createMockBucket(oldFormats);
+      const env = createMockEnv({ MOLTBOT_BUCKET: bucket, BACKUP_ENCRYPTION_KEY: KEY });
+
+      const result = await syncToR2(sandbox, env);
+
+      expect(result.success).toBe(true);
+      expect([...objects.keys()].filter((key) => !/^(blobs|sync|snapshots)\//.test(key))).toEqual([
+        'openclaw/backup.tar.gz',
+        'openclaw/.last-sync',
+        '.backup-verification.json',
+      ]);
     });
   });
 });
@@ -1,101 +1,96 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
-import { R2_MOUNT_PATH } from '../config';
-import { mountR2Storage } from './r2';
-import { syncToR2Binding } from './sync-binding';
-import { waitForProcess } from './utils';
+import { DEFAULT_TENANT_ID } from '../config';
+import { MANIFEST_FILE } from './backup-verify';
+import {
+  BACKUP_KEY,
+  LAST_SYNC_KEY,
+  syncToR2Binding,
+  type SyncOptions,
+  type SyncResult,
+} from './sync-binding';
+import { withSyncLock } from './sync-lock';
+import { getTenantR2Prefix } from './tenant';
 
-export interface SyncResult {
-  success: boolean;
-  lastSync?: string;
-  error?: string;
-  details?: string;
-}
+export type { SyncOptions, SyncResult } from './sync-binding';
 
 /**
  * Sync OpenClaw config and workspace from container to R2 for persistence.
  *
- * Tries mount-based sync first (rsync to mounted R2). If mount is unavailable,
- * falls back to binding-based sync: tar in container, Worker puts to R2 (no FUSE).
- *
- * Mount path syncs: config, workspace, skills to R2 prefixes.
- * Binding path: single openclaw/backup.tar.gz + openclaw/.last-sync.
+ * Files are stored content-addressed through the Worker's R2 binding (see syncToR2Binding), so
+ * a sync only uploads what changed and an unchanged workspace costs no R2 writes. The backup
+ * is restored at startup straight from the mount, or from the Worker's /internal/backup.
+ * Backups in the earlier formats (the rsync tree on the mount and the backup tarball) are left
+ * in place, except that the plaintext rsync tree is deleted once encrypted syncs succeed.
+ * Scoped to the tenant's R2 prefix (bucket root for the default tenant), and run under the
+ * tenant's sync lock: a sync started while another is running waits for it, and fails if it
+ * doesn't finish within SYNC_LOCK_WAIT_MS or `options.signal` is aborted first.
  *
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
+ * @param tenantId - Tenant that owns the sandbox
+ * @param options - Sync options
  * @returns SyncResult with success status and optional error details
  */
-export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv): Promise<SyncResult> {
-  // Try mount first when configured (requires CF_ACCOUNT_ID and FUSE)
-  if (env.CF_ACCOUNT_ID) {
-    const mounted = await mountR2Storage(sandbox, env);
-    if (mounted) {
-      return syncToR2ViaMount(sandbox, env);
+export async function syncToR2(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string = DEFAULT_TENANT_ID,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const result = await withSyncLock(
+    env,
+    tenantId,
+    async () => {
+      const synced = await syncToR2Binding(sandbox, env, tenantId, options);
+      if (synced.success && env.BACKUP_ENCRYPTION_KEY) {
+        await deletePlaintextTree(env, tenantId);
+      }
+      return synced;
+    },
+    { signal: options.signal },
+  );
+  return (
+    result ?? {
+      success: false,
+      error: 'Another sync is still running',
+      details: 'Timed out waiting for the sync lock',
     }
-  }
-
-  // Fallback: tar.gz + Worker put (no FUSE, works with just MOLTBOT_BUCKET binding)
-  console.log('[Sync] Using binding backup (tar.gz + put)');
-  return syncToR2Binding(sandbox, env);
+  );
 }
 
 /**
- * Mount-based sync: rsync config, workspace, skills to mounted R2 path.
- * Called when mountR2Storage succeeded.
+ * Delete the rsync tree (openclaw/, workspace/, skills/, .last-sync, manifest) left by
+ * mount-based syncs, keeping the backup tarball. Only runs when the tree's .last-sync marker
+ * exists.
  */
-async function syncToR2ViaMount(sandbox: Sandbox, env: MoltbotEnv): Promise<SyncResult> {
-
-  // Determine which config directory exists
-  let configDir = '/root/.openclaw';
+async function deletePlaintextTree(env: MoltbotEnv, tenantId: string): Promise<void> {
+  const prefix = getTenantR2Prefix(tenantId);
   try {
-    const checkNew = await sandbox.startProcess('test -f /root/.openclaw/openclaw.json');
-    await waitForProcess(checkNew, 5000);
-    if (checkNew.exitCode !== 0) {
-      const checkLegacy = await sandbox.startProcess('test -f /root/.clawdbot/clawdbot.json');
-      await waitForProcess(checkLegacy, 5000);
-      if (checkLegacy.exitCode === 0) {
-        configDir = '/root/.clawdbot';
-      } else {
-        return {
-          success: false,
-          error: 'Sync aborted: no config file found',
-          details: 'Neither openclaw.json nor clawdbot.json found in config directory.',
-        };
-      }
+    if (!(await env.MOLTBOT_BUCKET.head(prefix + '.last-sync'))) {
+      return;
     }
-  } catch (err) {
-    return {
-      success: false,
-      error: 'Failed to verify source files',
-      details: err instanceof Error ? err.message : 'Unknown error',
-    };
-  }
-
-  const syncCmd = `rsync -r --no-times --delete --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' ${configDir}/ ${R2_MOUNT_PATH}/openclaw/ && rsync -r --no-times --delete --exclude='skills' /root/clawd/ ${R2_MOUNT_PATH}/workspace/ && rsync -r --no-times --delete /root/clawd/skills/ ${R2_MOUNT_PATH}/skills/ && date -Iseconds > ${R2_MOUNT_PATH}/.last-sync`;
-
-  try {
-    const proc = await sandbox.startProcess(syncCmd);
-    await waitForProcess(proc, 30000);
-
-    const timestampProc = await sandbox.startProcess(`cat ${R2_MOUNT_PATH}/.last-sync`);
-    await waitForProcess(timestampProc, 5000);
-    const timestampLogs = await timestampProc.getLogs();
-    const lastSync = timestampLogs.stdout?.trim();
-
-    if (lastSync && lastSync.match(/^\d{4}-\d{2}-\d{2}/)) {
-      return { success: true, lastSync };
+    const keep = new Set([prefix + BACKUP_KEY, prefix + LAST_SYNC_KEY]);
+    let deleted = 0;
+    for (const dir of ['openclaw/', 'clawdbot/', 'workspace/', 'skills/']) {
+      let cursor: string | undefined;
+      do {
+        // eslint-disable-next-line no-await-in-loop -- paginated listing
+        const page = await env.MOLTBOT_BUCKET.list({ prefix: prefix + dir, cursor });
+        const keys = page.objects.map((obj) => obj.key).filter((key) => !keep.has(key));
+        if (keys.length > 0) {
+          // eslint-disable-next-line no-await-in-loop
+          await env.MOLTBOT_BUCKET.delete(keys);
+          deleted += keys.length;
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
     }
-    const logs = await proc.getLogs();
-    return {
-      success: false,
-      error: 'Sync failed',
-      details: logs.stderr || logs.stdout || 'No timestamp file created',
-    };
+    await env.MOLTBOT_BUCKET.delete(prefix + MANIFEST_FILE);
+    // Delete the marker last so an interrupted cleanup is retried on the next sync
+    await env.MOLTBOT_BUCKET.delete(prefix + '.last-sync');
+    console.log('[Sync] Deleted', deleted, 'plaintext backup file(s) for tenant', tenantId);
   } catch (err) {
-    return {
-      success: false,
-      error: 'Sync error',
-      details: err instanceof Error ? err.message : 'Unknown error',
-    };
+    console.error('[Sync] Failed to delete plaintext backup tree:', err);
   }
 }
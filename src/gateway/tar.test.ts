@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { gunzipStream, gzipStream, readTar, tarStream, type TarEntry } from './tar';
+import { readTarGz } from '../test-utils';
+
+const encoder = new TextEncoder();
+
+function entry(path: string, body: string, mode = 0o644): TarEntry {
+  const bytes = encoder.encode(body);
+  return { path, mode, size: bytes.length, mtime: 1_760_000_000, body: bytes };
+}
+
+/** Header block as GNU tar writes it, for entry types tarStream doesn't produce */
+function gnuHeader(name: string, type: string, size = 0): Uint8Array {
+  const block = new Uint8Array(512);
+  block.set(encoder.encode(name).subarray(0, 100), 0);
+  block.set(encoder.encode('0000755\0'), 100);
+  block.set(encoder.encode(`${size.toString(8).padStart(11, '0')}\0`), 124);
+  block.set(encoder.encode(type), 156);
+  block.set(encoder.encode('ustar  \0'), 257);
+  return block;
+}
+
+function padded(body: string): Uint8Array {
+  const bytes = encoder.encode(body);
+  const block = new Uint8Array(Math.ceil(bytes.length / 512) * 512);
+  block.set(bytes);
+  return block;
+}
+
+async function* stream(parts: Uint8Array[]): AsyncGenerator<Uint8Array> {
+  yield* parts;
+}
+
+async function collectFiles(chunks: AsyncIterable<Uint8Array>, want?: (path: string) => boolean) {
+  const files = [];
+  for await (const file of readTar(chunks, want)) {
+    files.push({ ...file, body: file.body && new TextDecoder().decode(file.body) });
+  }
+  return files;
+}
+
+async function drain(chunks: AsyncIterable<Uint8Array>): Promise<void> {
+  for await (const _chunk of chunks) {
+    // read to the end
+  }
+}
+
+describe('tarStream', () => {
+  it('writes files with their modes, including empty files and block-sized bodies', async () => {
+    const files = [
+      entry('.openclaw/openclaw.json', '{"gateway":{}}'),
+      entry('clawd/skills/run.sh', '#!/bin/sh\n', 0o755),
+      entry('clawd/empty.md', ''),
+      entry('clawd/block.bin', 'x'.repeat(512)),
+    ];
+
+    const unpacked = await readTarGz(gzipStream(tarStream(files)));
+
+    expect(unpacked).toEqual([
+      { path: '.openclaw/openclaw.json', mode: 0o644, body: '{"gateway":{}}' },
+      { path: 'clawd/skills/run.sh', mode: 0o755, body: '#!/bin/sh\n' },
+      { path: 'clawd/empty.md', mode: 0o644, body: '' },
+      { path: 'clawd/block.bin', mode: 0o644, body: 'x'.repeat(512) },
+    ]);
+  });
+
+  it('stores paths longer than the ustar name field in a pax header', async () => {
+    const path = `clawd/memory/${'nested/'.repeat(20)}notes – été.md`;
+
+    const unpacked = await readTarGz(gzipStream(tarStream([entry(path, 'long')])));
+
+    expect(unpacked).toEqual([{ path, mode: 0o644, body: 'long' }]);
+  });
+
+  it('fails when a body does not match its declared size', async () => {
+    const short = { ...entry('a.md', 'abc'), size: 4 };
+    const long = { ...entry('b.md', 'abcde'), size: 4 };
+
+    await expect(drain(tarStream([short]))).rejects.toThrow('a.md: expected 4 bytes, got 3');
+    await expect(drain(tarStream([long]))).rejects.toThrow('b.md: expected 4 bytes');
+  });
+});
+
+describe('readTar', () => {
+  it('reads what tarStream writes, keeping only the bodies asked for', async () => {
+    const long = `clawd/memory/${'nested/'.repeat(20)}notes.md`;
+    const files = [
+      entry('.openclaw/openclaw.json', '{}'),
+      entry('clawd/skills/run.sh', '#!/bin/sh\n', 0o755),
+      entry(long, 'x'.repeat(600)),
+    ];
+
+    const read = await collectFiles(gunzipStream(gzipStream(tarStream(files))), (path) =>
+      path.startsWith('clawd/'),
+    );
+
+    expect(read).toEqual([
+      { path: '.openclaw/openclaw.json', mode: 0o644, size: 2, body: null },
+      { path: 'clawd/skills/run.sh', mode: 0o755, size: 10, body: '#!/bin/sh\n' },
+      { path: long, mode: 0o644, size: 600, body: 'x'.repeat(600) },
+    ]);
+  });
+
+  it('skips directories and reads GNU long names from older snapshots', async () => {
+    const long = `clawd/${'a'.repeat(120)}.md`;
+    const archive = [
+      gnuHeader('./clawd/', '5'),
+      gnuHeader('././@LongLink', 'L', long.length + 1),
+      padded(`${long}\0`),
+      gnuHeader(long.slice(0, 100), '0', 5),
+      padded('notes'),
+      new Uint8Array(1024),
+    ];
+
+    expect(await collectFiles(stream(archive), () => true)).toEqual([
+      { path: long, mode: 0o755, size: 5, body: 'notes' },
+    ]);
+  });
+
+  it('fails on archives that end in the middle of an entry', async () => {
+    const archive = [gnuHeader('clawd/MEMORY.md', '0', 1000), padded('partial')];
+
+    await expect(collectFiles(stream(archive))).rejects.toThrow('Archive is truncated');
+  });
+});
@@ -0,0 +1,258 @@
+import { fromReadable, toReadable } from './backup-crypto';
+import { toChunks, type UploadBody } from './r2-upload';
+
+/**
+ * Streaming tar writer for backups assembled in the Worker (restore downloads and snapshots),
+ * and a reader for browsing and partially restoring snapshots.
+ *
+ * Writes POSIX ustar entries, with a pax header for paths longer than the 100-byte name field,
+ * which GNU tar in the container extracts natively. Parent directories are not written; tar
+ * creates them on extraction. The reader also understands the GNU long-name entries in
+ * snapshots made by tar in the container.
+ */
+
+const BLOCK = 512;
+const NAME_LENGTH = 100;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** A regular file read from an archive */
+export interface TarFile {
+  path: string;
+  mode: number;
+  size: number;
+  /** Contents, for files the caller asked for (null otherwise) */
+  body: Uint8Array | null;
+}
+
+export interface TarEntry {
+  /** Path relative to the archive root */
+  path: string;
+  /** Permission bits, e.g. 0o644 */
+  mode: number;
+  /** Body length in bytes; the body must yield exactly this many */
+  size: number;
+  /** Modification time in seconds since the epoch */
+  mtime: number;
+  body: UploadBody;
+}
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string): void {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+/** Zero-padded octal followed by a NUL, filling `length` bytes */
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(header, offset, length, `${value.toString(8).padStart(length - 1, '0')}\0`);
+}
+
+function header(name: string, mode: number, size: number, mtime: number, type: string): Uint8Array {
+  const block = new Uint8Array(BLOCK);
+  writeString(block, 0, NAME_LENGTH, name);
+  writeOctal(block, 100, 8, mode);
+  writeOctal(block, 108, 8, 0); // uid
+  writeOctal(block, 116, 8, 0); // gid
+  writeOctal(block, 124, 12, size);
+  writeOctal(block, 136, 12, mtime);
+  writeString(block, 148, 8, ' '.repeat(8)); // checksum placeholder
+  writeString(block, 156, 1, type);
+  writeString(block, 257, 8, 'ustar\x0000');
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeString(block, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+  return block;
+}
+
+/** Pax extended header record; its length prefix counts itself */
+function paxRecord(key: string, value: string): Uint8Array {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).length;
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength > length) length++;
+  return encoder.encode(`${length}${body}`);
+}
+
+function padding(size: number): Uint8Array | null {
+  const rest = size % BLOCK;
+  return rest === 0 ? null : new Uint8Array(BLOCK - rest);
+}
+
+/**
+ * Write entries as an (uncompressed) tar stream.
+ *
+ * @throws If an entry's body is longer or shorter than its declared size
+ */
+export async function* tarStream(
+  entries: AsyncIterable<TarEntry> | Iterable<TarEntry>,
+): AsyncGenerator<Uint8Array> {
+  for await (const entry of entries) {
+    if (encoder.encode(entry.path).length > NAME_LENGTH) {
+      const record = paxRecord('path', entry.path);
+      yield header('PaxHeader', 0o644, record.length, entry.mtime, 'x');
+      yield record;
+      const pad = padding(record.length);
+      if (pad) yield pad;
+    }
+    yield header(entry.path, entry.mode, entry.size, entry.mtime, '0');
+
+    let written = 0;
+    for await (const chunk of toChunks(entry.body)) {
+      written += chunk.length;
+      if (written > entry.size) break;
+      yield chunk;
+    }
+    if (written !== entry.size) {
+      throw new Error(`${entry.path}: expected ${entry.size} bytes, got ${written}`);
+    }
+    const pad = padding(entry.size);
+    if (pad) yield pad;
+  }
+  yield new Uint8Array(BLOCK * 2);
+}
+
+/**
+ * Gzip a stream of chunks
+ */
+export function gzipStream(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  // CompressionStream is typed as accepting any BufferSource, which pipeThrough can't narrow
+  const gzip = new CompressionStream('gzip') as unknown as ReadableWritablePair<
+    Uint8Array,
+    Uint8Array
+  >;
+  return fromReadable(toReadable(chunks).pipeThrough(gzip));
+}
+
+/**
+ * Gunzip a stream of chunks
+ */
+export function gunzipStream(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  // Same typing gap as CompressionStream in gzipStream
+  const gunzip = new DecompressionStream('gzip') as unknown as ReadableWritablePair<
+    Uint8Array,
+    Uint8Array
+  >;
+  return fromReadable(toReadable(chunks).pipeThrough(gunzip));
+}
+
+/** NUL-terminated string field */
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  return Number.parseInt(readString(block, offset, length).trim() || '0', 8);
+}
+
+/**
+ * Byte reader over a chunk stream that hands out exact lengths
+ */
+function byteReader(chunks: AsyncIterable<Uint8Array>) {
+  const iterator = chunks[Symbol.asyncIterator]();
+  let buffered = new Uint8Array(0);
+
+  // Buffer at least `length` bytes, joining the chunks once
+  const fill = async (length: number): Promise<boolean> => {
+    if (buffered.length >= length) return true;
+    const parts: Uint8Array[] = [buffered];
+    let total = buffered.length;
+    while (total < length) {
+      // eslint-disable-next-line no-await-in-loop -- reading the stream in order
+      const { done, value } = await iterator.next();
+      if (done) break;
+      parts.push(value);
+      total += value.length;
+    }
+    buffered = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      buffered.set(part, offset);
+      offset += part.length;
+    }
+    return total >= length;
+  };
+
+  return {
+    /** Exactly `length` bytes, or null at the end of the stream */
+    async read(length: number): Promise<Uint8Array | null> {
+      if (!(await fill(length))) return null;
+      const out = buffered.slice(0, length);
+      buffered = buffered.subarray(length);
+      return out;
+    },
+    /** Discard `length` bytes without keeping more than one chunk */
+    async skip(length: number): Promise<boolean> {
+      let remaining = length;
+      while (remaining > 0) {
+        // eslint-disable-next-line no-await-in-loop
+        if (!(await fill(1))) return false;
+        const n = Math.min(remaining, buffered.length);
+        buffered = buffered.subarray(n);
+        remaining -= n;
+      }
+      return true;
+    },
+    async close(): Promise<void> {
+      await iterator.return?.(undefined);
+    },
+  };
+}
+
+/**
+ * Read the regular files of an (uncompressed) tar stream. Directories, links and other entry
+ * types are skipped. Only bodies of files for which `wantBody` returns true are kept in memory;
+ * the rest are read past.
+ *
+ * @throws If the archive ends in the middle of an entry
+ */
+export async function* readTar(
+  chunks: AsyncIterable<Uint8Array>,
+  wantBody: (path: string) => boolean = () => false,
+): AsyncGenerator<TarFile> {
+  const reader = byteReader(chunks);
+  let longPath: string | null = null;
+  try {
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop -- entries are read in order
+      const block = await reader.read(BLOCK);
+      if (!block || block.every((byte) => byte === 0)) {
+        return;
+      }
+      const type = readString(block, 156, 1) || '0';
+      const size = readOctal(block, 124, 12);
+      const padded = Math.ceil(size / BLOCK) * BLOCK;
+      const prefix = readString(block, 257, 6) === 'ustar' ? readString(block, 345, 155) : '';
+      const name = readString(block, 0, NAME_LENGTH);
+      const path = (longPath ?? (prefix ? `${prefix}/${name}` : name)).replace(/^(\.\/)+/, '');
+
+      if (type === 'x' || type === 'L') {
+        // eslint-disable-next-line no-await-in-loop
+        const body = await reader.read(padded);
+        if (!body) break;
+        const text = decoder.decode(body.subarray(0, size));
+        longPath =
+          type === 'L' ? text.split('\0')[0] : (text.match(/(?:^|\n)\d+ path=(.*)\n/)?.[1] ?? null);
+        continue;
+      }
+      longPath = null;
+
+      const isFile = type === '0' || type === '7';
+      if (isFile && wantBody(path)) {
+        // eslint-disable-next-line no-await-in-loop
+        const body = await reader.read(padded);
+        if (!body) break;
+        yield { path, mode: readOctal(block, 100, 8), size, body: body.subarray(0, size) };
+        continue;
+      }
+      // eslint-disable-next-line no-await-in-loop
+      if (!(await reader.skip(padded))) break;
+      if (isFile) {
+        yield { path, mode: readOctal(block, 100, 8), size, body: null };
+      }
+    }
+    throw new Error('Archive is truncated');
+  } finally {
+    await reader.close();
+  }
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  _resetTenantRegistry,
+  deriveBackupRestoreToken,
+  getTenantMountPrefix,
+  getTenantR2Prefix,
+  listTenants,
+  registerTenant,
+  resolveServiceTokenTenantId,
+  resolveTenantId,
+  sanitizeTenantId,
+} from './tenant';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+describe('sanitizeTenantId', () => {
+  it('lowercases and replaces invalid characters', () => {
+    expect(sanitizeTenantId('Alice@Example.com')).toBe('alice-example-com');
+  });
+
+  it('trims leading and trailing separators', () => {
+    expect(sanitizeTenantId('--team a--')).toBe('team-a');
+  });
+
+  it('truncates to 63 characters', () => {
+    expect(sanitizeTenantId('a'.repeat(100))).toHaveLength(63);
+  });
+});
+
+describe('resolveTenantId', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('returns the default tenant when multi-tenant mode is off', async () => {
+    const env = createMockEnv();
+    expect(await resolveTenantId(env, { email: 'alice@example.com' })).toBe('moltbot');
+  });
+
+  it('derives the tenant from the email in multi-tenant mode', async () => {
+    const env = createMockEnv({ MULTI_TENANT: 'true' });
+    const tenantId = await resolveTenantId(env, { email: 'Alice@example.com' });
+
+    expect(tenantId).toMatch(/^alice-example-com-[0-9a-f]{12}$/);
+    expect(await resolveTenantId(env, { email: 'alice@example.com' })).toBe(tenantId);
+    expect(sanitizeTenantId(tenantId)).toBe(tenantId);
+  });
+
+  it('gives emails that sanitize alike different tenants', async () => {
+    const env = createMockEnv({ MULTI_TENANT: 'true' });
+    const long = 'x'.repeat(70);
+
+    expect(await resolveTenantId(env, { email: 'a.b@x.com' })).not.toBe(
+      await resolveTenantId(env, { email: 'a-b@x.com' }),
+    );
+    const first = await resolveTenantId(env, { email: `${long}1@x.com` });
+    expect(first.length).toBeLessThanOrEqual(63);
+    expect(first).not.toBe(await resolveTenantId(env, { email: `${long}2@x.com` }));
+  });
+
+  it('prefers an exact email match in TENANT_MAP', async () => {
+    const env = createMockEnv({
+      MULTI_TENANT: 'true',
+      TENANT_MAP: JSON.stringify({ 'alice@example.com': 'Alpha', '@example.com': 'team' }),
+    });
+    expect(await resolveTenantId(env, { email: 'Alice@example.com' })).toBe('alpha');
+  });
+
+  it('falls back to a domain match in TENANT_MAP', async () => {
+    const env = createMockEnv({
+      MULTI_TENANT: 'true',
+      TENANT_MAP: JSON.stringify({ '@example.com': 'team' }),
+    });
+    expect(await resolveTenantId(env, { email: 'bob@example.com' })).toBe('team');
+  });
+
+  it('never maps a user to the default tenant', async () => {
+    const env = createMockEnv({
+      MULTI_TENANT: 'true',
+      TENANT_MAP: JSON.stringify({ 'alice@example.com': 'MoltBot', '@example.com': '!!!' }),
+    });
+    expect(await resolveTenantId(env, { email: 'alice@example.com' })).toMatch(
+      /^alice-example-com-/,
+    );
+    expect(await resolveTenantId(env, { email: 'bob@example.com' })).toMatch(/^bob-example-com-/);
+  });
+
+  it('ignores an invalid TENANT_MAP', async () => {
+    const env = createMockEnv({ MULTI_TENANT: 'true', TENANT_MAP: 'not json' });
+    expect(await resolveTenantId(env, { email: 'bob@example.com' })).toMatch(/^bob-example-com-/);
+  });
+});
+
+describe('resolveServiceTokenTenantId', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('returns the default tenant when multi-tenant mode is off', () => {
+    expect(resolveServiceTokenTenantId(createMockEnv(), 'abc.access')).toBe('moltbot');
+  });
+
+  it('only gives a service token the tenant TENANT_MAP names for its client ID', () => {
+    const env = createMockEnv({
+      MULTI_TENANT: 'true',
+      TENANT_MAP: JSON.stringify({ 'ci.access': 'Build', 'root.access': 'moltbot' }),
+    });
+    expect(resolveServiceTokenTenantId(env, 'ci.access')).toBe('build');
+    expect(resolveServiceTokenTenantId(env, 'other.access')).toBeNull();
+    expect(resolveServiceTokenTenantId(env, 'root.access')).toBeNull();
+  });
+});
+
+describe('tenant prefixes', () => {
+  it('uses the bucket root for the default tenant', () => {
+    expect(getTenantR2Prefix('moltbot')).toBe('');
+    expect(getTenantMountPrefix('moltbot')).toBeUndefined();
+  });
+
+  it('scopes other tenants under tenants/<id>/', () => {
+    expect(getTenantR2Prefix('team')).toBe('tenants/team/');
+    expect(getTenantMountPrefix('team')).toBe('/tenants/team/');
+  });
+});
+
+describe('registerTenant', () => {
+  beforeEach(() => {
+    suppressConsole();
+    _resetTenantRegistry();
+  });
+
+  it('writes a marker once for a new tenant', async () => {
+    const headMock = vi.fn().mockResolvedValue(null);
+    const putMock = vi.fn().mockResolvedValue(undefined);
+    const env = createMockEnv({ MOLTBOT_BUCKET: { head: headMock, put: putMock } as any });
+
+    await registerTenant(env, 'team', { email: 'a@example.com' });
+    await registerTenant(env, 'team', { email: 'a@example.com' });
+
+    expect(headMock).toHaveBeenCalledTimes(1);
+    expect(putMock).toHaveBeenCalledTimes(1);
+    expect(putMock.mock.calls[0][0]).toBe('tenants/team/.tenant.json');
+  });
+
+  it('does nothing for the default tenant', async () => {
+    const headMock = vi.fn();
+    const env = createMockEnv({ MOLTBOT_BUCKET: { head: headMock } as any });
+
+    await registerTenant(env, 'moltbot');
+
+    expect(headMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('listTenants', () => {
+  it('returns only the default tenant in single-tenant mode', async () => {
+    const env = createMockEnv();
+    expect(await listTenants(env)).toEqual(['moltbot']);
+  });
+
+  it('lists tenant prefixes across pages', async () => {
+    const listMock = vi
+      .fn()
+      .mockResolvedValueOnce({
+        delimitedPrefixes: ['tenants/a/'],
+        truncated: true,
+        cursor: 'next',
+      })
+      .mockResolvedValueOnce({ delimitedPrefixes: ['tenants/b/'], truncated: false });
+    const env = createMockEnv({ MULTI_TENANT: 'true', MOLTBOT_BUCKET: { list: listMock } as any });
+
+    expect(await listTenants(env)).toEqual(['a', 'b']);
+    expect(listMock).toHaveBeenLastCalledWith({
+      prefix: 'tenants/',
+      delimiter: '/',
+      cursor: 'next',
+    });
+  });
+});
+
+describe('deriveBackupRestoreToken', () => {
+  it('returns the base token for the default tenant', async () => {
+    expect(await deriveBackupRestoreToken('secret', 'moltbot')).toBe('secret');
+  });
+
+  it('derives a distinct, stable token per tenant', async () => {
+    const a1 = await deriveBackupRestoreToken('secret', 'a');
+    const a2 = await deriveBackupRestoreToken('secret', 'a');
+    const b = await deriveBackupRestoreToken('secret', 'b');
+    expect(a1).toBe(a2);
+    expect(a1).not.toBe(b);
+    expect(a1).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,221 @@
+import type { AccessUser, MoltbotEnv } from '../types';
+import { DEFAULT_TENANT_ID } from '../config';
+
+/** R2 prefix under which each non-default tenant's data lives */
+const TENANT_PREFIX = 'tenants/';
+
+/** Marker object written once per tenant so the cron handler can enumerate them */
+const TENANT_MARKER = '.tenant.json';
+
+/** Hex characters of the email hash that keep derived tenant IDs unique */
+const TENANT_HASH_LENGTH = 12;
+
+/** Tenants already registered by this isolate (avoids an R2 round-trip per request) */
+const registeredTenants = new Set<string>();
+
+/**
+ * Check if multi-tenant mode is enabled (one sandbox per Cloudflare Access identity)
+ */
+export function isMultiTenant(env: MoltbotEnv): boolean {
+  return env.MULTI_TENANT === 'true';
+}
+
+/**
+ * Normalize a string into a valid tenant ID.
+ * Sandbox IDs must be lowercase for preview URLs, and the ID is also used as an R2 prefix,
+ * so only [a-z0-9-] is kept (max 63 chars).
+ */
+export function sanitizeTenantId(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 63)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Parse TENANT_MAP. Invalid JSON is logged and treated as an empty mapping.
+ */
+function parseTenantMap(env: MoltbotEnv): Record<string, string> {
+  if (!env.TENANT_MAP) return {};
+  try {
+    const parsed = JSON.parse(env.TENANT_MAP);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, string>;
+    }
+  } catch {
+    // Fall through to the warning below
+  }
+  console.warn('[Tenant] TENANT_MAP is not a JSON object, ignoring it');
+  return {};
+}
+
+/**
+ * Tenant ID derived from an email: the sanitized email plus a hash of the raw one, since
+ * sanitizing alone maps e.g. a.b@x.com and a-b@x.com to the same ID
+ * (alice@example.com -> alice-example-com-<hash>)
+ */
+async function emailTenantId(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(email));
+  const hash = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, TENANT_HASH_LENGTH);
+  const name = sanitizeTenantId(email)
+    .slice(0, 63 - TENANT_HASH_LENGTH - 1)
+    .replace(/-+$/, '');
+  return name ? `${name}-${hash}` : hash;
+}
+
+/**
+ * Resolve the tenant ID for an authenticated user.
+ *
+ * Lookup order:
+ * 1. Exact email match in TENANT_MAP
+ * 2. Domain match in TENANT_MAP (keys starting with '@')
+ * 3. The email itself, sanitized and suffixed with a hash of it
+ *
+ * A mapping that sanitizes to nothing or to DEFAULT_TENANT_ID (the bucket root) is logged and
+ * ignored. In single-tenant mode this always returns DEFAULT_TENANT_ID.
+ */
+export async function resolveTenantId(env: MoltbotEnv, user: AccessUser): Promise<string> {
+  if (!isMultiTenant(env)) {
+    return DEFAULT_TENANT_ID;
+  }
+
+  const email = user.email.toLowerCase();
+  const mapping = parseTenantMap(env);
+  const domain = email.includes('@') ? email.slice(email.lastIndexOf('@')) : '';
+  const mapped = mapping[email] ?? (domain ? mapping[domain] : undefined);
+
+  const tenantId = mapped === undefined ? null : mappedTenantId(email, mapped);
+  return tenantId ?? emailTenantId(email);
+}
+
+/**
+ * Tenant ID of a TENANT_MAP entry, or null (logged) if it sanitizes to nothing or to
+ * DEFAULT_TENANT_ID (the bucket root)
+ */
+function mappedTenantId(key: string, mapped: unknown): string | null {
+  const tenantId = sanitizeTenantId(String(mapped));
+  if (tenantId && tenantId !== DEFAULT_TENANT_ID) {
+    return tenantId;
+  }
+  console.warn('[Tenant] Ignoring TENANT_MAP entry for', key, '- not a valid tenant ID:', mapped);
+  return null;
+}
+
+/**
+ * Resolve the tenant ID for an Access service token, by its client ID.
+ *
+ * Service tokens have no email, so in multi-tenant mode they only get the tenant an exact
+ * TENANT_MAP entry for their client ID names, and none (null) without one: such callers must be
+ * refused rather than served by the default tenant. In single-tenant mode this always returns
+ * DEFAULT_TENANT_ID.
+ */
+export function resolveServiceTokenTenantId(env: MoltbotEnv, clientId: string): string | null {
+  if (!isMultiTenant(env)) {
+    return DEFAULT_TENANT_ID;
+  }
+  const mapped = parseTenantMap(env)[clientId];
+  return mapped === undefined ? null : mappedTenantId(clientId, mapped);
+}
+
+/**
+ * R2 key prefix for a tenant's data. The default tenant uses the bucket root so
+ * single-tenant deployments keep their existing layout.
+ */
+export function getTenantR2Prefix(tenantId: string): string {
+  return tenantId === DEFAULT_TENANT_ID ? '' : `${TENANT_PREFIX}${tenantId}/`;
+}
+
+/**
+ * Prefix passed to mountBucket() so a tenant's container only sees its own data.
+ * Returns undefined for the default tenant (mount the whole bucket).
+ */
+export function getTenantMountPrefix(tenantId: string): string | undefined {
+  const prefix = getTenantR2Prefix(tenantId);
+  return prefix ? `/${prefix}` : undefined;
+}
+
+/**
+ * Record a tenant in R2 so the scheduled handler can find it. No-op for the default tenant.
+ */
+export async function registerTenant(
+  env: MoltbotEnv,
+  tenantId: string,
+  user?: AccessUser,
+): Promise<void> {
+  if (tenantId === DEFAULT_TENANT_ID || registeredTenants.has(tenantId)) {
+    return;
+  }
+
+  const key = `${getTenantR2Prefix(tenantId)}${TENANT_MARKER}`;
+  try {
+    const existing = await env.MOLTBOT_BUCKET.head(key);
+    if (!existing) {
+      await env.MOLTBOT_BUCKET.put(
+        key,
+        JSON.stringify({ tenantId, email: user?.email, createdAt: new Date().toISOString() }),
+        { httpMetadata: { contentType: 'application/json' } },
+      );
+      console.log('[Tenant] Registered new tenant:', tenantId);
+    }
+    registeredTenants.add(tenantId);
+  } catch (err) {
+    console.error('[Tenant] Failed to register tenant', tenantId, err);
+  }
+}
+
+/**
+ * List all known tenants. In single-tenant mode this is just the default tenant.
+ */
+export async function listTenants(env: MoltbotEnv): Promise<string[]> {
+  if (!isMultiTenant(env)) {
+    return [DEFAULT_TENANT_ID];
+  }
+
+  const tenants: string[] = [];
+  let cursor: string | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop -- paginated listing
+    const page = await env.MOLTBOT_BUCKET.list({ prefix: TENANT_PREFIX, delimiter: '/', cursor });
+    for (const prefix of page.delimitedPrefixes) {
+      const tenantId = prefix.slice(TENANT_PREFIX.length).replace(/\/$/, '');
+      if (tenantId) tenants.push(tenantId);
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return tenants;
+}
+
+/**
+ * Derive a per-tenant BACKUP_RESTORE_TOKEN so one tenant's container cannot fetch
+ * another tenant's backup from /internal/backup. The default tenant keeps the raw token.
+ */
+export async function deriveBackupRestoreToken(
+  baseToken: string,
+  tenantId: string,
+): Promise<string> {
+  if (tenantId === DEFAULT_TENANT_ID) {
+    return baseToken;
+  }
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(baseToken),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(tenantId));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Exposed for testing only */
+export function _resetTenantRegistry(): void {
+  registeredTenants.clear();
+}
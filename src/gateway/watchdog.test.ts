@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import {
+  WatchdogStore,
+  getBackoffDelay,
+  getWatchdogState,
+  resetWatchdog,
+  runGatewayWatchdog,
+  type GatewayCrash,
+} from './watchdog';
+import { MemoryStateStorage, _resetStartupState } from './startup-state';
+import { ensureMoltbotGateway } from './process';
+import { syncBeforeStop } from './pre-stop';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+vi.mock('./process', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./process')>()),
+  ensureMoltbotGateway: vi.fn(),
+}));
+
+vi.mock('./pre-stop', () => ({
+  syncBeforeStop: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+function crash(processId: string, at: number): GatewayCrash {
+  return { processId, exitCode: 1, stderr: 'boom', at };
+}
+
+function exitedGateway(id: string, stderr = 'Error: boom'): Process {
+  return {
+    id,
+    command: '/usr/local/bin/start-openclaw.sh',
+    status: 'failed',
+    exitCode: 1,
+    startTime: new Date(),
+    endTime: new Date(),
+    getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr }),
+  } as unknown as Process;
+}
+
+describe('getBackoffDelay', () => {
+  it('doubles with each crash up to the maximum', () => {
+    expect(getBackoffDelay(1)).toBe(15_000);
+    expect(getBackoffDelay(2)).toBe(30_000);
+    expect(getBackoffDelay(3)).toBe(60_000);
+    expect(getBackoffDelay(20)).toBe(600_000);
+  });
+});
+
+describe('WatchdogStore', () => {
+  let now: number;
+  let store: WatchdogStore;
+
+  beforeEach(() => {
+    now = 10_000_000;
+    store = new WatchdogStore(new MemoryStateStorage(), () => now);
+  });
+
+  it('schedules the next restart with backoff', async () => {
+    const state = await store.recordCrash(crash('p1', now));
+    expect(state.crashes).toHaveLength(1);
+    expect(state.nextRestartAt).toBe(now + 15_000);
+    expect(state.crashLoop).toBeNull();
+  });
+
+  it('counts each exited process once', async () => {
+    await store.recordCrash(crash('p1', now));
+    const state = await store.recordCrash(crash('p1', now));
+    expect(state.crashes).toHaveLength(1);
+  });
+
+  it('declares a crash loop after the threshold within the window', async () => {
+    let state = await store.recordCrash(crash('p0', now));
+    for (let i = 1; i < 5; i++) {
+      now += 60_000;
+      // eslint-disable-next-line no-await-in-loop -- crashes are recorded in order
+      state = await store.recordCrash(crash(`p${i}`, now));
+    }
+    expect(state.crashLoop?.crashes).toBe(5);
+    expect(state.crashLoop?.lastCrash.processId).toBe('p4');
+    expect(state.nextRestartAt).toBeNull();
+  });
+
+  it('forgets crashes that fall outside the window', async () => {
+    for (let i = 0; i < 4; i++) {
+      // eslint-disable-next-line no-await-in-loop -- crashes are recorded in order
+      await store.recordCrash(crash(`p${i}`, now));
+    }
+    now += 31 * 60_000;
+    const state = await store.recordCrash(crash('p4', now));
+    expect(state.crashes).toHaveLength(1);
+    expect(state.crashLoop).toBeNull();
+  });
+
+  it('clears the crash loop on reset but remembers the last process', async () => {
+    await store.recordCrash(crash('p1', now));
+    await store.resetWatchdog();
+    const state = await store.getWatchdogState();
+    expect(state.crashes).toEqual([]);
+    expect(state.lastProcessId).toBe('p1');
+  });
+});
+
+describe('runGatewayWatchdog', () => {
+  beforeEach(() => {
+    suppressConsole();
+    _resetStartupState();
+    vi.mocked(ensureMoltbotGateway).mockReset();
+    vi.mocked(syncBeforeStop).mockClear();
+  });
+
+  it('does not count a gateway that exited with code 0 as a crash', async () => {
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([
+      { ...exitedGateway('p1'), status: 'completed', exitCode: 0 } as unknown as Process,
+    ]);
+    const env = createMockEnv();
+
+    const result = await runGatewayWatchdog(sandbox, env, 'moltbot');
+    expect(result.outcome).toBe('idle');
+    expect((await getWatchdogState(env, 'moltbot')).crashes).toEqual([]);
+    expect(ensureMoltbotGateway).not.toHaveBeenCalled();
+  });
+
+  it('does nothing while the gateway is running', async () => {
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([
+      { ...exitedGateway('p1'), status: 'running' } as unknown as Process,
+    ]);
+
+    const result = await runGatewayWatchdog(sandbox, createMockEnv(), 'moltbot');
+    expect(result.outcome).toBe('healthy');
+    expect(ensureMoltbotGateway).not.toHaveBeenCalled();
+  });
+
+  it('does not start a gateway that never ran unless asked to', async () => {
+    const { sandbox } = createMockSandbox({ processes: [] });
+    const env = createMockEnv();
+
+    expect((await runGatewayWatchdog(sandbox, env, 'moltbot')).outcome).toBe('idle');
+    expect(ensureMoltbotGateway).not.toHaveBeenCalled();
+
+    vi.mocked(ensureMoltbotGateway).mockResolvedValue({} as Process);
+    const result = await runGatewayWatchdog(sandbox, env, 'moltbot', { startIfIdle: true });
+    expect(result.outcome).toBe('started');
+  });
+
+  it('records a crash and waits for the backoff before restarting', async () => {
+    vi.useFakeTimers();
+    try {
+      const env = createMockEnv();
+      const { sandbox } = createMockSandbox({
+        processes: [exitedGateway('p1', 'Error: bad config')],
+      });
+      vi.mocked(ensureMoltbotGateway).mockResolvedValue({} as Process);
+
+      const first = await runGatewayWatchdog(sandbox, env, 'moltbot');
+      expect(first.outcome).toBe('backoff');
+      expect(first.crash?.stderr).toBe('Error: bad config');
+      expect(ensureMoltbotGateway).not.toHaveBeenCalled();
+      // The crashed gateway's files are saved once, when the crash is detected
+      expect(syncBeforeStop).toHaveBeenCalledWith(sandbox, env, 'moltbot', 'restart');
+
+      vi.advanceTimersByTime(15_000);
+      const second = await runGatewayWatchdog(sandbox, env, 'moltbot');
+      expect(second.outcome).toBe('restarted');
+      expect(ensureMoltbotGateway).toHaveBeenCalledTimes(1);
+      expect((await getWatchdogState(env, 'moltbot')).restarts).toBe(1);
+      expect(syncBeforeStop).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('stops restarting once a crash loop is declared', async () => {
+    const env = createMockEnv();
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    for (let i = 0; i < 5; i++) {
+      listProcessesMock.mockResolvedValue([exitedGateway(`p${i}`, `crash ${i}`)]);
+      // eslint-disable-next-line no-await-in-loop -- each run sees the next crashed process
+      await runGatewayWatchdog(sandbox, env, 'moltbot');
+    }
+
+    const result = await runGatewayWatchdog(sandbox, env, 'moltbot', { startIfIdle: true });
+    expect(result.outcome).toBe('crash_loop');
+    expect(result.crashLoop?.lastCrash.stderr).toBe('crash 4');
+    expect(ensureMoltbotGateway).not.toHaveBeenCalled();
+
+    await resetWatchdog(env, 'moltbot');
+    expect((await getWatchdogState(env, 'moltbot')).crashLoop).toBeNull();
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Gateway crash watchdog.
+ *
+ * Runs from the cron handler and whenever the proxy finds the gateway down. A gateway process
+ * that exited on its own counts as a crash, and so does one killed for not listening within
+ * STARTUP_TIMEOUT_MS (recorded by ensureMoltbotGateway when it kills it). The watchdog restarts
+ * crashed gateways with exponential backoff and, after CRASH_LOOP_THRESHOLD crashes within
+ * CRASH_LOOP_WINDOW_MS, declares a crash loop and stops restarting until an admin calls
+ * /api/admin/gateway/retry.
+ *
+ * Crash history lives next to the startup state (GatewayState Durable Object, or an isolate-local
+ * store when the binding is missing) so every isolate applies the same backoff.
+ */
+import type { Process, Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import {
+  CRASH_LOOP_THRESHOLD,
+  CRASH_LOOP_WINDOW_MS,
+  STARTUP_TIMEOUT_MS,
+  WATCHDOG_BACKOFF_BASE_MS,
+  WATCHDOG_BACKOFF_MAX_MS,
+} from '../config';
+import {
+  ensureMoltbotGateway,
+  findExistingMoltbotProcess,
+  findLastExitedMoltbotProcess,
+} from './process';
+import { syncBeforeStop } from './pre-stop';
+import { getGatewayStateStub, getLocalStateStorage, type StateStorage } from './startup-state';
+
+/** How much of a crashed process's stderr is kept */
+const STDERR_TAIL_CHARS = 2000;
+
+const LOG_PREFIX = '[Watchdog]';
+
+export interface GatewayCrash {
+  processId: string;
+  exitCode: number | null;
+  /** Tail of the process's stderr */
+  stderr: string;
+  at: number; // timestamp
+}
+
+export interface CrashLoop {
+  detectedAt: number;
+  /** Crashes counted in the window when the loop was declared */
+  crashes: number;
+  lastCrash: GatewayCrash;
+}
+
+export interface WatchdogState {
+  /** Crashes within the current window, oldest first */
+  crashes: GatewayCrash[];
+  /** ID of the last exited process already counted, so repeated checks don't double count */
+  lastProcessId: string | null;
+  /** Earliest time the watchdog may restart the gateway, or null when no backoff applies */
+  nextRestartAt: number | null;
+  /** Number of restarts performed by the watchdog */
+  restarts: number;
+  lastRestartAt: number | null;
+  crashLoop: CrashLoop | null;
+}
+
+/**
+ * Operations on the watchdog state. Implemented by WatchdogStore and exposed over RPC by the
+ * GatewayState Durable Object.
+ */
+export interface WatchdogCoordinator {
+  getWatchdogState(): Promise<WatchdogState>;
+  recordCrash(crash: GatewayCrash): Promise<WatchdogState>;
+  recordRestart(): Promise<void>;
+  resetWatchdog(): Promise<void>;
+}
+
+const STATE_KEY = 'watchdog';
+
+function emptyState(): WatchdogState {
+  return {
+    crashes: [],
+    lastProcessId: null,
+    nextRestartAt: null,
+    restarts: 0,
+    lastRestartAt: null,
+    crashLoop: null,
+  };
+}
+
+/**
+ * Restart delay after the given number of crashes in the window (1 -> base, 2 -> 2x base, ...)
+ */
+export function getBackoffDelay(crashCount: number): number {
+  const exponent = Math.max(0, crashCount - 1);
+  return Math.min(WATCHDOG_BACKOFF_BASE_MS * 2 ** exponent, WATCHDOG_BACKOFF_MAX_MS);
+}
+
+/**
+ * Storage-backed watchdog state. Each method is a read-modify-write of a single key.
+ */
+export class WatchdogStore implements WatchdogCoordinator {
+  constructor(
+    private readonly storage: StateStorage,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async getWatchdogState(): Promise<WatchdogState> {
+    return (await this.storage.get<WatchdogState>(STATE_KEY)) ?? emptyState();
+  }
+
+  async recordCrash(crash: GatewayCrash): Promise<WatchdogState> {
+    const state = await this.getWatchdogState();
+    if (state.lastProcessId === crash.processId) {
+      return state;
+    }
+
+    const windowStart = this.now() - CRASH_LOOP_WINDOW_MS;
+    state.crashes = [...state.crashes.filter((c) => c.at >= windowStart), crash].slice(
+      -CRASH_LOOP_THRESHOLD,
+    );
+    state.lastProcessId = crash.processId;
+
+    if (state.crashes.length >= CRASH_LOOP_THRESHOLD) {
+      state.crashLoop = {
+        detectedAt: this.now(),
+        crashes: state.crashes.length,
+        lastCrash: crash,
+      };
+      state.nextRestartAt = null;
+    } else {
+      state.nextRestartAt = this.now() + getBackoffDelay(state.crashes.length);
+    }
+
+    await this.storage.put(STATE_KEY, state);
+    return state;
+  }
+
+  async recordRestart(): Promise<void> {
+    const state = await this.getWatchdogState();
+    state.restarts += 1;
+    state.lastRestartAt = this.now();
+    state.nextRestartAt = null;
+    await this.storage.put(STATE_KEY, state);
+  }
+
+  async resetWatchdog(): Promise<void> {
+    const state = await this.getWatchdogState();
+    // Keep lastProcessId: the crash that caused the loop must not be counted again
+    await this.storage.put(STATE_KEY, { ...emptyState(), lastProcessId: state.lastProcessId });
+  }
+}
+
+/**
+ * Get the watchdog coordinator for a tenant: the GatewayState Durable Object when bound,
+ * otherwise an isolate-local store.
+ */
+export function getWatchdogCoordinator(env: MoltbotEnv, tenantId: string): WatchdogCoordinator {
+  const stub = getGatewayStateStub(env, tenantId);
+  if (stub) {
+    return stub as unknown as WatchdogCoordinator;
+  }
+  return new WatchdogStore(getLocalStateStorage(tenantId));
+}
+
+export async function getWatchdogState(env: MoltbotEnv, tenantId: string): Promise<WatchdogState> {
+  return getWatchdogCoordinator(env, tenantId).getWatchdogState();
+}
+
+export async function resetWatchdog(env: MoltbotEnv, tenantId: string): Promise<void> {
+  await getWatchdogCoordinator(env, tenantId).resetWatchdog();
+}
+
+/**
+ * Count a gateway that is being killed for not listening within STARTUP_TIMEOUT_MS as a crash.
+ * Killed processes are not found by findLastExitedMoltbotProcess, so without this a gateway that
+ * hangs on startup would never trip crash-loop detection.
+ */
+export async function recordStartupTimeout(
+  env: MoltbotEnv,
+  tenantId: string,
+  proc: Process,
+): Promise<WatchdogState> {
+  const logs = await proc.getLogs().catch(() => ({ stderr: '' }));
+  const stderr = `${logs.stderr || ''}\nNot listening after ${STARTUP_TIMEOUT_MS / 1000}s, killed`;
+  return getWatchdogCoordinator(env, tenantId).recordCrash({
+    processId: proc.id,
+    exitCode: null,
+    stderr: stderr.trimStart().slice(-STDERR_TAIL_CHARS),
+    at: Date.now(),
+  });
+}
+
+export type WatchdogOutcome =
+  | 'healthy' // gateway process is running or starting
+  | 'idle' // no gateway has crashed (never started, or the container slept)
+  | 'backoff' // crashed, waiting for nextRestartAt
+  | 'started' // nothing had crashed and startIfIdle started the gateway
+  | 'restarted'
+  | 'restart_failed'
+  | 'crash_loop';
+
+export interface WatchdogResult {
+  outcome: WatchdogOutcome;
+  crash?: GatewayCrash;
+  nextRestartAt?: number | null;
+  crashLoop?: CrashLoop | null;
+  error?: string;
+}
+
+/**
+ * Check a tenant's gateway and restart it if it crashed and its backoff has elapsed.
+ *
+ * @param startIfIdle - Also start the gateway when nothing has crashed (the proxy passes true so
+ *   a cold start goes through the same backoff / crash-loop checks; the cron handler only does
+ *   to prewarm ahead of awake hours)
+ */
+export async function runGatewayWatchdog(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  options: { startIfIdle?: boolean } = {},
+): Promise<WatchdogResult> {
+  if (await findExistingMoltbotProcess(sandbox)) {
+    return { outcome: 'healthy' };
+  }
+
+  const coordinator = getWatchdogCoordinator(env, tenantId);
+  let state = await coordinator.getWatchdogState();
+  if (state.crashLoop) {
+    return { outcome: 'crash_loop', crashLoop: state.crashLoop };
+  }
+
+  const exited = await findLastExitedMoltbotProcess(sandbox);
+  let crash: GatewayCrash | undefined;
+  if (exited && exited.id !== state.lastProcessId) {
+    const logs = await exited.getLogs().catch(() => ({ stderr: '' }));
+    crash = {
+      processId: exited.id,
+      exitCode: exited.exitCode ?? null,
+      stderr: (logs.stderr || '').slice(-STDERR_TAIL_CHARS),
+      at: Date.now(),
+    };
+    console.error(
+      LOG_PREFIX,
+      `[${tenantId}] Gateway process exited:`,
+      exited.id,
+      'exit code:',
+      crash.exitCode,
+    );
+    state = await coordinator.recordCrash(crash);
+
+    if (state.crashLoop) {
+      console.error(
+        LOG_PREFIX,
+        `[${tenantId}] Crash loop: ${state.crashLoop.crashes} crashes, not restarting. Stderr:`,
+        crash.stderr || '(empty)',
+      );
+      return { outcome: 'crash_loop', crash, crashLoop: state.crashLoop };
+    }
+    // Save what the crashed gateway left on disk before a restart restores the older backup.
+    // Only once per crash, not on every backoff check.
+    await syncBeforeStop(sandbox, env, tenantId, 'restart');
+  } else if (!exited && !options.startIfIdle) {
+    return { outcome: 'idle' };
+  }
+
+  if (state.nextRestartAt && state.nextRestartAt > Date.now()) {
+    console.log(
+      LOG_PREFIX,
+      `[${tenantId}] Restart deferred until`,
+      new Date(state.nextRestartAt).toISOString(),
+    );
+    return { outcome: 'backoff', crash, nextRestartAt: state.nextRestartAt };
+  }
+
+  try {
+    await ensureMoltbotGateway(sandbox, env, tenantId);
+    if (exited) {
+      await coordinator.recordRestart();
+      console.log(LOG_PREFIX, `[${tenantId}] Gateway restarted`);
+    }
+    return { outcome: exited ? 'restarted' : 'started', crash };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    // A process that never listened keeps running; the next ensureMoltbotGateway call kills it
+    // and counts it as a crash
+    console.error(LOG_PREFIX, `[${tenantId}] Restart failed:`, error);
+    return { outcome: 'restart_failed', crash, error };
+  }
+}
@@ -0,0 +1,68 @@
+import { DurableObject } from 'cloudflare:workers';
+import { getSandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { WEBHOOK_RETRY_MS } from '../config';
+import { withRuntimeSettings } from '../runtime-settings';
+import { withGatewayToken } from './gateway-token';
+import { buildSandboxOptions } from './sleep-schedule';
+import {
+  WebhookQueueStore,
+  replayWebhooks,
+  type EnqueueResult,
+  type QueuedWebhook,
+  type WebhookQueueCoordinator,
+  type WebhookQueueState,
+  type WebhookUpdate,
+} from './webhooks';
+
+/**
+ * Durable Object holding the chat channel webhook queue for one tenant (addressed by tenant ID).
+ *
+ * Queuing an update sets an alarm, which wakes the gateway and replays the queue (see
+ * replayWebhooks). Alarms run outside any request, so a cold start that outlasts the webhook
+ * request doesn't cut the replay short. While updates remain the alarm is set again after
+ * WEBHOOK_RETRY_MS.
+ */
+export class WebhookQueue extends DurableObject<MoltbotEnv> implements WebhookQueueCoordinator {
+  private readonly queue = new WebhookQueueStore(this.ctx.storage);
+
+  async enqueueWebhook(tenantId: string, update: WebhookUpdate): Promise<EnqueueResult> {
+    const result = await this.queue.enqueueWebhook(tenantId, update);
+    if (result === 'queued' && (await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+    return result;
+  }
+
+  async peekWebhooks(limit: number): Promise<QueuedWebhook[]> {
+    return this.queue.peekWebhooks(limit);
+  }
+
+  async ackWebhook(seq: number): Promise<void> {
+    return this.queue.ackWebhook(seq);
+  }
+
+  async failWebhook(seq: number): Promise<boolean> {
+    return this.queue.failWebhook(seq);
+  }
+
+  async getWebhookQueueState(): Promise<WebhookQueueState> {
+    return this.queue.getWebhookQueueState();
+  }
+
+  async alarm(): Promise<void> {
+    const { tenantId, pending } = await this.queue.getWebhookQueueState();
+    if (!tenantId || pending === 0) {
+      return;
+    }
+    // Same settings and gateway token the Worker's request handlers see
+    const env = await withGatewayToken(await withRuntimeSettings(this.env));
+    const sandbox = getSandbox(env.Sandbox, tenantId, buildSandboxOptions(env));
+    try {
+      await replayWebhooks(sandbox, env, tenantId, this.queue);
+    } catch (err) {
+      console.error(`[Webhooks] [${tenantId}] Replay failed, retrying:`, err);
+      await this.ctx.storage.setAlarm(Date.now() + WEBHOOK_RETRY_MS);
+    }
+  }
+}
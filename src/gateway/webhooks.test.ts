@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import {
+  WebhookQueueStore,
+  getWebhookQueue,
+  queueWebhook,
+  replayWebhooks,
+  type WebhookUpdate,
+} from './webhooks';
+import { MemoryStateStorage, _resetStartupState } from './startup-state';
+import { ensureMoltbotGateway } from './process';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+vi.mock('./process', () => ({
+  ensureMoltbotGateway: vi.fn(),
+}));
+
+function telegramUpdate(updateId: number): WebhookUpdate {
+  return {
+    channel: 'telegram',
+    updateId: String(updateId),
+    body: JSON.stringify({ update_id: updateId, message: { text: `message ${updateId}` } }),
+  };
+}
+
+function gatewayProcess(): Process {
+  return { id: 'gw', waitForPort: vi.fn().mockResolvedValue(undefined) } as unknown as Process;
+}
+
+async function requestBody(request: Request): Promise<number> {
+  return ((await request.json()) as { update_id: number }).update_id;
+}
+
+describe('WebhookQueueStore', () => {
+  let store: WebhookQueueStore;
+
+  beforeEach(() => {
+    store = new WebhookQueueStore(new MemoryStateStorage(), () => 1000);
+  });
+
+  it('queues updates in order and drops redeliveries', async () => {
+    expect(await store.enqueueWebhook('moltbot', telegramUpdate(1))).toBe('queued');
+    expect(await store.enqueueWebhook('moltbot', telegramUpdate(2))).toBe('queued');
+    expect(await store.enqueueWebhook('moltbot', telegramUpdate(1))).toBe('duplicate');
+
+    const queued = await store.peekWebhooks(10);
+    expect(queued.map((update) => update.updateId)).toEqual(['1', '2']);
+    expect(queued[0]).toMatchObject({ seq: 1, receivedAt: 1000, attempts: 0 });
+
+    await store.ackWebhook(1);
+    expect(await store.getWebhookQueueState()).toEqual({
+      tenantId: 'moltbot',
+      pending: 1,
+      oldestAt: 1000,
+      dropped: 0,
+    });
+  });
+
+  it('drops an update after it is refused too often', async () => {
+    await store.enqueueWebhook('moltbot', telegramUpdate(1));
+
+    const kept = [];
+    for (let i = 0; i < 5; i++) {
+      // eslint-disable-next-line no-await-in-loop -- each refusal is counted in turn
+      kept.push(await store.failWebhook(1));
+    }
+
+    expect(kept).toEqual([true, true, true, true, false]);
+    expect(await store.getWebhookQueueState()).toMatchObject({ pending: 0, dropped: 1 });
+  });
+});
+
+describe('replayWebhooks', () => {
+  beforeEach(() => {
+    suppressConsole();
+    _resetStartupState();
+    vi.mocked(ensureMoltbotGateway).mockReset();
+  });
+
+  it('does not wake the gateway for an empty queue', async () => {
+    const { sandbox } = createMockSandbox();
+    const queue = new WebhookQueueStore(new MemoryStateStorage());
+
+    expect(await replayWebhooks(sandbox, createMockEnv(), 'moltbot', queue)).toBe(0);
+    expect(ensureMoltbotGateway).not.toHaveBeenCalled();
+  });
+
+  it('wakes the gateway and forwards queued updates to the listener in order', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    const env = createMockEnv({ TELEGRAM_WEBHOOK_SECRET: 'whsec' });
+    const queue = new WebhookQueueStore(new MemoryStateStorage());
+    const gateway = gatewayProcess();
+    vi.mocked(ensureMoltbotGateway).mockResolvedValue(gateway);
+    containerFetchMock.mockResolvedValue(new Response('ok'));
+    await queue.enqueueWebhook('moltbot', telegramUpdate(7));
+    await queue.enqueueWebhook('moltbot', telegramUpdate(8));
+
+    expect(await replayWebhooks(sandbox, env, 'moltbot', queue)).toBe(2);
+
+    expect(gateway.waitForPort).toHaveBeenCalledTimes(1);
+    expect(gateway.waitForPort).toHaveBeenCalledWith(
+      8787,
+      expect.objectContaining({ mode: 'tcp' }),
+    );
+    const [request, port] = containerFetchMock.mock.calls[0] as [Request, number];
+    expect(port).toBe(8787);
+    expect(request.url).toBe('http://localhost:8787/telegram-webhook');
+    expect(request.headers.get('X-Telegram-Bot-Api-Secret-Token')).toBe('whsec');
+    expect(await requestBody(request)).toBe(7);
+    expect(await requestBody(containerFetchMock.mock.calls[1][0] as Request)).toBe(8);
+    expect((await queue.getWebhookQueueState()).pending).toBe(0);
+  });
+
+  it('keeps the queue from the first update the gateway refuses', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    const queue = new WebhookQueueStore(new MemoryStateStorage());
+    vi.mocked(ensureMoltbotGateway).mockResolvedValue(gatewayProcess());
+    containerFetchMock
+      .mockResolvedValueOnce(new Response('ok'))
+      .mockResolvedValueOnce(new Response('starting', { status: 503 }));
+    await queue.enqueueWebhook('moltbot', telegramUpdate(1));
+    await queue.enqueueWebhook('moltbot', telegramUpdate(2));
+    await queue.enqueueWebhook('moltbot', telegramUpdate(3));
+
+    await expect(replayWebhooks(sandbox, createMockEnv(), 'moltbot', queue)).rejects.toThrow(
+      'Gateway refused telegram update 2: HTTP 503',
+    );
+
+    const remaining = await queue.peekWebhooks(10);
+    expect(remaining.map((update) => [update.updateId, update.attempts])).toEqual([
+      ['2', 1],
+      ['3', 0],
+    ]);
+  });
+
+  it('keeps updates queued when the gateway fails to start', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    const queue = new WebhookQueueStore(new MemoryStateStorage());
+    vi.mocked(ensureMoltbotGateway).mockRejectedValue(new Error('startup timed out'));
+    await queue.enqueueWebhook('moltbot', telegramUpdate(1));
+
+    await expect(replayWebhooks(sandbox, createMockEnv(), 'moltbot', queue)).rejects.toThrow(
+      'startup timed out',
+    );
+    expect(containerFetchMock).not.toHaveBeenCalled();
+    expect((await queue.getWebhookQueueState()).pending).toBe(1);
+  });
+});
+
+describe('queueWebhook', () => {
+  beforeEach(() => {
+    suppressConsole();
+    _resetStartupState();
+    vi.mocked(ensureMoltbotGateway).mockReset();
+  });
+
+  it('replays in the background without the Durable Object', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    const env = createMockEnv();
+    const waitUntil = vi.fn();
+    vi.mocked(ensureMoltbotGateway).mockResolvedValue(gatewayProcess());
+    containerFetchMock.mockResolvedValue(new Response('ok'));
+
+    expect(await queueWebhook(env, 'moltbot', sandbox, { waitUntil }, telegramUpdate(1))).toBe(
+      'queued',
+    );
+    expect(await queueWebhook(env, 'moltbot', sandbox, { waitUntil }, telegramUpdate(1))).toBe(
+      'duplicate',
+    );
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+
+    await waitUntil.mock.calls[0][0];
+    expect(containerFetchMock).toHaveBeenCalledTimes(1);
+    expect((await getWebhookQueue(env, 'moltbot').getWebhookQueueState()).pending).toBe(0);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Chat channel webhook queue.
+ *
+ * Channels that support webhooks (Telegram so far) deliver updates to the Worker rather than to
+ * the gateway. Each update is queued before it is acknowledged, then replayed to the channel's
+ * webhook listener in the container once the gateway is up, so updates sent while the container
+ * sleeps or starts wait in the queue instead of being missed.
+ *
+ * The queue lives in the WebhookQueue Durable Object (one per tenant), which replays from an
+ * alarm and retries until the queue is empty. When the WEBHOOK_QUEUE binding is missing an
+ * isolate-local store is used and replayed in the background of the request that queued it.
+ */
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import {
+  TELEGRAM_WEBHOOK_PATH,
+  TELEGRAM_WEBHOOK_PORT,
+  WEBHOOK_DEDUPE_WINDOW,
+  WEBHOOK_LISTENER_TIMEOUT_MS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_QUEUE_LIMIT,
+} from '../config';
+import { ensureMoltbotGateway } from './process';
+import { getLocalStateStorage, type StateStorage } from './startup-state';
+
+const LOG_PREFIX = '[Webhooks]';
+
+export type WebhookChannel = 'telegram';
+
+/** An update as received from the channel */
+export interface WebhookUpdate {
+  channel: WebhookChannel;
+  /** The channel's ID for the update (Telegram's update_id), to drop redeliveries */
+  updateId: string;
+  /** Request body, forwarded unchanged */
+  body: string;
+}
+
+export interface QueuedWebhook extends WebhookUpdate {
+  seq: number;
+  receivedAt: number; // timestamp
+  /** Times the gateway refused it */
+  attempts: number;
+}
+
+export interface WebhookQueueState {
+  /** Tenant whose gateway the queue replays to, once something was queued */
+  tenantId: string | null;
+  pending: number;
+  oldestAt: number | null;
+  /** Updates given up on after WEBHOOK_MAX_ATTEMPTS refusals */
+  dropped: number;
+}
+
+export type EnqueueResult = 'queued' | 'duplicate' | 'full';
+
+/**
+ * Operations on a tenant's webhook queue. Implemented by WebhookQueueStore and exposed over RPC
+ * by the WebhookQueue Durable Object.
+ */
+export interface WebhookQueueCoordinator {
+  enqueueWebhook(tenantId: string, update: WebhookUpdate): Promise<EnqueueResult>;
+  /** The oldest queued updates, oldest first */
+  peekWebhooks(limit: number): Promise<QueuedWebhook[]>;
+  ackWebhook(seq: number): Promise<void>;
+  /** Count a refusal; returns false once the update has been dropped */
+  failWebhook(seq: number): Promise<boolean>;
+  getWebhookQueueState(): Promise<WebhookQueueState>;
+}
+
+interface QueueIndex {
+  tenantId: string | null;
+  nextSeq: number;
+  /** Sequence numbers of queued updates, oldest first */
+  pending: number[];
+  /** `channel:updateId` of the most recently queued updates */
+  recent: string[];
+  dropped: number;
+}
+
+/** Where each channel's webhook listener runs in the container */
+interface WebhookTarget {
+  port: number;
+  path: string;
+  headers: (env: MoltbotEnv) => Record<string, string>;
+}
+
+const WEBHOOK_TARGETS: Record<WebhookChannel, WebhookTarget> = {
+  telegram: {
+    port: TELEGRAM_WEBHOOK_PORT,
+    path: TELEGRAM_WEBHOOK_PATH,
+    headers: (env) => ({ 'X-Telegram-Bot-Api-Secret-Token': env.TELEGRAM_WEBHOOK_SECRET ?? '' }),
+  },
+};
+
+/** How many updates are read from the queue at a time while replaying */
+const REPLAY_BATCH = 20;
+
+const INDEX_KEY = 'webhooks';
+
+function entryKey(seq: number): string {
+  return `webhook:${seq}`;
+}
+
+function emptyIndex(): QueueIndex {
+  return { tenantId: null, nextSeq: 1, pending: [], recent: [], dropped: 0 };
+}
+
+/**
+ * Storage-backed webhook queue: an index key plus one key per queued update. Each method reads
+ * and writes without other I/O in between, which the Durable Object's input gates make atomic.
+ */
+export class WebhookQueueStore implements WebhookQueueCoordinator {
+  constructor(
+    private readonly storage: StateStorage,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async enqueueWebhook(tenantId: string, update: WebhookUpdate): Promise<EnqueueResult> {
+    const index = await this.index();
+    const dedupeKey = `${update.channel}:${update.updateId}`;
+    if (index.recent.includes(dedupeKey)) {
+      return 'duplicate';
+    }
+    if (index.pending.length >= WEBHOOK_QUEUE_LIMIT) {
+      return 'full';
+    }
+    const entry: QueuedWebhook = {
+      ...update,
+      seq: index.nextSeq,
+      receivedAt: this.now(),
+      attempts: 0,
+    };
+    await this.storage.put(entryKey(entry.seq), entry);
+    index.tenantId = tenantId;
+    index.nextSeq += 1;
+    index.pending.push(entry.seq);
+    index.recent = [...index.recent, dedupeKey].slice(-WEBHOOK_DEDUPE_WINDOW);
+    await this.storage.put(INDEX_KEY, index);
+    return 'queued';
+  }
+
+  async peekWebhooks(limit: number): Promise<QueuedWebhook[]> {
+    const index = await this.index();
+    const entries = await Promise.all(
+      index.pending.slice(0, limit).map((seq) => this.storage.get<QueuedWebhook>(entryKey(seq))),
+    );
+    return entries.filter((entry): entry is QueuedWebhook => entry !== undefined);
+  }
+
+  async ackWebhook(seq: number): Promise<void> {
+    await this.remove(seq);
+  }
+
+  async failWebhook(seq: number): Promise<boolean> {
+    const entry = await this.storage.get<QueuedWebhook>(entryKey(seq));
+    if (!entry) {
+      return false;
+    }
+    entry.attempts += 1;
+    if (entry.attempts < WEBHOOK_MAX_ATTEMPTS) {
+      await this.storage.put(entryKey(seq), entry);
+      return true;
+    }
+    await this.remove(seq, true);
+    return false;
+  }
+
+  async getWebhookQueueState(): Promise<WebhookQueueState> {
+    const index = await this.index();
+    const [oldest] = await this.peekWebhooks(1);
+    return {
+      tenantId: index.tenantId,
+      pending: index.pending.length,
+      oldestAt: oldest?.receivedAt ?? null,
+      dropped: index.dropped,
+    };
+  }
+
+  private async index(): Promise<QueueIndex> {
+    return (await this.storage.get<QueueIndex>(INDEX_KEY)) ?? emptyIndex();
+  }
+
+  private async remove(seq: number, dropped = false): Promise<void> {
+    const index = await this.index();
+    index.pending = index.pending.filter((pending) => pending !== seq);
+    if (dropped) {
+      index.dropped += 1;
+    }
+    await this.storage.put(INDEX_KEY, index);
+    await this.storage.delete(entryKey(seq));
+  }
+}
+
+/**
+ * Get the webhook queue for a tenant: the WebhookQueue Durable Object when bound, otherwise an
+ * isolate-local store.
+ */
+export function getWebhookQueue(env: MoltbotEnv, tenantId: string): WebhookQueueCoordinator {
+  if (env.WEBHOOK_QUEUE) {
+    return env.WEBHOOK_QUEUE.get(
+      env.WEBHOOK_QUEUE.idFromName(tenantId),
+    ) as unknown as WebhookQueueCoordinator;
+  }
+  return new WebhookQueueStore(getLocalStateStorage(tenantId));
+}
+
+/**
+ * Queue an update for the tenant's gateway. The Durable Object replays it from its alarm; without
+ * the binding it is replayed in the background of this request.
+ */
+export async function queueWebhook(
+  env: MoltbotEnv,
+  tenantId: string,
+  sandbox: Sandbox,
+  ctx: Pick<ExecutionContext, 'waitUntil'>,
+  update: WebhookUpdate,
+): Promise<EnqueueResult> {
+  const queue = getWebhookQueue(env, tenantId);
+  const result = await queue.enqueueWebhook(tenantId, update);
+  if (result === 'queued' && !env.WEBHOOK_QUEUE) {
+    ctx.waitUntil(
+      replayWebhooks(sandbox, env, tenantId, queue).catch((err) => {
+        console.error(LOG_PREFIX, `[${tenantId}] Replay failed:`, err);
+      }),
+    );
+  }
+  return result;
+}
+
+/**
+ * Start the gateway if needed and forward queued updates to it in order, removing each one the
+ * gateway accepts. Stops at the first update that can't be delivered so the rest stay in order
+ * behind it; an update the gateway keeps refusing is dropped after WEBHOOK_MAX_ATTEMPTS.
+ *
+ * @returns The number of updates delivered
+ * @throws If the gateway doesn't start or an update can't be delivered
+ */
+export async function replayWebhooks(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string,
+  queue: WebhookQueueCoordinator = getWebhookQueue(env, tenantId),
+): Promise<number> {
+  let batch = await queue.peekWebhooks(REPLAY_BATCH);
+  if (batch.length === 0) {
+    return 0;
+  }
+
+  const gateway = await ensureMoltbotGateway(sandbox, env, tenantId);
+  const listening = new Set<WebhookChannel>();
+  let delivered = 0;
+  while (batch.length > 0) {
+    for (const update of batch) {
+      const target = WEBHOOK_TARGETS[update.channel];
+      // Channels start their listeners after the gateway itself is up
+      if (!listening.has(update.channel)) {
+        // eslint-disable-next-line no-await-in-loop -- once per channel, before its first update
+        await gateway.waitForPort(target.port, {
+          mode: 'tcp',
+          timeout: WEBHOOK_LISTENER_TIMEOUT_MS,
+        });
+        listening.add(update.channel);
+      }
+
+      // eslint-disable-next-line no-await-in-loop -- updates are replayed in the order received
+      const response = await sandbox.containerFetch(
+        new Request(`http://localhost:${target.port}${target.path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...target.headers(env) },
+          body: update.body,
+        }),
+        target.port,
+      );
+      if (response.ok) {
+        // eslint-disable-next-line no-await-in-loop -- acknowledged before the next is sent
+        await queue.ackWebhook(update.seq);
+        delivered += 1;
+        continue;
+      }
+
+      const message = `Gateway refused ${update.channel} update ${update.updateId}: HTTP ${response.status}`;
+      // eslint-disable-next-line no-await-in-loop -- the queue must record the refusal first
+      if (await queue.failWebhook(update.seq)) {
+        throw new Error(message);
+      }
+      console.error(
+        LOG_PREFIX,
+        `[${tenantId}] ${message}; dropped after ${WEBHOOK_MAX_ATTEMPTS} attempts`,
+      );
+    }
+    // eslint-disable-next-line no-await-in-loop -- the next batch includes updates queued meanwhile
+    batch = await queue.peekWebhooks(REPLAY_BATCH);
+  }
+
+  console.log(LOG_PREFIX, `[${tenantId}] Replayed ${delivered} webhook update(s)`);
+  return delivered;
+}
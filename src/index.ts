@@ -9,6 +9,7 @@
  * - WebSocket support for real-time communication
  * - Admin UI at /_admin/ for device management
  * - Configuration via environment secrets
+ * - Optional multi-tenant mode (MULTI_TENANT=true): one sandbox per Cloudflare Access user
  *
  * Required secrets (set via `wrangler secret put`):
  * - ANTHROPIC_API_KEY: Your Anthropic API key
@@ -21,14 +22,44 @@
  */
 
 import { Hono } from 'hono';
-import { getSandbox, Sandbox, type SandboxOptions } from '@cloudflare/sandbox';
+import { getSandbox } from '@cloudflare/sandbox';
 
 import type { AppEnv, MoltbotEnv } from './types';
-import { MOLTBOT_PORT } from './config';
-import { createAccessMiddleware } from './auth';
-import { ensureMoltbotGateway, findExistingMoltbotProcess, syncToR2 } from './gateway';
+import { DEFAULT_TENANT_ID, MOLTBOT_PORT } from './config';
+import { createAccessMiddleware, resolveAccessCaller, resolveAccessUser } from './auth';
+import { missingSettings, type MissingSetting } from './settings';
+import { withRuntimeSettings } from './runtime-settings';
+import {
+  ensureMoltbotGateway,
+  findExistingMoltbotProcess,
+  isMultiTenant,
+  listTenants,
+  registerTenant,
+  resolveServiceTokenTenantId,
+  resolveTenantId,
+  runGatewayWatchdog,
+} from './gateway';
+import { pruneSnapshots } from './gateway/snapshots';
+import { buildSandboxOptions, sandboxSchedule } from './gateway/sleep-schedule';
+import { reencryptBackups } from './gateway/backup-rotation';
+import { replicateBackups } from './gateway/destinations';
+import { checkModelChain } from './gateway/provider-health';
+import {
+  applyTokenRotation,
+  cachedTokenRotation,
+  checkClientToken,
+  forwardedToken,
+  gatewayTokenFor,
+  recordPreviousTokenClient,
+  rewriteConnectFrame,
+  withGatewayToken,
+} from './gateway/gateway-token';
 import { getStartupFailure } from './gateway/startup-state';
-import { publicRoutes, api, adminUi, debug, cdp } from './routes';
+import { GatewayState } from './gateway/gateway-state';
+import { WebhookQueue } from './gateway/webhook-queue';
+import { MoltbotSandbox } from './gateway/moltbot-sandbox';
+import { syncWithHistory } from './gateway/sync-history';
+import { publicRoutes, api, adminUi, debug, cdp, webhooks, openai } from './routes';
 import { redactSensitiveParams } from './utils/logging';
 import loadingPageHtml from './assets/loading.html';
 import configErrorHtml from './assets/config-error.html';
@@ -48,71 +79,21 @@ function transformErrorMessage(message: string, host: string): string {
   return message;
 }
 
-export { Sandbox };
+export { MoltbotSandbox as Sandbox, GatewayState, WebhookQueue };
 
-/**
- * Validate required environment variables.
- * Returns an array of missing variable descriptions, or empty array if all are set.
- */
-function validateRequiredEnv(env: MoltbotEnv): string[] {
-  const missing: string[] = [];
-  const isTestMode = env.DEV_MODE === 'true' || env.E2E_TEST_MODE === 'true';
-
-  if (!env.MOLTBOT_GATEWAY_TOKEN) {
-    missing.push('MOLTBOT_GATEWAY_TOKEN');
-  }
-
-  // CF Access vars not required in dev/test mode since auth is skipped
-  if (!isTestMode) {
-    if (!env.CF_ACCESS_TEAM_DOMAIN) {
-      missing.push('CF_ACCESS_TEAM_DOMAIN');
-    }
-
-    if (!env.CF_ACCESS_AUD) {
-      missing.push('CF_ACCESS_AUD');
-    }
-  }
-
-  // Check for AI provider configuration (at least one must be set)
-  const hasCloudflareGateway = !!(
-    env.CLOUDFLARE_AI_GATEWAY_API_KEY &&
-    env.CF_AI_GATEWAY_ACCOUNT_ID &&
-    env.CF_AI_GATEWAY_GATEWAY_ID
-  );
-  const hasLegacyGateway = !!(env.AI_GATEWAY_API_KEY && env.AI_GATEWAY_BASE_URL);
-  const hasAnthropicKey = !!env.ANTHROPIC_API_KEY;
-  const hasOpenAIKey = !!env.OPENAI_API_KEY;
-
-  if (!hasCloudflareGateway && !hasLegacyGateway && !hasAnthropicKey && !hasOpenAIKey) {
-    missing.push(
-      'ANTHROPIC_API_KEY, OPENAI_API_KEY, or CLOUDFLARE_AI_GATEWAY_API_KEY + CF_AI_GATEWAY_ACCOUNT_ID + CF_AI_GATEWAY_GATEWAY_ID',
-    );
-  }
-
-  return missing;
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
 }
 
-/**
- * Build sandbox options based on environment configuration.
- *
- * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
- * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
- * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
- *
- * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
- *   npx wrangler secret put SANDBOX_SLEEP_AFTER
- *   # Enter: 10m (or 1h, 30m, etc.)
- */
-function buildSandboxOptions(env: MoltbotEnv): SandboxOptions {
-  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
-
-  // 'never' means keep the container alive indefinitely
-  if (sleepAfter === 'never') {
-    return { keepAlive: true };
-  }
-
-  // Otherwise, use the specified duration
-  return { sleepAfter };
+/** The configuration error page, listing what to set */
+function renderConfigError(missing: MissingSetting[]): string {
+  const items = missing
+    .map(
+      ({ label, description }) =>
+        `<li><code>${escapeHtml(label)}</code><span>${escapeHtml(description)}</span></li>`,
+    )
+    .join('');
+  return configErrorHtml.replace('{{MISSING_VARS}}', `<ul>${items}</ul>`);
 }
 
 // Main app
@@ -122,6 +103,17 @@ const app = new Hono<AppEnv>();
 // MIDDLEWARE: Applied to ALL routes
 // =============================================================================
 
+// Middleware: Apply runtime settings (overrides stored in R2, see runtime-settings) and the
+// rotated gateway token (see gateway-token) to c.env
+app.use('*', async (c, next) => {
+  c.set('workerEnv', c.env);
+  const env = await withRuntimeSettings(c.env);
+  const rotation = await cachedTokenRotation(env);
+  c.set('tokenRotation', rotation);
+  c.env = applyTokenRotation(env, rotation);
+  await next();
+});
+
 // Middleware: Log every request
 app.use('*', async (c, next) => {
   const url = new URL(c.req.url);
@@ -134,9 +126,32 @@ app.use('*', async (c, next) => {
 });
 
 // Middleware: Initialize sandbox for all requests
+// In multi-tenant mode the sandbox ID comes from the Cloudflare Access identity. Public routes
+// run before the auth middleware, so the identity is resolved here without enforcing it;
+// protected routes still reject unauthenticated requests (and service tokens TENANT_MAP gives
+// no tenant) further down.
 app.use('*', async (c, next) => {
+  let tenantId = DEFAULT_TENANT_ID;
+  if (isMultiTenant(c.env)) {
+    const user = await resolveAccessUser(c);
+    if (user) {
+      c.set('accessUser', user);
+      tenantId = await resolveTenantId(c.env, user);
+      c.executionCtx.waitUntil(registerTenant(c.env, tenantId, user));
+    } else {
+      // Without a user, a valid JWT is a service token's, identified by its client ID
+      const clientId = await resolveAccessCaller(c);
+      const serviceTenant = clientId ? resolveServiceTokenTenantId(c.env, clientId) : null;
+      if (serviceTenant) {
+        tenantId = serviceTenant;
+        c.executionCtx.waitUntil(registerTenant(c.env, tenantId));
+      }
+    }
+  }
+
   const options = buildSandboxOptions(c.env);
-  const sandbox = getSandbox(c.env.Sandbox, 'moltbot', options);
+  const sandbox = getSandbox(c.env.Sandbox, tenantId, options);
+  c.set('tenantId', tenantId);
   c.set('sandbox', sandbox);
   await next();
 });
@@ -152,6 +167,12 @@ app.route('/', publicRoutes);
 // Mount CDP routes (uses shared secret auth via query param, not CF Access)
 app.route('/cdp', cdp);
 
+// Mount chat channel webhooks (each channel verifies its own signature, not CF Access)
+app.route('/webhooks', webhooks);
+
+// Mount the OpenAI-compatible API (checks the Access JWT itself to accept service tokens too)
+app.route('/v1', openai);
+
 // =============================================================================
 // PROTECTED ROUTES: Cloudflare Access authentication required
 // =============================================================================
@@ -170,15 +191,15 @@ app.use('*', async (c, next) => {
     return next();
   }
 
-  const missingVars = validateRequiredEnv(c.env);
-  if (missingVars.length > 0) {
+  const missing = missingSettings(c.env);
+  if (missing.length > 0) {
+    const missingVars = missing.map((setting) => setting.label);
     console.error('[CONFIG] Missing required environment variables:', missingVars.join(', '));
 
     const acceptsHtml = c.req.header('Accept')?.includes('text/html');
     if (acceptsHtml) {
       // Return a user-friendly HTML error page
-      const html = configErrorHtml.replace('{{MISSING_VARS}}', missingVars.join(', '));
-      return c.html(html, 503);
+      return c.html(renderConfigError(missing), 503);
     }
 
     // Return JSON error for API requests
@@ -229,6 +250,7 @@ app.route('/debug', debug);
 
 app.all('*', async (c) => {
   const sandbox = c.get('sandbox');
+  const tenantId = c.get('tenantId');
   const request = c.req.raw;
   const url = new URL(request.url);
 
@@ -247,26 +269,65 @@ app.all('*', async (c) => {
       '[PROXY] Gateway not ready (no process or not listening). Serving loading page and starting gateway in background.',
     );
 
-    // Start the gateway in the background (don't await). Loading page will poll /api/status.
+    // Start (or restart, subject to crash backoff) in the background. Loading page will poll /api/status.
     c.executionCtx.waitUntil(
-      ensureMoltbotGateway(sandbox, c.env).catch((err: Error) => {
-        console.error('[PROXY] Background gateway start failed:', err?.message ?? err);
-        console.error('[PROXY] User will see loading until they refresh; check [Gateway] logs above for cause.');
-      }),
+      runGatewayWatchdog(sandbox, c.env, tenantId, { startIfIdle: true })
+        .then((result) => {
+          if (result.outcome === 'restart_failed') {
+            console.error('[PROXY] Background gateway start failed:', result.error);
+            console.error(
+              '[PROXY] User will see loading until they refresh; check [Gateway] logs above for cause.',
+            );
+          }
+        })
+        .catch((err: Error) => {
+          console.error('[PROXY] Background gateway start failed:', err?.message ?? err);
+        }),
     );
 
     return c.html(loadingPageHtml);
   }
 
-  // Ensure moltbot is running (this will wait for startup; may take 1–2 min on cold start)
+  // Ensure moltbot is running (this will wait for startup; may take 1–2 min on cold start).
+  // With no live process the watchdog starts it, so a crashed gateway is only restarted once its
+  // backoff has elapsed, and not at all in a crash loop.
   try {
     console.log('[PROXY] Ensuring gateway is running (awaiting startup)...');
-    await ensureMoltbotGateway(sandbox, c.env);
+    if (existingProcess) {
+      await ensureMoltbotGateway(sandbox, c.env, tenantId);
+    } else {
+      const watchdog = await runGatewayWatchdog(sandbox, c.env, tenantId, { startIfIdle: true });
+      if (watchdog.outcome === 'crash_loop') {
+        return c.json(
+          {
+            error: 'Moltbot gateway is crash looping',
+            details: watchdog.crashLoop?.lastCrash.stderr.slice(-500) || 'No stderr captured',
+            hint: 'Fix the cause, then restart via /api/retry-startup or the admin UI.',
+          },
+          503,
+        );
+      }
+      if (watchdog.outcome === 'backoff') {
+        const retryAfter = Math.ceil(((watchdog.nextRestartAt ?? Date.now()) - Date.now()) / 1000);
+        return c.json(
+          {
+            error: 'Moltbot gateway crashed and is waiting to restart',
+            details: watchdog.crash?.stderr.slice(-500) || undefined,
+            hint: `Retry in ${retryAfter}s`,
+          },
+          503,
+          { 'Retry-After': String(Math.max(retryAfter, 1)) },
+        );
+      }
+      if (watchdog.outcome === 'restart_failed') {
+        throw new Error(watchdog.error);
+      }
+    }
     console.log('[PROXY] Gateway ready, proxying request');
   } catch (error) {
     console.error('[PROXY] Failed to start Moltbot:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const stored = getStartupFailure();
+    const stored = await getStartupFailure(c.env, tenantId).catch(() => null);
     const hint =
       stored?.hint ||
       (!c.env.ANTHROPIC_API_KEY
@@ -295,13 +356,35 @@ app.all('*', async (c) => {
       console.log('[WS] URL:', url.pathname + redactedSearch);
     }
 
+    // After a token rotation the gateway may still run with the previous token until it restarts,
+    // so tokens clients present are checked here and swapped for the gateway's own
+    const rotation = c.get('tokenRotation');
+    const gatewayToken = gatewayTokenFor(c.env, rotation, existingProcess);
+    const forwardToken = (token: string): string => {
+      if (!rotation || !gatewayToken) {
+        return token;
+      }
+      if (checkClientToken(rotation, token) === 'previous') {
+        c.executionCtx.waitUntil(
+          recordPreviousTokenClient(c.env, {
+            tenantId,
+            user: c.get('accessUser')?.email,
+            userAgent: request.headers.get('User-Agent') ?? undefined,
+          }),
+        );
+      }
+      return forwardedToken(rotation, token, gatewayToken);
+    };
+
     // Inject gateway token into WebSocket request if not already present.
     // CF Access redirects strip query params, so authenticated users lose ?token=.
     // Since the user already passed CF Access auth, we inject the token server-side.
     let wsRequest = request;
-    if (c.env.MOLTBOT_GATEWAY_TOKEN && !url.searchParams.has('token')) {
+    const clientToken = url.searchParams.get('token');
+    const token = clientToken === null ? gatewayToken || undefined : forwardToken(clientToken);
+    if (token !== undefined && token !== clientToken) {
       const tokenUrl = new URL(url.toString());
-      tokenUrl.searchParams.set('token', c.env.MOLTBOT_GATEWAY_TOKEN);
+      tokenUrl.searchParams.set('token', token);
       wsRequest = new Request(tokenUrl.toString(), request);
     }
 
@@ -343,7 +426,11 @@ app.all('*', async (c) => {
         );
       }
       if (containerWs.readyState === WebSocket.OPEN) {
-        containerWs.send(event.data);
+        containerWs.send(
+          rotation && typeof event.data === 'string'
+            ? rewriteConnectFrame(event.data, forwardToken)
+            : event.data,
+        );
       } else if (debugLogs) {
         console.log('[WS] Container not open, readyState:', containerWs.readyState);
       }
@@ -435,7 +522,19 @@ app.all('*', async (c) => {
   }
 
   console.log('[HTTP] Proxying:', url.pathname + url.search);
-  const httpResponse = await sandbox.containerFetch(request, MOLTBOT_PORT);
+  let httpResponse: Response;
+  try {
+    httpResponse = await sandbox.containerFetch(request, MOLTBOT_PORT);
+  } catch (err) {
+    // The gateway may have died between the readiness check and the fetch
+    console.error('[HTTP] containerFetch failed:', err);
+    c.executionCtx.waitUntil(
+      runGatewayWatchdog(sandbox, c.env, tenantId).catch((watchdogErr: Error) => {
+        console.error('[PROXY] Watchdog failed:', watchdogErr?.message ?? watchdogErr);
+      }),
+    );
+    return c.json({ error: 'Moltbot gateway is unavailable', hint: 'Try again shortly.' }, 502);
+  }
   console.log('[HTTP] Response status:', httpResponse.status);
 
   // Add debug header to verify worker handled the request
@@ -450,31 +549,94 @@ app.all('*', async (c) => {
   });
 });
 
+/**
+ * Check one tenant's gateway with the watchdog, then sync its container state to R2
+ * (skipped unless the gateway was already running).
+ */
+async function syncTenant(env: MoltbotEnv, tenantId: string): Promise<void> {
+  const now = new Date();
+  const options = buildSandboxOptions(env, now);
+  const sandbox = getSandbox(env.Sandbox, tenantId, options);
+
+  // Shortly before an awake window opens, start idle gateways so they're warm when it does
+  const prewarm = sandboxSchedule(env, now)?.prewarm ?? false;
+  const watchdog = await runGatewayWatchdog(sandbox, env, tenantId, { startIfIdle: prewarm });
+  if (watchdog.outcome === 'started') {
+    console.log(`[cron] [${tenantId}] Prewarmed gateway ahead of awake hours`);
+    return;
+  }
+  if (watchdog.outcome === 'idle') {
+    console.log(`[cron] [${tenantId}] Gateway not running yet, skipping sync`);
+    return;
+  }
+  if (watchdog.outcome !== 'healthy') {
+    console.log(`[cron] [${tenantId}] Watchdog: ${watchdog.outcome}, skipping sync`);
+    return;
+  }
+
+  console.log(`[cron] [${tenantId}] Starting backup sync to R2...`);
+  const result = await syncWithHistory(sandbox, env, tenantId, 'cron');
+
+  if (result.success) {
+    console.log(`[cron] [${tenantId}] Backup sync completed successfully at`, result.lastSync);
+  } else {
+    console.error(`[cron] [${tenantId}] Backup sync failed:`, result.error, result.details || '');
+  }
+}
+
 /**
  * Scheduled handler for cron triggers.
- * Syncs moltbot config/state from container to R2 for persistence.
+ * Syncs moltbot config/state from container to R2 for persistence, for every known tenant,
+ * prunes backup snapshots outside the retention policy and copies the latest backup to any
+ * secondary destinations that are due. Then checks the providers of AI_MODEL_CHAIN.
  */
 async function scheduled(
   _event: ScheduledEvent,
-  env: MoltbotEnv,
+  workerEnv: MoltbotEnv,
   _ctx: ExecutionContext,
 ): Promise<void> {
-  const options = buildSandboxOptions(env);
-  const sandbox = getSandbox(env.Sandbox, 'moltbot', options);
-
-  const gatewayProcess = await findExistingMoltbotProcess(sandbox);
-  if (!gatewayProcess) {
-    console.log('[cron] Gateway not running yet, skipping sync');
-    return;
+  const env = await withGatewayToken(await withRuntimeSettings(workerEnv));
+  const tenantIds = await listTenants(env);
+  if (tenantIds.length > 1) {
+    console.log('[cron] Syncing', tenantIds.length, 'tenants');
   }
 
-  console.log('[cron] Starting backup sync to R2...');
-  const result = await syncToR2(sandbox, env);
+  for (const tenantId of tenantIds) {
+    try {
+      // eslint-disable-next-line no-await-in-loop -- sync tenants one at a time to bound load
+      await syncTenant(env, tenantId);
+    } catch (err) {
+      console.error(`[cron] [${tenantId}] Sync threw:`, err);
+    }
 
-  if (result.success) {
-    console.log('[cron] Backup sync completed successfully at', result.lastSync);
-  } else {
-    console.error('[cron] Backup sync failed:', result.error, result.details || '');
+    // Prune even when the gateway isn't running, so retention applies to idle tenants too
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      await pruneSnapshots(env, tenantId);
+    } catch (err) {
+      console.error(`[cron] [${tenantId}] Snapshot pruning failed:`, err);
+    }
+
+    // Finish key rotation (or first-time encryption) of backups written under another key
+    if (env.BACKUP_ENCRYPTION_KEY) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await reencryptBackups(env, tenantId);
+      } catch (err) {
+        console.error(`[cron] [${tenantId}] Backup re-encryption failed:`, err);
+      }
+    }
+
+    // Copy the latest backup to secondary destinations whose interval has passed
+    // eslint-disable-next-line no-await-in-loop
+    await replicateBackups(env, tenantId);
+  }
+
+  // Providers are shared by all tenants, so they're checked once per run
+  try {
+    await checkModelChain(env);
+  } catch (err) {
+    console.error('[cron] Provider health check failed:', err);
   }
 }
 
@@ -1,31 +1,162 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { Process } from '@cloudflare/sandbox';
 import type { AppEnv } from '../types';
-import { createAccessMiddleware } from '../auth';
+import { createAccessMiddleware, globalAdmin } from '../auth';
 import {
   ensureMoltbotGateway,
   findExistingMoltbotProcess,
-  mountR2Storage,
-  syncToR2,
+  runGatewayWatchdog,
   waitForProcess,
 } from '../gateway';
-import { R2_MOUNT_PATH } from '../config';
+import {
+  DEFAULT_GATEWAY_TOKEN_GRACE_MS,
+  MAX_GATEWAY_TOKEN_GRACE_MS,
+  STARTUP_TIMEOUT_MS,
+} from '../config';
+import { getStartupProgress } from '../gateway/progress';
+import { clearStartupFailure } from '../gateway/startup-state';
+import { readBackupObject, toReadable } from '../gateway/backup-crypto';
+import { reencryptBackups } from '../gateway/backup-rotation';
+import { readVerification, type BackupVerification } from '../gateway/backup-verify';
+import {
+  getBackupDestinations,
+  readReplicationStatus,
+  replicateIfDue,
+} from '../gateway/destinations';
+import {
+  configLayers,
+  effectiveConfig,
+  readConfigOverlay,
+  validateOverlay,
+  writeConfigOverlay,
+} from '../gateway/config-overlay';
+import {
+  hasPreviousConfig,
+  prepareConfigEdit,
+  readOpenClawConfig,
+  redactConfig,
+  rollbackOpenClawConfig,
+  writeOpenClawConfig,
+} from '../gateway/openclaw-config';
+import { syncBeforeStop } from '../gateway/pre-stop';
+import { modelChain } from '../gateway/env';
+import { checkModelChain, modelChainStatus, readProviderHealth } from '../gateway/provider-health';
+import { failureStreak, getAlertThreshold } from '../gateway/sync-alert';
+import { readSyncHistory, syncWithHistory } from '../gateway/sync-history';
+import { listSnapshotFiles, restoreSnapshot, restoreSnapshotPaths } from '../gateway/restore';
+import { getSnapshot, readSnapshotManifest, snapshotId } from '../gateway/snapshots';
+import { SYNC_MARKER_KEY } from '../gateway/blob-store';
+import { LAST_SYNC_KEY } from '../gateway/sync-binding';
+import { getTenantR2Prefix } from '../gateway/tenant';
+import {
+  endTokenGrace,
+  gatewayTokenFor,
+  readPreviousTokenClients,
+  readTokenRotation,
+  rotateGatewayToken,
+  runningGatewayToken,
+} from '../gateway/gateway-token';
+import { resetWatchdog } from '../gateway/watchdog';
+import {
+  describeRuntimeSettings,
+  readRuntimeSettings,
+  readRuntimeSettingsAudit,
+  updateRuntimeSettings,
+  validateRuntimeSettings,
+} from '../runtime-settings';
 
 // CLI commands can take 10-15 seconds to complete due to WebSocket connection overhead
 const CLI_TIMEOUT_MS = 20000;
 
+// How often the startup progress stream sends an update
+const PROGRESS_INTERVAL_MS = 1000;
+
 /**
  * API routes
+ * - /api/startup/stream - Live startup progress (Server-Sent Events) for the loading page
  * - /api/admin/* - Protected admin API routes (Cloudflare Access required)
  *
  * Note: /api/status is now handled by publicRoutes (no auth required)
  */
 const api = new Hono<AppEnv>();
 
+// GET /api/startup/stream - Stream startup phases, elapsed time and script output as SSE.
+// Sends a `progress` event per tick and ends with `ready` or `failed`; the stream closes after
+// the startup timeout and the client reconnects or falls back to polling /api/status.
+api.get('/startup/stream', (c) => {
+  const sandbox = c.get('sandbox');
+  const tenantId = c.get('tenantId');
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      let aborted = false;
+      stream.onAbort(() => {
+        aborted = true;
+      });
+
+      const deadline = Date.now() + STARTUP_TIMEOUT_MS + 60_000;
+      let startRequested = false;
+      while (!aborted && Date.now() < deadline) {
+        // eslint-disable-next-line no-await-in-loop -- one snapshot per tick
+        const progress = await getStartupProgress(sandbox, c.env, tenantId);
+
+        // Nothing is starting the gateway (e.g. the proxy's background start was cut off)
+        if (progress.status === 'waiting' && !startRequested) {
+          startRequested = true;
+          c.executionCtx.waitUntil(
+            runGatewayWatchdog(sandbox, c.env, tenantId, { startIfIdle: true }).catch(
+              (err: Error) => {
+                console.error('[Progress] Background startup attempt failed:', err?.message ?? err);
+              },
+            ),
+          );
+        }
+
+        const data = JSON.stringify(progress);
+        if (progress.status === 'running') {
+          // eslint-disable-next-line no-await-in-loop
+          await stream.writeSSE({ event: 'ready', data });
+          return;
+        }
+        if (progress.status === 'startup_failed' || progress.status === 'crash_loop') {
+          // eslint-disable-next-line no-await-in-loop
+          await stream.writeSSE({ event: 'failed', data });
+          return;
+        }
+        // eslint-disable-next-line no-await-in-loop
+        await stream.writeSSE({ event: 'progress', data });
+        // eslint-disable-next-line no-await-in-loop
+        await stream.sleep(PROGRESS_INTERVAL_MS);
+      }
+    },
+    async (err, stream) => {
+      console.error('[Progress] Stream failed:', err);
+      await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: err.message }) });
+    },
+  );
+});
+
 /**
  * Admin API routes - all protected by Cloudflare Access
  */
 const adminApi = new Hono<AppEnv>();
 
+/**
+ * The token for CLI commands run against the gateway: the one it was started with, which differs
+ * from c.env's after a token rotation until the gateway restarts
+ */
+function gatewayCliToken(c: Context<AppEnv>, gateway: Process): string | undefined {
+  return gatewayTokenFor(c.env, c.get('tokenRotation'), gateway);
+}
+
+/** Response to callers who may not change what every tenant shares (see globalAdmin) */
+const NOT_AN_ADMIN = {
+  error: 'Only admins can change settings shared by every tenant',
+  hint: "List the admins' Access emails in ADMIN_EMAILS",
+};
+
 // Middleware: Verify Cloudflare Access JWT for all admin routes
 adminApi.use('*', createAccessMiddleware({ type: 'json' }));
 
@@ -35,11 +166,11 @@ adminApi.get('/devices', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    const gateway = await ensureMoltbotGateway(sandbox, c.env, c.get('tenantId'));
 
     // Run OpenClaw CLI to list devices
     // Must specify --url and --token (OpenClaw v2026.2.3 requires explicit credentials with --url)
-    const token = c.env.MOLTBOT_GATEWAY_TOKEN;
+    const token = gatewayCliToken(c, gateway);
     const tokenArg = token ? ` --token ${token}` : '';
     const proc = await sandbox.startProcess(
       `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
@@ -92,10 +223,10 @@ adminApi.post('/devices/:requestId/approve', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    const gateway = await ensureMoltbotGateway(sandbox, c.env, c.get('tenantId'));
 
     // Run OpenClaw CLI to approve the device
-    const token = c.env.MOLTBOT_GATEWAY_TOKEN;
+    const token = gatewayCliToken(c, gateway);
     const tokenArg = token ? ` --token ${token}` : '';
     const proc = await sandbox.startProcess(
       `openclaw devices approve ${requestId} --url ws://localhost:18789${tokenArg}`,
@@ -128,10 +259,10 @@ adminApi.post('/devices/approve-all', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    const gateway = await ensureMoltbotGateway(sandbox, c.env, c.get('tenantId'));
 
     // First, get the list of pending devices
-    const token = c.env.MOLTBOT_GATEWAY_TOKEN;
+    const token = gatewayCliToken(c, gateway);
     const tokenArg = token ? ` --token ${token}` : '';
     const listProc = await sandbox.startProcess(
       `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
@@ -196,9 +327,8 @@ adminApi.post('/devices/approve-all', async (c) => {
   }
 });
 
-// GET /api/admin/storage - Get R2 storage status and last sync time
+// GET /api/admin/storage - Get R2 storage status, last sync time and last verification
 adminApi.get('/storage', async (c) => {
-  const sandbox = c.get('sandbox');
   // CF_ACCOUNT_ID is the minimum requirement; the SDK may handle
   // same-account R2 auth without explicit R2_ACCESS_KEY_ID/R2_SECRET_ACCESS_KEY.
   const isConfigured = !!c.env.CF_ACCOUNT_ID;
@@ -212,27 +342,26 @@ adminApi.get('/storage', async (c) => {
     missing.push('R2_ACCESS_KEY_ID (optional)', 'R2_SECRET_ACCESS_KEY (optional)');
   }
 
+  // Latest sync marker, then those of syncs from before the content-addressed store (the
+  // mount's rsync tree and the backup tarball) for tenants that haven't synced since
   let lastSync: string | null = null;
-
-  // If R2 is configured, check for last sync timestamp
-  if (isConfigured) {
+  const prefix = getTenantR2Prefix(c.get('tenantId'));
+  for (const key of [SYNC_MARKER_KEY, '.last-sync', LAST_SYNC_KEY]) {
     try {
-      // Mount R2 if not already mounted
-      await mountR2Storage(sandbox, c.env);
-
-      // Check for sync marker file
-      const proc = await sandbox.startProcess(
-        `cat ${R2_MOUNT_PATH}/.last-sync 2>/dev/null || echo ""`,
-      );
-      await waitForProcess(proc, 5000);
-      const logs = await proc.getLogs();
-      const timestamp = logs.stdout?.trim();
-      if (timestamp && timestamp !== '') {
-        lastSync = timestamp;
-      }
+      // eslint-disable-next-line no-await-in-loop -- stops at the first marker found
+      const marker = await c.env.MOLTBOT_BUCKET.get(prefix + key).then((obj) => obj?.text());
+      lastSync = marker?.trim() || null;
     } catch {
       // Ignore errors checking sync status
     }
+    if (lastSync) break;
+  }
+
+  let verification: BackupVerification | null = null;
+  try {
+    verification = await readVerification(c.env, c.get('tenantId'));
+  } catch {
+    // Ignore errors reading the verification state
   }
 
   return c.json({
@@ -240,23 +369,83 @@ adminApi.get('/storage', async (c) => {
     hasExplicitCreds,
     missing: missing.length > 0 ? missing : undefined,
     lastSync,
+    encrypted: !!c.env.BACKUP_ENCRYPTION_KEY,
+    verification,
     message: isConfigured
       ? 'R2 storage is configured. Your data will persist across container restarts.'
       : 'R2 storage is not configured (missing CF_ACCOUNT_ID). Paired devices and conversations will be lost when the container restarts.',
   });
 });
 
+// GET /api/admin/storage/history - Recent syncs, newest first, and the current failure streak
+adminApi.get('/storage/history', async (c) => {
+  try {
+    const history = await readSyncHistory(c.env, c.get('tenantId'));
+    return c.json({
+      history,
+      consecutiveFailures: failureStreak(history),
+      alertThreshold: getAlertThreshold(c.env),
+      alertConfigured: !!c.env.SYNC_ALERT_WEBHOOK_URL,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/destinations - Secondary backup destinations and their last copy
+adminApi.get('/storage/destinations', async (c) => {
+  try {
+    const destinations = await Promise.all(
+      getBackupDestinations(c.env).map(async (d) => ({
+        name: d.name,
+        location: d.location,
+        prefix: d.prefix,
+        intervalMinutes: d.intervalMs / 60_000,
+        status: await readReplicationStatus(c.env, c.get('tenantId'), d.name),
+      })),
+    );
+    return c.json({ destinations });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/destinations/:name/replicate - Copy the latest backup there now
+adminApi.post('/storage/destinations/:name/replicate', async (c) => {
+  const destination = getBackupDestinations(c.env).find((d) => d.name === c.req.param('name'));
+  if (!destination) {
+    return c.json({ success: false, error: 'Destination not found' }, 404);
+  }
+
+  const status = await replicateIfDue(c.env, c.get('tenantId'), destination, { force: true });
+  if (!status) {
+    return c.json({ success: false, error: 'No backup to copy yet' }, 409);
+  }
+  return c.json({ success: status.ok, status }, status.ok ? 200 : 502);
+});
+
 // POST /api/admin/storage/sync - Trigger a manual sync to R2
 adminApi.post('/storage/sync', async (c) => {
   const sandbox = c.get('sandbox');
 
-  const result = await syncToR2(sandbox, c.env);
+  // A manual backup always checks the R2 copy (cron syncs only do so periodically)
+  const result = await syncWithHistory(sandbox, c.env, c.get('tenantId'), 'manual', {
+    verify: true,
+  });
 
   if (result.success) {
     return c.json({
       success: true,
-      message: 'Sync completed successfully',
+      message: result.skipped ? 'No changes since the last sync' : 'Sync completed successfully',
       lastSync: result.lastSync,
+      files: result.files,
+      bytes: result.bytes,
+      uploadedFiles: result.uploadedFiles,
+      uploadedBytes: result.uploadedBytes,
+      skipped: result.skipped,
+      verification: result.verification,
     });
   } else {
     const status = result.error?.includes('not configured') ? 400 : 500;
@@ -265,43 +454,360 @@ adminApi.post('/storage/sync', async (c) => {
         success: false,
         error: result.error,
         details: result.details,
+        bytes: result.bytes,
+        uploadedFiles: result.uploadedFiles,
+        uploadedBytes: result.uploadedBytes,
+        verification: result.verification,
       },
       status,
     );
   }
 });
 
+// GET /api/admin/backups - List backup snapshots, newest first
+adminApi.get('/backups', async (c) => {
+  try {
+    const manifest = await readSnapshotManifest(c.env, c.get('tenantId'));
+    return c.json({
+      backups: manifest.snapshots.map((s) => ({
+        id: snapshotId(s.key),
+        createdAt: s.createdAt,
+        size: s.size,
+      })),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/backups/:id/download - Download a snapshot tarball
+adminApi.get('/backups/:id/download', async (c) => {
+  const id = c.req.param('id');
+  const obj = await getSnapshot(c.env, c.get('tenantId'), id);
+  if (!obj) {
+    return c.json({ error: 'Snapshot not found' }, 404);
+  }
+  // Downloads are always plaintext tarballs, even when stored encrypted
+  return new Response(toReadable(await readBackupObject(c.env, obj)), {
+    headers: {
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="backup-${id}.tar.gz"`,
+    },
+  });
+});
+
+// POST /api/admin/backups/:id/restore - Stop the gateway, restore a snapshot, restart the gateway
+adminApi.post('/backups/:id/restore', async (c) => {
+  const sandbox = c.get('sandbox');
+  const tenantId = c.get('tenantId');
+
+  const result = await restoreSnapshot(sandbox, c.env, tenantId, c.req.param('id'));
+  if (!result.success && !result.previousProcessId && !result.restored) {
+    // Nothing was touched (e.g. unknown snapshot), so the gateway is still running
+    return c.json(result, result.error === 'Snapshot not found' ? 404 : 500);
+  }
+
+  // The gateway was stopped for the restore; bring it back even if the restore failed
+  await resetWatchdog(c.env, tenantId);
+  const bootPromise = ensureMoltbotGateway(sandbox, c.env, tenantId).catch((err) => {
+    console.error('Gateway restart after restore failed:', err);
+  });
+  c.executionCtx.waitUntil(bootPromise);
+
+  if (!result.success) {
+    return c.json(result, 500);
+  }
+  return c.json({
+    ...result,
+    message: 'Snapshot restored, gateway restarting...',
+  });
+});
+
+// GET /api/admin/backups/:id/files - List the files in a snapshot
+adminApi.get('/backups/:id/files', async (c) => {
+  try {
+    const files = await listSnapshotFiles(c.env, c.get('tenantId'), c.req.param('id'));
+    if (!files) {
+      return c.json({ error: 'Snapshot not found' }, 404);
+    }
+    return c.json({ files });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/backups/:id/restore-files - Restore some files or directories from a snapshot
+// while the gateway keeps running. Body: { paths: string[] }, relative to /root
+adminApi.post('/backups/:id/restore-files', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const paths: unknown = body?.paths;
+  if (!Array.isArray(paths) || !paths.every((p) => typeof p === 'string')) {
+    return c.json({ error: 'Expected { "paths": string[] }' }, 400);
+  }
+
+  const result = await restoreSnapshotPaths(
+    c.get('sandbox'),
+    c.env,
+    c.get('tenantId'),
+    c.req.param('id'),
+    paths,
+  );
+  if (result.success) {
+    return c.json({ ...result, message: `Restored ${result.restoredFiles?.length ?? 0} file(s)` });
+  }
+  const status =
+    result.error === 'Snapshot not found'
+      ? 404
+      : result.error === 'Invalid paths' || result.error === 'Paths not in snapshot'
+        ? 400
+        : 500;
+  return c.json(result, status);
+});
+
+// POST /api/admin/backups/reencrypt - Re-encrypt backups under the current BACKUP_ENCRYPTION_KEY
+// (the cron job does this too; this runs it immediately after rotating the key)
+adminApi.post('/backups/reencrypt', async (c) => {
+  if (!c.env.BACKUP_ENCRYPTION_KEY) {
+    return c.json({ error: 'Backup encryption is not configured (BACKUP_ENCRYPTION_KEY)' }, 400);
+  }
+  try {
+    const result = await reencryptBackups(c.env, c.get('tenantId'));
+    return c.json(
+      { success: result.failed.length === 0, ...result },
+      result.failed.length ? 500 : 200,
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+/**
+ * Kill the current gateway (after syncing its state) and start a new one in the background.
+ */
+async function restartGateway(c: Context<AppEnv>) {
+  const sandbox = c.get('sandbox');
+  const existingProcess = await findExistingMoltbotProcess(sandbox);
+
+  // Save recent changes first: the restarted gateway restores the latest R2 backup
+  const preStopSync = existingProcess
+    ? await syncBeforeStop(sandbox, c.env, c.get('tenantId'), 'restart')
+    : undefined;
+
+  if (existingProcess) {
+    console.log('Killing existing gateway process:', existingProcess.id);
+    try {
+      await existingProcess.kill();
+    } catch (killErr) {
+      console.error('Error killing process:', killErr);
+    }
+    // Wait a moment for the process to die
+    await new Promise((r) => setTimeout(r, 2000));
+  }
+
+  // An explicit restart also ends a crash loop declared by the watchdog
+  await resetWatchdog(c.env, c.get('tenantId'));
+
+  // Start a new gateway in the background
+  const bootPromise = ensureMoltbotGateway(sandbox, c.env, c.get('tenantId')).catch((err) => {
+    console.error('Gateway restart failed:', err);
+  });
+  c.executionCtx.waitUntil(bootPromise);
+
+  return {
+    previousProcessId: existingProcess?.id,
+    preStopSync: preStopSync && {
+      success: preStopSync.success,
+      lastSync: preStopSync.lastSync,
+      error: preStopSync.error,
+    },
+  };
+}
+
 // POST /api/admin/gateway/restart - Kill the current gateway and start a new one
 adminApi.post('/gateway/restart', async (c) => {
+  try {
+    const restart = await restartGateway(c);
+    return c.json({
+      success: true,
+      message: restart.previousProcessId
+        ? 'Gateway process killed, new instance starting...'
+        : 'No existing process found, starting new instance...',
+      ...restart,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/gateway/retry - End a crash loop and clear the startup failure, so the next
+// request starts the gateway again
+adminApi.post('/gateway/retry', async (c) => {
+  const tenantId = c.get('tenantId');
+  await resetWatchdog(c.env, tenantId);
+  await clearStartupFailure(c.env, tenantId);
+  return c.json({ ok: true, message: 'Crash loop cleared. Reload the page to retry.' });
+});
+
+// GET /api/admin/models - AI_MODEL_CHAIN with provider health and the model serving requests
+adminApi.get('/models', async (c) => {
+  try {
+    const health = await readProviderHealth(c.env);
+    return c.json({ chain: modelChainStatus(modelChain(c.env), health) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/models/check - Check the chain's providers now instead of waiting for the cron
+adminApi.post('/models/check', async (c) => {
+  try {
+    const health = (await checkModelChain(c.env)) ?? {};
+    return c.json({ chain: modelChainStatus(modelChain(c.env), health) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/config - Read the live openclaw.json, secrets redacted
+adminApi.get('/config', async (c) => {
   const sandbox = c.get('sandbox');
+  try {
+    const live = await readOpenClawConfig(sandbox);
+    if (!live) {
+      return c.json({ error: 'No openclaw.json yet; start the gateway first' }, 404);
+    }
+    return c.json({
+      config: redactConfig(live.config),
+      version: live.version,
+      hasPrevious: await hasPreviousConfig(sandbox),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
+// POST /api/admin/config/validate - Validate a proposed config and list what it changes.
+// Body: { config }
+adminApi.post('/config/validate', async (c) => {
+  const body = await c.req.json().catch(() => null);
   try {
-    // Find and kill the existing gateway process
-    const existingProcess = await findExistingMoltbotProcess(sandbox);
+    const live = await readOpenClawConfig(c.get('sandbox'));
+    if (!live) {
+      return c.json({ error: 'No openclaw.json yet; start the gateway first' }, 404);
+    }
+    const { errors, warnings, changes } = prepareConfigEdit(
+      live.config,
+      body?.config,
+      await configLayers(c.env, c.get('tenantId')),
+    );
+    return c.json({ valid: errors.length === 0, errors, warnings, changes, version: live.version });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
-    if (existingProcess) {
-      console.log('Killing existing gateway process:', existingProcess.id);
-      try {
-        await existingProcess.kill();
-      } catch (killErr) {
-        console.error('Error killing process:', killErr);
-      }
-      // Wait a moment for the process to die
-      await new Promise((r) => setTimeout(r, 2000));
+// PUT /api/admin/config - Write a validated config and restart the gateway.
+// Body: { config, version } where version is what GET /config returned
+adminApi.put('/config', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const sandbox = c.get('sandbox');
+  try {
+    const live = await readOpenClawConfig(sandbox);
+    if (!live) {
+      return c.json({ error: 'No openclaw.json yet; start the gateway first' }, 404);
+    }
+    if (body?.version !== live.version) {
+      return c.json({ error: 'The config changed since it was loaded; reload and try again' }, 409);
+    }
+    const edit = prepareConfigEdit(
+      live.config,
+      body.config,
+      await configLayers(c.env, c.get('tenantId')),
+    );
+    if (edit.errors.length > 0) {
+      return c.json(
+        {
+          error: `Invalid config: ${edit.errors.map((e) => `${e.path} ${e.message}`).join('; ')}`,
+          errors: edit.errors,
+        },
+        400,
+      );
+    }
+    if (edit.changes.length === 0) {
+      return c.json({ success: true, changes: [], message: 'No changes to apply' });
     }
 
-    // Start a new gateway in the background
-    const bootPromise = ensureMoltbotGateway(sandbox, c.env).catch((err) => {
-      console.error('Gateway restart failed:', err);
+    await writeOpenClawConfig(sandbox, edit.config, live.content);
+    console.log('[Config] Applied', edit.changes.length, 'change(s), restarting gateway');
+    const restart = await restartGateway(c);
+    return c.json({
+      success: true,
+      changes: edit.changes,
+      warnings: edit.warnings,
+      message: 'Config saved, gateway restarting...',
+      ...restart,
     });
-    c.executionCtx.waitUntil(bootPromise);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
+// GET /api/admin/config/effective - The config the gateway gets on its next start, with the layer
+// (runtime file, env, overlay) each value comes from
+adminApi.get('/config/effective', async (c) => {
+  try {
+    const live = await readOpenClawConfig(c.get('sandbox'));
+    const layers = await configLayers(c.env, c.get('tenantId'));
+    return c.json({
+      precedence: ['runtime', 'env', 'overlay'],
+      runtimeFound: live !== null,
+      values: effectiveConfig(live?.config ?? {}, layers),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/config/overlay - The admin-managed overlay stored in R2
+adminApi.get('/config/overlay', async (c) => {
+  try {
+    return c.json(await readConfigOverlay(c.env, c.get('tenantId')));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// PUT /api/admin/config/overlay - Replace the overlay; applied when the gateway next starts.
+// Body: { overlay }
+adminApi.put('/config/overlay', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const errors = validateOverlay(body?.overlay);
+  if (errors.length > 0) {
+    return c.json(
+      {
+        error: `Invalid overlay: ${errors.map((e) => `${e.path} ${e.message}`).join('; ')}`,
+        errors,
+      },
+      400,
+    );
+  }
+  try {
+    const saved = await writeConfigOverlay(c.env, c.get('tenantId'), body.overlay);
     return c.json({
       success: true,
-      message: existingProcess
-        ? 'Gateway process killed, new instance starting...'
-        : 'No existing process found, starting new instance...',
-      previousProcessId: existingProcess?.id,
+      ...saved,
+      message: 'Overlay saved; restart the gateway to apply it',
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -309,6 +815,183 @@ adminApi.post('/gateway/restart', async (c) => {
   }
 });
 
+// POST /api/admin/config/rollback - Swap openclaw.json with its previous version and restart
+adminApi.post('/config/rollback', async (c) => {
+  try {
+    if (!(await rollbackOpenClawConfig(c.get('sandbox')))) {
+      return c.json({ error: 'No previous config to roll back to' }, 404);
+    }
+    console.log('[Config] Rolled back to the previous config, restarting gateway');
+    const restart = await restartGateway(c);
+    return c.json({
+      success: true,
+      message: 'Previous config restored, gateway restarting...',
+      ...restart,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/settings - Settings that can be overridden at runtime, with their env and
+// runtime values
+adminApi.get('/settings', async (c) => {
+  try {
+    const settings = await readRuntimeSettings(c.env);
+    return c.json({
+      precedence: ['default', 'env', 'runtime'],
+      updatedAt: settings.updatedAt,
+      settings: describeRuntimeSettings(c.get('workerEnv'), settings),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// PUT /api/admin/settings - Set or remove runtime overrides. Body: { changes: { NAME: value | null } }
+// The overrides apply to every tenant, so only admins (see globalAdmin) may edit them.
+adminApi.put('/settings', async (c) => {
+  const admin = globalAdmin(c);
+  if (!admin) {
+    return c.json(NOT_AN_ADMIN, 403);
+  }
+  const body = await c.req.json().catch(() => null);
+  const errors = validateRuntimeSettings(body?.changes);
+  if (errors.length > 0) {
+    return c.json(
+      {
+        error: `Invalid settings: ${errors.map((e) => `${e.setting} ${e.message}`).join('; ')}`,
+        errors,
+      },
+      400,
+    );
+  }
+  try {
+    const settings = await updateRuntimeSettings(c.env, body.changes, admin);
+    const views = describeRuntimeSettings(c.get('workerEnv'), settings);
+    const needRestart = views
+      .filter((view) => view.appliedAtStart && view.name in body.changes)
+      .map((view) => view.name);
+    return c.json({
+      success: true,
+      precedence: ['default', 'env', 'runtime'],
+      updatedAt: settings.updatedAt,
+      settings: views,
+      message:
+        needRestart.length > 0
+          ? `Settings saved; restart the gateway to apply ${needRestart.join(', ')}`
+          : 'Settings saved',
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/settings/audit - Changes to the runtime settings, newest first
+adminApi.get('/settings/audit', async (c) => {
+  try {
+    return c.json({ entries: await readRuntimeSettingsAudit(c.env) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/gateway-token - Rotation status of the gateway token: when it was rotated, until
+// when the previous token is accepted, which token this tenant's gateway runs with, and the
+// clients seen using the previous token
+adminApi.get('/gateway-token', async (c) => {
+  try {
+    const workerEnv = c.get('workerEnv');
+    const rotation = await readTokenRotation(workerEnv);
+    const gateway = await findExistingMoltbotProcess(c.get('sandbox'));
+    let gatewayToken: 'current' | 'previous' | 'unknown' | null = null;
+    if (rotation && gateway) {
+      const running = runningGatewayToken(rotation, gateway);
+      if (running === rotation.current) {
+        gatewayToken = 'current';
+      } else {
+        gatewayToken = running === rotation.previous ? 'previous' : 'unknown';
+      }
+    }
+    return c.json({
+      configured: !!workerEnv.MOLTBOT_GATEWAY_TOKEN,
+      rotation: rotation && {
+        rotatedAt: rotation.rotatedAt,
+        rotatedBy: rotation.rotatedBy,
+        graceUntil: rotation.graceUntil,
+        graceActive: Date.now() < Date.parse(rotation.graceUntil),
+      },
+      gatewayToken,
+      previousTokenClients: rotation ? await readPreviousTokenClients(c.env) : [],
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/gateway-token/rotate - Replace the gateway token; the previous one is accepted
+// for the grace period. Body (optional): { graceHours }. Returns the new token.
+// The grace period is enforced by the Worker: the gateway accepts only the token it was started
+// with, so clients reaching it directly need the new token once it restarts.
+adminApi.post('/gateway-token/rotate', async (c) => {
+  const admin = globalAdmin(c);
+  if (!admin) {
+    return c.json(NOT_AN_ADMIN, 403);
+  }
+  const workerEnv = c.get('workerEnv');
+  if (!workerEnv.MOLTBOT_GATEWAY_TOKEN) {
+    return c.json({ error: 'MOLTBOT_GATEWAY_TOKEN is not set; there is no token to rotate' }, 400);
+  }
+  const body = await c.req.json().catch(() => ({}));
+  const graceMs =
+    body?.graceHours === undefined ? DEFAULT_GATEWAY_TOKEN_GRACE_MS : body.graceHours * 3_600_000;
+  if (!Number.isFinite(graceMs) || graceMs < 0 || graceMs > MAX_GATEWAY_TOKEN_GRACE_MS) {
+    return c.json(
+      { error: `graceHours must be between 0 and ${MAX_GATEWAY_TOKEN_GRACE_MS / 3_600_000}` },
+      400,
+    );
+  }
+  try {
+    const rotation = await rotateGatewayToken(workerEnv, admin, graceMs);
+    console.log(
+      '[Token] Gateway token rotated; previous token accepted until',
+      rotation.graceUntil,
+    );
+    return c.json({
+      success: true,
+      token: rotation.current,
+      graceUntil: rotation.graceUntil,
+      message:
+        'Gateway token rotated. Give clients the new token; running gateways switch to it when they next restart.',
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/gateway-token/end-grace - Stop accepting the previous token now
+adminApi.post('/gateway-token/end-grace', async (c) => {
+  if (!globalAdmin(c)) {
+    return c.json(NOT_AN_ADMIN, 403);
+  }
+  try {
+    const rotation = await endTokenGrace(c.get('workerEnv'));
+    if (!rotation) {
+      return c.json({ error: 'The gateway token has not been rotated' }, 404);
+    }
+    return c.json({ success: true, graceUntil: rotation.graceUntil });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 // Mount admin API routes under /admin
 api.route('/admin', adminApi);
 
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import type { AppEnv, MoltbotEnv } from '../types';
 import puppeteer, { type Browser, type Page } from '@cloudflare/puppeteer';
+import { timingSafeEqual } from '../utils/secrets';
 
 /**
  * CDP (Chrome DevTools Protocol) WebSocket shim
@@ -1901,19 +1902,4 @@ function sendEvent(ws: WebSocket, method: string, params?: Record<string, unknow
   ws.send(JSON.stringify(event));
 }
 
-/**
- * Constant-time string comparison to prevent timing attacks
- */
-function timingSafeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) {
-    return false;
-  }
-
-  let result = 0;
-  for (let i = 0; i < a.length; i++) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
-  }
-  return result === 0;
-}
-
 export { cdp };
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import type { AppEnv } from '../types';
 import { findExistingMoltbotProcess } from '../gateway';
+import { configuredAiProviders, describeSettings, missingSettings } from '../settings';
 
 /**
  * Debug routes for inspecting container state
@@ -348,19 +349,12 @@ debug.get('/ws-test', async (c) => {
 // GET /debug/env - Show environment configuration (sanitized)
 debug.get('/env', async (c) => {
   return c.json({
-    has_anthropic_key: !!c.env.ANTHROPIC_API_KEY,
-    has_openai_key: !!c.env.OPENAI_API_KEY,
-    has_gateway_token: !!c.env.MOLTBOT_GATEWAY_TOKEN,
-    has_cf_account_id: !!c.env.CF_ACCOUNT_ID,
-    has_r2_access_key: !!c.env.R2_ACCESS_KEY_ID,
-    has_r2_secret_key: !!c.env.R2_SECRET_ACCESS_KEY,
+    settings: describeSettings(c.env),
+    ai_providers: configuredAiProviders(c.env),
+    missing: missingSettings(c.env).map((setting) => setting.label),
     r2_configured: !!c.env.CF_ACCOUNT_ID,
     r2_has_explicit_creds: !!(c.env.R2_ACCESS_KEY_ID && c.env.R2_SECRET_ACCESS_KEY),
-    dev_mode: c.env.DEV_MODE,
-    debug_routes: c.env.DEBUG_ROUTES,
     bind_mode: 'lan',
-    cf_access_team_domain: c.env.CF_ACCESS_TEAM_DOMAIN,
-    has_cf_access_aud: !!c.env.CF_ACCESS_AUD,
   });
 });
 
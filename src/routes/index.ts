@@ -3,3 +3,5 @@ export { api } from './api';
 export { adminUi } from './admin-ui';
 export { debug } from './debug';
 export { cdp } from './cdp';
+export { webhooks } from './webhooks';
+export { openai } from './openai';
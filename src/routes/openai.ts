@@ -0,0 +1,176 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { AppEnv } from '../types';
+import { resolveAccessCaller } from '../auth';
+import { ensureMoltbotGateway } from '../gateway';
+import {
+  chatPrompt,
+  chatSessionKey,
+  streamGatewayChat,
+  type ChatCompletionMessage,
+} from '../gateway/chat';
+import { gatewayTokenFor } from '../gateway/gateway-token';
+import { isMultiTenant, resolveServiceTokenTenantId } from '../gateway/tenant';
+
+/**
+ * OpenAI-compatible API - Cloudflare Access JWT or service token required
+ *
+ * POST /v1/chat/completions sends the last user message to an agent session over the gateway's
+ * WebSocket protocol and returns the reply, streamed as SSE chunks with `stream: true`. Requests
+ * with the same `user` (from the same caller) continue the same session. Users get their own
+ * tenant's gateway. In multi-tenant mode service tokens get the tenant TENANT_MAP gives their
+ * client ID and are refused without one.
+ *
+ * Mounted before the Access middleware, which expects a user's email; this checks the JWT itself
+ * so service tokens (which have none) are accepted too.
+ */
+const openai = new Hono<AppEnv>();
+
+interface ChatCompletionRequest {
+  model?: unknown;
+  messages?: unknown;
+  stream?: unknown;
+  user?: unknown;
+}
+
+/** Model name reported when the request names none */
+const DEFAULT_MODEL = 'openclaw';
+
+function invalidRequest(message: string) {
+  return { error: { message, type: 'invalid_request_error' } };
+}
+
+function isMessage(value: unknown): value is ChatCompletionMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { role?: unknown }).role === 'string'
+  );
+}
+
+// POST /v1/chat/completions - Chat with the agent (OpenAI chat completions format)
+openai.post('/chat/completions', async (c) => {
+  const caller = await resolveAccessCaller(c);
+  if (!caller) {
+    return c.json(
+      {
+        error: {
+          message:
+            'Missing or invalid Cloudflare Access JWT. Send a service token (CF-Access-Client-Id and CF-Access-Client-Secret) or sign in.',
+          type: 'authentication_error',
+        },
+      },
+      401,
+    );
+  }
+  // In multi-tenant mode the sandbox middleware sets accessUser for users, so this is a service
+  // token; it was given the default tenant's sandbox unless TENANT_MAP maps it
+  if (isMultiTenant(c.env) && !c.get('accessUser') && !resolveServiceTokenTenantId(c.env, caller)) {
+    return c.json(
+      {
+        error: {
+          message: `This service token is not mapped to a tenant. Add its client ID (${caller}) to TENANT_MAP.`,
+          type: 'permission_error',
+        },
+      },
+      403,
+    );
+  }
+
+  let body: ChatCompletionRequest;
+  try {
+    body = await c.req.json<ChatCompletionRequest>();
+  } catch {
+    return c.json(invalidRequest('Request body must be JSON'), 400);
+  }
+  if (!Array.isArray(body.messages) || !body.messages.every(isMessage)) {
+    return c.json(invalidRequest('messages must be an array of messages with a role'), 400);
+  }
+  const prompt = chatPrompt(body.messages);
+  if (!prompt) {
+    return c.json(invalidRequest('messages must include a user message with text'), 400);
+  }
+  if (body.user !== undefined && typeof body.user !== 'string') {
+    return c.json(invalidRequest('user must be a string'), 400);
+  }
+
+  const sandbox = c.get('sandbox');
+  const tenantId = c.get('tenantId');
+  let token: string | undefined;
+  try {
+    const gateway = await ensureMoltbotGateway(sandbox, c.env, tenantId);
+    token = gatewayTokenFor(c.env, c.get('tokenRotation'), gateway);
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[OpenAI] Gateway failed to start:', errorMessage);
+    return c.json({ error: { message: errorMessage, type: 'server_error' } }, 503);
+  }
+  if (!token) {
+    return c.json(
+      { error: { message: 'MOLTBOT_GATEWAY_TOKEN is not set', type: 'server_error' } },
+      503,
+    );
+  }
+
+  const chat = streamGatewayChat(sandbox, {
+    token,
+    sessionKey: await chatSessionKey(caller, body.user),
+    message: prompt,
+  });
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const model = typeof body.model === 'string' && body.model ? body.model : DEFAULT_MODEL;
+
+  if (body.stream !== true) {
+    let content = '';
+    try {
+      for await (const text of chat) {
+        content += text;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[OpenAI] Chat failed:', errorMessage);
+      return c.json({ error: { message: errorMessage, type: 'server_error' } }, 502);
+    }
+    return c.json({
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    });
+  }
+
+  const chunk = (delta: Record<string, string>, finishReason: string | null = null) =>
+    JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      stream.onAbort(() => {
+        void chat.return();
+      });
+      await stream.writeSSE({ data: chunk({ role: 'assistant' }) });
+      for await (const text of chat) {
+        await stream.writeSSE({ data: chunk({ content: text }) });
+      }
+      await stream.writeSSE({ data: chunk({}, 'stop') });
+      await stream.writeSSE({ data: '[DONE]' });
+    },
+    async (err, stream) => {
+      console.error('[OpenAI] Chat stream failed:', err);
+      await stream.writeSSE({
+        data: JSON.stringify({ error: { message: err.message, type: 'server_error' } }),
+      });
+      await stream.writeSSE({ data: '[DONE]' });
+    },
+  );
+});
+
+export { openai };
@@ -1,10 +1,14 @@
 import { Hono } from 'hono';
 import type { AppEnv } from '../types';
-import { MOLTBOT_PORT } from '../config';
-import { ensureMoltbotGateway, findExistingMoltbotProcess } from '../gateway';
-import { clearStartupFailure, getStartupFailure } from '../gateway/startup-state';
-
-const BACKUP_KEY = 'openclaw/backup.tar.gz';
+import { DEFAULT_TENANT_ID, MOLTBOT_PORT } from '../config';
+import { findExistingMoltbotProcess, isMultiTenant, runGatewayWatchdog } from '../gateway';
+import { clearStartupFailure, getStartupState } from '../gateway/startup-state';
+import { getWatchdogState } from '../gateway/watchdog';
+import { manifestArchive, readSyncManifest } from '../gateway/blob-store';
+import { BACKUP_KEY } from '../gateway/sync-binding';
+import { readBackupObject, toReadable } from '../gateway/backup-crypto';
+import { deriveBackupRestoreToken, getTenantR2Prefix, sanitizeTenantId } from '../gateway/tenant';
+import { timingSafeEqual } from '../utils/secrets';
 
 /**
  * Public routes - NO Cloudflare Access authentication required
@@ -36,36 +40,101 @@ publicRoutes.get('/logo-small.png', (c) => {
 // GET /api/status - Public health check for gateway status (no auth required)
 publicRoutes.get('/api/status', async (c) => {
   const sandbox = c.get('sandbox');
+  const tenantId = c.get('tenantId');
+
+  // In multi-tenant mode the sandbox depends on who is asking; don't boot anything anonymously
+  if (isMultiTenant(c.env) && !c.get('accessUser')) {
+    return c.json(
+      {
+        ok: false,
+        status: 'unauthenticated',
+        message: 'Sign in via Cloudflare Access to see your gateway status.',
+      },
+      401,
+    );
+  }
 
   try {
+    // Startup state is shared across isolates, so every poll sees the same lock/failure
+    const startup = await getStartupState(c.env, tenantId);
+    const startupInfo = {
+      attempts: startup.attempts,
+      startedAt: startup.startedAt,
+      phases: startup.phases,
+    };
+
     const process = await findExistingMoltbotProcess(sandbox);
     if (!process) {
-      const failure = getStartupFailure();
+      const watchdog = await getWatchdogState(c.env, tenantId);
+      if (watchdog.crashLoop) {
+        const { lastCrash } = watchdog.crashLoop;
+        return c.json({
+          ok: false,
+          status: 'crash_loop',
+          message: `Gateway crashed ${watchdog.crashLoop.crashes} times in a row and will not be restarted automatically.`,
+          hint: 'Fix the cause shown in stderr, then retry startup as an admin.',
+          exitCode: lastCrash.exitCode,
+          stderr: lastCrash.stderr,
+          detectedAt: watchdog.crashLoop.detectedAt,
+          ...startupInfo,
+        });
+      }
+
+      const failure = startup.lastFailure;
       if (failure) {
         return c.json({
           ok: false,
           status: 'startup_failed',
           message: failure.message,
           hint: failure.hint,
+          failedAt: failure.at,
+          ...startupInfo,
         });
       }
-      console.log('[Status] No gateway process yet — triggering startup if not already in progress');
+      if (watchdog.nextRestartAt && watchdog.nextRestartAt > Date.now()) {
+        return c.json({
+          ok: false,
+          status: 'restart_pending',
+          message: 'Gateway crashed. Restarting after a short backoff...',
+          hint: 'If it keeps crashing, check worker logs: npx wrangler tail',
+          nextRestartAt: watchdog.nextRestartAt,
+          crashes: watchdog.crashes.length,
+          ...startupInfo,
+        });
+      }
+
+      console.log(
+        '[Status] No gateway process yet — triggering startup if not already in progress',
+      );
       c.executionCtx.waitUntil(
-        ensureMoltbotGateway(sandbox, c.env).catch((err: Error) => {
-          console.error('[Status] Background startup attempt failed:', err?.message ?? err);
-        }),
+        runGatewayWatchdog(sandbox, c.env, tenantId, { startIfIdle: true })
+          .then((result) => {
+            if (result.outcome === 'restart_failed') {
+              console.error('[Status] Background startup attempt failed:', result.error);
+            }
+          })
+          .catch((err: Error) => {
+            console.error('[Status] Background startup attempt failed:', err?.message ?? err);
+          }),
       );
       return c.json({
         ok: false,
         status: 'no_process',
-        message:
-          'No gateway process yet. Startup in progress (cold start can take 1–2 minutes).',
+        message: 'No gateway process yet. Startup in progress (cold start can take 1–2 minutes).',
         hint: 'If this persists, check worker logs: npx wrangler tail',
+        startupInProgress: startup.lock !== null,
+        ...startupInfo,
       });
     }
 
     // Process exists, check if it's actually responding
-    console.log('[Status] Process found:', process.id, 'status:', process.status, '- checking port');
+    console.log(
+      '[Status] Process found:',
+      process.id,
+      'status:',
+      process.status,
+      '- checking port',
+    );
     try {
       await process.waitForPort(18789, { mode: 'tcp', timeout: 5000 });
       console.log('[Status] Gateway is running and responding on port 18789');
@@ -74,6 +143,7 @@ publicRoutes.get('/api/status', async (c) => {
         status: 'running',
         processId: process.id,
         message: 'Gateway is ready.',
+        ...startupInfo,
       });
     } catch {
       console.log('[Status] Process exists but port 18789 not responding yet');
@@ -84,6 +154,7 @@ publicRoutes.get('/api/status', async (c) => {
         processStatus: process.status,
         message: 'Gateway process is starting, waiting for it to listen on port 18789...',
         hint: 'If this persists >3 min, check worker logs: npx wrangler tail',
+        ...startupInfo,
       });
     }
   } catch (err) {
@@ -100,28 +171,46 @@ publicRoutes.get('/api/status', async (c) => {
 });
 
 // GET /api/retry-startup - Clear last startup failure so next poll can trigger a fresh attempt (no auth)
-publicRoutes.get('/api/retry-startup', (c) => {
-  clearStartupFailure();
+// A crash loop is only cleared by an admin (POST /api/admin/gateway/retry)
+publicRoutes.get('/api/retry-startup', async (c) => {
+  await clearStartupFailure(c.env, c.get('tenantId'));
   return c.json({ ok: true, message: 'Startup failure cleared. Reload the page to retry.' });
 });
 
-// GET /internal/backup - Stream R2 backup tarball for container restore (token auth, no CF Access)
+// GET /internal/backup - Stream the backup as a tarball for container restore (token auth, no CF Access)
+// Multi-tenant containers pass ?tenant=<id> and a token derived from BACKUP_RESTORE_TOKEN for that tenant.
+// The tarball is assembled from the latest sync manifest's blobs (tenants that haven't synced since
+// the content-addressed store get their old backup tarball). Encrypted backups are decrypted here,
+// so the key never has to reach the container.
 publicRoutes.get('/internal/backup', async (c) => {
   const token =
-    c.req.query('token') ?? c.req.header('X-Backup-Token') ?? c.req.header('Authorization')?.replace(/^Bearer\s+/i, '');
-  if (!c.env.BACKUP_RESTORE_TOKEN || token !== c.env.BACKUP_RESTORE_TOKEN) {
+    c.req.query('token') ??
+    c.req.header('X-Backup-Token') ??
+    c.req.header('Authorization')?.replace(/^Bearer\s+/i, '');
+  const tenantId = c.req.query('tenant') || DEFAULT_TENANT_ID;
+  if (sanitizeTenantId(tenantId) !== tenantId) {
+    return c.json({ error: 'Invalid tenant' }, 400);
+  }
+  if (
+    !c.env.BACKUP_RESTORE_TOKEN ||
+    !token ||
+    !timingSafeEqual(token, await deriveBackupRestoreToken(c.env.BACKUP_RESTORE_TOKEN, tenantId))
+  ) {
     return c.json({ error: 'Unauthorized' }, 401);
   }
-  const obj = await c.env.MOLTBOT_BUCKET.get(BACKUP_KEY);
+  const headers = {
+    'Content-Type': 'application/gzip',
+    'Content-Disposition': 'attachment; filename="backup.tar.gz"',
+  };
+  const manifest = await readSyncManifest(c.env, tenantId);
+  if (manifest) {
+    return new Response(toReadable(manifestArchive(c.env, tenantId, manifest)), { headers });
+  }
+  const obj = await c.env.MOLTBOT_BUCKET.get(getTenantR2Prefix(tenantId) + BACKUP_KEY);
   if (!obj || !obj.body) {
     return c.json({ error: 'No backup found' }, 404);
   }
-  return new Response(obj.body, {
-    headers: {
-      'Content-Type': 'application/gzip',
-      'Content-Disposition': 'attachment; filename="backup.tar.gz"',
-    },
-  });
+  return new Response(toReadable(await readBackupObject(c.env, obj)), { headers });
 });
 
 // GET /_admin/assets/* - Admin UI static assets (CSS, JS need to load for login redirect)
@@ -0,0 +1,60 @@
+import { Hono } from 'hono';
+import { getSandbox } from '@cloudflare/sandbox';
+import type { AppEnv } from '../types';
+import { DEFAULT_TENANT_ID } from '../config';
+import { buildSandboxOptions } from '../gateway/sleep-schedule';
+import { queueWebhook } from '../gateway/webhooks';
+import { timingSafeEqual } from '../utils/secrets';
+
+/**
+ * Chat channel webhooks - NO Cloudflare Access authentication
+ *
+ * Each channel checks its own signature. Updates are queued (see gateway/webhooks) and
+ * acknowledged before the gateway has seen them, so the channel doesn't give up on a sleeping
+ * container. The bot tokens are deployment-wide, so updates go to the default tenant's gateway.
+ */
+const webhooks = new Hono<AppEnv>();
+
+// POST /webhooks/telegram - Telegram Bot API updates, signed with the setWebhook secret_token
+webhooks.post('/telegram', async (c) => {
+  const secret = c.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || !c.env.TELEGRAM_BOT_TOKEN) {
+    return c.json({ error: 'Telegram webhook not configured' }, 404);
+  }
+  const provided = c.req.header('X-Telegram-Bot-Api-Secret-Token');
+  if (!provided || !timingSafeEqual(provided, secret)) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const body = await c.req.text();
+  let updateId: unknown;
+  try {
+    updateId = (JSON.parse(body) as { update_id?: unknown }).update_id;
+  } catch {
+    // Reported below
+  }
+  if (typeof updateId !== 'number') {
+    return c.json({ error: 'Expected a Telegram update with an update_id' }, 400);
+  }
+
+  const tenantId = DEFAULT_TENANT_ID;
+  const sandbox = getSandbox(c.env.Sandbox, tenantId, buildSandboxOptions(c.env));
+  try {
+    const result = await queueWebhook(c.env, tenantId, sandbox, c.executionCtx, {
+      channel: 'telegram',
+      updateId: String(updateId),
+      body,
+    });
+    if (result === 'full') {
+      // Telegram redelivers updates that weren't accepted, so this one comes back later
+      return c.json({ error: 'Webhook queue is full' }, 503);
+    }
+    return c.json({ ok: true, queued: result === 'queued' });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[Webhooks] Failed to queue Telegram update:', errorMessage);
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+export { webhooks };
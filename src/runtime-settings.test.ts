@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RUNTIME_SETTINGS_AUDIT_KEY,
+  RUNTIME_SETTINGS_KEY,
+  applyRuntimeSettings,
+  describeRuntimeSettings,
+  readRuntimeSettings,
+  readRuntimeSettingsAudit,
+  updateRuntimeSettings,
+  validateRuntimeSettings,
+  withRuntimeSettings,
+} from './runtime-settings';
+import { createMockBucket, createMockEnv, suppressConsole } from './test-utils';
+
+describe('validateRuntimeSettings', () => {
+  it('only accepts settings marked runtime, with one of their options', () => {
+    expect(
+      validateRuntimeSettings({
+        DEBUG_ROUTES: 'true',
+        TELEGRAM_DM_POLICY: 'everyone',
+        DISCORD_DM_POLICY: '',
+        AI_MODEL_CHAIN: null,
+        TELEGRAM_BOT_TOKEN: 'tg',
+        CF_ACCESS_TEAM_DOMAIN: 'evil.cloudflareaccess.com',
+        SANDBOX_SLEEP_AFTER: 10,
+        NOT_A_SETTING: 'x',
+      }),
+    ).toEqual([
+      { setting: 'TELEGRAM_DM_POLICY', message: 'must be one of pairing, open' },
+      { setting: 'TELEGRAM_BOT_TOKEN', message: 'secrets can only be set as Worker secrets' },
+      { setting: 'CF_ACCESS_TEAM_DOMAIN', message: 'can only be set in the Worker environment' },
+      { setting: 'SANDBOX_SLEEP_AFTER', message: 'expected a string or null' },
+      { setting: 'NOT_A_SETTING', message: 'unknown setting' },
+    ]);
+    expect(validateRuntimeSettings(['DEBUG_ROUTES'])).toHaveLength(1);
+  });
+});
+
+describe('runtime settings store', () => {
+  it('overrides env values, records every change and removes overrides set to null', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: bucket,
+      DEBUG_ROUTES: 'false',
+      TELEGRAM_DM_POLICY: 'pairing',
+    });
+
+    await updateRuntimeSettings(
+      env,
+      { DEBUG_ROUTES: 'true', SANDBOX_SLEEP_AFTER: '10m' },
+      'a@x.com',
+    );
+    const applied = await withRuntimeSettings(env);
+    const settings = await updateRuntimeSettings(
+      env,
+      { SANDBOX_SLEEP_AFTER: null, TELEGRAM_DM_POLICY: 'pairing', DEBUG_ROUTES: 'true' },
+      'b@x.com',
+    );
+
+    expect(objects.has(RUNTIME_SETTINGS_KEY)).toBe(true);
+    expect(objects.has(RUNTIME_SETTINGS_AUDIT_KEY)).toBe(true);
+    expect(applied).toMatchObject({ DEBUG_ROUTES: 'true', SANDBOX_SLEEP_AFTER: '10m' });
+    expect(applied.MOLTBOT_BUCKET).toBe(bucket);
+    expect(settings.values).toEqual({ DEBUG_ROUTES: 'true', TELEGRAM_DM_POLICY: 'pairing' });
+    expect(await readRuntimeSettings(env)).toEqual(settings);
+    expect(
+      (await readRuntimeSettingsAudit(env)).map(({ by, setting, from, to }) => ({
+        by,
+        setting,
+        from,
+        to,
+      })),
+    ).toEqual([
+      { by: 'b@x.com', setting: 'SANDBOX_SLEEP_AFTER', from: '10m', to: null },
+      { by: 'b@x.com', setting: 'TELEGRAM_DM_POLICY', from: null, to: 'pairing' },
+      { by: 'a@x.com', setting: 'DEBUG_ROUTES', from: null, to: 'true' },
+      { by: 'a@x.com', setting: 'SANDBOX_SLEEP_AFTER', from: null, to: '10m' },
+    ]);
+    // Changes from this isolate are visible to it straight away
+    expect((await withRuntimeSettings(env)).SANDBOX_SLEEP_AFTER).toBeUndefined();
+  });
+
+  it('rejects invalid changes without storing anything', async () => {
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+    await expect(updateRuntimeSettings(env, { CDP_SECRET: 'x' }, 'a@x.com')).rejects.toThrow(
+      'Invalid settings: CDP_SECRET secrets can only be set as Worker secrets',
+    );
+    expect(objects.size).toBe(0);
+  });
+
+  it('ignores stored values for settings that can no longer be overridden', () => {
+    const env = createMockEnv({ CDP_SECRET: 'secret' });
+
+    const applied = applyRuntimeSettings(env, {
+      values: { CDP_SECRET: 'stored', DEBUG_ROUTES: 'true' },
+      updatedAt: null,
+    });
+
+    expect(applied.CDP_SECRET).toBe('secret');
+    expect(applied.DEBUG_ROUTES).toBe('true');
+    expect(applyRuntimeSettings(env, { values: {}, updatedAt: null })).toBe(env);
+  });
+
+  it('falls back to the Worker env when R2 cannot be read', async () => {
+    suppressConsole();
+    const env = createMockEnv({
+      DEBUG_ROUTES: 'false',
+      MOLTBOT_BUCKET: {
+        get: async () => {
+          throw new Error('R2 unavailable');
+        },
+      } as unknown as R2Bucket,
+    });
+
+    expect(await withRuntimeSettings(env)).toBe(env);
+  });
+});
+
+describe('describeRuntimeSettings', () => {
+  it('reports the layer each overridable setting comes from', () => {
+    const env = createMockEnv({ DEBUG_ROUTES: 'false', SANDBOX_SLEEP_AFTER: '1h' });
+
+    const views = describeRuntimeSettings(env, {
+      values: { DEBUG_ROUTES: 'true' },
+      updatedAt: null,
+    });
+    const byName = Object.fromEntries(views.map((view) => [view.name, view]));
+
+    expect(views.some((view) => view.name === 'TELEGRAM_BOT_TOKEN')).toBe(false);
+    expect(byName.DEBUG_ROUTES).toMatchObject({
+      envValue: 'false',
+      runtimeValue: 'true',
+      source: 'runtime',
+      options: ['true', 'false'],
+      appliedAtStart: false,
+    });
+    expect(byName.SANDBOX_SLEEP_AFTER).toMatchObject({ envValue: '1h', source: 'env' });
+    expect(byName.TELEGRAM_DM_POLICY).toMatchObject({
+      envValue: null,
+      runtimeValue: null,
+      source: 'default',
+      appliedAtStart: true,
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import type { MoltbotEnv } from './types';
+import { RUNTIME_SETTINGS_AUDIT_LIMIT, RUNTIME_SETTINGS_CACHE_MS } from './config';
+import {
+  SETTINGS,
+  settingEntries,
+  type SettingDefinition,
+  type SettingGroup,
+  type SettingName,
+} from './settings';
+
+/**
+ * Runtime settings: overrides of non-secret Worker settings, stored in R2 and edited from the
+ * admin UI without a redeploy. From lowest to highest precedence:
+ *
+ * 1. default - what the code falls back to when the setting is unset
+ * 2. env - Worker vars and secrets (wrangler.jsonc, `wrangler secret put`)
+ * 3. runtime - the overrides stored here
+ *
+ * Only settings marked `runtime` in the registry can be overridden; secrets always come from the
+ * Worker env. The overrides apply to the whole deployment (all tenants). Middleware merges them
+ * into c.env, so the rest of the Worker reads them like any other setting.
+ */
+
+/** Current overrides, at the bucket root */
+export const RUNTIME_SETTINGS_KEY = '.runtime-settings.json';
+
+/** Changes to the overrides, newest first, at the bucket root */
+export const RUNTIME_SETTINGS_AUDIT_KEY = '.runtime-settings-audit.json';
+
+export type SettingSource = 'default' | 'env' | 'runtime';
+
+export interface RuntimeSettings {
+  values: Partial<Record<SettingName, string>>;
+  updatedAt: string | null;
+}
+
+/** New override values; null removes the override */
+export type RuntimeSettingsChanges = Record<string, string | null>;
+
+export interface RuntimeSettingsAuditEntry {
+  at: string; // ISO timestamp
+  /** Email of the admin who made the change */
+  by: string;
+  setting: SettingName;
+  /** The override before and after the change, null when there was none */
+  from: string | null;
+  to: string | null;
+}
+
+export interface SettingIssue {
+  setting: string;
+  message: string;
+}
+
+/** A setting that can be overridden at runtime, with the value from each layer */
+export interface RuntimeSettingView {
+  name: SettingName;
+  group: SettingGroup;
+  description: string;
+  options?: string[];
+  appliedAtStart: boolean;
+  envValue: string | null;
+  runtimeValue: string | null;
+  /** The layer the Worker takes the setting from */
+  source: SettingSource;
+}
+
+/** Overrides read by this isolate, per bucket, until they expire */
+const cache = new WeakMap<R2Bucket, { settings: RuntimeSettings; expiresAt: number }>();
+
+function definition(name: string): SettingDefinition | undefined {
+  return Object.hasOwn(SETTINGS, name)
+    ? (SETTINGS as Record<string, SettingDefinition>)[name]
+    : undefined;
+}
+
+/**
+ * The stored overrides (none when nothing is stored)
+ */
+export async function readRuntimeSettings(env: MoltbotEnv): Promise<RuntimeSettings> {
+  const obj = await env.MOLTBOT_BUCKET.get(RUNTIME_SETTINGS_KEY);
+  return obj ? ((await obj.json()) as RuntimeSettings) : { values: {}, updatedAt: null };
+}
+
+/**
+ * Recorded changes to the overrides, newest first
+ */
+export async function readRuntimeSettingsAudit(
+  env: MoltbotEnv,
+): Promise<RuntimeSettingsAuditEntry[]> {
+  const obj = await env.MOLTBOT_BUCKET.get(RUNTIME_SETTINGS_AUDIT_KEY);
+  return obj ? ((await obj.json()) as RuntimeSettingsAuditEntry[]) : [];
+}
+
+/**
+ * The env with overrides applied. Stored values for settings that can no longer be overridden
+ * are ignored.
+ */
+export function applyRuntimeSettings(env: MoltbotEnv, settings: RuntimeSettings): MoltbotEnv {
+  const overrides = Object.entries(settings.values).filter(
+    ([name, value]) => definition(name)?.runtime && typeof value === 'string',
+  );
+  return overrides.length > 0 ? { ...env, ...Object.fromEntries(overrides) } : env;
+}
+
+/**
+ * The Worker env with the runtime overrides applied. The overrides are read from R2 at most once
+ * per RUNTIME_SETTINGS_CACHE_MS per isolate; if they can't be read the env is returned as it is.
+ *
+ * @param env - Worker environment bindings as deployed
+ */
+export async function withRuntimeSettings(env: MoltbotEnv): Promise<MoltbotEnv> {
+  let cached = cache.get(env.MOLTBOT_BUCKET);
+  if (!cached || cached.expiresAt <= Date.now()) {
+    try {
+      cached = {
+        settings: await readRuntimeSettings(env),
+        expiresAt: Date.now() + RUNTIME_SETTINGS_CACHE_MS,
+      };
+    } catch (err) {
+      console.error('[Settings] Failed to read runtime settings:', err);
+      return env;
+    }
+    cache.set(env.MOLTBOT_BUCKET, cached);
+  }
+  return applyRuntimeSettings(env, cached.settings);
+}
+
+/**
+ * Check changes to the overrides: each must name a setting that can be overridden, with a string
+ * (one of its options, if it has any, that passes its validate check, or '' to unset it) or null.
+ */
+export function validateRuntimeSettings(changes: unknown): SettingIssue[] {
+  if (typeof changes !== 'object' || changes === null || Array.isArray(changes)) {
+    return [{ setting: '(root)', message: 'expected an object of setting names to values' }];
+  }
+  const issues: SettingIssue[] = [];
+  for (const [name, value] of Object.entries(changes)) {
+    const setting = definition(name);
+    if (!setting) {
+      issues.push({ setting: name, message: 'unknown setting' });
+    } else if (!setting.runtime) {
+      issues.push({
+        setting: name,
+        message: setting.sensitive
+          ? 'secrets can only be set as Worker secrets'
+          : 'can only be set in the Worker environment',
+      });
+    } else if (value !== null && typeof value !== 'string') {
+      issues.push({ setting: name, message: 'expected a string or null' });
+    } else if (value && setting.options && !setting.options.includes(value)) {
+      issues.push({ setting: name, message: `must be one of ${setting.options.join(', ')}` });
+    } else if (value && setting.validate) {
+      const problem = setting.validate(value);
+      if (problem) {
+        issues.push({ setting: name, message: problem });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Prepend entries to the audit log, keeping the newest RUNTIME_SETTINGS_AUDIT_LIMIT.
+ * Best-effort: a failed audit write doesn't undo the change it describes.
+ */
+async function recordAudit(env: MoltbotEnv, entries: RuntimeSettingsAuditEntry[]): Promise<void> {
+  try {
+    const audit = [...entries, ...(await readRuntimeSettingsAudit(env))].slice(
+      0,
+      RUNTIME_SETTINGS_AUDIT_LIMIT,
+    );
+    await env.MOLTBOT_BUCKET.put(RUNTIME_SETTINGS_AUDIT_KEY, JSON.stringify(audit), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+  } catch (err) {
+    console.error('[Settings] Failed to record runtime settings audit:', err);
+  }
+}
+
+/**
+ * Set or remove overrides and record each change in the audit log. Takes effect in this isolate
+ * immediately and in others within RUNTIME_SETTINGS_CACHE_MS; settings read at gateway start
+ * need a restart.
+ *
+ * @param env - Worker environment bindings
+ * @param changes - New values; null removes the override
+ * @param by - Who made the change, for the audit log
+ * @throws If the changes are invalid (see validateRuntimeSettings)
+ */
+export async function updateRuntimeSettings(
+  env: MoltbotEnv,
+  changes: RuntimeSettingsChanges,
+  by: string,
+): Promise<RuntimeSettings> {
+  const issues = validateRuntimeSettings(changes);
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid settings: ${issues.map((issue) => `${issue.setting} ${issue.message}`).join('; ')}`,
+    );
+  }
+
+  const current = await readRuntimeSettings(env);
+  const at = new Date().toISOString();
+  const next: Record<string, string | null> = { ...current.values };
+  const entries: RuntimeSettingsAuditEntry[] = [];
+  for (const [name, value] of Object.entries(changes)) {
+    const from = next[name] ?? null;
+    if (from !== value) {
+      next[name] = value;
+      entries.push({ at, by, setting: name as SettingName, from, to: value });
+    }
+  }
+  if (entries.length === 0) {
+    return current;
+  }
+
+  const updated: RuntimeSettings = {
+    values: Object.fromEntries(Object.entries(next).filter(([, value]) => value !== null)),
+    updatedAt: at,
+  };
+  await env.MOLTBOT_BUCKET.put(RUNTIME_SETTINGS_KEY, JSON.stringify(updated), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  cache.delete(env.MOLTBOT_BUCKET);
+  await recordAudit(env, entries);
+  return updated;
+}
+
+/**
+ * Every setting that can be overridden, with its env and runtime values and the layer in effect
+ *
+ * @param workerEnv - Worker environment bindings as deployed, without the overrides
+ * @param settings - The stored overrides
+ */
+export function describeRuntimeSettings(
+  workerEnv: MoltbotEnv,
+  settings: RuntimeSettings,
+): RuntimeSettingView[] {
+  return settingEntries()
+    .filter(([, setting]) => setting.runtime)
+    .map(([name, setting]) => {
+      const envValue = workerEnv[name] ?? null;
+      const runtimeValue = settings.values[name] ?? null;
+      let source: SettingSource = 'default';
+      if (runtimeValue !== null) {
+        source = 'runtime';
+      } else if (envValue) {
+        source = 'env';
+      }
+      const view: RuntimeSettingView = {
+        name,
+        group: setting.group,
+        description: setting.description,
+        appliedAtStart: !!setting.appliedAtStart,
+        envValue,
+        runtimeValue,
+        source,
+      };
+      if (setting.options) {
+        view.options = setting.options;
+      }
+      return view;
+    });
+}
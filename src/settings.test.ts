@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AI_PROVIDER_SECRETS,
+  SETTINGS,
+  configuredAiProviders,
+  containerSettings,
+  describeSettings,
+  missingSettings,
+  type SettingDefinition,
+} from './settings';
+
+describe('SETTINGS', () => {
+  it('only names registered settings as provider requirements', () => {
+    const names = Object.keys(SETTINGS);
+    const referenced = Object.values(SETTINGS as Record<string, SettingDefinition>).flatMap(
+      (setting) => setting.aiProvider?.with ?? [],
+    );
+
+    expect(referenced.filter((name) => !names.includes(name))).toEqual([]);
+  });
+
+  it('never lets secrets be overridden at runtime', () => {
+    const runtimeSecrets = Object.entries(SETTINGS as Record<string, SettingDefinition>)
+      .filter(([, setting]) => setting.runtime && setting.sensitive)
+      .map(([name]) => name);
+
+    expect(runtimeSecrets).toEqual([]);
+  });
+});
+
+describe('configuredAiProviders', () => {
+  it('lists every provider with complete credentials', () => {
+    const env = {
+      AI_GATEWAY_API_KEY: 'legacy',
+      AI_GATEWAY_BASE_URL: 'https://gateway.example.com',
+      ANTHROPIC_API_KEY: 'sk',
+      CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+      GROQ_API_KEY: 'gsk',
+      OPENAI_COMPATIBLE_BASE_URL: 'https://llm.example.com/v1',
+      OPENAI_COMPATIBLE_API_KEY: 'key',
+    };
+
+    expect(configuredAiProviders(env)).toEqual(['anthropic', 'groq']);
+    expect(configuredAiProviders({})).toEqual([]);
+  });
+});
+
+describe('missingSettings', () => {
+  it('reports required settings and the AI provider requirement', () => {
+    expect(missingSettings({}).map((setting) => setting.label)).toEqual([
+      'MOLTBOT_GATEWAY_TOKEN',
+      'CF_ACCESS_TEAM_DOMAIN',
+      'CF_ACCESS_AUD',
+      AI_PROVIDER_SECRETS,
+    ]);
+    expect(AI_PROVIDER_SECRETS).toMatch(
+      /^CLOUDFLARE_AI_GATEWAY_API_KEY \+ CF_AI_GATEWAY_ACCOUNT_ID \+ CF_AI_GATEWAY_GATEWAY_ID, .*, or OPENAI_COMPATIBLE_BASE_URL \+ OPENAI_COMPATIBLE_API_KEY \+ OPENAI_COMPATIBLE_MODEL$/,
+    );
+  });
+
+  it('skips Cloudflare Access in test modes', () => {
+    const env = { MOLTBOT_GATEWAY_TOKEN: 'token', MISTRAL_API_KEY: 'mis' };
+
+    expect(missingSettings({ ...env, DEV_MODE: 'true' })).toEqual([]);
+    expect(missingSettings({ ...env, E2E_TEST_MODE: 'true' })).toEqual([]);
+    expect(missingSettings(env)).toHaveLength(2);
+  });
+});
+
+describe('containerSettings', () => {
+  it('passes mapped settings under their container names, and nothing else', () => {
+    expect(
+      containerSettings({
+        MOLTBOT_GATEWAY_TOKEN: 'token',
+        DEV_MODE: 'true',
+        BACKUP_ENCRYPTION_KEY: 'secret-key',
+        GROQ_API_KEY: 'gsk',
+        CF_ACCESS_AUD: 'aud',
+        R2_SECRET_ACCESS_KEY: 'r2',
+      }),
+    ).toEqual({
+      OPENCLAW_GATEWAY_TOKEN: 'token',
+      OPENCLAW_DEV_MODE: 'true',
+      BACKUP_ENCRYPTED: '1',
+      GROQ_API_KEY: 'gsk',
+    });
+  });
+});
+
+describe('describeSettings', () => {
+  it('shows values only for settings that are not sensitive', () => {
+    const report = describeSettings({ ANTHROPIC_API_KEY: 'sk', DEV_MODE: 'true' });
+
+    expect(report.ANTHROPIC_API_KEY).toEqual({ group: 'ai', set: true });
+    expect(report.DEV_MODE).toEqual({ group: 'development', set: true, value: 'true' });
+    expect(report.OPENAI_API_KEY).toEqual({ group: 'ai', set: false });
+    expect(Object.keys(report)).toEqual(Object.keys(SETTINGS));
+  });
+});
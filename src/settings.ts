@@ -0,0 +1,526 @@
+/**
+ * Registry of the Worker's string settings (secrets and vars).
+ *
+ * MoltbotEnv, the container environment (buildEnvVars), startup validation, the configuration
+ * error page, /debug/env and the runtime settings store are all derived from this table, so a new
+ * setting only needs an entry here (plus its row in the README).
+ */
+
+import { awakeHoursError, timeZoneError } from './gateway/sleep-schedule';
+
+export type SettingGroup =
+  | 'ai'
+  | 'gateway'
+  | 'access'
+  | 'tenancy'
+  | 'channels'
+  | 'storage'
+  | 'backup'
+  | 'browser'
+  | 'development';
+
+export interface SettingDefinition {
+  group: SettingGroup;
+  description: string;
+  /** Never shown, only reported as set or unset */
+  sensitive: boolean;
+  /**
+   * Container environment variable the setting is passed as: a name, or a name and a function
+   * deriving the value. Settings without one stay in the Worker.
+   */
+  container?: string | { name: string; value: (value: string) => string };
+  /** Must be set: always, or unless DEV_MODE or E2E_TEST_MODE is 'true' */
+  required?: 'always' | 'outside-test-mode';
+  /**
+   * Enables an AI provider, together with the `with` settings. At least one provider must be
+   * enabled.
+   */
+  aiProvider?: { name: string; with?: string[] };
+  /** Can be overridden from the admin UI without a redeploy (see runtime-settings). Never sensitive. */
+  runtime?: boolean;
+  /** Read when the gateway starts, so a runtime override takes effect on its next restart */
+  appliedAtStart?: boolean;
+  /** Allowed values of a runtime override, besides '' (unset) */
+  options?: string[];
+  /** Checks a runtime override, returning what's wrong with it or null */
+  validate?: (value: string) => string | null;
+}
+
+/**
+ * Every setting, grouped. AI providers are listed in the order onboarding prefers them.
+ */
+export const SETTINGS = {
+  // Cloudflare AI Gateway (preferred)
+  CLOUDFLARE_AI_GATEWAY_API_KEY: {
+    group: 'ai',
+    description:
+      'API key for requests through the gateway (your provider key, or the AI Gateway token for Workers AI)',
+    sensitive: true,
+    container: 'CLOUDFLARE_AI_GATEWAY_API_KEY',
+    aiProvider: {
+      name: 'cloudflare-ai-gateway',
+      with: ['CF_AI_GATEWAY_ACCOUNT_ID', 'CF_AI_GATEWAY_GATEWAY_ID'],
+    },
+  },
+  CF_AI_GATEWAY_ACCOUNT_ID: {
+    group: 'ai',
+    description: 'Cloudflare account ID for AI Gateway',
+    sensitive: false,
+    container: 'CF_AI_GATEWAY_ACCOUNT_ID',
+  },
+  CF_AI_GATEWAY_GATEWAY_ID: {
+    group: 'ai',
+    description: 'AI Gateway ID',
+    sensitive: false,
+    container: 'CF_AI_GATEWAY_GATEWAY_ID',
+  },
+  CF_AI_GATEWAY_MODEL: {
+    group: 'ai',
+    description:
+      'Default model through AI Gateway: provider/model-id, e.g. workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+    sensitive: false,
+    container: 'CF_AI_GATEWAY_MODEL',
+    runtime: true,
+    appliedAtStart: true,
+  },
+  // Legacy AI Gateway (still supported for backward compat; see buildEnvVars)
+  AI_GATEWAY_API_KEY: {
+    group: 'ai',
+    description: 'Legacy AI Gateway API key (deprecated, use CLOUDFLARE_AI_GATEWAY_API_KEY)',
+    sensitive: true,
+    aiProvider: { name: 'anthropic', with: ['AI_GATEWAY_BASE_URL'] },
+  },
+  AI_GATEWAY_BASE_URL: {
+    group: 'ai',
+    description:
+      'Legacy AI Gateway URL, e.g. https://gateway.ai.cloudflare.com/v1/{account_id}/{gateway_id}/anthropic',
+    sensitive: false,
+  },
+  // Direct providers
+  ANTHROPIC_API_KEY: {
+    group: 'ai',
+    description: 'Anthropic API key',
+    sensitive: true,
+    container: 'ANTHROPIC_API_KEY',
+    aiProvider: { name: 'anthropic' },
+  },
+  ANTHROPIC_BASE_URL: {
+    group: 'ai',
+    description: 'Anthropic API base URL',
+    sensitive: false,
+    container: 'ANTHROPIC_BASE_URL',
+  },
+  OPENAI_API_KEY: {
+    group: 'ai',
+    description: 'OpenAI API key',
+    sensitive: true,
+    container: 'OPENAI_API_KEY',
+    aiProvider: { name: 'openai' },
+  },
+  GEMINI_API_KEY: {
+    group: 'ai',
+    description: 'Google Gemini API key',
+    sensitive: true,
+    container: 'GEMINI_API_KEY',
+    aiProvider: { name: 'google' },
+  },
+  MISTRAL_API_KEY: {
+    group: 'ai',
+    description: 'Mistral API key',
+    sensitive: true,
+    container: 'MISTRAL_API_KEY',
+    aiProvider: { name: 'mistral' },
+  },
+  GROQ_API_KEY: {
+    group: 'ai',
+    description: 'Groq API key',
+    sensitive: true,
+    container: 'GROQ_API_KEY',
+    aiProvider: { name: 'groq' },
+  },
+  OPENROUTER_API_KEY: {
+    group: 'ai',
+    description: 'OpenRouter API key',
+    sensitive: true,
+    container: 'OPENROUTER_API_KEY',
+    aiProvider: { name: 'openrouter' },
+  },
+  OPENAI_COMPATIBLE_BASE_URL: {
+    group: 'ai',
+    description: 'Base URL of any OpenAI-compatible API, e.g. https://api.together.xyz/v1',
+    sensitive: false,
+    aiProvider: {
+      name: 'openai-compatible',
+      with: ['OPENAI_COMPATIBLE_API_KEY', 'OPENAI_COMPATIBLE_MODEL'],
+    },
+  },
+  OPENAI_COMPATIBLE_API_KEY: {
+    group: 'ai',
+    description: 'API key for OPENAI_COMPATIBLE_BASE_URL',
+    sensitive: true,
+  },
+  OPENAI_COMPATIBLE_MODEL: {
+    group: 'ai',
+    description: 'Model ID to use at OPENAI_COMPATIBLE_BASE_URL',
+    sensitive: false,
+    runtime: true,
+    appliedAtStart: true,
+  },
+  AI_MODEL_CHAIN: {
+    group: 'ai',
+    description:
+      'Default model and fallbacks in order, e.g. anthropic/claude-sonnet-4-5,cf-ai-gateway/workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+    sensitive: false,
+    runtime: true,
+    appliedAtStart: true,
+  },
+
+  MOLTBOT_GATEWAY_TOKEN: {
+    group: 'gateway',
+    description: 'Token that protects gateway access (pass via ?token=)',
+    sensitive: true,
+    container: 'OPENCLAW_GATEWAY_TOKEN',
+    required: 'always',
+  },
+  SANDBOX_SLEEP_AFTER: {
+    group: 'gateway',
+    description:
+      "How long before the sandbox sleeps: 'never' (default), or a duration like '10m', '1h'. Outside SANDBOX_AWAKE_HOURS, 'never' means '30m'",
+    sensitive: false,
+    runtime: true,
+  },
+  SANDBOX_AWAKE_HOURS: {
+    group: 'gateway',
+    description:
+      "When to keep the sandbox warm, e.g. 'Mon-Fri 08:00-19:00; Sat 10:00-14:00'. It may sleep outside these hours",
+    sensitive: false,
+    runtime: true,
+    validate: awakeHoursError,
+  },
+  SANDBOX_TIMEZONE: {
+    group: 'gateway',
+    description: "IANA time zone of SANDBOX_AWAKE_HOURS, e.g. 'Europe/Berlin' (default: UTC)",
+    sensitive: false,
+    runtime: true,
+    validate: timeZoneError,
+  },
+
+  CF_ACCESS_TEAM_DOMAIN: {
+    group: 'access',
+    description: 'Cloudflare Access team domain, e.g. myteam.cloudflareaccess.com',
+    sensitive: false,
+    required: 'outside-test-mode',
+  },
+  CF_ACCESS_AUD: {
+    group: 'access',
+    description: 'Cloudflare Access application audience (AUD) tag',
+    sensitive: true,
+    required: 'outside-test-mode',
+  },
+  ADMIN_EMAILS: {
+    group: 'access',
+    description:
+      'Comma-separated emails of the admins who may change runtime settings and rotate the gateway token (required for that in multi-tenant mode)',
+    sensitive: false,
+  },
+
+  MULTI_TENANT: {
+    group: 'tenancy',
+    description:
+      "Set to 'true' to give each Cloudflare Access user their own sandbox and R2 prefix",
+    sensitive: false,
+  },
+  TENANT_MAP: {
+    group: 'tenancy',
+    description:
+      'JSON map of email, \'@domain\' or service token client ID to tenant ID, e.g. {"@example.com":"team"}',
+    sensitive: true,
+  },
+
+  TELEGRAM_BOT_TOKEN: {
+    group: 'channels',
+    description: 'Telegram bot token',
+    sensitive: true,
+    container: 'TELEGRAM_BOT_TOKEN',
+  },
+  TELEGRAM_WEBHOOK_SECRET: {
+    group: 'channels',
+    description:
+      'Secret Telegram sends with webhook updates; with WORKER_URL, switches Telegram from polling to webhooks queued by the Worker',
+    sensitive: true,
+  },
+  TELEGRAM_DM_POLICY: {
+    group: 'channels',
+    description: 'Telegram DM policy: pairing (default) or open',
+    sensitive: false,
+    container: 'TELEGRAM_DM_POLICY',
+    runtime: true,
+    appliedAtStart: true,
+    options: ['pairing', 'open'],
+  },
+  TELEGRAM_DM_ALLOW_FROM: {
+    group: 'channels',
+    description: 'Comma-separated Telegram user IDs allowed to DM the bot',
+    sensitive: false,
+    runtime: true,
+    appliedAtStart: true,
+  },
+  DISCORD_BOT_TOKEN: {
+    group: 'channels',
+    description: 'Discord bot token',
+    sensitive: true,
+    container: 'DISCORD_BOT_TOKEN',
+  },
+  DISCORD_DM_POLICY: {
+    group: 'channels',
+    description: 'Discord DM policy: pairing (default) or open',
+    sensitive: false,
+    container: 'DISCORD_DM_POLICY',
+    runtime: true,
+    appliedAtStart: true,
+    options: ['pairing', 'open'],
+  },
+  SLACK_BOT_TOKEN: {
+    group: 'channels',
+    description: 'Slack bot token',
+    sensitive: true,
+    container: 'SLACK_BOT_TOKEN',
+  },
+  SLACK_APP_TOKEN: {
+    group: 'channels',
+    description: 'Slack app token',
+    sensitive: true,
+    container: 'SLACK_APP_TOKEN',
+  },
+
+  // R2 mount: per the official guide use AWS_* (the SDK detects them), R2_* as a fallback.
+  // https://developers.cloudflare.com/sandbox/tutorials/persistent-storage/
+  CF_ACCOUNT_ID: {
+    group: 'storage',
+    description: 'Cloudflare account ID, for the R2 endpoint URL',
+    sensitive: true,
+    container: 'CF_ACCOUNT_ID',
+  },
+  AWS_ACCESS_KEY_ID: {
+    group: 'storage',
+    description: 'R2 API token access key',
+    sensitive: true,
+  },
+  AWS_SECRET_ACCESS_KEY: {
+    group: 'storage',
+    description: 'R2 API token secret',
+    sensitive: true,
+  },
+  R2_ACCESS_KEY_ID: {
+    group: 'storage',
+    description: 'R2 access key, passed explicitly to mountBucket()',
+    sensitive: true,
+  },
+  R2_SECRET_ACCESS_KEY: {
+    group: 'storage',
+    description: 'R2 secret key, passed explicitly to mountBucket()',
+    sensitive: true,
+  },
+  R2_BUCKET_NAME: {
+    group: 'storage',
+    description: 'Override the bucket name (default matches wrangler r2_buckets[].bucket_name)',
+    sensitive: false,
+  },
+
+  BACKUP_RESTORE_TOKEN: {
+    group: 'backup',
+    description: 'Token the container uses to download its backup from the Worker',
+    sensitive: true,
+    container: 'BACKUP_RESTORE_TOKEN',
+  },
+  BACKUP_RETAIN_HOURLY: {
+    group: 'backup',
+    description: 'Hours for which the newest snapshot of each hour is kept (default 24)',
+    sensitive: false,
+    runtime: true,
+  },
+  BACKUP_RETAIN_DAILY: {
+    group: 'backup',
+    description: 'Days for which the newest snapshot of each day is kept (default 30)',
+    sensitive: false,
+    runtime: true,
+  },
+  BACKUP_ENCRYPTION_KEY: {
+    group: 'backup',
+    description: 'Base64 256-bit key that encrypts backups in R2',
+    sensitive: true,
+    // Only the flag: the key stays in the Worker, which decrypts backups for the container
+    container: { name: 'BACKUP_ENCRYPTED', value: () => '1' },
+  },
+  BACKUP_ENCRYPTION_KEY_PREVIOUS: {
+    group: 'backup',
+    description: 'Comma-separated retired keys, still accepted for decryption during rotation',
+    sensitive: true,
+  },
+  BACKUP_DESTINATIONS: {
+    group: 'backup',
+    description: 'JSON array of S3-compatible buckets that receive copies of the latest backup',
+    sensitive: true,
+  },
+  SYNC_ALERT_WEBHOOK_URL: {
+    group: 'backup',
+    description: 'URL that receives a JSON POST when syncs keep failing',
+    sensitive: true,
+  },
+  SYNC_ALERT_THRESHOLD: {
+    group: 'backup',
+    description: 'Consecutive failed syncs before the alert fires (default 3)',
+    sensitive: false,
+    runtime: true,
+  },
+
+  CDP_SECRET: {
+    group: 'browser',
+    description: 'Shared secret for /cdp endpoint authentication',
+    sensitive: true,
+    container: 'CDP_SECRET',
+  },
+  WORKER_URL: {
+    group: 'browser',
+    description: 'Public URL of the Worker, for the CDP endpoint and Telegram webhooks',
+    sensitive: false,
+    container: 'WORKER_URL',
+  },
+
+  DEV_MODE: {
+    group: 'development',
+    description: "Set to 'true' for local dev (skips Cloudflare Access auth and device pairing)",
+    sensitive: false,
+    container: 'OPENCLAW_DEV_MODE',
+  },
+  E2E_TEST_MODE: {
+    group: 'development',
+    description: "Set to 'true' for E2E tests (skips Cloudflare Access auth, keeps device pairing)",
+    sensitive: false,
+  },
+  DEBUG_ROUTES: {
+    group: 'development',
+    description: "Set to 'true' to enable /debug/* routes",
+    sensitive: false,
+    runtime: true,
+    options: ['true', 'false'],
+  },
+} satisfies Record<string, SettingDefinition>;
+
+export type SettingName = keyof typeof SETTINGS;
+
+/** The string settings of MoltbotEnv */
+export type SettingValues = { [K in SettingName]?: string };
+
+/** A requirement that isn't met */
+export interface MissingSetting {
+  /** What to set, e.g. "CF_ACCESS_AUD" or "ANTHROPIC_API_KEY, OPENAI_API_KEY, ..." */
+  label: string;
+  description: string;
+}
+
+/** Every setting with its definition, in registry order */
+export function settingEntries(): Array<[SettingName, SettingDefinition]> {
+  return Object.entries(SETTINGS) as Array<[SettingName, SettingDefinition]>;
+}
+
+/** The settings that enable each AI provider, in preference order */
+function aiProviderSettings(): Array<{ provider: string; settings: string[] }> {
+  return settingEntries().flatMap(([name, setting]) =>
+    setting.aiProvider
+      ? [
+          {
+            provider: setting.aiProvider.name,
+            settings: [name, ...(setting.aiProvider.with ?? [])],
+          },
+        ]
+      : [],
+  );
+}
+
+/** The settings that satisfy the AI provider requirement, for error messages */
+export const AI_PROVIDER_SECRETS = (() => {
+  const alternatives = aiProviderSettings().map(({ settings }) => settings.join(' + '));
+  return `${alternatives.slice(0, -1).join(', ')}, or ${alternatives[alternatives.length - 1]}`;
+})();
+
+/**
+ * The AI providers the Worker environment has credentials for, in the order onboarding prefers
+ * them. Empty when the gateway would have no model to talk to.
+ *
+ * @param env - Worker environment bindings
+ */
+export function configuredAiProviders(env: SettingValues): string[] {
+  const providers = aiProviderSettings()
+    .filter(({ settings }) => settings.every((name) => !!env[name as SettingName]))
+    .map(({ provider }) => provider);
+  return [...new Set(providers)];
+}
+
+/**
+ * Requirements the environment doesn't meet
+ *
+ * @param env - Worker environment bindings
+ */
+export function missingSettings(env: SettingValues): MissingSetting[] {
+  const isTestMode = env.DEV_MODE === 'true' || env.E2E_TEST_MODE === 'true';
+  const missing: MissingSetting[] = settingEntries()
+    .filter(
+      ([name, setting]) =>
+        !env[name] &&
+        (setting.required === 'always' ||
+          (setting.required === 'outside-test-mode' && !isTestMode)),
+    )
+    .map(([name, setting]) => ({ label: name, description: setting.description }));
+
+  if (configuredAiProviders(env).length === 0) {
+    missing.push({
+      label: AI_PROVIDER_SECRETS,
+      description: 'At least one AI provider must be configured',
+    });
+  }
+  return missing;
+}
+
+/**
+ * Container environment variables for the settings that have a container mapping
+ *
+ * @param env - Worker environment bindings
+ */
+export function containerSettings(env: SettingValues): Record<string, string> {
+  const envVars: Record<string, string> = {};
+  for (const [name, setting] of settingEntries()) {
+    const value = env[name];
+    if (!value || !setting.container) continue;
+    if (typeof setting.container === 'string') {
+      envVars[setting.container] = value;
+    } else {
+      envVars[setting.container.name] = setting.container.value(value);
+    }
+  }
+  return envVars;
+}
+
+/**
+ * Every setting with its group and whether it's set; values only for settings that aren't
+ * sensitive.
+ *
+ * @param env - Worker environment bindings
+ */
+export function describeSettings(
+  env: SettingValues,
+): Record<string, { group: SettingGroup; set: boolean; value?: string }> {
+  return Object.fromEntries(
+    settingEntries().map(([name, setting]) => {
+      const value = env[name];
+      return [
+        name,
+        {
+          group: setting.group,
+          set: !!value,
+          ...(value && !setting.sensitive && { value }),
+        },
+      ];
+    }),
+  );
+}
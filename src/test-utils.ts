@@ -4,6 +4,7 @@
 import { vi } from 'vitest';
 import type { Sandbox, Process } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from './types';
+import { sha256Hex, signRequest } from './gateway/s3';
 
 /**
  * Create a minimal MoltbotEnv object for testing
@@ -50,6 +51,10 @@ export interface MockSandbox {
   startProcessMock: ReturnType<typeof vi.fn>;
   listProcessesMock: ReturnType<typeof vi.fn>;
   containerFetchMock: ReturnType<typeof vi.fn>;
+  writeFileMock: ReturnType<typeof vi.fn>;
+  readFileStreamMock: ReturnType<typeof vi.fn>;
+  readFileMock: ReturnType<typeof vi.fn>;
+  existsMock: ReturnType<typeof vi.fn>;
 }
 
 /**
@@ -64,6 +69,10 @@ export function createMockSandbox(
   const mountBucketMock = vi.fn().mockResolvedValue(undefined);
   const listProcessesMock = vi.fn().mockResolvedValue(options.processes || []);
   const containerFetchMock = vi.fn();
+  const writeFileMock = vi.fn().mockResolvedValue({ success: true });
+  const readFileStreamMock = vi.fn();
+  const readFileMock = vi.fn();
+  const existsMock = vi.fn().mockResolvedValue({ success: true, exists: false });
 
   // Default: return empty stdout (not mounted), unless mounted: true
   const startProcessMock = vi
@@ -81,10 +90,24 @@ export function createMockSandbox(
     listProcesses: listProcessesMock,
     startProcess: startProcessMock,
     containerFetch: containerFetchMock,
+    writeFile: writeFileMock,
+    readFileStream: readFileStreamMock,
+    readFile: readFileMock,
+    exists: existsMock,
     wsConnect: vi.fn(),
   } as unknown as Sandbox;
 
-  return { sandbox, mountBucketMock, startProcessMock, listProcessesMock, containerFetchMock };
+  return {
+    sandbox,
+    mountBucketMock,
+    startProcessMock,
+    listProcessesMock,
+    containerFetchMock,
+    writeFileMock,
+    readFileStreamMock,
+    readFileMock,
+    existsMock,
+  };
 }
 
 /**
@@ -95,3 +118,308 @@ export function suppressConsole() {
   vi.spyOn(console, 'error').mockImplementation(() => {});
   vi.spyOn(console, 'warn').mockImplementation(() => {});
 }
+
+/**
+ * Create an in-memory R2 bucket supporting get/head/put/list/delete and multipart uploads
+ */
+export function createMockBucket(initial: Record<string, string | Uint8Array> = {}) {
+  const objects = new Map<
+    string,
+    { body: Uint8Array; uploaded: Date; customMetadata?: Record<string, string> }
+  >();
+  const encoder = new TextEncoder();
+  const toBytes = (value: string | Uint8Array | ArrayBuffer) =>
+    typeof value === 'string'
+      ? encoder.encode(value)
+      : value instanceof Uint8Array
+        ? value
+        : new Uint8Array(value);
+
+  for (const [key, value] of Object.entries(initial)) {
+    objects.set(key, { body: toBytes(value), uploaded: new Date() });
+  }
+
+  const toObject = (key: string) => {
+    const obj = objects.get(key)!;
+    return {
+      key,
+      size: obj.body.length,
+      uploaded: obj.uploaded,
+      customMetadata: obj.customMetadata ?? {},
+      body: new Blob([obj.body as Uint8Array<ArrayBuffer>]).stream(),
+      text: async () => new TextDecoder().decode(obj.body),
+      json: async () => JSON.parse(new TextDecoder().decode(obj.body)),
+      arrayBuffer: async () => obj.body.slice().buffer as ArrayBuffer,
+    };
+  };
+
+  const bucket = {
+    get: vi.fn(async (key: string) => (objects.has(key) ? toObject(key) : null)),
+    head: vi.fn(async (key: string) => (objects.has(key) ? toObject(key) : null)),
+    put: vi.fn(
+      async (
+        key: string,
+        value: string | Uint8Array | ArrayBuffer,
+        options?: { customMetadata?: Record<string, string> },
+      ) => {
+        objects.set(key, {
+          body: toBytes(value),
+          uploaded: new Date(),
+          customMetadata: options?.customMetadata,
+        });
+        return toObject(key);
+      },
+    ),
+    delete: vi.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        objects.delete(key);
+      }
+    }),
+    createMultipartUpload: vi.fn(
+      async (key: string, options?: { customMetadata?: Record<string, string> }) => {
+        const parts = new Map<number, Uint8Array>();
+        return {
+          key,
+          uploadId: `upload-${key}`,
+          uploadPart: vi.fn(async (partNumber: number, value: Uint8Array) => {
+            parts.set(partNumber, toBytes(value));
+            return { partNumber, etag: `etag-${partNumber}` };
+          }),
+          abort: vi.fn(async () => {
+            parts.clear();
+          }),
+          complete: vi.fn(async (uploaded: { partNumber: number }[]) => {
+            const chunks = uploaded.map((p) => parts.get(p.partNumber)!);
+            const body = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+            let offset = 0;
+            for (const chunk of chunks) {
+              body.set(chunk, offset);
+              offset += chunk.length;
+            }
+            objects.set(key, {
+              body,
+              uploaded: new Date(),
+              customMetadata: options?.customMetadata,
+            });
+            return toObject(key);
+          }),
+        };
+      },
+    ),
+    list: vi.fn(async (options: { prefix?: string } = {}) => {
+      const keys = [...objects.keys()].filter((key) => key.startsWith(options.prefix ?? ''));
+      keys.sort();
+      return { objects: keys.map(toObject), delimitedPrefixes: [], truncated: false };
+    }),
+  };
+
+  return { bucket: bucket as unknown as R2Bucket, objects, mocks: bucket };
+}
+
+/**
+ * Gunzip and unpack a tar.gz stream (regular files and pax path headers only)
+ */
+export async function readTarGz(
+  chunks: AsyncIterable<Uint8Array>,
+): Promise<Array<{ path: string; mode: number; body: string }>> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) {
+    parts.push(chunk);
+  }
+  const gunzipped = new Blob(parts as Uint8Array<ArrayBuffer>[])
+    .stream()
+    .pipeThrough(
+      new DecompressionStream('gzip') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>,
+    );
+  const tar = new Uint8Array(await new Response(gunzipped).arrayBuffer());
+  const decoder = new TextDecoder();
+  const field = (offset: number, length: number) => {
+    const bytes = tar.subarray(offset, offset + length);
+    const end = bytes.indexOf(0);
+    return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+  };
+
+  const files: Array<{ path: string; mode: number; body: string }> = [];
+  let paxPath: string | null = null;
+  for (let offset = 0; offset + 512 <= tar.length && tar[offset] !== 0; ) {
+    const size = Number.parseInt(field(offset + 124, 12), 8);
+    const body = tar.subarray(offset + 512, offset + 512 + size);
+    const type = field(offset + 156, 1);
+    if (type === 'x') {
+      paxPath = decoder.decode(body).match(/ path=(.*)\n/)?.[1] ?? null;
+    } else {
+      files.push({
+        path: paxPath ?? field(offset, 100),
+        mode: Number.parseInt(field(offset + 100, 8), 8),
+        body: decoder.decode(body),
+      });
+      paxPath = null;
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function xmlResponse(status: number, body: string): Response {
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?>${body}`, {
+    status,
+    headers: { 'content-type': 'application/xml' },
+  });
+}
+
+function s3Error(status: number, code: string): Response {
+  return xmlResponse(status, `<Error><Code>${code}</Code><Message>${code}</Message></Error>`);
+}
+
+function amzMetadata(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([name]) => name.startsWith('x-amz-meta-'))
+      .map(([name, value]) => [name.slice('x-amz-meta-'.length), value]),
+  );
+}
+
+/**
+ * In-memory stand-in for an S3-compatible server (MinIO-style, path-style URLs) to use as a
+ * fetch implementation. It checks each request's SigV4 signature and payload hash against
+ * `credentials`, and supports the object, ListObjectsV2 and multipart calls S3Bucket makes.
+ * Listings return at most `pageSize` keys per page.
+ */
+export function createMockS3Server(
+  credentials: { region: string; accessKeyId: string; secretAccessKey: string },
+  pageSize = 1000,
+) {
+  const objects = new Map<string, { body: Uint8Array; metadata: Record<string, string> }>();
+  const uploads = new Map<
+    string,
+    { key: string; metadata: Record<string, string>; parts: Map<number, Uint8Array> }
+  >();
+  let nextUpload = 1;
+  const handle = async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    const headers = Object.fromEntries(
+      Object.entries((init.headers ?? {}) as Record<string, string>).map(([k, v]) => [
+        k.toLowerCase(),
+        v,
+      ]),
+    );
+    const body = init.body ? new Uint8Array(init.body as Uint8Array) : new Uint8Array();
+
+    // Verify the signature the way S3 does: re-sign what was received
+    const { authorization, 'x-amz-date': amzDate, 'x-amz-content-sha256': payloadHash } = headers;
+    const signedNames = authorization?.match(/SignedHeaders=([^,]+)/)?.[1].split(';') ?? [];
+    const date = amzDate?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    if (!authorization || !date || payloadHash !== (await sha256Hex(body))) {
+      return s3Error(403, 'AccessDenied');
+    }
+    const expected = await signRequest(
+      {
+        method,
+        host: url.host,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: Object.fromEntries(
+          signedNames
+            .filter((name) => !['host', 'x-amz-date', 'x-amz-content-sha256'].includes(name))
+            .map((name) => [name, headers[name] ?? '']),
+        ),
+        payloadHash,
+      },
+      credentials,
+      new Date(`${date[1]}-${date[2]}-${date[3]}T${date[4]}:${date[5]}:${date[6]}Z`),
+    );
+    if (expected.authorization !== authorization) {
+      return s3Error(403, 'SignatureDoesNotMatch');
+    }
+
+    const [, , ...segments] = url.pathname.split('/');
+    const key = segments.map(decodeURIComponent).join('/');
+    const params = url.searchParams;
+
+    if (!key && method === 'GET' && params.get('list-type') === '2') {
+      const prefix = params.get('prefix') ?? '';
+      const keys = [...objects.keys()].filter((k) => k.startsWith(prefix));
+      keys.sort();
+      const start = Number(params.get('continuation-token') ?? 0);
+      const page = keys.slice(start, start + pageSize);
+      const truncated = start + pageSize < keys.length;
+      return xmlResponse(
+        200,
+        '<ListBucketResult>' +
+          page
+            .map(
+              (k) =>
+                `<Contents><Key>${escapeXml(k)}</Key><Size>${objects.get(k)!.body.length}</Size></Contents>`,
+            )
+            .join('') +
+          `<IsTruncated>${truncated}</IsTruncated>` +
+          (truncated ? `<NextContinuationToken>${start + pageSize}</NextContinuationToken>` : '') +
+          '</ListBucketResult>',
+      );
+    }
+
+    const uploadId = params.get('uploadId');
+    if (method === 'POST' && params.has('uploads')) {
+      const id = String(nextUpload++);
+      uploads.set(id, { key, metadata: amzMetadata(headers), parts: new Map() });
+      return xmlResponse(
+        200,
+        `<InitiateMultipartUploadResult><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`,
+      );
+    }
+    if (uploadId) {
+      const upload = uploads.get(uploadId);
+      if (!upload) return s3Error(404, 'NoSuchUpload');
+      if (method === 'PUT') {
+        const partNumber = Number(params.get('partNumber'));
+        upload.parts.set(partNumber, body);
+        return new Response(null, { status: 200, headers: { etag: `"part-${partNumber}"` } });
+      }
+      if (method === 'DELETE') {
+        uploads.delete(uploadId);
+        return new Response(null, { status: 204 });
+      }
+      const numbers = [...new TextDecoder().decode(body).matchAll(/<PartNumber>(\d+)</g)].map((m) =>
+        Number(m[1]),
+      );
+      const chunks = numbers.map((n) => upload.parts.get(n)!);
+      const joined = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        joined.set(chunk, offset);
+        offset += chunk.length;
+      }
+      objects.set(upload.key, { body: joined, metadata: upload.metadata });
+      uploads.delete(uploadId);
+      return xmlResponse(200, '<CompleteMultipartUploadResult></CompleteMultipartUploadResult>');
+    }
+
+    if (method === 'PUT') {
+      objects.set(key, { body, metadata: amzMetadata(headers) });
+      return new Response(null, { status: 200, headers: { etag: '"etag"' } });
+    }
+    if (method === 'DELETE') {
+      objects.delete(key);
+      return new Response(null, { status: 204 });
+    }
+    const obj = objects.get(key);
+    if (!obj) {
+      return method === 'HEAD' ? new Response(null, { status: 404 }) : s3Error(404, 'NoSuchKey');
+    }
+    const responseHeaders = new Headers({ 'content-length': String(obj.body.length) });
+    for (const [name, value] of Object.entries(obj.metadata)) {
+      responseHeaders.set(`x-amz-meta-${name}`, value);
+    }
+    return new Response(method === 'HEAD' ? null : (obj.body.slice() as Uint8Array<ArrayBuffer>), {
+      status: 200,
+      headers: responseHeaders,
+    });
+  };
+
+  return { fetch: vi.fn(handle), objects, uploads };
+}
@@ -1,52 +1,20 @@
 import type { Sandbox } from '@cloudflare/sandbox';
+import type { GatewayState } from './gateway/gateway-state';
+import type { GatewayTokenRotation } from './gateway/gateway-token';
+import type { WebhookQueue } from './gateway/webhook-queue';
+import type { SettingValues } from './settings';
 
 /**
- * Environment bindings for the Moltbot Worker
+ * Environment bindings for the Moltbot Worker. The string settings (secrets and vars) are defined
+ * in the settings registry.
  */
-export interface MoltbotEnv {
+export interface MoltbotEnv extends SettingValues {
   Sandbox: DurableObjectNamespace<Sandbox>;
+  GATEWAY_STATE?: DurableObjectNamespace<GatewayState>; // Startup state shared across isolates (one DO per tenant)
+  WEBHOOK_QUEUE?: DurableObjectNamespace<WebhookQueue>; // Chat channel webhook queue (one DO per tenant)
   ASSETS: Fetcher; // Assets binding for admin UI static files
   MOLTBOT_BUCKET: R2Bucket; // R2 bucket for persistent storage
-  // Cloudflare AI Gateway configuration (preferred)
-  CF_AI_GATEWAY_ACCOUNT_ID?: string; // Cloudflare account ID for AI Gateway
-  CF_AI_GATEWAY_GATEWAY_ID?: string; // AI Gateway ID
-  CLOUDFLARE_AI_GATEWAY_API_KEY?: string; // API key for requests through the gateway
-  CF_AI_GATEWAY_MODEL?: string; // Override model: "provider/model-id" e.g. "workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast"
-  // Legacy AI Gateway configuration (still supported for backward compat)
-  AI_GATEWAY_API_KEY?: string; // API key for the provider configured in AI Gateway
-  AI_GATEWAY_BASE_URL?: string; // AI Gateway URL (e.g., https://gateway.ai.cloudflare.com/v1/{account_id}/{gateway_id}/anthropic)
-  // Direct provider configuration
-  ANTHROPIC_API_KEY?: string;
-  ANTHROPIC_BASE_URL?: string;
-  OPENAI_API_KEY?: string;
-  MOLTBOT_GATEWAY_TOKEN?: string; // Gateway token (mapped to OPENCLAW_GATEWAY_TOKEN for container)
-  DEV_MODE?: string; // Set to 'true' for local dev (skips CF Access auth + openclaw device pairing)
-  E2E_TEST_MODE?: string; // Set to 'true' for E2E tests (skips CF Access auth but keeps device pairing)
-  DEBUG_ROUTES?: string; // Set to 'true' to enable /debug/* routes
-  SANDBOX_SLEEP_AFTER?: string; // How long before sandbox sleeps: 'never' (default), or duration like '10m', '1h'
-  TELEGRAM_BOT_TOKEN?: string;
-  TELEGRAM_DM_POLICY?: string;
-  DISCORD_BOT_TOKEN?: string;
-  DISCORD_DM_POLICY?: string;
-  SLACK_BOT_TOKEN?: string;
-  SLACK_APP_TOKEN?: string;
-  // Cloudflare Access configuration for admin routes
-  CF_ACCESS_TEAM_DOMAIN?: string; // e.g., 'myteam.cloudflareaccess.com'
-  CF_ACCESS_AUD?: string; // Application Audience (AUD) tag
-  // R2 mount: per official guide use AWS_* as Worker secrets (SDK auto-detects).
-  // Optional R2_* or explicit credentials in mountBucket() as fallback.
-  // https://developers.cloudflare.com/sandbox/tutorials/persistent-storage/
-  AWS_ACCESS_KEY_ID?: string; // R2 API token access key (wrangler secret put AWS_ACCESS_KEY_ID)
-  AWS_SECRET_ACCESS_KEY?: string; // R2 API token secret (wrangler secret put AWS_SECRET_ACCESS_KEY)
-  R2_ACCESS_KEY_ID?: string;
-  R2_SECRET_ACCESS_KEY?: string;
-  R2_BUCKET_NAME?: string; // Override bucket name (default matches wrangler r2_buckets[].bucket_name)
-  CF_ACCOUNT_ID?: string; // Cloudflare account ID for R2 endpoint URL
-  // Browser Rendering binding for CDP shim
-  BROWSER?: Fetcher;
-  CDP_SECRET?: string; // Shared secret for CDP endpoint authentication
-  WORKER_URL?: string; // Public URL of the worker (for CDP endpoint)
-  BACKUP_RESTORE_TOKEN?: string; // Token for /internal/backup (restore from Worker when R2 not mounted)
+  BROWSER?: Fetcher; // Browser Rendering binding for CDP shim
 }
 
 /**
@@ -55,6 +23,8 @@ export interface MoltbotEnv {
 export interface AccessUser {
   email: string;
   name?: string;
+  /** Client ID of a service token, which has no email */
+  clientId?: string;
 }
 
 /**
@@ -64,7 +34,12 @@ export type AppEnv = {
   Bindings: MoltbotEnv;
   Variables: {
     sandbox: Sandbox;
+    tenantId: string;
     accessUser?: AccessUser;
+    /** The env as deployed; c.env has the runtime settings applied */
+    workerEnv: MoltbotEnv;
+    /** Rotation of MOLTBOT_GATEWAY_TOKEN, if one applies; c.env has its current token */
+    tokenRotation: GatewayTokenRotation | null;
   };
 };
 
@@ -80,4 +55,6 @@ export interface JWTPayload {
   name?: string;
   sub: string;
   type: string;
+  /** Client ID of a service token; service token JWTs have no email */
+  common_name?: string;
 }
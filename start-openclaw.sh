@@ -13,9 +13,20 @@ if pgrep -f "openclaw gateway" > /dev/null 2>&1; then
     exit 0
 fi
 
+# Print a startup phase marker; the Worker parses these from stdout to stream progress
+# to the loading page (see src/gateway/progress.ts). Format: [phase] <name> <epoch ms>
+phase() {
+    echo "[phase] $1 $(date +%s%3N)"
+}
+
 CONFIG_DIR="/root/.openclaw"
 CONFIG_FILE="$CONFIG_DIR/openclaw.json"
 BACKUP_DIR="/data/moltbot"
+# File list of the latest sync (see src/gateway/blob-store.ts)
+SYNC_MANIFEST="$BACKUP_DIR/sync/manifest"
+# Written when the backup could not be restored; syncs are paused while it exists so the R2
+# backup isn't replaced by a fresh start (RESTORE_FAILED_PATH in src/gateway/sync-binding.ts)
+RESTORE_FAILED_FILE="/root/.moltbot-restore-failed"
 
 echo "Config directory: $CONFIG_DIR"
 echo "Backup directory: $BACKUP_DIR"
@@ -25,9 +36,12 @@ mkdir -p "$CONFIG_DIR"
 # ============================================================
 # RESTORE FROM R2 BACKUP
 # ============================================================
+phase restore
+rm -f "$RESTORE_FAILED_FILE"
 
+# Usage: should_restore_from_r2 [r2_sync_file] (defaults to the rsync tree's marker)
 should_restore_from_r2() {
-    local R2_SYNC_FILE="$BACKUP_DIR/.last-sync"
+    local R2_SYNC_FILE="${1:-$BACKUP_DIR/.last-sync}"
     local LOCAL_SYNC_FILE="$CONFIG_DIR/.last-sync"
 
     if [ ! -f "$R2_SYNC_FILE" ]; then
@@ -58,13 +72,139 @@ should_restore_from_r2() {
     fi
 }
 
+# Check a backup against the manifest written by the sync (one "<sha256> <size> <path>" line per
+# file, see src/gateway/backup-verify.ts). Backups from before manifests existed have none and
+# are accepted. Prints each missing or changed file and returns 1 if there are any.
+verify_backup_manifest() {
+    local dir="$1"
+    local manifest="$dir/.backup-manifest"
+    if [ ! -f "$manifest" ]; then
+        echo "No manifest in $dir (older backup), skipping verification"
+        return 0
+    fi
+    local bad=0 hash size path
+    while read -r hash size path; do
+        if [ ! -f "$dir/$path" ] || [ "$(stat -c %s "$dir/$path")" != "$size" ] || \
+           [ "$(sha256sum < "$dir/$path" | cut -c1-64)" != "$hash" ]; then
+            echo "Backup file missing or changed: $path"
+            bad=$((bad + 1))
+        fi
+    done < "$manifest"
+    if [ "$bad" -gt 0 ]; then
+        return 1
+    fi
+    echo "Backup matches its manifest ($(wc -l < "$manifest") files)"
+}
+
+# Usage: restore_failed <reason>
+# Start without a backup that can't be downloaded or fails verification: restoring it would
+# bring up a broken config. The marker pauses syncs (each fails with this message) so the
+# backup in R2 isn't replaced by the fresh start. Restoring a snapshot from the admin UI clears
+# the marker, and a restart retries the restore.
+restore_failed() {
+    echo "ERROR: $1, starting without restoring it."
+    echo "Restart the gateway to retry, or restore a known-good snapshot from the admin UI (Backups)."
+    echo "$1 at $(date -Iseconds); restart the gateway or restore a snapshot from the admin UI" > "$RESTORE_FAILED_FILE"
+}
+
+# Restore from the Worker (tar.gz via GET /internal/backup, assembled from the stored blobs). Used
+# when FUSE/mount is unavailable, and always for encrypted backups, which only the Worker can decrypt.
+restore_from_worker() {
+    if [ -n "$WORKER_URL" ] && [ -n "$BACKUP_RESTORE_TOKEN" ]; then
+        # Multi-tenant containers get MOLTBOT_TENANT_ID and a tenant-scoped restore token
+        BACKUP_URL="$WORKER_URL/internal/backup"
+        if [ -n "$MOLTBOT_TENANT_ID" ]; then
+            BACKUP_URL="$BACKUP_URL?tenant=$MOLTBOT_TENANT_ID"
+        fi
+        # Unpack into a staging directory so nothing is replaced unless the manifest matches
+        local staging=/tmp/moltbot-restore
+        local archive=/tmp/moltbot-restore.tar.gz
+        rm -rf "$staging" "$archive" && mkdir -p "$staging"
+        # The Worker assembles the tarball blob by blob, so a large backup can take minutes to
+        # download: only give up when the transfer stalls
+        local status
+        status=$(curl -sS -o "$archive" -w '%{http_code}' --connect-timeout 30 \
+            --speed-limit 1024 --speed-time 120 \
+            -H "X-Backup-Token: $BACKUP_RESTORE_TOKEN" "$BACKUP_URL") || status="${status:-000} (curl exit $?)"
+        if [ "$status" = "404" ]; then
+            rm -rf "$staging" "$archive"
+            echo "No Worker backup yet, starting fresh"
+            return
+        fi
+        if [ "$status" != "200" ] || ! tar xzf "$archive" -C "$staging"; then
+            rm -rf "$staging" "$archive"
+            restore_failed "Backup download from the Worker failed (HTTP $status)"
+            return
+        fi
+        rm -f "$archive"
+        if ! verify_backup_manifest "$staging"; then
+            restore_failed "R2 backup does not match its manifest"
+            rm -rf "$staging"
+            return
+        fi
+        rm -f "$staging/.backup-manifest"
+        cp -a "$staging/." /root/
+        rm -rf "$staging"
+        echo "Restored from Worker backup"
+        mkdir -p "$CONFIG_DIR"
+        date -Iseconds > "$CONFIG_DIR/.last-sync" 2>/dev/null || true
+    else
+        echo "Starting fresh (set WORKER_URL + BACKUP_RESTORE_TOKEN for binding restore)"
+    fi
+}
+
+# Restore from the content-addressed store on the mount: the sync manifest lists
+# "<sha256> <size> <mode> <path>" per file and each file's contents are in blobs/<sha256>.
+# Files are assembled in a staging directory and checked against their hashes before anything
+# in /root is replaced.
+restore_from_blobs() {
+    # Encrypted blobs (e.g. encryption was turned off since) can only be read by the Worker
+    if ! head -c 64 "$SYNC_MANIFEST" | grep -qE '^[0-9a-f]{64}$'; then
+        echo "Backup on the mount is encrypted, restoring through the Worker..."
+        restore_from_worker
+        return
+    fi
+    local staging=/tmp/moltbot-restore
+    rm -rf "$staging" && mkdir -p "$staging"
+    local hash size mode path
+    while read -r hash size mode path; do
+        mkdir -p "$staging/$(dirname "$path")"
+        # A missing blob is reported by the verification below
+        cp "$BACKUP_DIR/blobs/$hash" "$staging/$path" 2>/dev/null && chmod "$mode" "$staging/$path"
+        echo "$hash $size $path" >> "$staging/.backup-manifest"
+    done < "$SYNC_MANIFEST"
+    if ! verify_backup_manifest "$staging"; then
+        restore_failed "R2 backup does not match its manifest"
+        rm -rf "$staging"
+        return
+    fi
+    rm -f "$staging/.backup-manifest"
+    cp -a "$staging/." /root/
+    rm -rf "$staging"
+    cp -f "$BACKUP_DIR/sync/.last-sync" "$CONFIG_DIR/.last-sync" 2>/dev/null || true
+    echo "Restored $(wc -l < "$SYNC_MANIFEST") files from R2 backup"
+}
+
+# Encrypted backups can only be decrypted by the Worker; the mount holds no plaintext copy
+if [ "$BACKUP_ENCRYPTED" = "1" ]; then
+    echo "Backups are encrypted, restoring through the Worker..."
+    restore_from_worker
+elif [ -f "$SYNC_MANIFEST" ]; then
+    if should_restore_from_r2 "$BACKUP_DIR/sync/.last-sync"; then
+        echo "Restoring from R2 backup at $BACKUP_DIR/blobs..."
+        restore_from_blobs
+    fi
 # Check for backup data in new openclaw/ prefix first, then legacy clawdbot/ prefix
-if [ -f "$BACKUP_DIR/openclaw/openclaw.json" ]; then
+elif [ -f "$BACKUP_DIR/openclaw/openclaw.json" ]; then
     if should_restore_from_r2; then
-        echo "Restoring from R2 backup at $BACKUP_DIR/openclaw..."
-        cp -a "$BACKUP_DIR/openclaw/." "$CONFIG_DIR/"
-        cp -f "$BACKUP_DIR/.last-sync" "$CONFIG_DIR/.last-sync" 2>/dev/null || true
-        echo "Restored config from R2 backup"
+        if verify_backup_manifest "$BACKUP_DIR"; then
+            echo "Restoring from R2 backup at $BACKUP_DIR/openclaw..."
+            cp -a "$BACKUP_DIR/openclaw/." "$CONFIG_DIR/"
+            cp -f "$BACKUP_DIR/.last-sync" "$CONFIG_DIR/.last-sync" 2>/dev/null || true
+            echo "Restored config from R2 backup"
+        else
+            restore_failed "R2 backup does not match its manifest"
+        fi
     fi
 elif [ -f "$BACKUP_DIR/clawdbot/clawdbot.json" ]; then
     # Legacy backup format — migrate .clawdbot data into .openclaw
@@ -93,24 +233,13 @@ elif [ -d "$BACKUP_DIR" ]; then
     echo "R2 mounted at $BACKUP_DIR but no backup data found yet"
 else
     echo "R2 not mounted, trying Worker backup restore if configured..."
-    # Restore from Worker (tar.gz via GET /internal/backup) when FUSE/mount unavailable
-    if [ -n "$WORKER_URL" ] && [ -n "$BACKUP_RESTORE_TOKEN" ]; then
-        if curl -sf --max-time 60 -H "X-Backup-Token: $BACKUP_RESTORE_TOKEN" "$WORKER_URL/internal/backup" | tar xz -C /root 2>/dev/null; then
-            echo "Restored from Worker backup (openclaw/backup.tar.gz)"
-            mkdir -p "$CONFIG_DIR"
-            date -Iseconds > "$CONFIG_DIR/.last-sync" 2>/dev/null || true
-        else
-            echo "No Worker backup or restore failed, continuing without restore"
-        fi
-    else
-        echo "R2 not mounted, starting fresh (set WORKER_URL + BACKUP_RESTORE_TOKEN for binding restore)"
-    fi
+    restore_from_worker
 fi
 
-# Restore workspace from R2 backup if available (only if R2 is newer)
-# This includes IDENTITY.md, USER.md, MEMORY.md, memory/, and assets/
+# Restore workspace from the rsync tree of older backups if available (only if R2 is newer and
+# the tree passed verification). This includes IDENTITY.md, USER.md, MEMORY.md, memory/, and assets/
 WORKSPACE_DIR="/root/clawd"
-if [ -d "$BACKUP_DIR/workspace" ] && [ "$(ls -A $BACKUP_DIR/workspace 2>/dev/null)" ]; then
+if [ "$BACKUP_ENCRYPTED" != "1" ] && [ ! -f "$SYNC_MANIFEST" ] && [ ! -f "$RESTORE_FAILED_FILE" ] && [ -d "$BACKUP_DIR/workspace" ] && [ "$(ls -A $BACKUP_DIR/workspace 2>/dev/null)" ]; then
     if should_restore_from_r2; then
         echo "Restoring workspace from $BACKUP_DIR/workspace..."
         mkdir -p "$WORKSPACE_DIR"
@@ -119,9 +248,9 @@ if [ -d "$BACKUP_DIR/workspace" ] && [ "$(ls -A $BACKUP_DIR/workspace 2>/dev/nul
     fi
 fi
 
-# Restore skills from R2 backup if available (only if R2 is newer)
+# Restore skills from the rsync tree of older backups if available (only if R2 is newer)
 SKILLS_DIR="/root/clawd/skills"
-if [ -d "$BACKUP_DIR/skills" ] && [ "$(ls -A $BACKUP_DIR/skills 2>/dev/null)" ]; then
+if [ "$BACKUP_ENCRYPTED" != "1" ] && [ ! -f "$SYNC_MANIFEST" ] && [ ! -f "$RESTORE_FAILED_FILE" ] && [ -d "$BACKUP_DIR/skills" ] && [ "$(ls -A $BACKUP_DIR/skills 2>/dev/null)" ]; then
     if should_restore_from_r2; then
         echo "Restoring skills from $BACKUP_DIR/skills..."
         mkdir -p "$SKILLS_DIR"
@@ -133,6 +262,7 @@ fi
 # ============================================================
 # ONBOARD (only if no config exists yet)
 # ============================================================
+phase onboard
 if [ ! -f "$CONFIG_FILE" ]; then
     echo "No existing config found, running openclaw onboard..."
 
@@ -146,6 +276,14 @@ if [ ! -f "$CONFIG_FILE" ]; then
         AUTH_ARGS="--auth-choice apiKey --anthropic-api-key $ANTHROPIC_API_KEY"
     elif [ -n "$OPENAI_API_KEY" ]; then
         AUTH_ARGS="--auth-choice openai-api-key --openai-api-key $OPENAI_API_KEY"
+    elif [ -n "$GEMINI_API_KEY" ]; then
+        AUTH_ARGS="--auth-choice gemini-api-key --gemini-api-key $GEMINI_API_KEY"
+    elif [ -n "$OPENROUTER_API_KEY" ]; then
+        AUTH_ARGS="--auth-choice openrouter-api-key --openrouter-api-key $OPENROUTER_API_KEY"
+    else
+        # Mistral, Groq and custom OpenAI-compatible endpoints have no onboarding choice; their
+        # provider entries and API keys come from the Worker's config patch below
+        AUTH_ARGS="--auth-choice skip"
     fi
 
     openclaw onboard --non-interactive --accept-risk \
@@ -165,140 +303,48 @@ fi
 # ============================================================
 # PATCH CONFIG (channels, gateway auth, trusted proxies)
 # ============================================================
-# openclaw onboard handles provider/model config, but we need to patch in:
-# - Channel config (Telegram, Discord, Slack)
-# - Gateway token auth
-# - Trusted proxies for sandbox networking
-# - Base URL override for legacy AI Gateway path
-node << 'EOFPATCH'
+phase config_patch
+# openclaw onboard handles provider credentials. The Worker renders everything else it controls
+# (gateway auth, trusted proxies, channels, model providers; see buildConfigPatch in
+# src/gateway/env.ts) as a list of { path, value } operations, followed by the admin config
+# overlay from R2 (src/gateway/config-overlay.ts), applied here in order.
+CONFIG_PATCH="/tmp/openclaw-config-patch.json"
+if [ -f "$CONFIG_PATCH" ]; then
+    node - "$CONFIG_FILE" "$CONFIG_PATCH" << 'EOFPATCH'
 const fs = require('fs');
+const [configPath, patchPath] = process.argv.slice(2);
 
-const configPath = '/root/.openclaw/openclaw.json';
-console.log('Patching config at:', configPath);
 let config = {};
-
 try {
     config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
 } catch (e) {
     console.log('Starting with empty config');
 }
 
-config.gateway = config.gateway || {};
-config.channels = config.channels || {};
-
-// Gateway configuration
-config.gateway.port = 18789;
-config.gateway.mode = 'local';
-config.gateway.trustedProxies = ['10.1.0.0'];
-
-if (process.env.OPENCLAW_GATEWAY_TOKEN) {
-    config.gateway.auth = config.gateway.auth || {};
-    config.gateway.auth.token = process.env.OPENCLAW_GATEWAY_TOKEN;
-}
-
-if (process.env.OPENCLAW_DEV_MODE === 'true') {
-    config.gateway.controlUi = config.gateway.controlUi || {};
-    config.gateway.controlUi.allowInsecureAuth = true;
-}
-
-// Legacy AI Gateway base URL override:
-// ANTHROPIC_BASE_URL is picked up natively by the Anthropic SDK,
-// so we don't need to patch the provider config. Writing a provider
-// entry without a models array breaks OpenClaw's config validation.
-
-// AI Gateway model override (CF_AI_GATEWAY_MODEL=provider/model-id)
-// Adds a provider entry for any AI Gateway provider and sets it as default model.
-// Examples:
-//   workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast
-//   openai/gpt-4o
-//   anthropic/claude-sonnet-4-5
-if (process.env.CF_AI_GATEWAY_MODEL) {
-    const raw = process.env.CF_AI_GATEWAY_MODEL;
-    const slashIdx = raw.indexOf('/');
-    const gwProvider = raw.substring(0, slashIdx);
-    const modelId = raw.substring(slashIdx + 1);
-
-    const accountId = process.env.CF_AI_GATEWAY_ACCOUNT_ID;
-    const gatewayId = process.env.CF_AI_GATEWAY_GATEWAY_ID;
-    const apiKey = process.env.CLOUDFLARE_AI_GATEWAY_API_KEY;
-
-    let baseUrl;
-    if (accountId && gatewayId) {
-        baseUrl = 'https://gateway.ai.cloudflare.com/v1/' + accountId + '/' + gatewayId + '/' + gwProvider;
-        if (gwProvider === 'workers-ai') baseUrl += '/v1';
-    } else if (gwProvider === 'workers-ai' && process.env.CF_ACCOUNT_ID) {
-        baseUrl = 'https://api.cloudflare.com/client/v4/accounts/' + process.env.CF_ACCOUNT_ID + '/ai/v1';
-    }
-
-    if (baseUrl && apiKey) {
-        const api = gwProvider === 'anthropic' ? 'anthropic-messages' : 'openai-completions';
-        const providerName = 'cf-ai-gw-' + gwProvider;
-
-        config.models = config.models || {};
-        config.models.providers = config.models.providers || {};
-        config.models.providers[providerName] = {
-            baseUrl: baseUrl,
-            apiKey: apiKey,
-            api: api,
-            models: [{ id: modelId, name: modelId, contextWindow: 131072, maxTokens: 8192 }],
-        };
-        config.agents = config.agents || {};
-        config.agents.defaults = config.agents.defaults || {};
-        config.agents.defaults.model = { primary: providerName + '/' + modelId };
-        console.log('AI Gateway model override: provider=' + providerName + ' model=' + modelId + ' via ' + baseUrl);
-    } else {
-        console.warn('CF_AI_GATEWAY_MODEL set but missing required config (account ID, gateway ID, or API key)');
+// Same as applyConfigPatch in src/gateway/env.ts
+for (const { path, value } of JSON.parse(fs.readFileSync(patchPath, 'utf8'))) {
+    let target = config;
+    for (const key of path.slice(0, -1)) {
+        if (typeof target[key] !== 'object' || target[key] === null || Array.isArray(target[key])) {
+            target[key] = {};
+        }
+        target = target[key];
     }
-}
-
-// Telegram configuration
-// Overwrite entire channel object to drop stale keys from old R2 backups
-// that would fail OpenClaw's strict config validation (see #47)
-if (process.env.TELEGRAM_BOT_TOKEN) {
-    const dmPolicy = process.env.TELEGRAM_DM_POLICY || 'pairing';
-    config.channels.telegram = {
-        botToken: process.env.TELEGRAM_BOT_TOKEN,
-        enabled: true,
-        dmPolicy: dmPolicy,
-    };
-    if (process.env.TELEGRAM_DM_ALLOW_FROM) {
-        config.channels.telegram.allowFrom = process.env.TELEGRAM_DM_ALLOW_FROM.split(',');
-    } else if (dmPolicy === 'open') {
-        config.channels.telegram.allowFrom = ['*'];
-    }
-}
-
-// Discord configuration
-// Discord uses a nested dm object: dm.policy, dm.allowFrom (per DiscordDmConfig)
-if (process.env.DISCORD_BOT_TOKEN) {
-    const dmPolicy = process.env.DISCORD_DM_POLICY || 'pairing';
-    const dm = { policy: dmPolicy };
-    if (dmPolicy === 'open') {
-        dm.allowFrom = ['*'];
-    }
-    config.channels.discord = {
-        token: process.env.DISCORD_BOT_TOKEN,
-        enabled: true,
-        dm: dm,
-    };
-}
-
-// Slack configuration
-if (process.env.SLACK_BOT_TOKEN && process.env.SLACK_APP_TOKEN) {
-    config.channels.slack = {
-        botToken: process.env.SLACK_BOT_TOKEN,
-        appToken: process.env.SLACK_APP_TOKEN,
-        enabled: true,
-    };
+    target[path[path.length - 1]] = value;
 }
 
 fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
 console.log('Configuration patched successfully');
 EOFPATCH
+    rm -f "$CONFIG_PATCH"
+else
+    echo "No config patch from the Worker, using config as is"
+fi
 
 # ============================================================
 # START GATEWAY
 # ============================================================
+phase gateway_start
 echo "Starting OpenClaw Gateway..."
 echo "Gateway will be available on port 18789"
 